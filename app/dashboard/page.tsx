@@ -13,10 +13,13 @@
 
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { toast } from 'sonner';
+import { BackupDialog } from '@/components/BackupDialog';
+import { ExpenseReportDialog } from '@/components/ExpenseReportDialog';
+import { GroupSettingsDrawer } from '@/components/GroupSettingsDrawer';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -34,26 +37,50 @@ import {
   Eye,
   Settings,
   Folder,
-  Edit2
+  Edit2,
+  FileSpreadsheet,
+  Archive,
+  Mail
 } from 'lucide-react';
 import {
-  createGroup,
-  deleteGroup,
-  leaveGroup,
-  listGroups,
-  updateGroupMemberRole,
   createFolder,
-  listFolders,
-  deleteFolder,
   updateFolder,
-  moveReceipt,
-  getReceipt
+  getReceipt,
+  isAbortError
 } from '@/lib/api';
-import type { Group, Folder as FolderType } from '@/types';
+import { queryCache } from '@/lib/query-cache';
+import { mutations, queryKeys, useFolders, useGroups, useInvitations } from '@/lib/queries';
+import { isOpenInvitation } from '@/lib/invitations';
+import { syncQueue, useOnlineStatus, useSyncQueue, withPendingMoves } from '@/lib/sync-queue';
+import { isReceiptProcessed, jobTracker, useProcessingJobs } from '@/lib/job-tracker';
+import { useReceiptEvents } from '@/lib/receipt-events';
+import type { Group, Folder as FolderType, Receipt } from '@/types';
 import './dashboard.css';
 
+type StatusBadge = { label: string; color: string };
+
+const NO_GROUPS: Group[] = [];
+const NO_FOLDERS: FolderType[] = [];
+
+const PROCESSING_BADGE: StatusBadge = { label: 'Processing', color: 'bg-yellow-500' };
+const SPLIT_BADGE: StatusBadge = { label: 'Split', color: 'bg-purple-500' };
+
+function getReceiptStatusBadge(receipt: Receipt): StatusBadge {
+  if (receipt.split_details && Object.keys(receipt.split_details).length > 0) {
+    return SPLIT_BADGE;
+  }
+  if (receipt.items_analysis) {
+    return { label: 'Parsed', color: 'bg-blue-500' };
+  }
+  if (receipt.status === 'pending' || receipt.status === 'processing') {
+    return PROCESSING_BADGE;
+  }
+  return { label: 'Uploaded', color: 'bg-green-500' };
+}
+
 function DashboardContent() {
   const { user, logout } = useAuth();
+  const online = useOnlineStatus();
   const router = useRouter();
   const searchParams = useSearchParams();
 
@@ -61,15 +88,30 @@ function DashboardContent() {
   const folderParam = searchParams.get('folder') || 'all';
   const searchParam = searchParams.get('search') || '';
 
-  const [groups, setGroups] = useState<Group[]>([]);
-  const [groupsLoading, setGroupsLoading] = useState(false);
-  const [groupsError, setGroupsError] = useState<string | null>(null);
+  const groupsQuery = useGroups();
+  const pendingChanges = useSyncQueue();
+  // Moves made offline stay in place until they sync
+  const groups = useMemo(
+    () => withPendingMoves(groupsQuery.data ?? NO_GROUPS, pendingChanges),
+    [groupsQuery.data, pendingChanges]
+  );
+  const groupsLoading = groupsQuery.isLoading;
+  const [actionError, setActionError] = useState<string | null>(null);
+  const groupsError = actionError ?? groupsQuery.error?.message ?? null;
   const [selectedFolderId, setSelectedFolderId] = useState<string>(folderParam);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showFolderModal, setShowFolderModal] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [settingsGroupId, setSettingsGroupId] = useState<string | null>(null);
+  const settingsGroup = groups.find((group) => group.id === settingsGroupId) ?? null;
+
+  const { data: invitations } = useInvitations();
+  const openInvitations = invitations?.filter((invitation) => isOpenInvitation(invitation)).length ?? 0;
 
-  const [folders, setFolders] = useState<FolderType[]>([]);
-  const [foldersLoading, setFoldersLoading] = useState(false);
+  const foldersQuery = useFolders();
+  const folders = foldersQuery.data ?? NO_FOLDERS;
+  const foldersLoading = foldersQuery.isLoading;
 
   const [groupName, setGroupName] = useState('');
   const [groupDescription, setGroupDescription] = useState('');
@@ -85,7 +127,10 @@ function DashboardContent() {
   const [searchTerm, setSearchTerm] = useState('');
   const [draggedReceiptId, setDraggedReceiptId] = useState<string | null>(null);
   const [dragOverFolderId, setDragOverFolderId] = useState<string | null>(null);
-  const [receiptStatuses, setReceiptStatuses] = useState<Record<string, { label: string; color: string }>>({});
+  const [receiptStatuses, setReceiptStatuses] = useState<Record<string, StatusBadge>>({});
+  const processingJobs = useProcessingJobs();
+  // Latest receipt id whose status is already loaded, per group
+  const loadedReceiptIds = useRef<Record<string, string>>({});
 
   const folderColors = [
     '#8B5CF6', '#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#6366F1',
@@ -97,36 +142,7 @@ function DashboardContent() {
     router.push('/login');
   };
 
-  const loadGroups = async () => {
-    setGroupsLoading(true);
-    setGroupsError(null);
-
-    try {
-      const data = await listGroups();
-      setGroups(data);
-    } catch (err) {
-      setGroupsError(err instanceof Error ? err.message : 'Failed to load receipts');
-    } finally {
-      setGroupsLoading(false);
-    }
-  };
-
-  const loadFolders = async () => {
-    setFoldersLoading(true);
-    try {
-      const data = await listFolders();
-      setFolders(data);
-    } catch (err) {
-      console.error('Failed to load folders:', err);
-    } finally {
-      setFoldersLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadGroups();
-    loadFolders();
-  }, []);
+  const loadFolders = () => queryCache.invalidate(queryKeys.folders);
 
   // Sync state with URL parameters when they change
   useEffect(() => {
@@ -184,13 +200,11 @@ function DashboardContent() {
       if (receiptFolderId) {
         payload.folder_id = receiptFolderId;
       }
-      const createdReceipt = await createGroup(payload);
+      const createdReceipt = await mutations.createGroup(payload);
       setGroupName('');
       setGroupDescription('');
       setReceiptFolderId(null);
       setShowCreateModal(false);
-      await loadGroups();
-      await loadFolders();
 
       // Show success toast with folder info
       if (receiptFolderId) {
@@ -246,13 +260,12 @@ function DashboardContent() {
     if (!confirm('Are you sure you want to delete this receipt? This action cannot be undone.')) return;
     try {
       const receipt = groups.find(g => g.id === groupId);
-      await deleteGroup(groupId);
-      await loadGroups();
-      await loadFolders();
+      setActionError(null);
+      await mutations.deleteGroup(groupId);
       toast.success(`Receipt "${receipt?.name}" deleted`);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to delete receipt';
-      setGroupsError(errorMsg);
+      setActionError(errorMsg);
       toast.error(errorMsg);
     }
   };
@@ -261,29 +274,19 @@ function DashboardContent() {
     if (!confirm('Are you sure you want to delete this folder? Receipts will not be deleted.')) return;
     try {
       const folder = folders.find(f => f.id === folderId);
-      await deleteFolder(folderId);
       if (selectedFolderId === folderId) {
         navigateToFolder('all');
       }
-      await loadFolders();
-      await loadGroups();
+      setActionError(null);
+      await mutations.deleteFolder(folderId);
       toast.success(`Folder "${folder?.name}" deleted`);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to delete folder';
-      setGroupsError(errorMsg);
+      setActionError(errorMsg);
       toast.error(errorMsg);
     }
   };
 
-  const handleMakeAdmin = async (groupId: string, memberEmail: string) => {
-    try {
-      await updateGroupMemberRole(groupId, memberEmail, 'admin');
-      await loadGroups();
-    } catch (err) {
-      setGroupsError(err instanceof Error ? err.message : 'Failed to update member role');
-    }
-  };
-
   const isUserAdmin = (group: Group) => {
     const userMember = group.members.find(m => m.email === user?.email);
     return userMember?.role === 'admin';
@@ -341,26 +344,27 @@ function DashboardContent() {
       return;
     }
 
+    setDraggedReceiptId(null);
+    setActionError(null);
+
     try {
-      await moveReceipt(draggedReceiptId, folderId);
-      await loadGroups();
-      await loadFolders();
+      // Moves the card right away; rolled back if the request fails
+      const outcome = await syncQueue.submit({ kind: 'moveReceipt', groupId: draggedReceiptId, folderId });
+      const syncNote = outcome === 'queued' ? ` (will sync ${online ? 'shortly' : 'when you are back online'})` : '';
 
       // Show success toast with folder name
       if (folderId) {
         const targetFolder = folders.find(f => f.id === folderId);
         const folderName = targetFolder?.name || 'folder';
-        toast.success(`Moved "${draggedReceipt?.name}" to ${folderName}`);
+        toast.success(`Moved "${draggedReceipt?.name}" to ${folderName}${syncNote}`);
       } else {
-        toast.success(`Moved "${draggedReceipt?.name}" to Uncategorized`);
+        toast.success(`Moved "${draggedReceipt?.name}" to Uncategorized${syncNote}`);
       }
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : 'Failed to move receipt';
-      setGroupsError(errorMsg);
+      setActionError(errorMsg);
       toast.error(errorMsg);
     }
-
-    setDraggedReceiptId(null);
   };
 
   const filteredGroups = useMemo(() => {
@@ -411,11 +415,20 @@ function DashboardContent() {
     return rotations[index % rotations.length];
   };
 
-  const getReceiptStatus = (group: Group): { label: string; color: string } => {
+  const getReceiptStatus = (group: Group): StatusBadge => {
     // Check if group has any receipts
     if (!group.receipt_ids || group.receipt_ids.length === 0) {
       return { label: 'Empty', color: 'bg-gray-400' };
     }
+
+    // Live state from the job tracker wins over the last fetched status
+    const job = processingJobs[group.receipt_ids[group.receipt_ids.length - 1]];
+    if (job?.status === 'processing') {
+      return PROCESSING_BADGE;
+    }
+    if (job?.status === 'completed' && job.receipt) {
+      return getReceiptStatusBadge(job.receipt);
+    }
     
     // Check if we have cached status for this group
     if (receiptStatuses[group.id]) {
@@ -426,59 +439,77 @@ function DashboardContent() {
     return { label: 'Loading', color: 'bg-gray-300' };
   };
 
-  // Load receipt statuses for all groups with receipts
+  // Resume jobs started on the upload page (or before a reload)
   useEffect(() => {
-    const loadReceiptStatuses = async () => {
-      const statusMap: Record<string, { label: string; color: string }> = {};
-      let hasProcessing = false;
-      
-      for (const group of groups) {
-        if (group.receipt_ids && group.receipt_ids.length > 0) {
-          try {
-            // Get the latest receipt for this group
-            const latestReceiptId = group.receipt_ids[group.receipt_ids.length - 1];
-            const receipt = await getReceipt(latestReceiptId);
-            
-            // Determine status based on receipt data
-            if (receipt.split_details && Object.keys(receipt.split_details).length > 0) {
-              statusMap[group.id] = { label: 'Split', color: 'bg-purple-500' };
-            } else if (receipt.items_analysis && receipt.charges_analysis) {
-              statusMap[group.id] = { label: 'Parsed', color: 'bg-blue-500' };
-            } else if (receipt.items_analysis) {
-              statusMap[group.id] = { label: 'Parsed', color: 'bg-blue-500' };
-            } else if (receipt.status === 'pending' || receipt.status === 'processing') {
-              statusMap[group.id] = { label: 'Processing', color: 'bg-yellow-500' };
-              hasProcessing = true;
-            } else {
-              statusMap[group.id] = { label: 'Uploaded', color: 'bg-green-500' };
-              hasProcessing = true;
-            }
-          } catch (error) {
-            console.error(`Failed to load receipt status for group ${group.id}:`, error);
-            statusMap[group.id] = { label: 'Unknown', color: 'bg-gray-400' };
-          }
+    jobTracker.resume();
+  }, []);
+
+  // Load the status of each group's latest receipt once. Later changes
+  // arrive through receipt events, and receipts that are still processing
+  // are handed to the job tracker instead of polled here.
+  useEffect(() => {
+    const controller = new AbortController();
+
+    // Each badge is shown as soon as its receipt loads, so an abort keeps the ones already in
+    const loadReceiptStatus = async (group: Group) => {
+      if (!group.receipt_ids || group.receipt_ids.length === 0) return;
+      // Get the latest receipt for this group
+      const latestReceiptId = group.receipt_ids[group.receipt_ids.length - 1];
+      if (loadedReceiptIds.current[group.id] === latestReceiptId) return;
+
+      let badge: StatusBadge;
+      try {
+        const receipt = await getReceipt(latestReceiptId, { signal: controller.signal });
+        badge = getReceiptStatusBadge(receipt);
+        loadedReceiptIds.current[group.id] = latestReceiptId;
+        if (receipt.status === 'pending' || receipt.status === 'processing') {
+          jobTracker.track(latestReceiptId, { groupId: group.id });
         }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error(`Failed to load receipt status for group ${group.id}:`, error);
+        badge = { label: 'Unknown', color: 'bg-gray-400' };
       }
-      
-      setReceiptStatuses(statusMap);
-      return hasProcessing;
+      setReceiptStatuses(prev => ({ ...prev, [group.id]: badge }));
     };
 
+    const loadReceiptStatuses = () => Promise.all(groups.map(loadReceiptStatus));
+
     if (groups.length > 0) {
       loadReceiptStatuses();
-      
-      // Poll every 10 seconds to refresh statuses for processing receipts
-      const interval = setInterval(async () => {
-        const shouldContinue = await loadReceiptStatuses();
-        if (!shouldContinue) {
-          clearInterval(interval);
-        }
-      }, 10000);
-      
-      return () => clearInterval(interval);
     }
+    return () => controller.abort();
   }, [groups]);
 
+  const isLatestReceipt = (groupId: string | undefined, receiptId: string) => {
+    const receiptIds = groups.find(g => g.id === groupId)?.receipt_ids;
+    return !!receiptIds && receiptIds[receiptIds.length - 1] === receiptId;
+  };
+
+  useReceiptEvents((event) => {
+    if (event.type === 'receipt.added') {
+      queryCache.setQueryData<Group[]>(queryKeys.groups, (prev = []) => prev.map(g =>
+        g.id === event.group_id && !g.receipt_ids?.includes(event.receipt_id)
+          ? { ...g, receipt_ids: [...(g.receipt_ids ?? []), event.receipt_id] }
+          : g
+      ));
+      if (event.receipt) {
+        loadedReceiptIds.current[event.group_id] = event.receipt_id;
+        setReceiptStatuses(prev => ({ ...prev, [event.group_id]: getReceiptStatusBadge(event.receipt!) }));
+        if (!isReceiptProcessed(event.receipt)) {
+          jobTracker.track(event.receipt_id, { groupId: event.group_id });
+        }
+      }
+    } else if (event.type === 'receipt.status') {
+      jobTracker.refresh(event.receipt_id);
+      if (event.receipt && event.group_id && isLatestReceipt(event.group_id, event.receipt_id)) {
+        setReceiptStatuses(prev => ({ ...prev, [event.group_id!]: getReceiptStatusBadge(event.receipt!) }));
+      }
+    } else if (event.type === 'split.updated' && event.group_id && isLatestReceipt(event.group_id, event.receipt_id)) {
+      setReceiptStatuses(prev => ({ ...prev, [event.group_id!]: SPLIT_BADGE }));
+    }
+  }, { groupIds: groups.map(g => g.id), enabled: groups.length > 0 });
+
   const getCurrentViewTitle = () => {
     if (selectedFolderId === 'all') return 'All Receipts';
     if (selectedFolderId === 'uncategorized') return 'Uncategorized';
@@ -515,6 +546,11 @@ function DashboardContent() {
             <Clock className="nav-icon" />
             <span>Uncategorized</span>
           </div>
+          <div className="nav-item" onClick={() => router.push('/invitations')}>
+            <Mail className="nav-icon" />
+            <span>Invitations</span>
+            {openInvitations > 0 && <span className="group-count ml-auto">{openInvitations}</span>}
+          </div>
 
         </nav>
 
@@ -601,6 +637,14 @@ function DashboardContent() {
               />
             </div>
 
+            <Button variant="outline" onClick={() => setShowReport(true)}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Report
+            </Button>
+            <Button variant="outline" onClick={() => setShowBackup(true)}>
+              <Archive className="w-4 h-4 mr-2" />
+              Backup
+            </Button>
             <Button onClick={handleOpenCreateModal}>
               <Plus className="w-4 h-4 mr-2" />
               New Receipt
@@ -712,7 +756,7 @@ function DashboardContent() {
                     >
                       <Eye />
                     </button>
-                    <button className="action-btn" title="Settings">
+                    <button className="action-btn" title="Settings" onClick={() => setSettingsGroupId(group.id)}>
                       <Settings />
                     </button>
                     {isUserAdmin(group) && (
@@ -823,6 +867,30 @@ function DashboardContent() {
         </div>
       )}
 
+      {showReport && (
+        <ExpenseReportDialog
+          groups={groups}
+          folders={folders}
+          initialScope={
+            selectedFolderId === 'all'
+              ? { kind: 'all' }
+              : { kind: 'folder', folderId: selectedFolderId === 'uncategorized' ? null : selectedFolderId }
+          }
+          onClose={() => setShowReport(false)}
+        />
+      )}
+
+      {showBackup && <BackupDialog groups={groups} folders={folders} onClose={() => setShowBackup(false)} />}
+
+      {settingsGroup && (
+        <GroupSettingsDrawer
+          key={settingsGroup.id}
+          group={settingsGroup}
+          folders={folders}
+          onClose={() => setSettingsGroupId(null)}
+        />
+      )}
+
       {/* Create Folder Modal */}
       {showFolderModal && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center" onClick={() => setShowFolderModal(false)}>
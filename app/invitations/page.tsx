@@ -0,0 +1,119 @@
+/**
+ * Invitations Page
+ *
+ * Inbox of group invitations sent to the signed-in user's email: accept or
+ * decline open ones, and see the ones already answered or expired.
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardContent } from '@/components/ui/card';
+import { describeExpiry, INVITATION_STATUS_LABELS, invitationStatus, isOpenInvitation } from '@/lib/invitations';
+import { mutations, useInvitations } from '@/lib/queries';
+import type { GroupInvitation } from '@/types';
+
+const NO_INVITATIONS: GroupInvitation[] = [];
+
+function InvitationsContent() {
+  const router = useRouter();
+  const invitationsQuery = useInvitations();
+  const invitations = invitationsQuery.data ?? NO_INVITATIONS;
+  const open = invitations.filter((invitation) => isOpenInvitation(invitation));
+  const past = invitations.filter((invitation) => !isOpenInvitation(invitation));
+
+  const handleRespond = async (invitation: GroupInvitation, response: 'accept' | 'decline') => {
+    try {
+      await mutations.respondToInvitation(invitation.id, response);
+      if (response === 'accept') {
+        toast.success(`You joined ${invitation.group_name}`, {
+          action: { label: 'Open', onClick: () => router.push(`/upload?groupId=${invitation.group_id}`) },
+        });
+      } else {
+        toast.success(`Declined the invitation to ${invitation.group_name}`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to answer the invitation');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Invitations</h1>
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            Back to Dashboard
+          </Button>
+        </div>
+
+        {invitationsQuery.error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {invitationsQuery.error.message}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader className="pb-3">
+            <h2 className="text-lg font-semibold">Waiting for you</h2>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {invitationsQuery.isLoading && <p className="text-gray-500">Loading invitations…</p>}
+            {!invitationsQuery.isLoading && open.length === 0 && (
+              <p className="text-gray-500">No open invitations.</p>
+            )}
+            {open.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex flex-wrap items-center justify-between gap-3 p-4 bg-white border border-gray-200 rounded-lg"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{invitation.group_name}</p>
+                  <p className="text-sm text-gray-500">
+                    {invitation.invited_by} invited you as {invitation.role === 'admin' ? 'an admin' : 'a member'} ·{' '}
+                    {describeExpiry(invitation)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => handleRespond(invitation, 'decline')}>
+                    Decline
+                  </Button>
+                  <Button onClick={() => handleRespond(invitation, 'accept')}>Accept</Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {past.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <h2 className="text-lg font-semibold">Earlier</h2>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {past.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">
+                    {invitation.group_name} <span className="text-gray-400">from {invitation.invited_by}</span>
+                  </span>
+                  <span className="text-gray-500">{INVITATION_STATUS_LABELS[invitationStatus(invitation)]}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function InvitationsPage() {
+  return (
+    <ProtectedRoute>
+      <InvitationsContent />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Invite Link Page
+ *
+ * Landing page for shared invite links (/invite/[code]). Shows which group
+ * the link is for; signed-in users join with one click, everyone else
+ * signs up or logs in first and the code is accepted on the way back.
+ */
+
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardContent, CardFooter, CardTitle, CardDescription } from '@/components/ui/card';
+import { getInvitationByCode } from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { describeExpiry, INVITATION_STATUS_LABELS, invitationStatus, rememberInviteCode } from '@/lib/invitations';
+import { useQuery } from '@/lib/query-cache';
+import { mutations, queryKeys, useGroups } from '@/lib/queries';
+
+export default function InvitePage() {
+  const router = useRouter();
+  const { code } = useParams<{ code: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const [joining, setJoining] = useState(false);
+
+  const invitationQuery = useQuery([...queryKeys.invitations, 'code', code], ({ signal }) =>
+    getInvitationByCode(code, { signal })
+  );
+  const { data: groups } = useGroups({ enabled: !!user });
+  const invitation = invitationQuery.data;
+  const status = invitation ? invitationStatus(invitation) : null;
+  const alreadyMember = !!invitation && !!groups?.some((group) => group.id === invitation.group_id);
+
+  const handleJoin = async () => {
+    if (!invitation) return;
+    setJoining(true);
+    try {
+      await mutations.acceptInvitationCode(code);
+      toast.success(`You joined ${invitation.group_name}`);
+      router.push(`/upload?groupId=${invitation.group_id}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to join the group');
+      setJoining(false);
+    }
+  };
+
+  const continueTo = (path: '/signup' | '/login') => {
+    rememberInviteCode(code);
+    router.push(path);
+  };
+
+  const renderFooter = () => {
+    if (!invitation || authLoading) return null;
+    if (status !== 'pending' && !alreadyMember) {
+      return (
+        <Button variant="outline" className="w-full" onClick={() => router.push('/')}>
+          Go to Kvitta
+        </Button>
+      );
+    }
+    if (!user) {
+      return (
+        <div className="flex w-full gap-3">
+          <Button className="flex-1" onClick={() => continueTo('/signup')}>
+            Sign up to join
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={() => continueTo('/login')}>
+            Log in
+          </Button>
+        </div>
+      );
+    }
+    if (alreadyMember) {
+      return (
+        <Button className="w-full" onClick={() => router.push(`/upload?groupId=${invitation.group_id}`)}>
+          Open group
+        </Button>
+      );
+    }
+    return (
+      <div className="flex w-full gap-3">
+        <Button variant="outline" className="flex-1" onClick={() => router.push('/dashboard')}>
+          Not now
+        </Button>
+        <Button className="flex-1" onClick={handleJoin} isLoading={joining}>
+          Join group
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-blue-50 to-white px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">{invitation ? invitation.group_name : 'Group invitation'}</CardTitle>
+          <CardDescription>
+            {invitation
+              ? `${invitation.invited_by} invited you to split expenses as ${invitation.role === 'admin' ? 'an admin' : 'a member'}.`
+              : 'Checking your invite link…'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {invitationQuery.error && (
+            <div className="text-destructive bg-destructive/10 p-3 rounded-md">
+              This invite link is not valid. Ask for a new one.
+            </div>
+          )}
+          {invitation && alreadyMember && <p className="text-muted-foreground">You are already a member of this group.</p>}
+          {invitation && !alreadyMember && status === 'pending' && (
+            <p className="text-muted-foreground">{describeExpiry(invitation)}</p>
+          )}
+          {invitation && !alreadyMember && status && status !== 'pending' && (
+            <p className="text-destructive">
+              This invitation is {INVITATION_STATUS_LABELS[status].toLowerCase()}. Ask for a new one.
+            </p>
+          )}
+        </CardContent>
+        <CardFooter>{renderFooter()}</CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Providers } from "@/components/Providers";
 import "./globals.css";
@@ -33,6 +33,18 @@ export const metadata: Metadata = {
     description: "AI-powered receipt extraction and bill splitting",
     siteName: "Kvitta",
   },
+  appleWebApp: {
+    capable: true,
+    title: "Kvitta",
+    statusBarStyle: "default",
+  },
+  icons: {
+    apple: "/icons/icon.svg",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: "#6366F1",
 };
 
 export default function RootLayout({
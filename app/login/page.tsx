@@ -11,6 +11,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
+import { takeInviteCode } from '@/lib/invitations';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -34,7 +35,9 @@ export default function LoginPage() {
 
     try {
       await login(email, password, rememberMe);
-      router.push('/dashboard');
+      // Back to the invite link that sent the user here
+      const inviteCode = takeInviteCode();
+      router.push(inviteCode ? `/invite/${encodeURIComponent(inviteCode)}` : '/dashboard');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
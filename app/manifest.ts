@@ -0,0 +1,25 @@
+import type { MetadataRoute } from 'next';
+
+/**
+ * Web App Manifest
+ *
+ * Lets Kvitta be installed to the home screen. Next.js serves this at
+ * /manifest.webmanifest and links it from every page.
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Kvitta - Smart Receipt Processing',
+    short_name: 'Kvitta',
+    description: 'Photograph receipts and split them with your group',
+    start_url: '/dashboard',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#ffffff',
+    theme_color: '#6366F1',
+    icons: [
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icons/maskable.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+    ],
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Settle Up Page
+ *
+ * Group-wide ledger: who paid each receipt, every member's net balance
+ * across all split receipts, and the transfers that settle the group.
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
+import { ArrowRight } from 'lucide-react';
+import { ProtectedRoute } from '@/components/ProtectedRoute';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardContent } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { setReceiptPayments, updateGroup } from '@/lib/api';
+import { queryCache } from '@/lib/query-cache';
+import { queryKeys, useGroupReceipts, useGroups } from '@/lib/queries';
+import { computeGroupLedger, getReceiptPayments, getReceiptTotal } from '@/lib/settlement';
+import { formatMoney, getGroupCurrency, getReceiptCurrency, SUPPORTED_CURRENCIES } from '@/lib/currency';
+import type { Group, Receipt } from '@/types';
+
+const NO_GROUPS: Group[] = [];
+const NO_RECEIPTS: Receipt[] = [];
+
+function SettleContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const selectedGroupId = searchParams.get('groupId') || '';
+
+  const groupsQuery = useGroups();
+  const receiptsQuery = useGroupReceipts(selectedGroupId);
+  const groups = groupsQuery.data ?? NO_GROUPS;
+  const receipts = receiptsQuery.data ?? NO_RECEIPTS;
+  const loading = groupsQuery.isLoading;
+  const receiptsLoading = receiptsQuery.isLoading;
+  const error = (groupsQuery.error ?? receiptsQuery.error)?.message ?? null;
+
+  const activeGroup = groups.find(g => g.id === selectedGroupId);
+  const memberEmails = useMemo(
+    () => activeGroup?.members.map(m => m.email) ?? [],
+    [activeGroup]
+  );
+
+  const baseCurrency = getGroupCurrency(activeGroup);
+
+  const ledger = useMemo(
+    () => computeGroupLedger(receipts, memberEmails, baseCurrency),
+    [receipts, memberEmails, baseCurrency]
+  );
+
+  const handleBaseCurrencyChange = async (currency: string) => {
+    if (!activeGroup) return;
+    try {
+      const updated = await updateGroup(activeGroup.id, { base_currency: currency });
+      queryCache.setQueryData<Group[]>(queryKeys.groups, (prev = []) =>
+        prev.map(g => (g.id === activeGroup.id ? { ...g, ...updated, base_currency: currency } : g))
+      );
+      toast.success(`Settling in ${currency}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update base currency');
+    }
+  };
+
+  const handlePayerChange = async (receipt: Receipt, paidBy: string) => {
+    const payments = paidBy ? [{ email: paidBy, amount: getReceiptTotal(receipt) }] : [];
+    try {
+      const updated = await setReceiptPayments(receipt._id, payments);
+      queryCache.setQueryData<Receipt[]>(queryKeys.groupReceipts(selectedGroupId), (prev = []) =>
+        prev.map(r => (r._id === receipt._id ? { ...r, payments, ...updated } : r))
+      );
+      toast.success('Payer updated');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update payer');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">Settle Up</h1>
+          <Button variant="outline" onClick={() => router.push('/dashboard')}>
+            Back to Dashboard
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            {error}
+          </div>
+        )}
+
+        <Card>
+          <CardHeader className="pb-3">
+            <h2 className="text-lg font-semibold">Expense Group</h2>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {groups.map(group => (
+                <Button
+                  key={group.id}
+                  variant={group.id === selectedGroupId ? 'default' : 'outline'}
+                  onClick={() => router.push(`/settle?groupId=${group.id}`)}
+                >
+                  {group.name}
+                </Button>
+              ))}
+              {groups.length === 0 && !loading && (
+                <p className="text-gray-500">No groups found.</p>
+              )}
+            </div>
+            {activeGroup && (
+              <div className="mt-4 flex items-center gap-2 text-sm">
+                <label htmlFor="base-currency" className="text-gray-600">Settle in</label>
+                <select
+                  id="base-currency"
+                  value={baseCurrency}
+                  onChange={(e) => handleBaseCurrencyChange(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  {SUPPORTED_CURRENCIES.map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {activeGroup && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <h2 className="text-lg font-semibold">Receipts</h2>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {receiptsLoading && <p className="text-sm">Loading receipts...</p>}
+                {!receiptsLoading && receipts.length === 0 && (
+                  <p className="text-sm text-gray-500">No receipts in this group.</p>
+                )}
+                {receipts.map(receipt => {
+                  const entry = ledger.entries.find(e => e.receiptId === receipt._id);
+                  const skipped = ledger.skipped.find(s => s.receiptId === receipt._id);
+
+                  return (
+                    <div key={receipt._id} className="p-3 border rounded text-sm space-y-2">
+                      <div className="flex justify-between">
+                        <span className="font-medium">
+                          {new Date(receipt.created_at).toLocaleDateString()}
+                          <span className="ml-2 text-xs text-gray-500">{getReceiptCurrency(receipt)}</span>
+                        </span>
+                        <span className="font-semibold">
+                          {entry ? formatMoney(entry.total, ledger.currency) : skipped?.reason}
+                        </span>
+                      </div>
+                      {receipt.payments && receipt.payments.length > 1 ? (
+                        <p className="text-xs text-gray-500">
+                          Paid by{' '}
+                          {receipt.payments
+                            .map(p => `${p.email} (${formatMoney(p.amount, getReceiptCurrency(receipt))})`)
+                            .join(', ')}
+                        </p>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <label htmlFor={`payer-${receipt._id}`} className="text-xs text-gray-500">
+                            Paid by
+                          </label>
+                          <select
+                            id={`payer-${receipt._id}`}
+                            value={getReceiptPayments(receipt)[0]?.email ?? ''}
+                            onChange={(e) => handlePayerChange(receipt, e.target.value)}
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          >
+                            <option value="">Unknown</option>
+                            {activeGroup.members.map(member => (
+                              <option key={member.email} value={member.email}>
+                                {member.email}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <h2 className="text-lg font-semibold">Balances</h2>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {Object.entries(ledger.balances).map(([email, balance]) => (
+                    <div key={email} className="flex justify-between">
+                      <span className="truncate mr-2">{email}</span>
+                      <span
+                        className={cn(
+                          'font-semibold',
+                          balance > 0 && 'text-green-600',
+                          balance < 0 && 'text-red-600'
+                        )}
+                      >
+                        {formatMoney(balance, ledger.currency)}
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <h2 className="text-lg font-semibold">Transfers</h2>
+                </CardHeader>
+                <CardContent className="space-y-2 text-sm">
+                  {ledger.transfers.length === 0 && (
+                    <p className="text-gray-500">Everyone is settled up.</p>
+                  )}
+                  {ledger.transfers.map(transfer => (
+                    <div
+                      key={`${transfer.from}-${transfer.to}`}
+                      className="flex items-center justify-between p-2 bg-gray-50 rounded"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="truncate">{transfer.from}</span>
+                        <ArrowRight className="w-4 h-4 text-gray-400 shrink-0" />
+                        <span className="truncate">{transfer.to}</span>
+                      </div>
+                      <span className="font-semibold ml-2">{formatMoney(transfer.amount, ledger.currency)}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function SettlePage() {
+  return (
+    <ProtectedRoute>
+      <SettleContent />
+    </ProtectedRoute>
+  );
+}
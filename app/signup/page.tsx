@@ -3,6 +3,8 @@
  * 
  * Allows new users to create an account with email and password.
  * Automatically logs in and redirects to dashboard after successful signup.
+ * Invitations to the new email, and the invite link the user arrived
+ * through, are accepted right away.
  */
 
 'use client';
@@ -10,7 +12,9 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { toast } from 'sonner';
 import { useAuth } from '@/lib/auth-context';
+import { acceptInvitationsAfterSignup, takeInviteCode } from '@/lib/invitations';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -47,7 +51,15 @@ export default function SignupPage() {
 
     try {
       await signup(email, password, name);
-      router.push('/dashboard');
+
+      const { joined, failed } = await acceptInvitationsAfterSignup(email, { code: takeInviteCode() });
+      if (joined.length > 0) {
+        toast.success(`You joined ${joined.map((invitation) => invitation.group_name).join(', ')}`);
+      }
+      if (failed.length > 0) {
+        toast.error('Some invitations could not be accepted', { description: failed.join('\n') });
+      }
+      router.push(joined.length === 1 ? `/upload?groupId=${joined[0].group_id}` : '/dashboard');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Signup failed');
     } finally {
@@ -6,76 +6,80 @@
 
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
 import { ProtectedRoute } from '@/components/ProtectedRoute';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
-import { getGroupReceipts, saveSplit, listGroups } from '@/lib/api';
-import type { Group, Receipt } from '@/types';
+import { queryCache } from '@/lib/query-cache';
+import { queryKeys, useGroupReceipts, useGroups } from '@/lib/queries';
+import { syncQueue, useOnlineStatus, useSyncQueue, withPendingReceiptEdits } from '@/lib/sync-queue';
+import type { ChargeSpreadMode, Group, ItemSplitWeights, Receipt } from '@/types';
 import { ReceiptSplitter } from '@/components/ReceiptSplitter';
+import { ReceiptCurrencyEditor } from '@/components/ReceiptCurrencyEditor';
+import { PayerEditor } from '@/components/PayerEditor';
+import { formatMoney, getGroupCurrency, getReceiptCurrency } from '@/lib/currency';
+import { useReceiptEvents } from '@/lib/receipt-events';
+import { getReceiptTotal } from '@/lib/settlement';
+
+const NO_GROUPS: Group[] = [];
+const NO_RECEIPTS: Receipt[] = [];
 
 function SplitContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const online = useOnlineStatus();
 
-  const [groups, setGroups] = useState<Group[]>([]);
-  const [receipts, setReceipts] = useState<Receipt[]>([]);
-  const [selectedReceiptId, setSelectedReceiptId] = useState<string | null>(null);
-
-  const [loading, setLoading] = useState(false);
-  const [receiptsLoading, setReceiptsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [pickedReceiptId, setSelectedReceiptId] = useState<string | null>(null);
 
   const selectedGroupId = searchParams.get('groupId') || '';
-
-  // Load Groups
-  useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      try {
-        const data = await listGroups();
-        setGroups(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load groups');
-      } finally {
-        setLoading(false);
-      }
-    };
-    loadData();
-  }, []);
-
-  // Load Receipts when Group Changes
-  useEffect(() => {
-    if (!selectedGroupId) return;
-
-    // Auto-select receipt if passed in URL
-    const urlReceiptId = searchParams.get('receiptId');
-    if (urlReceiptId) setSelectedReceiptId(urlReceiptId);
-
-    const fetchReceipts = async () => {
-      setReceiptsLoading(true);
-      try {
-        const data = await getGroupReceipts(selectedGroupId);
-        setReceipts(data);
-
-        // If we have a receipt ID from URL but we just loaded receipts, ensure it exists
-        if (urlReceiptId && !data.find(r => r._id === urlReceiptId)) {
-          // Check if URL receiptId was actually a groupID (legacy logic in previous file)
-          // The previous logic used 'receiptId' param to store GROUP ID.
-          // We should respect 'groupId' param now.
-        }
-      } catch (err) {
-        console.error("Failed to load receipts", err);
-      } finally {
-        setReceiptsLoading(false);
-      }
-    };
-    fetchReceipts();
-  }, [selectedGroupId, searchParams]);
+  // Auto-select receipt if passed in URL
+  const selectedReceiptId = pickedReceiptId ?? (selectedGroupId ? searchParams.get('receiptId') : null);
+
+  // Served from the cache when coming back from another page
+  const groupsQuery = useGroups();
+  const receiptsQuery = useGroupReceipts(selectedGroupId);
+  const groups = groupsQuery.data ?? NO_GROUPS;
+  const pendingChanges = useSyncQueue();
+  // Splits saved while offline show up as saved until they sync
+  const receipts = useMemo(
+    () => withPendingReceiptEdits(receiptsQuery.data ?? NO_RECEIPTS, pendingChanges),
+    [receiptsQuery.data, pendingChanges]
+  );
+  const loading = groupsQuery.isLoading;
+  const receiptsLoading = receiptsQuery.isLoading;
+
+  const setReceipts = (update: (prev: Receipt[]) => Receipt[]) =>
+    queryCache.setQueryData<Receipt[]>(queryKeys.groupReceipts(selectedGroupId), (prev = []) => update(prev));
+
+  // Keep the receipt list in sync with changes made elsewhere
+  useReceiptEvents((event) => {
+    if (event.type === 'split.updated') {
+      setReceipts(prev => prev.map(r =>
+        r._id === event.receipt_id
+          ? {
+              ...r,
+              split_details: event.split_details,
+              split_weights: event.split_weights ?? r.split_weights,
+              split_spread_mode: event.split_spread_mode ?? r.split_spread_mode,
+            }
+          : r
+      ));
+    } else if (event.receipt && (event.type === 'receipt.added' || event.type === 'receipt.status')) {
+      const updated = event.receipt;
+      setReceipts(prev =>
+        prev.some(r => r._id === updated._id)
+          ? prev.map(r => (r._id === updated._id ? updated : r))
+          : event.type === 'receipt.added' ? [...prev, updated] : prev
+      );
+    } else if (event.type === 'receipt.added') {
+      queryCache.invalidate(queryKeys.groupReceipts(selectedGroupId));
+    }
+  }, { groupIds: selectedGroupId ? [selectedGroupId] : undefined, enabled: !!selectedGroupId });
 
   const handleSelectGroup = (groupId: string) => {
     // Update URL to reflect group
@@ -85,14 +89,29 @@ function SplitContent() {
   const activeGroup = groups.find(g => g.id === selectedGroupId);
   const activeReceipt = receipts.find(r => r._id === selectedReceiptId);
 
-  const handleSaveSplit = async (splitMap: Record<string, string[]>) => {
+  const handleSaveSplit = async (
+    splitMap: Record<string, string[]>,
+    splitWeights: Record<string, ItemSplitWeights>,
+    spreadMode: ChargeSpreadMode
+  ) => {
     if (!selectedReceiptId) return;
     try {
-      await saveSplit(selectedReceiptId, splitMap);
-      // Optional: show success toast
-      alert("Split saved successfully!");
-    } catch (err) {
-      alert("Failed to save split");
+      const outcome = await syncQueue.submit(
+        { kind: 'saveSplit', groupId: selectedGroupId, receiptId: selectedReceiptId, splitMap, splitWeights, spreadMode },
+        { baseUpdatedAt: activeReceipt?.updated_at }
+      );
+      if (outcome === 'queued') {
+        // Online saves also queue behind earlier changes or after a failed request
+        toast.success(
+          online
+            ? 'The split is saved on this device and will sync shortly.'
+            : "You're offline. The split is saved on this device and will sync when you're back online."
+        );
+      } else {
+        toast.success('Split saved. Export it as PDF, CSV or a summary to share it.');
+      }
+    } catch {
+      toast.error('Failed to save split');
     }
   };
 
@@ -101,9 +120,16 @@ function SplitContent() {
       <div className="max-w-6xl mx-auto space-y-6">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-3xl font-bold text-gray-900">Split Receipt</h1>
-          <Button variant="outline" onClick={() => router.push('/dashboard')}>
-            Back to Dashboard
-          </Button>
+          <div className="flex gap-2">
+            {selectedGroupId && (
+              <Button variant="outline" onClick={() => router.push(`/settle?groupId=${selectedGroupId}`)}>
+                Settle Up
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => router.push('/dashboard')}>
+              Back to Dashboard
+            </Button>
+          </div>
         </div>
 
         {/* Group Selector */}
@@ -160,7 +186,7 @@ function SplitContent() {
                         {receipt.items_analysis?.merchant_name || 'Unknown Merchant'}
                       </div>
                       <div className="text-xs font-semibold mt-1">
-                        ${receipt.items_analysis?.total_amount?.toFixed(2) || '???'}
+                        {formatMoney(getReceiptTotal(receipt), getReceiptCurrency(receipt), '???')}
                       </div>
                     </button>
                   ))}
@@ -171,11 +197,27 @@ function SplitContent() {
             {/* Main Content: Splitter */}
             <div className="lg:col-span-3">
               {activeReceipt && activeGroup ? (
-                <ReceiptSplitter
-                  receipt={activeReceipt}
-                  members={activeGroup.members}
-                  onSave={handleSaveSplit}
-                />
+                <div className="space-y-4">
+                  <ReceiptCurrencyEditor
+                    receipt={activeReceipt}
+                    baseCurrency={getGroupCurrency(activeGroup)}
+                    onSaved={(updated) =>
+                      setReceipts(prev => prev.map(r => (r._id === updated._id ? updated : r)))
+                    }
+                  />
+                  <PayerEditor
+                    receipt={activeReceipt}
+                    members={activeGroup.members}
+                    onSaved={(updated) =>
+                      setReceipts(prev => prev.map(r => (r._id === updated._id ? updated : r)))
+                    }
+                  />
+                  <ReceiptSplitter
+                    receipt={activeReceipt}
+                    members={activeGroup.members}
+                    onSave={handleSaveSplit}
+                  />
+                </div>
               ) : (
                 <div className="h-64 flex items-center justify-center border-2 border-dashed rounded-lg text-gray-400">
                   Select a receipt to start splitting
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { http, HttpResponse } from 'msw';
+import UploadPage from './page';
+import { server } from '@/tests/mocks/server';
+import { mockReceipt } from '../../tests/fixtures/receipts';
+import { mockUser } from '../../tests/fixtures/users';
+
+const navigation = vi.hoisted(() => ({ searchParams: new URLSearchParams() }));
+
+vi.mock('next/navigation', () => ({
+    useRouter: () => ({ push: vi.fn(), replace: vi.fn() }),
+    useSearchParams: () => navigation.searchParams,
+}));
+
+vi.mock('@/lib/auth-context', () => ({
+    useAuth: () => ({ user: mockUser, isAuthenticated: true }),
+}));
+
+const photo = (name: string) => new File(['photo'], name, { type: 'image/png' });
+
+describe('UploadPage', () => {
+    beforeEach(() => {
+        navigation.searchParams = new URLSearchParams();
+        URL.createObjectURL = vi.fn(() => 'blob:preview');
+        URL.revokeObjectURL = vi.fn();
+    });
+
+    const openUploadTab = async () => {
+        render(<UploadPage />);
+        await userEvent.click(screen.getByRole('button', { name: 'Upload Images' }));
+        return document.querySelector<HTMLInputElement>('input[type="file"][multiple]')!;
+    };
+
+    it('should open the camera from the image upload tab', async () => {
+        await openUploadTab();
+
+        await userEvent.click(screen.getByRole('button', { name: /take photos/i }));
+
+        // jsdom has no camera, so the capture screen explains why
+        expect(screen.getByRole('alert')).toBeInTheDocument();
+        await userEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+        expect(screen.getByRole('button', { name: /take photos/i })).toBeInTheDocument();
+    });
+
+    it('should offer to stitch several item photos', async () => {
+        const input = await openUploadTab();
+
+        await userEvent.upload(input, [photo('top.png'), photo('bottom.png')]);
+        expect(screen.getByText('2 file(s) selected')).toBeInTheDocument();
+
+        await userEvent.click(screen.getByRole('button', { name: /stitch into one image/i }));
+        // jsdom cannot decode images, so the stitcher reports it and offers a way back
+        expect(await screen.findByText('These photos could not be opened for stitching.')).toBeInTheDocument();
+        await userEvent.click(screen.getByRole('button', { name: 'Back' }));
+        expect(screen.getByRole('button', { name: /stitch into one image/i })).toBeInTheDocument();
+    });
+
+    it('should import an order email dropped on the items picker', async () => {
+        const input = await openUploadTab();
+        const html = `
+            <html><body>
+            <h1>Your Instacart order from Metro</h1>
+            <p>Bag of chips $3.49</p>
+            <p>Coffee beans $12.00</p>
+            <p>Total $15.49</p>
+            </body></html>`;
+
+        expect(input.accept).toContain('.eml');
+        await userEvent.upload(input, new File([html], 'instacart.html', { type: 'text/html' }));
+
+        expect(await screen.findByDisplayValue('Bag of chips')).toBeInTheDocument();
+        expect(screen.getByDisplayValue('Coffee beans')).toBeInTheDocument();
+    });
+
+    it('should remove the lines read twice where two photos meet', async () => {
+        const line = (name_raw: string, image_index: number) => ({ name_raw, quantity: 1, unit_price: 2, line_subtotal: 2, image_index });
+        let fetches = 0;
+        server.use(
+            http.get('http://localhost:8000/receipt/:id', () => {
+                fetches += 1;
+                return HttpResponse.json({
+                    ...mockReceipt,
+                    _id: 'receipt-seams',
+                    // Still processing when the page loads, done when the job checks again
+                    status: fetches === 1 ? 'processing' : 'completed',
+                    items_analysis: {
+                        line_items: [line('Apples', 0), line('Bread', 0), line('Bread', 1), line('Cheese', 1)],
+                    },
+                });
+            })
+        );
+        navigation.searchParams = new URLSearchParams({ receiptId: 'receipt-seams' });
+        localStorage.setItem('token', 'mock-jwt-token-12345');
+        localStorage.setItem('rememberMe', 'true');
+
+        render(<UploadPage />);
+
+        const banner = (await screen.findByText(/read twice where/, {}, { timeout: 5000 })).parentElement!;
+        expect(banner).toHaveTextContent('the photos overlap: Bread');
+        expect(screen.getAllByDisplayValue('Bread')).toHaveLength(2);
+
+        await userEvent.click(within(banner).getByRole('button', { name: 'Remove it' }));
+
+        expect(screen.getAllByDisplayValue('Bread')).toHaveLength(1);
+        expect(screen.getByDisplayValue('Apples')).toBeInTheDocument();
+        expect(screen.getByDisplayValue('Cheese')).toBeInTheDocument();
+        expect(screen.queryByText(/read twice where/)).not.toBeInTheDocument();
+    }, 10000);
+});
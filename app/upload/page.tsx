@@ -15,17 +15,56 @@
 'use client';
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
+import Image from 'next/image';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { FileUpload } from '@/components/FileUpload';
+import { GroupInvitations } from '@/components/GroupInvitations';
+import { CameraCapture } from '@/components/CameraCapture';
+import { ClassificationRulesEditor } from '@/components/ClassificationRulesEditor';
+import { CsvImport } from '@/components/CsvImport';
+import { ReceiptStitcher } from '@/components/ReceiptStitcher';
+import { ReclassifyControl } from '@/components/ReclassifyControl';
+import { ReconciliationPanel } from '@/components/ReconciliationPanel';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardContent, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { extractReceiptText, getReceipt, listGroups, addGroupMember } from '@/lib/api';
-import { OcrResponse, ItemsAnalysis, ChargesAnalysis } from '@/types';
-import type { Group } from '@/types';
-import { Users, X } from 'lucide-react';
+import {
+  extractReceiptText,
+  getReceipt,
+  isAbortError,
+  setReceiptTaxProfile,
+  updateGroup,
+} from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { classifyLine, DEFAULT_RULES } from '@/lib/classification';
+import { extractEReceipt, isEReceipt } from '@/lib/e-receipt';
+import { getGroupPermissions } from '@/lib/group-permissions';
+import { formatFileSize, prepareForUpload, preprocessForUpload, type PreprocessResult } from '@/lib/image-preprocess';
+import { isPdf, rasterizePdf } from '@/lib/pdf-raster';
+import { queryCache } from '@/lib/query-cache';
+import { findBoundaryDuplicates } from '@/lib/receipt-stitch';
+import { queryKeys, useClassificationRules, useGroups } from '@/lib/queries';
+import { OcrResponse } from '@/types';
+import type { ChargesAnalysis, Discount, Fee, Group, LineItem, LineKind, Receipt } from '@/types';
+import { Camera, Layers, Users, X } from 'lucide-react';
 import { toast } from 'sonner';
+import { formatMoney, getGroupCurrency } from '@/lib/currency';
+import {
+  computeLineTax,
+  computeTaxTotals,
+  describeTaxProfile,
+  getTaxClasses,
+  resolveTaxProfile,
+  TAX_PROFILES,
+} from '@/lib/tax';
+import { lineAmount, reconcileReceipt } from '@/lib/reconciliation';
+import { isReceiptProcessed, jobTracker, useReceiptJob } from '@/lib/job-tracker';
+import { useReceiptEvents } from '@/lib/receipt-events';
+import { syncQueue, useOnlineStatus, withPendingReceiptEdits } from '@/lib/sync-queue';
+
+const MAX_ITEMS_IMAGES = 5;
+const ITEMS_ACCEPT = 'image/*,application/pdf,.eml,message/rfc822,.html,.htm,text/html';
+const CHARGES_ACCEPT = 'image/*,application/pdf';
+const IMPORTED_FROM_CSV = 'Imported from CSV';
 
 interface EditableLineItem {
   name_raw: string;
@@ -33,100 +72,140 @@ interface EditableLineItem {
   unit_price: number | null;
   line_subtotal: number | null;
   taxable: boolean;
+  tax_class?: string;
 }
 
-const HST_RATE = 0.13;
-
 export default function UploadPage() {
   // State management using React hooks
   const router = useRouter();
   const searchParams = useSearchParams();
   const [inputMethod, setInputMethod] = useState<'upload' | 'csv'>('csv');
-  const [bulkCsvInput, setBulkCsvInput] = useState('');
   const [itemsImages, setItemsImages] = useState<File[]>([]);
   const [chargesImage, setChargesImage] = useState<File | null>(null);
+  const [cameraTarget, setCameraTarget] = useState<'items' | 'charges' | null>(null);
+  const [stitching, setStitching] = useState(false);
+  const [convertingPdf, setConvertingPdf] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<OcrResponse | null>(null);
   const [itemsPreviewUrls, setItemsPreviewUrls] = useState<string[]>([]);
   const [chargesPreviewUrl, setChargesPreviewUrl] = useState<string | null>(null);
-  const [enlargedImage, setEnlargedImage] = useState<string | null>(null);
+  const [enlargedImage, setEnlargedImage] = useState<{ url: string; file: File } | null>(null);
+  const [processedImages, setProcessedImages] = useState<Map<File, PreprocessResult & { url: string }>>(
+    () => new Map()
+  );
   const [editableItems, setEditableItems] = useState<EditableLineItem[] | null>(null);
+  // Server version the item edits are based on
+  const [loadedReceipt, setLoadedReceipt] = useState<Receipt | null>(null);
+  const [savingItems, setSavingItems] = useState(false);
   const [showItemsJson, setShowItemsJson] = useState(false);
   const [showChargesJson, setShowChargesJson] = useState(false);
   const [showCsvImport, setShowCsvImport] = useState(false);
-  const [csvInput, setCsvInput] = useState('');
-  const [currentGroup, setCurrentGroup] = useState<Group | null>(null);
+  const [showRules, setShowRules] = useState(false);
+  const [csvMerchant, setCsvMerchant] = useState('');
   const [showMembersModal, setShowMembersModal] = useState(false);
-  const [newMemberEmail, setNewMemberEmail] = useState('');
-  const [addMemberLoading, setAddMemberLoading] = useState(false);
-  const [addMemberError, setAddMemberError] = useState<string | null>(null);
+  const [receiptTaxProfileId, setReceiptTaxProfileId] = useState<string | null>(null);
+  const [acceptedDifference, setAcceptedDifference] = useState<number | null>(null);
+  // Indexes of lines that look read twice where two photos meet, until the user removes or keeps them
+  const [boundaryDuplicates, setBoundaryDuplicates] = useState<number[]>([]);
+
+  const receiptJob = useReceiptJob(searchParams.get('receiptId'));
+  const isProcessing = receiptJob?.status === 'processing';
+
+  /**
+   * Show the extraction results of a processed receipt
+   */
+  const showProcessedReceipt = useCallback((serverReceipt: Receipt, { checkSeams = false } = {}) => {
+    setLoadedReceipt(serverReceipt);
+    // Item edits saved while offline replace the extracted items until they sync
+    const [receipt] = withPendingReceiptEdits([serverReceipt], syncQueue.getEntries());
+    setResult({
+      total_items_processed: receipt.items_analysis?.line_items?.length || 0,
+      items_analysis: receipt.items_analysis,
+      charges_analysis: receipt.charges_analysis,
+      full_text: "Processing complete.",
+      success: true
+    });
+
+    if (receipt.items_analysis) {
+      // Already normalized by ItemsAnalysisSchema
+      const lineItems = receipt.items_analysis.line_items;
+      const items = lineItems.map(item => ({ ...item, taxable: item.taxable ?? false }));
+      setEditableItems(items);
+      setBoundaryDuplicates(checkSeams ? findBoundaryDuplicates(lineItems) : []);
+    }
+  }, []);
 
   // Load existing receipt data if receiptId is provided in URL
   useEffect(() => {
     const receiptId = searchParams.get('receiptId');
+    const controller = new AbortController();
     if (receiptId) {
       const loadExistingReceipt = async () => {
         try {
           setError(null);
           setIsLoading(true);
-          const receipt = await getReceipt(receiptId);
+          const [receipt] = await Promise.all([
+            getReceipt(receiptId, { signal: controller.signal }),
+            syncQueue.restore(),
+          ]);
+          setReceiptTaxProfileId(receipt.tax_profile_id ?? null);
 
           // If receipt is already processed, display the results
-          if (receipt.status === 'completed' || (receipt.status as string) === 'PROCESSED') {
-            setResult({
-              total_items_processed: receipt.items_analysis?.line_items?.length || 0,
-              items_analysis: receipt.items_analysis,
-              charges_analysis: receipt.charges_analysis,
-              full_text: "Processing complete.",
-              success: true
-            });
-
-            if (receipt.items_analysis?.line_items) {
-              const items = receipt.items_analysis.line_items.map((item: any) => ({
-                ...item,
-                name_raw: item.name_raw ?? '',
-                quantity: item.quantity ?? null,
-                unit_price: item.unit_price ?? null,
-                line_subtotal: item.line_subtotal ?? null,
-                taxable: item.taxable ?? false
-              }));
-              setEditableItems(items);
-            }
+          if (isReceiptProcessed(receipt)) {
+            showProcessedReceipt(receipt);
+          } else if (receipt.status === 'pending' || receipt.status === 'processing') {
+            // Still processing: (re)attach to the shared job tracker
+            jobTracker.track(receiptId, { groupId: receipt.group_id });
           }
-          // If still processing, let user wait for completion or refresh
           // If not started, show upload form (default state)
         } catch (err) {
+          if (isAbortError(err)) return;
           console.error('Error loading receipt:', err);
           // If receipt not found or error, show upload form
         } finally {
-          setIsLoading(false);
+          if (!controller.signal.aborted) setIsLoading(false);
         }
       };
 
       loadExistingReceipt();
     }
-  }, [searchParams]);
+    return () => controller.abort();
+  }, [searchParams, showProcessedReceipt]);
+
+  // Check the job as soon as the server reports a status change
+  useReceiptEvents((event) => {
+    if (event.type === 'receipt.status' && event.receipt_id === receiptJob?.receiptId) {
+      jobTracker.refresh(event.receipt_id);
+    }
+  }, { groupIds: receiptJob?.groupId ? [receiptJob.groupId] : undefined, enabled: isProcessing });
 
-  // Load group members if groupId is provided in URL
+  // Follow the processing job for the receipt in the URL
   useEffect(() => {
-    const groupId = searchParams.get('groupId');
-    const loadGroup = async () => {
-      try {
-        const groups = await listGroups();
-        const group = groups.find((g: Group) => g.id === groupId);
-        if (group) {
-          setCurrentGroup(group);
-        }
-      } catch (err) {
-        console.error('Error loading group:', err);
-      }
-    };
+    if (!receiptJob || receiptJob.status === 'processing') return;
 
-    if (groupId) {
-      loadGroup();
+    if (receiptJob.status === 'completed' && receiptJob.receipt) {
+      // Freshly processed: point out lines read twice where the photos meet
+      showProcessedReceipt(receiptJob.receipt, { checkSeams: true });
+      setIsLoading(false);
+    } else if (receiptJob.status === 'failed') {
+      setError(receiptJob.error ?? 'Receipt processing failed.');
+      setIsLoading(false);
+    } else {
+      setIsLoading(false);
     }
-  }, [searchParams]);
+  }, [receiptJob, showProcessedReceipt]);
+
+  // Group members, if groupId is provided in URL
+  const groupIdParam = searchParams.get('groupId');
+  const { data: groups } = useGroups({ enabled: !!groupIdParam });
+  const currentGroup = groups?.find((g) => g.id === groupIdParam) ?? null;
+
+  // Signed-out imports, and accounts that never edited their rules, use the defaults
+  const { user } = useAuth();
+  const online = useOnlineStatus();
+  const { data: savedRules } = useClassificationRules({ enabled: !!user });
+  const classificationRules = savedRules ?? DEFAULT_RULES;
 
   const getInitials = (email: string) => {
     return email.substring(0, 2).toUpperCase();
@@ -139,6 +218,69 @@ export default function UploadPage() {
     setChargesImage(null);
   };
 
+  /**
+   * Order emails are parsed here like a CSV import; no OCR needed
+   */
+  const importEReceipt = async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const receipt = await extractEReceipt(file, { rules: classificationRules });
+      setResult({
+        total_items_processed: receipt.items_analysis.line_items.length,
+        items_analysis: receipt.items_analysis,
+        charges_analysis: {
+          ...receipt.charges_analysis,
+          currency: receipt.charges_analysis.currency ?? getGroupCurrency(currentGroup),
+        },
+        full_text: `Imported from ${receipt.vendor} e-receipt`,
+        success: true,
+      });
+      setEditableItems(receipt.items_analysis.line_items.map(item => ({ ...item, taxable: item.taxable ?? false })));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the e-receipt');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /** PDF pages are rendered to images for the OCR */
+  const toImages = async (files: File[]) => {
+    if (!files.some(isPdf)) return files;
+
+    setConvertingPdf(true);
+    setError(null);
+    try {
+      return (await Promise.all(files.map((file) => (isPdf(file) ? rasterizePdf(file) : [file])))).flat();
+    } catch {
+      setError('Could not read the PDF. Try a photo or screenshot of it instead.');
+      return null;
+    } finally {
+      setConvertingPdf(false);
+    }
+  };
+
+  const handleItemsFiles = async (files: File[]) => {
+    const eReceipt = files.find(isEReceipt);
+    if (eReceipt) {
+      await importEReceipt(eReceipt);
+      return;
+    }
+
+    const images = await toImages(files);
+    if (!images) return;
+    setItemsImages(images.slice(0, MAX_ITEMS_IMAGES));
+    // PDF invoices have their totals on the last page
+    if (!chargesImage && images.length > files.length) {
+      setChargesImage(images[images.length - 1]);
+    }
+  };
+
+  const handleChargesFiles = async (files: File[]) => {
+    const images = await toImages(files.slice(0, 1));
+    if (images) setChargesImage(images[images.length - 1] ?? null);
+  };
+
   useEffect(() => {
     const itemUrls = itemsImages.map((file) => URL.createObjectURL(file));
     setItemsPreviewUrls(itemUrls);
@@ -152,6 +294,40 @@ export default function UploadPage() {
     };
   }, [itemsImages, chargesImage]);
 
+  // Preprocess as soon as images are picked, for the before/after preview;
+  // handleSubmit reuses the same results
+  useEffect(() => {
+    const files = chargesImage ? [...itemsImages, chargesImage] : itemsImages;
+    const urls: string[] = [];
+    let cancelled = false;
+
+    Promise.all(
+      files.map((file) =>
+        preprocessForUpload(file).then(
+          (processed) => [file, processed] as const,
+          () => null
+        )
+      )
+    ).then((results) => {
+      if (cancelled) return;
+      const next = new Map<File, PreprocessResult & { url: string }>();
+      results.forEach((entry) => {
+        if (!entry) return;
+        const url = URL.createObjectURL(entry[1].file);
+        urls.push(url);
+        next.set(entry[0], { ...entry[1], url });
+      });
+      setProcessedImages(next);
+    });
+
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [itemsImages, chargesImage]);
+
+  const enlargedProcessed = enlargedImage ? processedImages.get(enlargedImage.file) : undefined;
+
   // Close modal on ESC key
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
@@ -176,11 +352,22 @@ export default function UploadPage() {
     setIsLoading(true);
     setError(null);
 
+    // Upright, downscaled and cropped; originals that cannot be decoded go as they are
+    const [itemsUploads, chargesUpload] = await Promise.all([
+      Promise.all(itemsImages.map(prepareForUpload)),
+      prepareForUpload(chargesImage),
+    ]);
+
+    const unprocessed = [...itemsUploads, chargesUpload].filter((upload) => upload.error);
+    if (unprocessed.length > 0) {
+      toast.info(`Uploading ${unprocessed.map((upload) => upload.file.name).join(', ')} without preprocessing`);
+    }
+
     const formData = new FormData();
-    itemsImages.forEach((file) => {
+    itemsUploads.forEach(({ file }) => {
       formData.append('receipt_items', file);
     });
-    formData.append('charges_image', chargesImage);
+    formData.append('charges_image', chargesUpload.file);
 
     // Append group_id if present
     const groupIdParam = searchParams.get('groupId');
@@ -193,119 +380,27 @@ export default function UploadPage() {
       const uploadResp = await extractReceiptText(formData);
       const receiptId = uploadResp.receipt_id;
 
+      // 2. Track processing; the job survives reloads and shows up on the dashboard
+      jobTracker.track(receiptId, { groupId: groupIdParam ?? undefined });
+
       // Update URL with receiptId so user can refresh or bookmark
       router.push(`/upload?receiptId=${receiptId}`, { scroll: false });
-
-      // 2. Poll for Completion
-      const pollInterval = 2000;
-      const maxAttempts = 30;
-      let attempts = 0;
-
-      const poll = async () => {
-        if (attempts >= maxAttempts) {
-          setError("Processing timed out. Please check your dashboard later.");
-          setIsLoading(false);
-          return;
-        }
-        attempts++;
-
-        try {
-          const receipt = await getReceipt(receiptId);
-
-          // Check for various success statuses based on backend observation
-          if (receipt.status === 'completed' || (receipt.status as string) === 'PROCESSED') {
-            // Success!
-            setResult({
-              total_items_processed: receipt.items_analysis?.line_items?.length || 0,
-              items_analysis: receipt.items_analysis,
-              charges_analysis: receipt.charges_analysis,
-              full_text: "Processing complete.",
-              success: true
-            });
-
-            // Initialize editable items if items analysis exists
-            if (receipt.items_analysis?.line_items) {
-              const items = receipt.items_analysis.line_items.map((item: any, idx: number) => ({
-                ...item,
-                name_raw: item.name_raw ?? '',
-                quantity: item.quantity ?? null,
-                unit_price: item.unit_price ?? null,
-                line_subtotal: item.line_subtotal ?? null,
-                taxable: item.taxable ?? false
-              }));
-              setEditableItems(items);
-            }
-
-            setIsLoading(false);
-          } else if (receipt.status === 'error') {
-            throw new Error("Receipt processing failed on the server.");
-          } else {
-            // Still processing, wait and retry
-            setTimeout(poll, pollInterval);
-          }
-        } catch (err) {
-          console.warn("Polling error:", err);
-          setTimeout(poll, pollInterval);
-        }
-      };
-
-      // Start polling
-      setTimeout(poll, 1000);
-
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
       setIsLoading(false);
     }
   }, [itemsImages, chargesImage, searchParams]);
 
-  /**
-   * Parse the JSON response from LLM
-   * The backend now returns parsed JSON directly, not as a string
-   */
-  const parseItemsAnalysis = useCallback((): ItemsAnalysis | null => {
-    if (!result?.items_analysis) return null;
-
-    try {
-      // Check if it's already parsed (object) or if it's a string
-      if (typeof result.items_analysis === 'string') {
-        const parsed = JSON.parse(result.items_analysis);
-
-        // Handle backwards compatibility: convert total_price to line_subtotal if needed
-        if (parsed.line_items) {
-          parsed.line_items = parsed.line_items.map((item: any) => ({
-            ...item,
-            line_subtotal: item.line_subtotal ?? item.total_price ?? null
-          }));
-        }
-
-        return parsed;
-      } else {
-        // Already parsed object from backend
-        return result.items_analysis as ItemsAnalysis;
-      }
-    } catch {
-      return null;
-    }
-  }, [result]);
-
-  const parseChargesAnalysis = useCallback((): ChargesAnalysis | null => {
-    if (!result?.charges_analysis) return null;
-
-    try {
-      // Check if it's already parsed (object) or if it's a string
-      if (typeof result.charges_analysis === 'string') {
-        return JSON.parse(result.charges_analysis);
-      } else {
-        // Already parsed object from backend
-        return result.charges_analysis as ChargesAnalysis;
-      }
-    } catch {
-      return null;
-    }
-  }, [result]);
-
-  const itemsData = useMemo(() => parseItemsAnalysis(), [parseItemsAnalysis]);
-  const chargesData = useMemo(() => parseChargesAnalysis(), [parseChargesAnalysis]);
+  // The API client validates and normalizes the LLM output, so the
+  // analyses can be used as they are
+  const itemsData = result?.items_analysis ?? null;
+  const chargesData = result?.charges_analysis ?? null;
+  const currency = chargesData?.currency || getGroupCurrency(currentGroup);
+  const taxProfile = useMemo(
+    () => resolveTaxProfile({ tax_profile_id: receiptTaxProfileId, charges_analysis: chargesData }, currentGroup),
+    [receiptTaxProfileId, chargesData, currentGroup]
+  );
+  const taxClasses = getTaxClasses(taxProfile);
 
   useEffect(() => {
     if (!itemsData?.line_items) {
@@ -319,7 +414,8 @@ export default function UploadPage() {
         quantity: item.quantity ?? null,
         unit_price: item.unit_price ?? null,
         line_subtotal: item.line_subtotal ?? null,
-        taxable: item.taxable ?? false
+        taxable: item.taxable ?? false,
+        tax_class: item.tax_class
       }))
     );
   }, [itemsData]);
@@ -350,120 +446,73 @@ export default function UploadPage() {
     });
   };
 
-  const importFromCsv = () => {
-    if (!csvInput.trim()) return;
-
-    const lines = csvInput.trim().split('\n');
-    const newItems: EditableLineItem[] = [];
-
-    lines.forEach((line, index) => {
-      // Skip empty lines
-      if (!line.trim()) return;
+  /** Keep the proposed duplicates pointing at the same lines after one is taken out */
+  const forgetItemIndex = (index: number) => {
+    setBoundaryDuplicates((prev) => prev.filter((idx) => idx !== index).map((idx) => (idx > index ? idx - 1 : idx)));
+  };
 
-      // Skip header if first line looks like a header
-      if (index === 0 && (line.toLowerCase().includes('name') || line.toLowerCase().includes('item'))) {
-        return;
-      }
+  const removeBoundaryDuplicates = () => {
+    setEditableItems((prev) => prev && prev.filter((_, idx) => !boundaryDuplicates.includes(idx)));
+    setBoundaryDuplicates([]);
+    toast.info('Lines removed. Save the items to keep the change.');
+  };
 
-      // Parse CSV line (handle quoted values)
-      const values = line.match(/(?:"([^"]*)"|([^,]+))(?:,|$)/g)?.map(v =>
-        v.replace(/,$/, '').replace(/^"/, '').replace(/"$/, '').trim()
-      ) || [];
+  const importFromCsv = (items: LineItem[]) => {
+    setEditableItems((prev) => [...(prev ?? []), ...items.map(item => ({ ...item, taxable: item.taxable ?? false }))]);
+    setShowCsvImport(false);
+  };
 
-      if (values.length >= 1) {
-        const item: EditableLineItem = {
-          name_raw: values[0] || '',
-          quantity: values[1] ? parseFloat(values[1]) : 1,
-          unit_price: values[2] ? parseFloat(values[2]) : null,
-          line_subtotal: null,
-          taxable: values[3] ? (values[3].toLowerCase() === 'true' || values[3] === '1') : false
-        };
-        newItems.push(item);
-      }
-    });
+  /** Totals for rows imported without a receipt to read them from */
+  const computeImportTotals = (items: EditableLineItem[], fees: Fee[], discounts: Discount[]): ChargesAnalysis => {
+    const itemsSubtotal = items.reduce((sum, item) => sum + (lineAmount(item) || 0), 0);
+    const feesTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+    const discountsTotal = discounts.reduce((sum, d) => sum + d.amount, 0);
+    const taxTotals = computeTaxTotals(
+      [
+        ...items.map(i => ({ amount: lineAmount(i) || 0, taxable: i.taxable, tax_class: i.tax_class })),
+        ...fees.map(f => ({ amount: f.amount, taxable: f.taxable })),
+      ],
+      taxProfile
+    );
+    const totalTax = taxTotals.tax;
 
-    if (newItems.length > 0) {
-      setEditableItems((prev) => {
-        const existing = prev ?? [];
-        return [...existing, ...newItems];
-      });
-      setCsvInput('');
-      setShowCsvImport(false);
-    }
+    return {
+      subtotal_items: itemsSubtotal,
+      fees,
+      discounts,
+      total_tax_reported: totalTax,
+      // Tax-inclusive prices already contain the tax
+      grand_total: itemsSubtotal + feesTotal - discountsTotal + (taxProfile.inclusive ? 0 : totalTax),
+      currency: getGroupCurrency(currentGroup),
+      tax_profile_id: taxProfile.id,
+      tax_inclusive: taxProfile.inclusive
+    };
   };
 
-  const processBulkCsv = () => {
-    if (!bulkCsvInput.trim()) {
-      setError('Please enter CSV data');
-      return;
-    }
-
+  const processBulkCsv = (rows: LineItem[]) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const lines = bulkCsvInput.trim().split('\n');
       const items: EditableLineItem[] = [];
-      const fees: { type: string; amount: number; taxable: boolean }[] = [];
-      const discounts: { description: string; amount: number }[] = [];
-
-      // Determine delimiter (Tab for TSV, Comma for CSV)
-      // We check the first few lines to see which delimiter is more common
-      const sampleLines = lines.slice(0, 5).join('\n');
-      const tabCount = (sampleLines.match(/\t/g) || []).length;
-      const commaCount = (sampleLines.match(/,/g) || []).length;
-      const delimiter = tabCount > commaCount ? '\t' : ','; // Default to comma if unsure
-
-      // Keywords that indicate charges/fees instead of items
-      const chargeKeywords = [
-        'discount', 'coupon', 'promo',
-        'fee', 'charge', 'surcharge',
-        'delivery', 'shipping', 'handling',
-        'bag', 'checkout bag', 'carrier bag',
-        'tip', 'gratuity', 'service charge',
-        'tax', 'hst', 'gst', 'pst', 'vat'
-      ];
-
-      lines.forEach((line, index) => {
-        if (!line.trim()) return;
-
-        // Skip header row
-        if (index === 0 && (line.toLowerCase().includes('name') || line.toLowerCase().includes('item'))) {
-          return;
-        }
-
-        // Parse CSV/TSV line
-        // Regex to handle quoted values (only for comma delimiter usually, but good to have)
-        // For TSV, we can usually just split by tab as quotes are less common, but let's be robust
-        let values: string[] = [];
-
-        if (delimiter === ',') {
-          // CSV regex for quoted values
-          values = line.match(/(?:"([^"]*)"|([^,]+))(?:,|$)/g)?.map(v =>
-            v.replace(/,$/, '').replace(/^"/, '').replace(/"$/, '').trim()
-          ) || [];
-        } else {
-          // TSV split
-          values = line.split('\t').map(v => v.trim());
-        }
-
-        if (values.length < 1) return;
+      const fees: Fee[] = [];
+      const discounts: Discount[] = [];
+      const merchant = csvMerchant.trim() || undefined;
 
-        const name = values[0] || '';
-        const quantity = values[1] ? parseFloat(values[1]) : 1;
-        const totalPrice = values[2] ? parseFloat(values[2]) : 0;
-        const taxable = values[3] ? (values[3].toLowerCase() === 'true' || values[3] === '1') : false;
+      rows.forEach((row) => {
+        const name = row.name_raw;
+        const quantity = row.quantity ?? 1;
+        const totalPrice = row.line_subtotal ?? 0;
+        const taxable = row.taxable ?? false;
 
-        const nameLower = name.toLowerCase();
-        const isCharge = chargeKeywords.some(keyword => nameLower.includes(keyword));
-        const isDiscount = nameLower.includes('discount') || nameLower.includes('coupon') || nameLower.includes('promo') || totalPrice < 0;
+        const { kind } = classifyLine(name, totalPrice, { rules: classificationRules, merchant });
 
-        if (isDiscount) {
+        if (kind === 'discount') {
           discounts.push({
             description: name,
             amount: Math.abs(totalPrice)
           });
-        } else if (isCharge) {
+        } else if (kind === 'fee') {
           fees.push({
             type: name,
             amount: totalPrice,
@@ -480,27 +529,15 @@ export default function UploadPage() {
         }
       });
 
-      // Calculate totals
-      const itemsSubtotal = items.reduce((sum, item) => sum + (item.line_subtotal || 0), 0);
-      const feesTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
-      const discountsTotal = discounts.reduce((sum, d) => sum + d.amount, 0);
-      const taxableAmount = items.filter(i => i.taxable).reduce((sum, i) => sum + (i.line_subtotal || 0), 0) +
-        fees.filter(f => f.taxable).reduce((sum, f) => sum + f.amount, 0);
-      const totalTax = taxableAmount * HST_RATE;
-      const grandTotal = itemsSubtotal + feesTotal - discountsTotal + totalTax;
-
       // Set results
       setResult({
         total_items_processed: items.length,
-        items_analysis: { line_items: items as any },
-        charges_analysis: {
-          subtotal_items: itemsSubtotal,
-          fees,
-          discounts,
-          total_tax_reported: totalTax,
-          grand_total: grandTotal
+        items_analysis: {
+          line_items: items.map(item => ({ ...item, quantity: item.quantity ?? 1 })),
+          merchant_name: merchant
         },
-        full_text: 'Imported from CSV',
+        charges_analysis: computeImportTotals(items, fees, discounts),
+        full_text: IMPORTED_FROM_CSV,
         success: true
       });
 
@@ -512,39 +549,169 @@ export default function UploadPage() {
     }
   };
 
+  /**
+   * Move a row between the items, fees and discounts. Totals are recomputed
+   * for CSV imports; receipts keep the totals printed on them, so the
+   * reconciliation shows whether the correction made them add up.
+   */
+  const reclassifyLine = (line: { kind: LineKind; index: number }, kind: LineKind) => {
+    if (!result || !chargesData || !editableItems || line.kind === kind) return;
+
+    // Signed amount the row adds to the total
+    let name: string;
+    let amount: number;
+    let taxable: boolean;
+    if (line.kind === 'item') {
+      const item = editableItems[line.index];
+      name = item.name_raw;
+      amount = lineAmount(item) ?? 0;
+      taxable = item.taxable;
+    } else if (line.kind === 'fee') {
+      const fee = chargesData.fees[line.index];
+      name = fee.type;
+      amount = fee.amount;
+      taxable = fee.taxable;
+    } else {
+      const discount = chargesData.discounts[line.index];
+      name = discount.description;
+      amount = -discount.amount;
+      taxable = false;
+    }
+
+    const items = editableItems.filter((_, idx) => line.kind !== 'item' || idx !== line.index);
+    if (line.kind === 'item') forgetItemIndex(line.index);
+    const fees = chargesData.fees.filter((_, idx) => line.kind !== 'fee' || idx !== line.index);
+    const discounts = chargesData.discounts.filter((_, idx) => line.kind !== 'discount' || idx !== line.index);
+    if (kind === 'item') {
+      items.push({ name_raw: name, quantity: 1, unit_price: amount, line_subtotal: amount, taxable });
+    } else if (kind === 'fee') {
+      fees.push({ type: name, amount, taxable });
+    } else {
+      discounts.push({ description: name, amount: Math.abs(amount) });
+    }
+
+    setEditableItems(items);
+    setResult({
+      ...result,
+      charges_analysis:
+        result.full_text === IMPORTED_FROM_CSV
+          ? computeImportTotals(items, fees, discounts)
+          : { ...chargesData, fees, discounts }
+    });
+  };
+
   const removeEditableItem = (index: number) => {
     setEditableItems((prev) => {
       if (!prev) return prev;
       return prev.filter((_, idx) => idx !== index);
     });
-  };
-
-  const computeLineSubtotal = (item: EditableLineItem) => {
-    if (item.quantity == null || item.unit_price == null) return null;
-    return item.quantity * item.unit_price;
+    forgetItemIndex(index);
   };
 
   const computedTotals = useMemo(() => {
     if (!editableItems) return null;
 
-    let itemsSubtotal = 0;
-    let hstTotal = 0;
-
-    editableItems.forEach((item) => {
-      const lineSubtotal = computeLineSubtotal(item);
-      if (lineSubtotal == null) return;
-
-      itemsSubtotal += lineSubtotal;
-
-      if (item.taxable) hstTotal += lineSubtotal * HST_RATE;
+    const lines = editableItems.flatMap((item) => {
+      const lineSubtotal = lineAmount(item);
+      return lineSubtotal == null ? [] : [{ ...item, amount: lineSubtotal }];
     });
+    const totals = computeTaxTotals(lines, taxProfile);
 
     return {
-      itemsSubtotal,
-      hstTotal,
-      totalWithTax: itemsSubtotal + hstTotal
+      itemsSubtotal: totals.net,
+      taxTotal: totals.tax,
+      taxComponents: totals.components,
+      totalWithTax: totals.gross
     };
-  }, [editableItems]);
+  }, [editableItems, taxProfile]);
+
+  const handleTaxProfileChange = async (taxProfileId: string) => {
+    setReceiptTaxProfileId(taxProfileId);
+
+    const receiptId = searchParams.get('receiptId');
+    if (!receiptId) return;
+
+    try {
+      await setReceiptTaxProfile(receiptId, taxProfileId);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save tax profile');
+    }
+  };
+
+  const handleSaveItems = async () => {
+    const receiptId = searchParams.get('receiptId');
+    if (!receiptId || !editableItems) return;
+
+    setSavingItems(true);
+    try {
+      const lineItems = editableItems.map((item) => {
+        const line = { ...item, quantity: item.quantity ?? 1 };
+        return { ...line, line_subtotal: lineAmount(line) };
+      });
+      const outcome = await syncQueue.submit(
+        { kind: 'updateItems', groupId: loadedReceipt?.group_id, receiptId, lineItems },
+        { baseUpdatedAt: loadedReceipt?.updated_at }
+      );
+
+      if (outcome === 'queued') {
+        toast.success(`Saved on this device. Items will sync ${online ? 'shortly' : 'when you are back online'}.`);
+      } else {
+        toast.success('Items saved');
+        // Later edits are based on the version we just wrote
+        getReceipt(receiptId).then(setLoadedReceipt).catch(() => undefined);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save items');
+    } finally {
+      setSavingItems(false);
+    }
+  };
+
+  const handleSetGroupTaxProfile = async () => {
+    if (!currentGroup) return;
+
+    try {
+      const updated = await updateGroup(currentGroup.id, { tax_profile_id: taxProfile.id });
+      queryCache.setQueryData<Group[]>(queryKeys.groups, (prev = []) =>
+        prev.map(g => (g.id === currentGroup.id ? { ...g, ...updated, tax_profile_id: taxProfile.id } : g))
+      );
+      toast.success(`${taxProfile.name} is now the group default`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update group tax profile');
+    }
+  };
+
+  const taxProfileSelect = (
+    <div className="flex items-center gap-2 text-sm">
+      <label htmlFor="tax-profile" className="text-gray-600">Tax</label>
+      <select
+        id="tax-profile"
+        value={taxProfile.id}
+        onChange={(e) => handleTaxProfileChange(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+        title={describeTaxProfile(taxProfile)}
+      >
+        {TAX_PROFILES.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      {currentGroup && currentGroup.tax_profile_id !== taxProfile.id && (
+        <Button size="xs" variant="ghost" onClick={handleSetGroupTaxProfile}>
+          Use for group
+        </Button>
+      )}
+    </div>
+  );
+
+  const reconciliation = useMemo(
+    () => (editableItems ? reconcileReceipt(editableItems, chargesData, taxProfile) : null),
+    [editableItems, chargesData, taxProfile]
+  );
+  // Accepting is tied to the exact gap, so editing the items asks again
+  const differenceAccepted = reconciliation != null && acceptedDifference === reconciliation.difference;
+  const canSplit = !reconciliation || reconciliation.balanced || differenceAccepted;
 
   const handleGoToSplit = useCallback(() => {
     const receiptId = searchParams.get('receiptId');
@@ -563,28 +730,10 @@ export default function UploadPage() {
 
     try {
       const receipt = await getReceipt(receiptId);
+      setReceiptTaxProfileId(receipt.tax_profile_id ?? null);
 
-      if (receipt.status === 'completed' || (receipt.status as string) === 'PROCESSED') {
-
-        setResult({
-          total_items_processed: receipt.items_analysis?.line_items?.length || 0,
-          items_analysis: receipt.items_analysis,
-          charges_analysis: receipt.charges_analysis,
-          full_text: "Processing complete.",
-          success: true
-        });
-
-        if (receipt.items_analysis?.line_items) {
-          const items = receipt.items_analysis.line_items.map((item: any) => ({
-            ...item,
-            name_raw: item.name_raw ?? '',
-            quantity: item.quantity ?? null,
-            unit_price: item.unit_price ?? null,
-            line_subtotal: item.line_subtotal ?? null,
-            taxable: item.taxable ?? false
-          }));
-          setEditableItems(items);
-        }
+      if (isReceiptProcessed(receipt)) {
+        showProcessedReceipt(receipt);
       } else {
         setError('Receipt is still processing. Please try again in a moment.');
       }
@@ -593,7 +742,7 @@ export default function UploadPage() {
     } finally {
       setIsLoading(false);
     }
-  }, [searchParams]);
+  }, [searchParams, showProcessedReceipt]);
 
   return (
     <div className="min-h-screen bg-gray-50 py-12 px-4">
@@ -692,60 +841,12 @@ export default function UploadPage() {
                   ))}
                 </div>
 
-                {/* Add Member Section */}
-                <div className="border-t border-gray-200 pt-4 space-y-3">
-                  <h3 className="font-semibold text-sm">Add Member</h3>
-                  <div className="space-y-2">
-                    <Label htmlFor="upload-member-email">Email Address</Label>
-                    <Input
-                      id="upload-member-email"
-                      type="email"
-                      placeholder="Enter member's email"
-                      value={newMemberEmail}
-                      onChange={(e) => setNewMemberEmail(e.target.value)}
-                    />
-                  </div>
-
-                  {addMemberError && (
-                    <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">
-                      {addMemberError}
-                    </div>
-                  )}
-
-                  <Button
-                    onClick={async () => {
-                      if (!newMemberEmail.trim()) {
-                        setAddMemberError('Please enter an email address');
-                        return;
-                      }
-                      
-                      setAddMemberLoading(true);
-                      setAddMemberError(null);
-                      try {
-                        await addGroupMember(currentGroup.id, newMemberEmail);
-                        
-                        // Reload groups to update the member list
-                        const groups = await listGroups();
-                        const updatedGroup = groups.find((g: Group) => g.id === currentGroup.id);
-                        if (updatedGroup) {
-                          setCurrentGroup(updatedGroup);
-                        }
-                        
-                        setNewMemberEmail('');
-                        toast.success('Member added successfully');
-                      } catch (err) {
-                        const errorMsg = err instanceof Error ? err.message : 'Failed to add member';
-                        setAddMemberError(errorMsg);
-                        toast.error(errorMsg);
-                      } finally {
-                        setAddMemberLoading(false);
-                      }
-                    }}
-                    isLoading={addMemberLoading}
-                    className="w-full"
-                  >
-                    {addMemberLoading ? 'Adding...' : 'Add Member'}
-                  </Button>
+                {/* Invitations: people join once they accept */}
+                <div className="border-t border-gray-200 pt-4">
+                  <GroupInvitations
+                    group={currentGroup}
+                    canManage={getGroupPermissions(currentGroup, user?.email).canManageMembers}
+                  />
                 </div>
               </div>
             </div>
@@ -760,11 +861,27 @@ export default function UploadPage() {
         )}
 
         {/* Show loading state for existing receipts */}
-        {searchParams.get('receiptId') && isLoading && !result && (
+        {searchParams.get('receiptId') && (isLoading || isProcessing) && !result && (
           <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-            <p className="text-sm text-amber-800">
-              Loading receipt data...
-            </p>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-amber-800">
+                {isProcessing
+                  ? `Processing receipt... (check ${receiptJob.attempts + 1})`
+                  : 'Loading receipt data...'}
+              </p>
+              {isProcessing && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => jobTracker.cancel(receiptJob.receiptId)}
+                >
+                  Stop Waiting
+                </Button>
+              )}
+            </div>
+            {isProcessing && receiptJob.error && (
+              <p className="mt-1 text-xs text-amber-700">Retrying after: {receiptJob.error}</p>
+            )}
           </div>
         )}
 
@@ -773,16 +890,13 @@ export default function UploadPage() {
           <div className="mb-6">
             <div className="flex gap-2 border-b border-gray-200">
               <button
-                disabled
-                className="px-4 py-2 font-medium transition-colors text-gray-400 cursor-not-allowed relative"
-                title="Image upload coming soon"
+                onClick={() => setInputMethod('upload')}
+                className={`px-4 py-2 font-medium transition-colors ${inputMethod === 'upload'
+                  ? 'border-b-2 border-blue-500 text-blue-600'
+                  : 'text-gray-500 hover:text-gray-700'
+                  }`}
               >
-                <span className="flex items-center gap-2">
-                  Upload Images
-                  <span className="inline-block px-2 py-0.5 text-xs bg-yellow-100 text-yellow-800 rounded">
-                    Coming Soon
-                  </span>
-                </span>
+                Upload Images
               </button>
               <button
                 onClick={() => setInputMethod('csv')}
@@ -804,48 +918,48 @@ export default function UploadPage() {
               <CardHeader>
                 <h2 className="text-lg font-semibold">Import Receipt from CSV</h2>
                 <p className="text-sm text-gray-600">
-                  Paste your receipt data in CSV or TSV (Excel/Sheets) format. Items with keywords like 'discount', 'fee', 'delivery', 'bag', 'tip' will be automatically categorized as charges.
+                  Paste your receipt data in CSV or TSV (Excel/Sheets) format. Rows such as &ldquo;Delivery fee&rdquo;,
+                  &ldquo;Tip&rdquo; or &ldquo;Coupon&rdquo; are sorted into fees and discounts by your classification rules.
                 </p>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      CSV Data
-                    </label>
-                    <p className="text-xs text-gray-500 mb-2">
-                      Format: item_name, quantity, total_price, taxable (true/false)
-                    </p>
-                    <textarea
-                      value={bulkCsvInput}
-                      onChange={(e) => setBulkCsvInput(e.target.value)}
-                      placeholder={`Apple,2,3.98,true\nBanana,5,2.95,false\nDelivery Fee,1,3.99,false\nDiscount,1,-2.00,false`}
-                      className="w-full h-64 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                <p className="text-xs text-gray-500 mb-2">
+                  Columns are matched by their header. Without one: item name, quantity, total price,
+                  taxable (yes/no).
+                </p>
+                <CsvImport
+                  priceField="lineTotal"
+                  placeholder={`Apple,2,3.98,true\nBanana,5,2.95,false\nDelivery Fee,1,3.99,false\nDiscount,1,-2.00,false`}
+                  submitLabel="Process"
+                  isLoading={isLoading}
+                  onImport={processBulkCsv}
+                >
+                  {taxProfileSelect}
+                  <label className="flex items-center gap-2 text-gray-600">
+                    Merchant
+                    <input
+                      value={csvMerchant}
+                      onChange={(e) => setCsvMerchant(e.target.value)}
+                      placeholder="Optional"
+                      className="w-36 px-2 py-1 border border-gray-300 rounded-md text-sm"
                     />
+                  </label>
+                  <Button size="xs" variant="ghost" onClick={() => setShowRules(!showRules)}>
+                    Classification rules
+                  </Button>
+                </CsvImport>
+                {showRules && (
+                  <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                    <h3 className="text-sm font-semibold mb-2">Classification Rules</h3>
+                    <ClassificationRulesEditor onClose={() => setShowRules(false)} />
                   </div>
-                  <div className="flex gap-2">
-                    <Button
-                      onClick={processBulkCsv}
-                      isLoading={isLoading}
-                      disabled={!bulkCsvInput.trim()}
-                    >
-                      {isLoading ? 'Processing...' : 'Process CSV'}
-                    </Button>
-                    <Button
-                      variant="outline"
-                      onClick={() => setBulkCsvInput('')}
-                      disabled={!bulkCsvInput.trim()}
-                    >
-                      Clear
-                    </Button>
-                  </div>
-                </div>
+                )}
               </CardContent>
             </Card>
           </>
         )}
 
-        {/* Upload Section - Disabled for now */}
+        {/* Upload Section */}
         {!result && inputMethod === 'upload' && (
           <>
             <div className="grid md:grid-cols-2 gap-6 mb-6">
@@ -853,16 +967,64 @@ export default function UploadPage() {
                 <CardHeader>
                   <h2 className="text-lg font-semibold">Items Images</h2>
                   <p className="text-sm text-gray-600">
-                    Upload images showing purchased items
+                    Upload images or a PDF showing purchased items, or an order email (.eml or .html) from
+                    Instacart, Uber Eats or Amazon
                   </p>
                 </CardHeader>
                 <CardContent>
-                  <FileUpload
-                    onFilesSelected={setItemsImages}
-                    multiple
-                    maxFiles={5}
-                    accept="image/*"
-                  />
+                  {cameraTarget === 'items' ? (
+                    <CameraCapture
+                      maxPhotos={MAX_ITEMS_IMAGES - itemsImages.length}
+                      filePrefix="receipt-items"
+                      onDone={(files) => {
+                        setItemsImages(prev => [...prev, ...files]);
+                        setCameraTarget(null);
+                      }}
+                      onCancel={() => setCameraTarget(null)}
+                    />
+                  ) : stitching ? (
+                    <ReceiptStitcher
+                      files={itemsImages}
+                      onDone={(file) => {
+                        setItemsImages([file]);
+                        setStitching(false);
+                      }}
+                      onCancel={() => setStitching(false)}
+                    />
+                  ) : (
+                    <>
+                      <FileUpload
+                        onFilesSelected={handleItemsFiles}
+                        multiple
+                        maxFiles={MAX_ITEMS_IMAGES}
+                        accept={ITEMS_ACCEPT}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => setCameraTarget('items')}
+                        disabled={itemsImages.length >= MAX_ITEMS_IMAGES}
+                      >
+                        <Camera className="w-4 h-4" />
+                        Take photos
+                      </Button>
+                      {itemsImages.length > 1 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mt-2 ml-2"
+                          onClick={() => setStitching(true)}
+                        >
+                          <Layers className="w-4 h-4" />
+                          Stitch into one image
+                        </Button>
+                      )}
+                    </>
+                  )}
+                  {convertingPdf && (
+                    <p className="mt-2 text-sm text-gray-600">Rendering PDF pages…</p>
+                  )}
                   {itemsImages.length > 0 && (
                     <p className="mt-2 text-sm text-gray-600">
                       {itemsImages.length} file(s) selected
@@ -879,7 +1041,7 @@ export default function UploadPage() {
                             src={url}
                             alt={`Item preview ${index + 1}`}
                             className="h-24 w-full object-cover cursor-pointer hover:opacity-80 transition-opacity"
-                            onClick={() => setEnlargedImage(url)}
+                            onClick={() => setEnlargedImage({ url, file: itemsImages[index] })}
                           />
                           <button
                             onClick={(e) => {
@@ -909,22 +1071,47 @@ export default function UploadPage() {
                   </p>
                 </CardHeader>
                 <CardContent>
-                  <FileUpload
-                    onFilesSelected={(files) => setChargesImage(files[0] || null)}
-                    accept="image/*"
-                  />
+                  {cameraTarget === 'charges' ? (
+                    <CameraCapture
+                      filePrefix="receipt-charges"
+                      onDone={(files) => {
+                        setChargesImage(files[0] ?? null);
+                        setCameraTarget(null);
+                      }}
+                      onCancel={() => setCameraTarget(null)}
+                    />
+                  ) : (
+                    <>
+                      <FileUpload
+                        onFilesSelected={handleChargesFiles}
+                        accept={CHARGES_ACCEPT}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => setCameraTarget('charges')}
+                      >
+                        <Camera className="w-4 h-4" />
+                        {chargesImage ? 'Retake photo' : 'Take photo'}
+                      </Button>
+                    </>
+                  )}
+                  {convertingPdf && (
+                    <p className="mt-2 text-sm text-gray-600">Rendering PDF pages…</p>
+                  )}
                   {chargesImage && (
                     <p className="mt-2 text-sm text-gray-600">
                       {chargesImage.name}
                     </p>
                   )}
-                  {chargesPreviewUrl && (
+                  {chargesPreviewUrl && chargesImage && (
                     <div className="mt-4 relative overflow-hidden rounded-md border group">
                       <img
                         src={chargesPreviewUrl}
                         alt="Charges preview"
                         className="h-40 w-full object-cover cursor-pointer hover:opacity-80 transition-opacity"
-                        onClick={() => setEnlargedImage(chargesPreviewUrl)}
+                        onClick={() => setEnlargedImage({ url: chargesPreviewUrl, file: chargesImage })}
                       />
                       <button
                         onClick={(e) => {
@@ -974,9 +1161,9 @@ export default function UploadPage() {
                 onClick={() => {
                   setResult(null);
                   setEditableItems(null);
+                  setBoundaryDuplicates([]);
                   setItemsImages([]);
                   setChargesImage(null);
-                  setBulkCsvInput('');
                   setError(null);
                   // Optional: clear URL receiptId if you want to fully detach from the current receipt context
                   // router.push('/upload'); 
@@ -996,6 +1183,8 @@ export default function UploadPage() {
               <Button
                 variant="outline"
                 onClick={handleGoToSplit}
+                disabled={!canSplit}
+                title={canSplit ? undefined : 'Reconcile the totals or accept the difference first'}
               >
                 Split
               </Button>
@@ -1029,9 +1218,7 @@ export default function UploadPage() {
                     </div>
                     {showItemsJson && (
                       <pre className="mt-2 bg-gray-100 p-4 rounded overflow-x-auto text-sm">
-                        {typeof result.items_analysis === 'string'
-                          ? result.items_analysis
-                          : JSON.stringify(result.items_analysis, null, 2)}
+                        {JSON.stringify(result.items_analysis, null, 2)}
                       </pre>
                     )}
                   </>
@@ -1050,9 +1237,7 @@ export default function UploadPage() {
                     </div>
                     {showChargesJson && (
                       <pre className="mt-2 bg-gray-100 p-4 rounded overflow-x-auto text-sm">
-                        {typeof result.charges_analysis === 'string'
-                          ? result.charges_analysis
-                          : JSON.stringify(result.charges_analysis, null, 2)}
+                        {JSON.stringify(result.charges_analysis, null, 2)}
                       </pre>
                     )}
                   </>
@@ -1065,7 +1250,8 @@ export default function UploadPage() {
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <h2 className="text-xl font-bold">Parsed Items</h2>
-                    <div className="flex gap-2">
+                    <div className="flex items-center gap-2">
+                      {taxProfileSelect}
                       <Button
                         size="sm"
                         variant="outline"
@@ -1080,43 +1266,48 @@ export default function UploadPage() {
                       >
                         Add Item
                       </Button>
+                      {searchParams.get('receiptId') && (
+                        <Button
+                          size="sm"
+                          onClick={handleSaveItems}
+                          isLoading={savingItems}
+                          disabled={!editableItems}
+                        >
+                          Save Items
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  {showCsvImport && (
-                    <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
-                      <h3 className="text-sm font-semibold mb-2">Paste CSV Data</h3>
-                      <p className="text-xs text-gray-600 mb-2">
-                        Format: name, quantity, unit_price, taxable (true/false)
+                  {boundaryDuplicates.length > 0 && (
+                    <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                      <p className="text-sm text-amber-800">
+                        {boundaryDuplicates.length === 1 ? 'This line looks' : 'These lines look'} read twice where
+                        the photos overlap: {boundaryDuplicates.map((idx) => editableItems?.[idx]?.name_raw).join(', ')}
                       </p>
-                      <textarea
-                        value={csvInput}
-                        onChange={(e) => setCsvInput(e.target.value)}
-                        placeholder="Apple,2,1.99,true&#13;&#10;Banana,5,0.59,false&#13;&#10;Orange,3,1.29,true"
-                        className="w-full h-32 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
-                      />
-                      <div className="flex gap-2 mt-2">
-                        <Button
-                          size="sm"
-                          onClick={importFromCsv}
-                        >
-                          Import
+                      <div className="mt-2 flex gap-2">
+                        <Button size="sm" variant="outline" onClick={removeBoundaryDuplicates}>
+                          Remove {boundaryDuplicates.length === 1 ? 'it' : 'them'}
                         </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => {
-                            setShowCsvImport(false);
-                            setCsvInput('');
-                          }}
-                        >
-                          Cancel
+                        <Button size="sm" variant="ghost" onClick={() => setBoundaryDuplicates([])}>
+                          Keep
                         </Button>
                       </div>
                     </div>
                   )}
 
+                  {showCsvImport && (
+                    <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                      <h3 className="text-sm font-semibold mb-2">Paste CSV Data</h3>
+                      <CsvImport
+                        placeholder={`Apple,2,1.99,true\nBanana,5,0.59,false\nOrange,3,1.29,true`}
+                        onImport={importFromCsv}
+                        onCancel={() => setShowCsvImport(false)}
+                      />
+                    </div>
+                  )}
+
                   <div className="overflow-x-auto">
                     <table className="w-full text-left">
                       <thead className="border-b">
@@ -1126,7 +1317,8 @@ export default function UploadPage() {
                           <th className="pb-2">Unit Price</th>
                           <th className="pb-2">Subtotal</th>
                           <th className="pb-2">Taxable</th>
-                          <th className="pb-2">HST</th>
+                          <th className="pb-2">Tax</th>
+                          <th className="pb-2">Type</th>
                           <th className="pb-2 w-8"></th>
                         </tr>
                       </thead>
@@ -1134,10 +1326,10 @@ export default function UploadPage() {
                         {(editableItems ?? itemsData.line_items).map((item, idx) => {
                           const editableItem = editableItems?.[idx];
                           const lineSubtotal = editableItem
-                            ? computeLineSubtotal(editableItem)
+                            ? lineAmount(editableItem)
                             : item.line_subtotal;
-                          const lineTax = editableItem && editableItem.taxable && lineSubtotal != null
-                            ? lineSubtotal * HST_RATE
+                          const lineTax = editableItem && lineSubtotal != null
+                            ? computeLineTax(lineSubtotal, editableItem, taxProfile).tax
                             : 0;
 
                           return (
@@ -1187,14 +1379,30 @@ export default function UploadPage() {
                                     className="w-24 rounded-md border border-gray-200 px-2 py-1 text-sm"
                                   />
                                 ) : (
-                                  `$${item.unit_price?.toFixed(2) ?? 'N/A'}`
+                                  formatMoney(item.unit_price, currency)
                                 )}
                               </td>
                               <td>
-                                ${lineSubtotal?.toFixed(2) ?? 'N/A'}
+                                {formatMoney(lineSubtotal, currency)}
                               </td>
                               <td className="text-center">
-                                {editableItem ? (
+                                {editableItem && taxClasses.length > 1 ? (
+                                  <select
+                                    value={editableItem.taxable ? editableItem.tax_class || taxClasses[0] : ''}
+                                    onChange={(e) =>
+                                      updateEditableItem(idx, {
+                                        taxable: e.target.value !== '',
+                                        tax_class: e.target.value || undefined
+                                      })
+                                    }
+                                    className="rounded-md border border-gray-200 px-1 py-1 text-xs"
+                                  >
+                                    <option value="">Exempt</option>
+                                    {taxClasses.map((taxClass) => (
+                                      <option key={taxClass} value={taxClass}>{taxClass}</option>
+                                    ))}
+                                  </select>
+                                ) : editableItem ? (
                                   <input
                                     type="checkbox"
                                     checked={editableItem.taxable}
@@ -1210,7 +1418,19 @@ export default function UploadPage() {
                                 )}
                               </td>
                               <td className="text-center">
-                                ${lineTax.toFixed(2)}
+                                {formatMoney(lineTax, currency)}
+                              </td>
+                              <td>
+                                {editableItem && chargesData ? (
+                                  <ReclassifyControl
+                                    name={editableItem.name_raw}
+                                    kind="item"
+                                    merchant={itemsData?.merchant_name}
+                                    onReclassify={(kind) => reclassifyLine({ kind: 'item', index: idx }, kind)}
+                                  />
+                                ) : (
+                                  '-'
+                                )}
                               </td>
                               <td className="text-right">
                                 {editableItem ? (
@@ -1243,15 +1463,20 @@ export default function UploadPage() {
                     <div className="mt-4 space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span>Items Subtotal:</span>
-                        <span className="font-semibold">${computedTotals.itemsSubtotal.toFixed(2)}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span>HST (13%):</span>
-                        <span className="font-semibold">${computedTotals.hstTotal.toFixed(2)}</span>
+                        <span className="font-semibold">{formatMoney(computedTotals.itemsSubtotal, currency)}</span>
                       </div>
+                      {computedTotals.taxComponents.map((component) => (
+                        <div key={component.name} className="flex justify-between">
+                          <span>
+                            {component.name}
+                            {taxProfile.inclusive ? ' (included)' : ''}:
+                          </span>
+                          <span className="font-semibold">{formatMoney(component.amount, currency)}</span>
+                        </div>
+                      ))}
                       <div className="flex justify-between text-base font-semibold pt-2 border-t">
                         <span>Total with Tax:</span>
-                        <span>${computedTotals.totalWithTax.toFixed(2)}</span>
+                        <span>{formatMoney(computedTotals.totalWithTax, currency)}</span>
                       </div>
                     </div>
                   )}
@@ -1268,32 +1493,61 @@ export default function UploadPage() {
                   <div className="flex justify-between">
                     <span>Items Subtotal:</span>
                     <span className="font-semibold">
-                      ${chargesData.subtotal_items?.toFixed(2) ?? 'N/A'}
+                      {formatMoney(chargesData.subtotal_items, currency)}
                     </span>
                   </div>
                   {(chargesData.fees || []).map((fee, idx) => (
-                    <div key={idx} className="flex justify-between">
-                      <span>{fee.type}:</span>
-                      <span>${fee.amount.toFixed(2)}</span>
+                    <div key={idx} className="flex justify-between gap-2">
+                      <span className="flex items-center gap-2">
+                        {fee.type}:
+                        {editableItems && (
+                          <ReclassifyControl
+                            name={fee.type}
+                            kind="fee"
+                            merchant={itemsData?.merchant_name}
+                            onReclassify={(kind) => reclassifyLine({ kind: 'fee', index: idx }, kind)}
+                          />
+                        )}
+                      </span>
+                      <span>{formatMoney(fee.amount, currency)}</span>
                     </div>
                   ))}
                   {(chargesData.discounts || []).map((discount, idx) => (
-                    <div key={idx} className="flex justify-between text-green-600">
-                      <span>{discount.description}:</span>
-                      <span>-${discount.amount.toFixed(2)}</span>
+                    <div key={idx} className="flex justify-between gap-2 text-green-600">
+                      <span className="flex items-center gap-2">
+                        {discount.description}:
+                        {editableItems && (
+                          <ReclassifyControl
+                            name={discount.description}
+                            kind="discount"
+                            merchant={itemsData?.merchant_name}
+                            onReclassify={(kind) => reclassifyLine({ kind: 'discount', index: idx }, kind)}
+                          />
+                        )}
+                      </span>
+                      <span>-{formatMoney(discount.amount, currency)}</span>
                     </div>
                   ))}
                   <div className="flex justify-between pt-2 border-t">
                     <span>Tax:</span>
-                    <span>${chargesData.total_tax_reported?.toFixed(2) ?? 'N/A'}</span>
+                    <span>{formatMoney(chargesData.total_tax_reported, currency)}</span>
                   </div>
                   <div className="flex justify-between text-lg font-bold pt-2 border-t-2">
                     <span>Grand Total:</span>
-                    <span>${chargesData.grand_total?.toFixed(2) ?? 'N/A'}</span>
+                    <span>{formatMoney(chargesData.grand_total, currency)}</span>
                   </div>
                 </CardContent>
               </Card>
             )}
+
+            {reconciliation && chargesData && (
+              <ReconciliationPanel
+                result={reconciliation}
+                currency={currency}
+                accepted={differenceAccepted}
+                onAccept={() => setAcceptedDifference(reconciliation.difference)}
+              />
+            )}
           </div>
         )}
 
@@ -1303,7 +1557,7 @@ export default function UploadPage() {
             className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
             onClick={() => setEnlargedImage(null)}
           >
-            <div className="relative flex items-center justify-center">
+            <div className="relative flex items-center justify-center gap-4">
               <button
                 onClick={() => setEnlargedImage(null)}
                 className="absolute -top-12 right-0 text-white hover:text-gray-300 transition-colors"
@@ -1314,12 +1568,45 @@ export default function UploadPage() {
                   <line x1="6" y1="6" x2="18" y2="18" strokeWidth="2" />
                 </svg>
               </button>
-              <img
-                src={enlargedImage}
-                alt="Enlarged preview"
-                className="max-w-full max-h-[90vh] object-contain rounded-lg"
-                onClick={(e) => e.stopPropagation()}
-              />
+              {enlargedProcessed ? (
+                <>
+                  <figure className="text-center" onClick={(e) => e.stopPropagation()}>
+                    <Image
+                      src={enlargedImage.url}
+                      alt="Original photo"
+                      width={enlargedProcessed.originalWidth}
+                      height={enlargedProcessed.originalHeight}
+                      unoptimized
+                      className="h-auto w-auto max-w-[45vw] max-h-[80vh] object-contain rounded-lg"
+                    />
+                    <figcaption className="mt-2 text-sm text-white">
+                      Before · {enlargedProcessed.originalWidth}×{enlargedProcessed.originalHeight} ·{' '}
+                      {formatFileSize(enlargedImage.file.size)}
+                    </figcaption>
+                  </figure>
+                  <figure className="text-center" onClick={(e) => e.stopPropagation()}>
+                    <Image
+                      src={enlargedProcessed.url}
+                      alt="Processed for upload"
+                      width={enlargedProcessed.width}
+                      height={enlargedProcessed.height}
+                      unoptimized
+                      className="h-auto w-auto max-w-[45vw] max-h-[80vh] object-contain rounded-lg"
+                    />
+                    <figcaption className="mt-2 text-sm text-white">
+                      After · {enlargedProcessed.width}×{enlargedProcessed.height} ·{' '}
+                      {formatFileSize(enlargedProcessed.file.size)}
+                    </figcaption>
+                  </figure>
+                </>
+              ) : (
+                <img
+                  src={enlargedImage.url}
+                  alt="Enlarged preview"
+                  className="max-w-full max-h-[90vh] object-contain rounded-lg"
+                  onClick={(e) => e.stopPropagation()}
+                />
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,354 @@
+/**
+ * BackupDialog Component
+ *
+ * Downloads the whole account (folders, groups, receipts and their photos)
+ * as one backup file, and restores a backup file step by step: pick the
+ * file, decide what happens to folders and groups whose names already
+ * exist, follow the progress, then review what was restored, skipped or
+ * failed.
+ *
+ * @example
+ * ```tsx
+ * {showBackup && <BackupDialog groups={groups} folders={folders} onClose={() => setShowBackup(false)} />}
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/lib/auth-context';
+import {
+  BackupError,
+  backupFileName,
+  backupStats,
+  conflictCount,
+  createBackup,
+  parseBackup,
+  planRestore,
+  type BackupArchive,
+  type BackupProgress,
+  type RestoreAction,
+  type RestoreItem,
+  type RestorePlan,
+  type RestoreResult,
+} from '@/lib/backup';
+import { mutations } from '@/lib/queries';
+import { downloadFile } from '@/lib/split-export';
+import type { Folder, Group } from '@/types';
+
+interface BackupDialogProps {
+  groups: Group[];
+  folders: Folder[];
+  onClose: () => void;
+}
+
+type Step =
+  | { kind: 'start' }
+  | { kind: 'exporting'; progress: BackupProgress | null }
+  | { kind: 'plan'; archive: BackupArchive; plan: RestorePlan }
+  | { kind: 'restoring'; progress: BackupProgress | null }
+  | { kind: 'done'; result: RestoreResult };
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm';
+
+const ACTION_LABELS: Record<RestoreAction, string> = {
+  create: 'Create',
+  merge: 'Use existing',
+  skip: 'Skip',
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function ProgressBar({ progress }: { progress: BackupProgress | null }) {
+  const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+  return (
+    <div className="space-y-2">
+      <div className="h-2 rounded-full bg-muted overflow-hidden">
+        <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-sm text-muted-foreground truncate">
+        {progress ? `${progress.done} of ${progress.total} · ${progress.label}` : 'Starting…'}
+      </p>
+    </div>
+  );
+}
+
+function PlanTable({
+  title,
+  items,
+  onChange,
+}: {
+  title: string;
+  items: RestoreItem[];
+  onChange: (sourceId: string, action: RestoreAction) => void;
+}) {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      <div className="max-h-48 overflow-auto rounded-md border">
+        <table className="w-full text-left text-sm">
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.sourceId} className="border-t first:border-t-0">
+                <td className="px-3 py-1.5">
+                  {item.name}
+                  {item.existingId && <span className="ml-2 text-xs text-amber-600">name already exists</span>}
+                </td>
+                <td className="px-3 py-1.5 text-right">
+                  <select
+                    aria-label={`What to do with ${item.name}`}
+                    value={item.action}
+                    onChange={(e) => onChange(item.sourceId, e.target.value as RestoreAction)}
+                    className={selectClassName}
+                  >
+                    {(item.existingId ? (['merge', 'create', 'skip'] as const) : (['create', 'skip'] as const)).map(
+                      (action) => (
+                        <option key={action} value={action}>
+                          {item.existingId && action === 'create' ? 'Create a copy' : ACTION_LABELS[action]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function BackupDialog({ groups, folders, onClose }: BackupDialogProps) {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>({ kind: 'start' });
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog stops a restore between steps
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const busy = step.kind === 'exporting' || step.kind === 'restoring';
+
+  const handleExport = async () => {
+    setError(null);
+    setStep({ kind: 'exporting', progress: null });
+    try {
+      const archive = await createBackup({
+        exportedBy: user?.email ?? null,
+        onProgress: (progress) => setStep({ kind: 'exporting', progress }),
+      });
+      downloadFile(JSON.stringify(archive), backupFileName(archive), 'application/json');
+      const stats = backupStats(archive);
+      toast.success(`Backed up ${plural(stats.groups, 'group')} and ${plural(stats.receipts, 'receipt')}`, {
+        description: stats.missingImages > 0 ? `${plural(stats.missingImages, 'photo')} could not be downloaded.` : undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the backup');
+    }
+    setStep({ kind: 'start' });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const archive = parseBackup(await file.text());
+      setStep({ kind: 'plan', archive, plan: planRestore(archive, { folders, groups }) });
+    } catch (err) {
+      setError(err instanceof BackupError ? err.message : 'Could not read the backup file');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const setAction = (list: keyof RestorePlan) => (sourceId: string, action: RestoreAction) => {
+    if (step.kind !== 'plan') return;
+    const plan = {
+      ...step.plan,
+      [list]: step.plan[list].map((item) => (item.sourceId === sourceId ? { ...item, action } : item)),
+    };
+    setStep({ ...step, plan });
+  };
+
+  const handleRestore = async (archive: BackupArchive, plan: RestorePlan) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setStep({ kind: 'restoring', progress: null });
+    try {
+      const result = await mutations.restoreBackup(archive, plan, {
+        currentUser: user?.email ?? null,
+        signal: controller.signal,
+        onProgress: (progress) => setStep({ kind: 'restoring', progress }),
+      });
+      setStep({ kind: 'done', result });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setError('Restore cancelled. Anything already restored was kept.');
+      } else {
+        setError(err instanceof Error ? err.message : 'Restore failed');
+      }
+      setStep({ kind: 'start' });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const renderBody = () => {
+    switch (step.kind) {
+      case 'start':
+        return (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2 rounded-lg border p-4">
+              <h3 className="font-semibold">Back up</h3>
+              <p className="text-sm text-muted-foreground">
+                Download every folder, group and receipt, with splits, payments and photos, as one file.
+              </p>
+              <Button onClick={handleExport}>
+                <Download className="w-4 h-4" />
+                Download backup
+              </Button>
+            </div>
+            <div className="space-y-2 rounded-lg border p-4">
+              <h3 className="font-semibold">Restore</h3>
+              <p className="text-sm text-muted-foreground">
+                Recreate a backup in this account. You choose what happens to names that already exist.
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4" />
+                Choose backup file
+              </Button>
+            </div>
+          </div>
+        );
+
+      case 'exporting':
+        return <ProgressBar progress={step.progress} />;
+
+      case 'plan': {
+        const stats = backupStats(step.archive);
+        const conflicts = conflictCount(step.plan);
+        return (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Backup from {new Date(step.archive.exported_at).toLocaleString()}
+              {step.archive.exported_by && ` by ${step.archive.exported_by}`}: {plural(stats.folders, 'folder')},{' '}
+              {plural(stats.groups, 'group')}, {plural(stats.receipts, 'receipt')}.
+            </p>
+            {conflicts > 0 && (
+              <p className="text-sm text-amber-700 bg-amber-50 p-3 rounded-md">
+                {plural(conflicts, 'name')} already exist in this account. Choose whether to use the existing folder or
+                group, create a copy or skip it. Using an existing group uploads its receipts into it again.
+              </p>
+            )}
+            {stats.restorableReceipts < stats.receipts && (
+              <p className="text-sm text-muted-foreground">
+                Receipts are restored by uploading their photos again, then applying the saved items and split.{' '}
+                {plural(stats.receipts - stats.restorableReceipts, 'receipt')} without photos will be skipped.
+              </p>
+            )}
+            <PlanTable title="Folders" items={step.plan.folders} onChange={setAction('folders')} />
+            <PlanTable title="Groups" items={step.plan.groups} onChange={setAction('groups')} />
+          </div>
+        );
+      }
+
+      case 'restoring':
+        return <ProgressBar progress={step.progress} />;
+
+      case 'done': {
+        const { result } = step;
+        return (
+          <div className="space-y-3 text-sm">
+            <p>
+              Restored {plural(result.folders, 'folder')}, {plural(result.groups, 'group')},{' '}
+              {plural(result.members, 'member')} and {plural(result.receipts, 'receipt')}.
+            </p>
+            {result.skipped.length > 0 && (
+              <details>
+                <summary className="cursor-pointer font-medium">{result.skipped.length} skipped</summary>
+                <ul className="mt-1 list-disc pl-5 text-muted-foreground">
+                  {result.skipped.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {result.warnings.length > 0 && (
+              <details open>
+                <summary className="cursor-pointer font-medium text-destructive">{result.warnings.length} failed</summary>
+                <ul className="mt-1 list-disc pl-5 text-destructive">
+                  {result.warnings.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center"
+      onClick={() => !busy && onClose()}
+    >
+      <div
+        className="bg-card border border-border rounded-2xl w-[90%] max-w-2xl max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <h2 className="text-xl font-bold">Backup & Restore</h2>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent transition-colors disabled:opacity-50"
+            aria-label="Close modal"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error && <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{error}</div>}
+          {renderBody()}
+        </div>
+
+        {(step.kind === 'plan' || step.kind === 'restoring' || step.kind === 'done') && (
+          <div className="flex justify-end gap-3 px-6 py-4 border-t border-border">
+            {step.kind === 'plan' && (
+              <>
+                <Button variant="outline" onClick={() => setStep({ kind: 'start' })}>
+                  Back
+                </Button>
+                <Button onClick={() => handleRestore(step.archive, step.plan)}>Restore</Button>
+              </>
+            )}
+            {step.kind === 'restoring' && (
+              <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            )}
+            {step.kind === 'done' && <Button onClick={onClose}>Done</Button>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * CameraCapture Component
+ *
+ * Photographs receipts with the device camera. Shows a live preview, keeps
+ * the shots as thumbnails and lets any of them be retaken or removed before
+ * they are handed back as files. Long receipts can be shot in several parts.
+ *
+ * @example
+ * ```tsx
+ * <CameraCapture
+ *   maxPhotos={5}
+ *   filePrefix="receipt-items"
+ *   onDone={(files) => setItemsImages(files)}
+ *   onCancel={() => setCapturing(false)}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Camera, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { captureFrame, describeCameraError, isCameraSupported, openCamera, stopCamera } from '@/lib/camera';
+import { cn } from '@/lib/utils';
+
+interface CameraCaptureProps {
+  /** 1 for a single photo, e.g. the charges section */
+  maxPhotos?: number;
+  filePrefix: string;
+  onDone: (files: File[]) => void;
+  onCancel: () => void;
+}
+
+interface Shot {
+  file: File;
+  url: string;
+}
+
+export function CameraCapture({ maxPhotos = 1, filePrefix, onDone, onCancel }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const shotsRef = useRef<Shot[]>([]);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [retakeIndex, setRetakeIndex] = useState<number | null>(null);
+  const [ready, setReady] = useState(false);
+  const [capturing, setCapturing] = useState(false);
+  const [error, setError] = useState<string | null>(
+    isCameraSupported() ? null : 'This browser cannot use the camera. Upload photos instead.'
+  );
+
+  useEffect(() => {
+    if (!isCameraSupported()) return;
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    openCamera()
+      .then((opened) => {
+        if (cancelled) {
+          stopCamera(opened);
+          return;
+        }
+        stream = opened;
+        if (videoRef.current) {
+          videoRef.current.srcObject = opened;
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(describeCameraError(err));
+      });
+
+    return () => {
+      cancelled = true;
+      stopCamera(stream);
+    };
+  }, []);
+
+  useEffect(() => {
+    shotsRef.current = shots;
+  }, [shots]);
+
+  // The previews only live on this screen; `onDone` hands back the files, not their URLs
+  useEffect(() => () => shotsRef.current.forEach((shot) => URL.revokeObjectURL(shot.url)), []);
+
+  const isFull = shots.length >= maxPhotos && retakeIndex === null;
+
+  const handleCapture = async () => {
+    if (!videoRef.current || isFull) return;
+
+    setCapturing(true);
+    try {
+      const index = retakeIndex ?? shots.length;
+      const file = await captureFrame(videoRef.current, `${filePrefix}-${index + 1}-${Date.now()}.jpg`);
+      const shot = { file, url: URL.createObjectURL(file) };
+
+      setShots((prev) => {
+        if (retakeIndex === null) return [...prev, shot];
+        URL.revokeObjectURL(prev[retakeIndex].url);
+        return prev.map((current, i) => (i === retakeIndex ? shot : current));
+      });
+      setRetakeIndex(null);
+    } catch (err) {
+      setError(describeCameraError(err));
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    URL.revokeObjectURL(shots[index].url);
+    setShots((prev) => prev.filter((_, i) => i !== index));
+    setRetakeIndex(null);
+  };
+
+  const handleDone = () => {
+    onDone(shots.map((shot) => shot.file));
+  };
+
+  return (
+    <div className="space-y-3">
+      {error ? (
+        <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      ) : (
+        <div className="relative overflow-hidden rounded-lg bg-black">
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            onLoadedMetadata={() => setReady(true)}
+            className="max-h-[60vh] w-full object-contain"
+            aria-label="Camera preview"
+          />
+          {retakeIndex !== null && (
+            <span className="absolute left-2 top-2 rounded bg-black/70 px-2 py-1 text-xs text-white">
+              Retaking photo {retakeIndex + 1}
+            </span>
+          )}
+        </div>
+      )}
+
+      {shots.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {shots.map((shot, index) => (
+            <div
+              key={shot.url}
+              className={cn(
+                'relative h-20 w-16 shrink-0 overflow-hidden rounded-md border-2',
+                retakeIndex === index ? 'border-blue-500' : 'border-transparent'
+              )}
+            >
+              <Image src={shot.url} alt={`Photo ${index + 1}`} fill unoptimized sizes="64px" className="object-cover" />
+              <div className="absolute inset-x-0 bottom-0 flex justify-between bg-black/60 p-0.5">
+                <button
+                  type="button"
+                  onClick={() => setRetakeIndex(retakeIndex === index ? null : index)}
+                  className="text-white"
+                  aria-label={`Retake photo ${index + 1}`}
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(index)}
+                  className="text-white"
+                  aria-label={`Remove photo ${index + 1}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {!error && (
+          <Button onClick={handleCapture} isLoading={capturing} disabled={!ready || isFull}>
+            <Camera className="h-4 w-4" />
+            {retakeIndex !== null ? 'Retake' : 'Take photo'}
+          </Button>
+        )}
+        <Button variant="outline" onClick={handleDone} disabled={shots.length === 0}>
+          Use {shots.length} photo{shots.length === 1 ? '' : 's'}
+        </Button>
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+      {maxPhotos > 1 && (
+        <p className="text-xs text-gray-500">
+          Long receipt? Photograph it in parts, top to bottom ({shots.length}/{maxPhotos}).
+        </p>
+      )}
+    </div>
+  );
+}
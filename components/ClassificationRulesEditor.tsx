@@ -0,0 +1,166 @@
+/**
+ * ClassificationRulesEditor Component
+ *
+ * Edits the account's rules for sorting imported rows into items, fees and
+ * discounts. Rules are tried top to bottom (merchant rules first) and the
+ * first match wins. Changes are kept as a draft until saved; patterns that
+ * are not valid regular expressions are flagged and never match.
+ *
+ * @example
+ * ```tsx
+ * {showRules && <ClassificationRulesEditor onClose={() => setShowRules(false)} />}
+ * ```
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/lib/auth-context';
+import { createRule, DEFAULT_RULES, LINE_KINDS, ruleRegExp } from '@/lib/classification';
+import { mutations, useClassificationRules } from '@/lib/queries';
+import { cn } from '@/lib/utils';
+import type { ClassificationRule, LineKind } from '@/types';
+
+interface ClassificationRulesEditorProps {
+  onClose: () => void;
+}
+
+const fieldClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm';
+
+export function ClassificationRulesEditor({ onClose }: ClassificationRulesEditorProps) {
+  const { user } = useAuth();
+  const { data: savedRules, isLoading } = useClassificationRules({ enabled: !!user });
+  // Unsaved edits; null while the list matches the account's rules
+  const [draft, setDraft] = useState<ClassificationRule[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const rules = draft ?? savedRules ?? DEFAULT_RULES;
+
+  const updateRule = (id: string, changes: Partial<ClassificationRule>) =>
+    setDraft(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await mutations.saveClassificationRules(draft.filter((rule) => rule.pattern.trim()));
+      setDraft(null);
+      toast.success('Rules saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Rows are checked against these rules from the top; the first match decides. Rules for a merchant are
+        tried first. &ldquo;Words&rdquo; match whole words, so &ldquo;tip&rdquo; does not catch &ldquo;Tipo 00
+        flour&rdquo;.
+      </p>
+
+      <div className="max-h-72 overflow-auto rounded-md border">
+        <table className="w-full text-left text-sm">
+          <thead className="sticky top-0 bg-gray-50 text-xs">
+            <tr>
+              <th className="px-2 py-1">Pattern</th>
+              <th className="px-2 py-1">Match</th>
+              <th className="px-2 py-1">Type</th>
+              <th className="px-2 py-1">Merchant</th>
+              <th className="w-8"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => {
+              const invalid = rule.pattern.trim() !== '' && ruleRegExp(rule) === null;
+              return (
+                <tr key={rule.id} className="border-t">
+                  <td className="px-2 py-1">
+                    <input
+                      value={rule.pattern}
+                      onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                      className={cn(fieldClassName, 'w-full', invalid && 'border-red-400 bg-red-50')}
+                      aria-label="Pattern"
+                      aria-invalid={invalid}
+                      title={invalid ? 'Not a valid regular expression' : undefined}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <select
+                      value={rule.match}
+                      onChange={(e) => updateRule(rule.id, { match: e.target.value as ClassificationRule['match'] })}
+                      className={fieldClassName}
+                      aria-label="Match"
+                    >
+                      <option value="word">Words</option>
+                      <option value="regex">Regex</option>
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <select
+                      value={rule.kind}
+                      onChange={(e) => updateRule(rule.id, { kind: e.target.value as LineKind })}
+                      className={fieldClassName}
+                      aria-label="Type"
+                    >
+                      {LINE_KINDS.map((option) => (
+                        <option key={option.kind} value={option.kind}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      value={rule.merchant ?? ''}
+                      onChange={(e) => updateRule(rule.id, { merchant: e.target.value || null })}
+                      placeholder="Any"
+                      className={cn(fieldClassName, 'w-32')}
+                      aria-label="Merchant"
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <Button
+                      size="icon-xs"
+                      variant="ghost"
+                      onClick={() => setDraft(rules.filter((other) => other.id !== rule.id))}
+                      aria-label={`Delete rule ${rule.pattern}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {!user && <p className="text-xs text-gray-500">Sign in to save your own rules.</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setDraft([createRule({ match: 'word', pattern: '', kind: 'fee', merchant: null }), ...rules])}
+        >
+          Add rule
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setDraft(DEFAULT_RULES)}>
+          Restore defaults
+        </Button>
+        <Button size="sm" onClick={handleSave} isLoading={saving} disabled={!user || !draft || isLoading}>
+          Save rules
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+/**
+ * CsvImport Component
+ *
+ * Paste area for CSV/TSV item lists with a column-mapping step: the columns
+ * are matched to name, quantity, unit price, line total and taxable by their
+ * header (or position), any of them can be reassigned, and a preview grid
+ * marks the rows that cannot be imported and why.
+ *
+ * @example
+ * ```tsx
+ * <CsvImport
+ *   priceField="lineTotal"
+ *   onImport={(items) => setEditableItems(items)}
+ *   onCancel={() => setShowCsvImport(false)}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useMemo, useState, type ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  CSV_FIELDS,
+  detectDelimiter,
+  guessColumns,
+  mapRows,
+  parseCsv,
+  type ColumnMapping,
+  type CsvField,
+  type DecimalSeparator,
+  type Delimiter,
+} from '@/lib/csv-import';
+import { cn } from '@/lib/utils';
+import type { LineItem } from '@/types';
+
+interface CsvImportProps {
+  /** What a third column without a header holds */
+  priceField?: 'unitPrice' | 'lineTotal';
+  placeholder?: string;
+  submitLabel?: string;
+  isLoading?: boolean;
+  /** Extra controls shown next to the parsing options */
+  children?: ReactNode;
+  onImport: (items: LineItem[]) => void;
+  onCancel?: () => void;
+}
+
+const DELIMITERS: { value: Delimiter | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Detect' },
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+];
+
+const DECIMALS: { value: DecimalSeparator | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Detect' },
+  { value: '.', label: '1,234.56' },
+  { value: ',', label: '1.234,56' },
+];
+
+/** Rows shown in the preview; all rows are imported */
+const PREVIEW_ROWS = 50;
+
+const selectClassName = 'px-2 py-1 border border-gray-300 rounded-md text-sm';
+
+export function CsvImport({
+  priceField = 'unitPrice',
+  placeholder,
+  submitLabel = 'Import',
+  isLoading = false,
+  children,
+  onImport,
+  onCancel,
+}: CsvImportProps) {
+  const [text, setText] = useState('');
+  const [delimiter, setDelimiter] = useState<Delimiter | 'auto'>('auto');
+  const [decimal, setDecimal] = useState<DecimalSeparator | 'auto'>('auto');
+  // User choices; null until a column is reassigned by hand
+  const [mappingOverride, setMappingOverride] = useState<ColumnMapping | null>(null);
+  const [headerOverride, setHeaderOverride] = useState<boolean | null>(null);
+
+  const records = useMemo(
+    () => (text.trim() ? parseCsv(text, delimiter === 'auto' ? detectDelimiter(text) : delimiter) : []),
+    [text, delimiter]
+  );
+  const guess = useMemo(() => guessColumns(records, { priceField }), [records, priceField]);
+  const mapping = mappingOverride ?? guess.mapping;
+  const hasHeader = headerOverride ?? guess.hasHeader;
+  const rows = useMemo(() => mapRows(records, mapping, { hasHeader, decimal }), [records, mapping, hasHeader, decimal]);
+
+  const width = Math.max(0, ...records.map((record) => record.length));
+  const columnNames = Array.from({ length: width }, (_, column) =>
+    hasHeader && records[0][column]?.trim() ? records[0][column].trim() : `Column ${column + 1}`
+  );
+  const items = rows.flatMap((row) => (row.item ? [row.item] : []));
+  const invalidCount = rows.length - items.length;
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setMappingOverride(null);
+    setHeaderOverride(null);
+  };
+
+  const setColumn = (field: CsvField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[field];
+    else next[field] = Number(value);
+    setMappingOverride(next);
+  };
+
+  const handleImport = () => {
+    onImport(items);
+    setText('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={text}
+        onChange={(e) => handleTextChange(e.target.value)}
+        placeholder={placeholder}
+        className="w-full h-40 px-3 py-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="CSV data"
+      />
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2 text-gray-600">
+          Delimiter
+          <select
+            value={delimiter}
+            onChange={(e) => {
+              setDelimiter(e.target.value as Delimiter | 'auto');
+              setMappingOverride(null);
+            }}
+            className={selectClassName}
+          >
+            {DELIMITERS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          Numbers
+          <select
+            value={decimal}
+            onChange={(e) => setDecimal(e.target.value as DecimalSeparator | 'auto')}
+            className={selectClassName}
+          >
+            {DECIMALS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-600">
+          <input type="checkbox" checked={hasHeader} onChange={(e) => setHeaderOverride(e.target.checked)} />
+          First row is a header
+        </label>
+        {children}
+      </div>
+
+      {records.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-3 text-sm">
+            {CSV_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex flex-col gap-1 text-gray-600">
+                {label}
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => setColumn(field, e.target.value)}
+                  className={selectClassName}
+                >
+                  <option value="">Not used</option>
+                  {columnNames.map((name, column) => (
+                    <option key={column} value={column}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="max-h-72 overflow-auto rounded-md border">
+            <table className="w-full text-left text-xs">
+              <thead className="sticky top-0 bg-gray-50">
+                <tr>
+                  <th className="px-2 py-1">Row</th>
+                  <th className="px-2 py-1">Name</th>
+                  <th className="px-2 py-1">Qty</th>
+                  <th className="px-2 py-1">Unit price</th>
+                  <th className="px-2 py-1">Line total</th>
+                  <th className="px-2 py-1">Taxable</th>
+                  <th className="px-2 py-1">Problems</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                  <tr key={row.line} className={cn('border-t', row.errors.length > 0 && 'bg-red-50 text-red-700')}>
+                    <td className="px-2 py-1 text-gray-500">{row.line}</td>
+                    <td className="px-2 py-1">{row.item?.name_raw ?? row.cells[mapping.name ?? -1] ?? ''}</td>
+                    <td className="px-2 py-1">{row.item?.quantity ?? ''}</td>
+                    <td className="px-2 py-1">{row.item?.unit_price?.toFixed(2) ?? ''}</td>
+                    <td className="px-2 py-1">{row.item?.line_subtotal?.toFixed(2) ?? ''}</td>
+                    <td className="px-2 py-1">{row.item ? (row.item.taxable ? 'Yes' : 'No') : ''}</td>
+                    <td className="px-2 py-1">{row.errors.join('; ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500">
+            {items.length} row{items.length === 1 ? '' : 's'} ready
+            {invalidCount > 0 && `, ${invalidCount} with problems will be skipped`}
+            {rows.length > PREVIEW_ROWS && ` (showing the first ${PREVIEW_ROWS})`}
+          </p>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleImport} isLoading={isLoading} disabled={items.length === 0}>
+          {submitLabel}
+          {items.length > 0 && ` ${items.length} row${items.length === 1 ? '' : 's'}`}
+        </Button>
+        {onCancel ? (
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={() => handleTextChange('')} disabled={!text.trim()}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
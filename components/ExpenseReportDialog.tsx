@@ -0,0 +1,257 @@
+/**
+ * ExpenseReportDialog Component
+ *
+ * Report builder for expense claims and accounting: pick a folder, a group
+ * or all receipts, narrow it to a date range, choose how totals are grouped
+ * and download the rows as CSV, Excel-friendly CSV or a JSON archive. The
+ * totals preview uses the same rows as the downloads.
+ *
+ * @example
+ * ```tsx
+ * {showReport && (
+ *   <ExpenseReportDialog
+ *     groups={groups}
+ *     folders={folders}
+ *     initialScope={{ kind: 'folder', folderId }}
+ *     onClose={() => setShowReport(false)}
+ *   />
+ * )}
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatMoney } from '@/lib/currency';
+import {
+  buildExpenseReport,
+  describeScope,
+  REPORT_GROUP_BY,
+  reportToCsv,
+  reportToJson,
+  scopeGroups,
+  type ReportGroupBy,
+  type ReportScope,
+} from '@/lib/expense-report';
+import { fetchGroupReceipts } from '@/lib/queries';
+import { downloadFile } from '@/lib/split-export';
+import type { Folder, Group, Receipt } from '@/types';
+
+interface ExpenseReportDialogProps {
+  groups: Group[];
+  folders: Folder[];
+  initialScope?: ReportScope;
+  onClose: () => void;
+}
+
+const selectClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm';
+
+const scopeValue = (scope: ReportScope) =>
+  scope.kind === 'all' ? 'all' : scope.kind === 'folder' ? `folder:${scope.folderId ?? ''}` : `group:${scope.groupId}`;
+
+const parseScope = (value: string): ReportScope => {
+  const kind = value.split(':')[0];
+  const id = value.slice(kind.length + 1);
+  if (kind === 'folder') return { kind: 'folder', folderId: id || null };
+  if (kind === 'group') return { kind: 'group', groupId: id };
+  return { kind: 'all' };
+};
+
+export function ExpenseReportDialog({ groups, folders, initialScope = { kind: 'all' }, onClose }: ExpenseReportDialogProps) {
+  const [scope, setScope] = useState<ReportScope>(initialScope);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [groupBy, setGroupBy] = useState<ReportGroupBy>('month');
+  // Receipts of the groups they were loaded for, so a scope change shows loading again
+  const [loaded, setLoaded] = useState<{
+    groups: Group[];
+    entries: { group: Group; receipt: Receipt }[] | null;
+    error: string | null;
+  } | null>(null);
+
+  const scopedGroups = useMemo(() => scopeGroups(groups, scope), [groups, scope]);
+  const current = loaded?.groups === scopedGroups ? loaded : null;
+  const entries = current?.entries ?? null;
+  const error = current?.error ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      scopedGroups.map(async (group) => (await fetchGroupReceipts(group.id)).map((receipt) => ({ group, receipt })))
+    )
+      .then((results) => {
+        if (!cancelled) setLoaded({ groups: scopedGroups, entries: results.flat(), error: null });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setLoaded({
+            groups: scopedGroups,
+            entries: null,
+            error: err instanceof Error ? err.message : 'Failed to load receipts',
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scopedGroups]);
+
+  const report = useMemo(
+    () => (entries ? buildExpenseReport(entries, { groupBy, from: from || undefined, to: to || undefined }) : null),
+    [entries, groupBy, from, to]
+  );
+
+  const scopeName = describeScope(scope, groups, folders);
+  const fileName = `expense-report-${scopeName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'receipts'}-${new Date().toISOString().slice(0, 10)}`;
+  const groupByLabel = REPORT_GROUP_BY.find((option) => option.value === groupBy)!.label;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-card border border-border rounded-2xl w-[90%] max-w-2xl max-h-[90vh] flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <h2 className="text-xl font-bold">Expense Report</h2>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent transition-colors"
+            aria-label="Close modal"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="report-scope">Receipts from</Label>
+              <select
+                id="report-scope"
+                value={scopeValue(scope)}
+                onChange={(e) => setScope(parseScope(e.target.value))}
+                className={selectClassName}
+              >
+                <option value="all">All receipts</option>
+                <optgroup label="Folders">
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={`folder:${folder.id}`}>
+                      {folder.name}
+                    </option>
+                  ))}
+                  <option value="folder:">Uncategorized</option>
+                </optgroup>
+                <optgroup label="Groups">
+                  {groups.map((group) => (
+                    <option key={group.id} value={`group:${group.id}`}>
+                      {group.name}
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-from">From</Label>
+              <Input id="report-from" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-to">To</Label>
+              <Input id="report-to" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-group-by">Group totals by</Label>
+              <select
+                id="report-group-by"
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as ReportGroupBy)}
+                className={selectClassName}
+              >
+                {REPORT_GROUP_BY.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {error && <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{error}</div>}
+          {!report && !error && <p className="text-sm text-muted-foreground">Loading receipts…</p>}
+
+          {report && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {report.receipts.length} receipt{report.receipts.length === 1 ? '' : 's'}, {report.rows.length} row
+                {report.rows.length === 1 ? '' : 's'}
+              </p>
+              {report.totals.length > 0 && (
+                <div className="max-h-64 overflow-auto rounded-md border">
+                  <table className="w-full text-left text-sm">
+                    <thead className="sticky top-0 bg-gray-50 text-xs">
+                      <tr>
+                        <th className="px-3 py-1.5">{groupByLabel}</th>
+                        <th className="px-3 py-1.5 text-right">Receipts</th>
+                        <th className="px-3 py-1.5 text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.totals.map((total) => (
+                        <tr key={`${total.key}-${total.currency}`} className="border-t">
+                          <td className="px-3 py-1.5">{total.key}</td>
+                          <td className="px-3 py-1.5 text-right">{total.receipts}</td>
+                          <td className="px-3 py-1.5 text-right">{formatMoney(total.amount, total.currency)}</td>
+                        </tr>
+                      ))}
+                      {report.grandTotals.map((total) => (
+                        <tr key={`total-${total.currency}`} className="border-t font-semibold">
+                          <td className="px-3 py-1.5">{total.key}</td>
+                          <td className="px-3 py-1.5 text-right">{total.receipts}</td>
+                          <td className="px-3 py-1.5 text-right">{formatMoney(total.amount, total.currency)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-3 px-6 py-4 border-t border-border">
+          <Button
+            variant="outline"
+            disabled={!report?.rows.length}
+            onClick={() => report && downloadFile(reportToCsv(report), `${fileName}.csv`, 'text/csv')}
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!report?.rows.length}
+            onClick={() => report && downloadFile(reportToCsv(report, { excel: true }), `${fileName}-excel.csv`, 'text/csv')}
+          >
+            <Download className="w-4 h-4" />
+            Excel CSV
+          </Button>
+          <Button
+            disabled={!report?.rows.length}
+            onClick={() =>
+              report && downloadFile(reportToJson(report, { scope: scopeName }), `${fileName}.json`, 'application/json')
+            }
+          >
+            <Download className="w-4 h-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
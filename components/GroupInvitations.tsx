@@ -0,0 +1,201 @@
+/**
+ * GroupInvitations Component
+ *
+ * Invites people to a group: by email, or as a shareable link/code when no
+ * email is given, each with a role and an expiry. Lists the group's
+ * invitations with their status, and lets admins copy open links and
+ * revoke open invitations. Nobody joins until they accept.
+ *
+ * @example
+ * ```tsx
+ * <GroupInvitations group={group} canManage={myRole === 'admin'} />
+ * ```
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Copy, Link2, Mail, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  describeExpiry,
+  INVITATION_STATUS_LABELS,
+  INVITE_EXPIRY_OPTIONS,
+  invitationStatus,
+  inviteLink,
+  isOpenInvitation,
+} from '@/lib/invitations';
+import { mutations, useGroupInvitations } from '@/lib/queries';
+import type { Group, GroupInvitation, GroupRole, InvitationStatus } from '@/types';
+
+interface GroupInvitationsProps {
+  group: Group;
+  /** Admins invite and revoke; members only see the list */
+  canManage: boolean;
+}
+
+const selectClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm';
+
+const STATUS_STYLES: Record<InvitationStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  accepted: 'bg-green-100 text-green-700',
+  declined: 'bg-gray-100 text-gray-600',
+  expired: 'bg-gray-100 text-gray-500',
+};
+
+async function copyLink(invitation: GroupInvitation) {
+  try {
+    await navigator.clipboard.writeText(inviteLink(invitation.code));
+    toast.success('Invite link copied');
+  } catch {
+    toast.error(`Could not copy. The invite code is ${invitation.code}`);
+  }
+}
+
+export function GroupInvitations({ group, canManage }: GroupInvitationsProps) {
+  const { data: invitations = [], isLoading, error } = useGroupInvitations(group.id);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<GroupRole>('member');
+  const [expiryDays, setExpiryDays] = useState<number | null>(7);
+  const [creating, setCreating] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    const address = email.trim();
+    if (address && group.members.some((member) => member.email.toLowerCase() === address.toLowerCase())) {
+      setFormError(`${address} is already a member`);
+      return;
+    }
+
+    setCreating(true);
+    setFormError(null);
+    try {
+      const invitation = await mutations.createInvitation(group.id, {
+        email: address || undefined,
+        role,
+        expires_in_days: expiryDays,
+      });
+      setEmail('');
+      if (invitation.email) {
+        toast.success(`Invitation sent to ${invitation.email}`);
+      } else {
+        await copyLink(invitation);
+      }
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to create the invitation');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: GroupInvitation) => {
+    try {
+      await mutations.revokeInvitation(group.id, invitation.id);
+      toast.success(invitation.email ? `Invitation to ${invitation.email} revoked` : 'Invite link revoked');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke the invitation');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {canManage && (
+        <div className="space-y-3">
+          <h3 className="font-semibold text-sm">Invite People</h3>
+          <div className="space-y-2">
+            <Label htmlFor={`invite-email-${group.id}`}>Email address</Label>
+            <Input
+              id={`invite-email-${group.id}`}
+              type="email"
+              placeholder="Leave empty to create a shareable link"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor={`invite-role-${group.id}`}>Role</Label>
+              <select
+                id={`invite-role-${group.id}`}
+                value={role}
+                onChange={(e) => setRole(e.target.value as GroupRole)}
+                className={selectClassName}
+              >
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`invite-expiry-${group.id}`}>Expires after</Label>
+              <select
+                id={`invite-expiry-${group.id}`}
+                value={expiryDays ?? ''}
+                onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+                className={selectClassName}
+              >
+                {INVITE_EXPIRY_OPTIONS.map((option) => (
+                  <option key={option.label} value={option.days ?? ''}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {formError && <div className="text-sm text-red-600 bg-red-50 p-3 rounded-md">{formError}</div>}
+
+          <Button onClick={handleCreate} isLoading={creating} className="w-full">
+            {email.trim() ? <Mail className="w-4 h-4" /> : <Link2 className="w-4 h-4" />}
+            {email.trim() ? 'Send Invitation' : 'Create Invite Link'}
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="font-semibold text-sm">Invitations</h3>
+        {error && <p className="text-sm text-red-600">{error.message}</p>}
+        {isLoading && <p className="text-sm text-gray-500">Loading invitations…</p>}
+        {!isLoading && !error && invitations.length === 0 && (
+          <p className="text-sm text-gray-500">No invitations yet.</p>
+        )}
+        <div className="space-y-2 max-h-56 overflow-y-auto">
+          {invitations.map((invitation) => {
+            const status = invitationStatus(invitation);
+            const open = isOpenInvitation(invitation);
+            return (
+              <div key={invitation.id} className="flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    <span className="truncate">{invitation.email ?? `Link · ${invitation.code}`}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[status]}`}>
+                      {INVITATION_STATUS_LABELS[status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {invitation.role === 'admin' ? 'Admin' : 'Member'} · {open ? describeExpiry(invitation) : `by ${invitation.invited_by}`}
+                    {!invitation.email && invitation.accepted_by?.length ? ` · ${invitation.accepted_by.length} joined` : ''}
+                  </p>
+                </div>
+                {canManage && open && (
+                  <div className="flex shrink-0 gap-1">
+                    {!invitation.email && (
+                      <Button variant="ghost" size="icon-xs" onClick={() => copyLink(invitation)} title="Copy invite link">
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="icon-xs" onClick={() => handleRevoke(invitation)} title="Revoke">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+/**
+ * GroupSettingsDrawer Component
+ *
+ * Side panel behind the Settings action on a dashboard group card: group
+ * name and description, default folder, tax profile and currency, members
+ * (roles, removal, ownership), invitations, and leaving or deleting the
+ * group. Controls are enabled according to the signed-in user's role; see
+ * `getGroupPermissions`.
+ *
+ * @example
+ * ```tsx
+ * {settingsGroup && (
+ *   <GroupSettingsDrawer group={settingsGroup} folders={folders} onClose={() => setSettingsGroupId(null)} />
+ * )}
+ * ```
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Crown, LogOut, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { GroupInvitations } from '@/components/GroupInvitations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/lib/auth-context';
+import { getGroupCurrency, SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { getGroupPermissions, getMemberActions, isGroupOwner } from '@/lib/group-permissions';
+import { mutations } from '@/lib/queries';
+import { describeTaxProfile, resolveTaxProfile, TAX_PROFILES } from '@/lib/tax';
+import type { Folder, Group, GroupMember } from '@/types';
+
+interface GroupSettingsDrawerProps {
+  group: Group;
+  folders: Folder[];
+  onClose: () => void;
+}
+
+const selectClassName = 'w-full px-2 py-1.5 border border-gray-300 rounded-md text-sm disabled:opacity-60';
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-3 px-6 py-5 border-b border-border">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+export function GroupSettingsDrawer({ group, folders, onClose }: GroupSettingsDrawerProps) {
+  const { user } = useAuth();
+  const permissions = getGroupPermissions(group, user?.email);
+  const [name, setName] = useState(group.name);
+  const [description, setDescription] = useState(group.description ?? '');
+  const [confirmName, setConfirmName] = useState('');
+  // Key of the action in flight, so only its button shows a spinner
+  const [pending, setPending] = useState<string | null>(null);
+
+  const detailsChanged = name.trim() !== group.name || description.trim() !== (group.description ?? '');
+
+  const run = async (key: string, action: () => Promise<unknown>, success: string, onDone?: () => void) => {
+    setPending(key);
+    try {
+      await action();
+      toast.success(success);
+      onDone?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleSaveDetails = () =>
+    run(
+      'details',
+      () => mutations.updateGroup(group.id, { name: name.trim(), description: description.trim() || null }),
+      'Group details saved'
+    );
+
+  const handleFolderChange = (folderId: string) => {
+    const folder = folders.find((f) => f.id === folderId);
+    return run(
+      'folder',
+      () => mutations.moveReceipt(group.id, folderId || null),
+      folder ? `Moved to "${folder.name}"` : 'Moved to Uncategorized'
+    );
+  };
+
+  const handleRoleChange = (member: GroupMember, role: 'admin' | 'member') =>
+    run(
+      `role:${member.email}`,
+      () => mutations.updateGroupMemberRole(group.id, member.email, role),
+      `${member.email} is now ${role === 'admin' ? 'an admin' : 'a member'}`
+    );
+
+  const handleRemove = (member: GroupMember) => {
+    if (!confirm(`Remove ${member.email} from "${group.name}"?`)) return;
+    return run(`remove:${member.email}`, () => mutations.removeGroupMember(group.id, member.email), `${member.email} removed`);
+  };
+
+  const handleMakeOwner = (member: GroupMember) => {
+    if (!confirm(`Make ${member.email} the owner of "${group.name}"? You will stay an admin.`)) return;
+    return run(
+      `owner:${member.email}`,
+      () => mutations.transferGroupOwnership(group.id, member.email),
+      `${member.email} now owns "${group.name}"`
+    );
+  };
+
+  const handleLeave = () => {
+    if (!confirm(`Leave "${group.name}"? You will need a new invitation to rejoin.`)) return;
+    return run('leave', () => mutations.leaveGroup(group.id), `You left "${group.name}"`, onClose);
+  };
+
+  const handleDelete = () =>
+    run('delete', () => mutations.deleteGroup(group.id), `Group "${group.name}" deleted`, onClose);
+
+  const taxProfile = resolveTaxProfile(null, group);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex justify-end" onClick={onClose}>
+      <aside
+        className="bg-card border-l border-border w-full max-w-md h-full flex flex-col shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+        aria-label={`${group.name} settings`}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold truncate">{group.name}</h2>
+            <p className="text-xs text-muted-foreground">
+              {permissions.isOwner ? 'Owner' : permissions.role === 'admin' ? 'Admin' : 'Member'}
+              {!permissions.canEdit && ' · Only admins can change these settings'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-8 h-8 flex items-center justify-center rounded-md hover:bg-accent transition-colors"
+            aria-label="Close settings"
+            title="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <Section title="Details">
+            <div className="space-y-2">
+              <Label htmlFor="group-settings-name">Name</Label>
+              <Input
+                id="group-settings-name"
+                value={name}
+                disabled={!permissions.canEdit}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-settings-description">Description</Label>
+              <textarea
+                id="group-settings-description"
+                value={description}
+                disabled={!permissions.canEdit}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm disabled:opacity-60"
+              />
+            </div>
+            {permissions.canEdit && (
+              <Button
+                size="sm"
+                onClick={handleSaveDetails}
+                disabled={!detailsChanged || !name.trim()}
+                isLoading={pending === 'details'}
+              >
+                Save
+              </Button>
+            )}
+          </Section>
+
+          <Section title="Defaults">
+            <div className="space-y-2">
+              <Label htmlFor="group-settings-folder">Folder</Label>
+              <select
+                id="group-settings-folder"
+                value={group.folder_id ?? ''}
+                disabled={!permissions.canEdit || pending === 'folder'}
+                onChange={(e) => handleFolderChange(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">Uncategorized</option>
+                {folders.map((folder) => (
+                  <option key={folder.id} value={folder.id}>
+                    {folder.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-settings-tax">Tax profile</Label>
+              <select
+                id="group-settings-tax"
+                value={taxProfile.id}
+                disabled={!permissions.canEdit || pending === 'tax'}
+                onChange={(e) =>
+                  run('tax', () => mutations.updateGroup(group.id, { tax_profile_id: e.target.value }), 'Tax profile saved')
+                }
+                className={selectClassName}
+              >
+                {TAX_PROFILES.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name} ({describeTaxProfile(profile)})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-settings-currency">Settle in</Label>
+              <select
+                id="group-settings-currency"
+                value={getGroupCurrency(group)}
+                disabled={!permissions.canEdit || pending === 'currency'}
+                onChange={(e) =>
+                  run('currency', () => mutations.updateGroup(group.id, { base_currency: e.target.value }), 'Currency saved')
+                }
+                className={selectClassName}
+              >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </Section>
+
+          <Section title={`Members (${group.members.length})`}>
+            <div className="space-y-2">
+              {group.members.map((member) => {
+                const actions = getMemberActions(group, user?.email, member);
+                const isOwner = isGroupOwner(group, member.email);
+                return (
+                  <div key={member.email} className="p-3 bg-muted/50 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium truncate">{member.email}</span>
+                      {member.email === user?.email && <span className="text-xs text-muted-foreground">(you)</span>}
+                      <span className="ml-auto text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-700">
+                        {isOwner ? 'Owner' : member.role === 'admin' ? 'Admin' : 'Member'}
+                      </span>
+                    </div>
+                    {(actions.canPromote || actions.canDemote || actions.canMakeOwner || actions.canRemove) && (
+                      <div className="flex flex-wrap gap-1">
+                        {actions.canPromote && (
+                          <Button
+                            variant="outline"
+                            size="xs"
+                            onClick={() => handleRoleChange(member, 'admin')}
+                            isLoading={pending === `role:${member.email}`}
+                          >
+                            Make admin
+                          </Button>
+                        )}
+                        {actions.canDemote && (
+                          <Button
+                            variant="outline"
+                            size="xs"
+                            onClick={() => handleRoleChange(member, 'member')}
+                            isLoading={pending === `role:${member.email}`}
+                          >
+                            Make member
+                          </Button>
+                        )}
+                        {actions.canMakeOwner && (
+                          <Button
+                            variant="outline"
+                            size="xs"
+                            onClick={() => handleMakeOwner(member)}
+                            isLoading={pending === `owner:${member.email}`}
+                          >
+                            <Crown className="w-3 h-3" />
+                            Make owner
+                          </Button>
+                        )}
+                        {actions.canRemove && (
+                          <Button
+                            variant="ghost"
+                            size="xs"
+                            className="text-destructive"
+                            onClick={() => handleRemove(member)}
+                            isLoading={pending === `remove:${member.email}`}
+                          >
+                            Remove
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </Section>
+
+          <Section title="Invitations">
+            <GroupInvitations group={group} canManage={permissions.canManageMembers} />
+          </Section>
+
+          <Section title="Leave or delete">
+            <div className="space-y-2">
+              <Button
+                variant="outline"
+                onClick={handleLeave}
+                disabled={!permissions.canLeave}
+                isLoading={pending === 'leave'}
+              >
+                <LogOut className="w-4 h-4" />
+                Leave group
+              </Button>
+              {permissions.leaveBlockedReason && (
+                <p className="text-xs text-muted-foreground">{permissions.leaveBlockedReason}</p>
+              )}
+            </div>
+            {permissions.canDelete && (
+              <div className="space-y-2 pt-2">
+                <Label htmlFor="group-settings-delete">
+                  Deleting removes every receipt in this group. Type <strong>{group.name}</strong> to confirm.
+                </Label>
+                <Input
+                  id="group-settings-delete"
+                  value={confirmName}
+                  onChange={(e) => setConfirmName(e.target.value)}
+                  placeholder={group.name}
+                  autoComplete="off"
+                />
+                <Button
+                  variant="destructive"
+                  onClick={handleDelete}
+                  disabled={confirmName !== group.name}
+                  isLoading={pending === 'delete'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete group
+                </Button>
+              </div>
+            )}
+          </Section>
+        </div>
+      </aside>
+    </div>
+  );
+}
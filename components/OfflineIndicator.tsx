@@ -0,0 +1,100 @@
+/**
+ * OfflineIndicator Component
+ *
+ * Shows when the app is offline and how many changes are waiting to sync,
+ * and lists the queued changes that need a decision: conflicts with edits
+ * made elsewhere, and changes the server rejected. Also replays the queue
+ * whenever the connection comes back. Rendered once, in `Providers`.
+ *
+ * @example
+ * ```tsx
+ * <OfflineIndicator />
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/lib/auth-context';
+import { syncQueue, useOnlineStatus, useSyncQueue, useSyncQueueStorageError, type QueuedMutation } from '@/lib/sync-queue';
+import { cn } from '@/lib/utils';
+
+function describeMutation(mutation: QueuedMutation): string {
+  switch (mutation.kind) {
+    case 'saveSplit':
+      return 'Split assignments';
+    case 'updateItems':
+      return `Item edits (${mutation.lineItems.length} item${mutation.lineItems.length === 1 ? '' : 's'})`;
+    case 'moveReceipt':
+      return mutation.folderId ? 'Move to folder' : 'Move to Uncategorized';
+  }
+}
+
+export function OfflineIndicator() {
+  const { user } = useAuth();
+  const online = useOnlineStatus();
+  const entries = useSyncQueue();
+  const storageError = useSyncQueueStorageError();
+  const [expanded, setExpanded] = useState(false);
+
+  // Replay what is left from earlier visits, and again on reconnecting
+  useEffect(() => {
+    if (!user) return;
+    syncQueue.flush();
+    const handleOnline = () => syncQueue.flush();
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [user]);
+
+  const pendingCount = entries.filter((entry) => entry.status === 'pending').length;
+  const attention = entries.filter((entry) => entry.status !== 'pending');
+
+  if (online && entries.length === 0 && !storageError) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 max-w-sm text-sm">
+      {storageError && (
+        <p role="alert" className="mb-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 shadow-lg">
+          {storageError}
+        </p>
+      )}
+      {expanded && attention.length > 0 && (
+        <div className="mb-2 rounded-lg border border-gray-200 bg-white p-3 shadow-lg space-y-3">
+          {attention.map((entry) => (
+            <div key={entry.id} className="space-y-1">
+              <p className="font-medium">{describeMutation(entry.mutation)}</p>
+              <p className="text-xs text-gray-600">{entry.error}</p>
+              <div className="flex gap-2">
+                <Button size="xs" onClick={() => syncQueue.retry(entry.id)}>
+                  {entry.status === 'conflict' ? 'Keep mine' : 'Try again'}
+                </Button>
+                <Button size="xs" variant="outline" onClick={() => syncQueue.discard(entry.id)}>
+                  {entry.status === 'conflict' ? 'Use theirs' : 'Discard'}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className={cn(
+          'flex items-center gap-2 rounded-full px-3 py-1.5 shadow-md',
+          attention.length > 0 ? 'bg-red-600 text-white' : online ? 'bg-blue-600 text-white' : 'bg-gray-800 text-white'
+        )}
+      >
+        {online ? <RefreshCw className="h-4 w-4" /> : <CloudOff className="h-4 w-4" />}
+        <span>
+          {!online && 'Offline'}
+          {!online && pendingCount > 0 && ' · '}
+          {pendingCount > 0 && `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`}
+          {attention.length > 0 && `${pendingCount > 0 || !online ? ' · ' : ''}${attention.length} need${attention.length === 1 ? 's' : ''} review`}
+        </span>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+/**
+ * PayerEditor Component
+ *
+ * Records who paid a receipt. One payer covers the whole bill by default;
+ * more payers can be added for bills paid with several cards. The amounts
+ * must add up to the receipt's grand total before they can be saved.
+ *
+ * @example
+ * ```tsx
+ * <PayerEditor
+ *   receipt={receipt}
+ *   members={group.members}
+ *   onSaved={(updated) => replaceReceipt(updated)}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Plus, X } from 'lucide-react';
+import type { GroupMember, Receipt, ReceiptPayment } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { setReceiptPayments } from '@/lib/api';
+import { formatMoney, getReceiptCurrency } from '@/lib/currency';
+import { getReceiptPayments, getReceiptTotal, validatePayments } from '@/lib/settlement';
+import { fromCents, toCents } from '@/lib/split-engine';
+
+interface PayerEditorProps {
+    receipt: Receipt;
+    members: GroupMember[];
+    onSaved: (receipt: Receipt) => void;
+}
+
+export function PayerEditor({ receipt, members, onSaved }: PayerEditorProps) {
+    const currency = getReceiptCurrency(receipt);
+    const grandTotal = getReceiptTotal(receipt);
+
+    const [payments, setPayments] = useState<ReceiptPayment[]>([]);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        setPayments(
+            getReceiptPayments(receipt).map(({ email, amount }) => ({ email, amount: amount ?? getReceiptTotal(receipt) }))
+        );
+    }, [receipt]);
+
+    const check = validatePayments(payments, grandTotal);
+    const unusedMembers = members.filter(member => !payments.some(p => p.email === member.email));
+
+    const updatePayment = (index: number, updates: Partial<ReceiptPayment>) => {
+        setPayments(prev => prev.map((payment, idx) => (idx === index ? { ...payment, ...updates } : payment)));
+    };
+
+    const addPayer = () => {
+        if (unusedMembers.length === 0) return;
+        setPayments(prev => [...prev, { email: unusedMembers[0].email, amount: Math.max(check.remaining, 0) }]);
+    };
+
+    const removePayer = (index: number) => {
+        setPayments(prev => prev.filter((_, idx) => idx !== index));
+    };
+
+    // Give one payer whatever is left so the amounts balance
+    const fillRemaining = (index: number) => {
+        const amount = fromCents(toCents(payments[index].amount) + toCents(check.remaining));
+        updatePayment(index, { amount: Math.max(amount, 0) });
+    };
+
+    const handleSave = async () => {
+        if (!check.valid) return;
+
+        setSaving(true);
+        try {
+            const updated = await setReceiptPayments(receipt._id, payments);
+            onSaved({ ...receipt, payments, ...updated });
+            toast.success('Payers saved');
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to save payers');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader className="py-3 px-4 border-b">
+                <CardTitle className="text-lg">Paid By</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 space-y-3">
+                {payments.map((payment, idx) => (
+                    <div key={idx} className="flex items-center gap-2">
+                        <select
+                            value={payment.email}
+                            onChange={(e) => updatePayment(idx, { email: e.target.value })}
+                            className="flex-1 min-w-0 h-9 px-2 border border-input bg-background rounded-md text-sm"
+                            aria-label={`Payer ${idx + 1}`}
+                        >
+                            {members
+                                .filter(member => member.email === payment.email || unusedMembers.includes(member))
+                                .map(member => (
+                                    <option key={member.email} value={member.email}>
+                                        {member.email}
+                                    </option>
+                                ))}
+                        </select>
+                        <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={Number.isFinite(payment.amount) ? payment.amount : ''}
+                            onChange={(e) => updatePayment(idx, { amount: e.target.value === '' ? NaN : Number(e.target.value) })}
+                            className="w-28"
+                            aria-label={`Amount paid by ${payment.email}`}
+                        />
+                        {check.remaining !== 0 && (
+                            <Button size="xs" variant="ghost" onClick={() => fillRemaining(idx)}>
+                                Rest
+                            </Button>
+                        )}
+                        {payments.length > 1 && (
+                            <Button size="icon-xs" variant="ghost" onClick={() => removePayer(idx)} aria-label={`Remove ${payment.email}`}>
+                                <X />
+                            </Button>
+                        )}
+                    </div>
+                ))}
+
+                {unusedMembers.length > 0 && (
+                    <Button size="sm" variant="outline" onClick={addPayer}>
+                        <Plus /> Add payer
+                    </Button>
+                )}
+
+                <div className="flex justify-between text-sm border-t pt-2">
+                    <span>
+                        Paid {formatMoney(check.paid, currency)} of {formatMoney(grandTotal, currency)}
+                    </span>
+                    {check.remaining !== 0 && (
+                        <span className="text-amber-600">
+                            {check.remaining > 0
+                                ? `${formatMoney(check.remaining, currency)} left`
+                                : `${formatMoney(-check.remaining, currency)} too much`}
+                        </span>
+                    )}
+                </div>
+
+                <Button onClick={handleSave} isLoading={saving} disabled={!check.valid} className="w-full">
+                    Save Payers
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
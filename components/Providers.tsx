@@ -7,13 +7,21 @@
 
 'use client';
 
+import { useEffect } from 'react';
 import { AuthProvider } from '@/lib/auth-context';
+import { OfflineIndicator } from '@/components/OfflineIndicator';
 import { Toaster } from 'sonner';
+import { registerServiceWorker } from '@/lib/pwa';
 
 export function Providers({ children }: { children: React.ReactNode }) {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   return (
     <AuthProvider>
       {children}
+      <OfflineIndicator />
       <Toaster position="bottom-right" />
     </AuthProvider>
   );
@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { ReceiptCurrencyEditor } from './ReceiptCurrencyEditor';
+import { mockReceipt } from '../tests/fixtures/receipts';
+
+describe('ReceiptCurrencyEditor', () => {
+    const euroReceipt = {
+        ...mockReceipt,
+        currency: 'EUR',
+        exchange_rate: { base: 'EUR', quote: 'CAD', rate: 1.5, source: 'imported' as const, as_of: '2024-01-15T00:00:00Z' },
+    };
+
+    it('should show the stored rate for the receipt currency', () => {
+        render(<ReceiptCurrencyEditor receipt={euroReceipt} baseCurrency="CAD" onSaved={vi.fn()} />);
+
+        expect(screen.getByLabelText('1 EUR = ? CAD')).toHaveValue(1.5);
+    });
+
+    it('should clear the rate when another currency is picked', async () => {
+        render(<ReceiptCurrencyEditor receipt={euroReceipt} baseCurrency="CAD" onSaved={vi.fn()} />);
+
+        await userEvent.selectOptions(screen.getByLabelText('Receipt currency'), 'USD');
+
+        expect(screen.getByLabelText('1 USD = ? CAD')).toHaveValue(null);
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * ReceiptCurrencyEditor Component
+ *
+ * Sets the currency a receipt was paid in and, when it differs from the
+ * group's base currency, the exchange rate used to settle it. Rates can be
+ * typed in or imported from the backend.
+ *
+ * @example
+ * ```tsx
+ * <ReceiptCurrencyEditor
+ *   receipt={receipt}
+ *   baseCurrency="CAD"
+ *   onSaved={(updated) => replaceReceipt(updated)}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type { Receipt } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getExchangeRate, updateReceiptCurrency } from '@/lib/api';
+import {
+  createExchangeRate,
+  getConversionRate,
+  getReceiptCurrency,
+  SUPPORTED_CURRENCIES,
+} from '@/lib/currency';
+
+interface ReceiptCurrencyEditorProps {
+  receipt: Receipt;
+  baseCurrency: string;
+  onSaved: (receipt: Receipt) => void;
+}
+
+export function ReceiptCurrencyEditor({ receipt, baseCurrency, onSaved }: ReceiptCurrencyEditorProps) {
+  const [currency, setCurrency] = useState(getReceiptCurrency(receipt));
+  const [rate, setRate] = useState('');
+  const [source, setSource] = useState<'manual' | 'imported'>('manual');
+  const [importing, setImporting] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrency(getReceiptCurrency(receipt));
+    const storedRate = getConversionRate(receipt, baseCurrency);
+    setRate(storedRate != null && storedRate !== 1 ? storedRate.toString() : '');
+    setSource(receipt.exchange_rate?.source ?? 'manual');
+  }, [receipt, baseCurrency]);
+
+  const needsRate = currency !== baseCurrency;
+
+  const handleImportRate = async () => {
+    setImporting(true);
+    try {
+      const latest = await getExchangeRate(currency, baseCurrency);
+      setRate(latest.rate.toString());
+      setSource('imported');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to fetch exchange rate');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const parsedRate = Number(rate);
+    if (needsRate && (!rate || !Number.isFinite(parsedRate) || parsedRate <= 0)) {
+      toast.error(`Enter a ${currency} to ${baseCurrency} exchange rate`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const exchangeRate = needsRate
+        ? createExchangeRate(currency, baseCurrency, parsedRate, source)
+        : null;
+      const updated = await updateReceiptCurrency(receipt._id, currency, exchangeRate);
+      onSaved({ ...receipt, currency, exchange_rate: exchangeRate, ...updated });
+      toast.success('Currency saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save currency');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 p-3 bg-white border rounded-lg">
+      <div className="space-y-1">
+        <Label htmlFor="receipt-currency">Receipt currency</Label>
+        <select
+          id="receipt-currency"
+          value={currency}
+          onChange={(e) => {
+            // A rate only applies to the currency it was entered for
+            setCurrency(e.target.value);
+            setRate('');
+            setSource('manual');
+          }}
+          className="h-9 px-3 border border-input bg-background rounded-md text-sm"
+        >
+          {SUPPORTED_CURRENCIES.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </div>
+
+      {needsRate && (
+        <div className="space-y-1">
+          <Label htmlFor="receipt-rate">1 {currency} = ? {baseCurrency}</Label>
+          <div className="flex gap-2">
+            <Input
+              id="receipt-rate"
+              type="number"
+              step="0.0001"
+              min="0"
+              value={rate}
+              onChange={(e) => {
+                setRate(e.target.value);
+                setSource('manual');
+              }}
+              className="w-32"
+            />
+            <Button variant="outline" onClick={handleImportRate} isLoading={importing}>
+              Import rate
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Button onClick={handleSave} isLoading={saving}>
+        Save
+      </Button>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { ReceiptSplitter } from './ReceiptSplitter';
 import { mockReceipt, mockReceiptWithSplit } from '../tests/fixtures/receipts';
@@ -65,6 +65,71 @@ describe('ReceiptSplitter', () => {
         expect(screen.getByText('1 selected')).toBeInTheDocument();
     });
 
+    it('should keep unsaved assignments when the same receipt is refetched', async () => {
+        const { rerender } = render(
+            <ReceiptSplitter
+                receipt={mockReceiptWithSplit}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+        const saladAssignees = () => screen.getByText('Caesar Salad').closest('.flex-1')!.textContent;
+
+        await userEvent.click(screen.getByText('Caesar Salad'));
+        await userEvent.click(screen.getByRole('button', { name: /charlie@test\.com/ }));
+        expect(saladAssignees()).toContain('charlie@test.com');
+
+        rerender(
+            <ReceiptSplitter
+                receipt={{ ...mockReceiptWithSplit, split_details: { ...mockReceiptWithSplit.split_details } }}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+        expect(saladAssignees()).toContain('charlie@test.com');
+    });
+
+    it('should drop the weights of the previous receipt', () => {
+        const weighted = {
+            ...mockReceiptWithSplit,
+            split_weights: { '0': { mode: 'percent' as const, weights: { 'alice@test.com': 70, 'bob@test.com': 30 } } },
+        };
+        const { rerender } = render(
+            <ReceiptSplitter
+                receipt={weighted}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+        expect(screen.getByText('by percent')).toBeInTheDocument();
+
+        rerender(
+            <ReceiptSplitter
+                receipt={{ ...mockReceiptWithSplit, _id: 'receipt-2' }}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+        expect(screen.queryByText('by percent')).not.toBeInTheDocument();
+    });
+
+    it('should not save fixed amounts that fall short of the item', async () => {
+        const receipt = {
+            ...mockReceiptWithSplit,
+            split_weights: { '0': { mode: 'fixed' as const, weights: { 'alice@test.com': 10, 'bob@test.com': 8 } } },
+        };
+        render(
+            <ReceiptSplitter
+                receipt={receipt}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+
+        expect(screen.getByText(/amounts add up to \$18\.00, \$0\.50 short of \$18\.50/)).toBeInTheDocument();
+        expect(screen.getByRole('button', { name: /save split/i })).toBeDisabled();
+    });
+
     it('should calculate totals correctly with split', () => {
         render(
             <ReceiptSplitter
@@ -83,6 +148,95 @@ describe('ReceiptSplitter', () => {
         expect(screen.getByText('$23.92')).toBeInTheDocument();
     });
 
+    it('should derive totals from assigned units of a multi-quantity item', () => {
+        const receipt = {
+            ...mockReceipt,
+            split_details: {
+                '2': ['alice@test.com', 'alice@test.com', 'bob@test.com', 'charlie@test.com'],
+            },
+            split_weights: {
+                '2': { mode: 'units' as const, weights: {} },
+            },
+        };
+
+        render(
+            <ReceiptSplitter
+                receipt={receipt}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+
+        // Soft Drinks: 4 x $2.00
+        expect(screen.getByText('$4.00')).toBeInTheDocument();
+        expect(screen.getAllByText('$2.00')).toHaveLength(2);
+        expect(screen.getByText('by units')).toBeInTheDocument();
+        expect(screen.getByText('alice@test.com × 2')).toBeInTheDocument();
+    });
+
+    it('should save unit counts as repeated assignees', async () => {
+        render(
+            <ReceiptSplitter
+                receipt={mockReceipt}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+
+        await userEvent.click(screen.getByText('Soft Drinks'));
+        await userEvent.click(screen.getByRole('button', { name: /alice@test\.com/ }));
+        await userEvent.click(screen.getByRole('button', { name: /bob@test\.com/ }));
+        await userEvent.click(screen.getByRole('button', { name: 'Units' }));
+        fireEvent.change(screen.getByLabelText('Weight for alice@test.com'), { target: { value: '3' } });
+        fireEvent.change(screen.getByLabelText('Weight for bob@test.com'), { target: { value: '1' } });
+        await userEvent.click(screen.getByRole('button', { name: /save/i }));
+
+        expect(mockOnSave).toHaveBeenCalledWith(
+            { '2': ['alice@test.com', 'alice@test.com', 'alice@test.com', 'bob@test.com'] },
+            { '2': { mode: 'units', weights: {} } },
+            'proportional'
+        );
+    });
+
+    it('should keep the saved spread mode for fees and discounts', async () => {
+        render(
+            <ReceiptSplitter
+                receipt={{ ...mockReceiptWithSplit, split_spread_mode: 'even' }}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+
+        await userEvent.click(screen.getByRole('button', { name: /save split/i }));
+        expect(mockOnSave).toHaveBeenLastCalledWith(mockReceiptWithSplit.split_details, {}, 'even');
+
+        await userEvent.click(screen.getByRole('button', { name: 'Proportional' }));
+        await userEvent.click(screen.getByRole('button', { name: /save split/i }));
+        expect(mockOnSave).toHaveBeenLastCalledWith(mockReceiptWithSplit.split_details, {}, 'proportional');
+    });
+
+    it('should show each member\'s net balance from the recorded payments', () => {
+        const receipt = {
+            ...mockReceiptWithSplit,
+            payments: [
+                { email: 'alice@test.com', amount: 30 },
+                { email: 'bob@test.com', amount: 8.5 },
+            ],
+        };
+
+        render(
+            <ReceiptSplitter
+                receipt={receipt}
+                members={mockGroupMembers}
+                onSave={mockOnSave}
+            />
+        );
+
+        expect(screen.getByText('gets back $6.08')).toBeInTheDocument();
+        expect(screen.getByText('owes $3.42')).toBeInTheDocument();
+        expect(screen.getByText('owes $2.66')).toBeInTheDocument();
+    });
+
     it('should show unassigned warning for items without assignees', () => {
         render(
             <ReceiptSplitter
@@ -1,45 +1,56 @@
-import { useState, useEffect } from 'react';
-import type { Receipt, GroupMember } from '@/types';
+import { useState, useEffect, useMemo } from 'react';
+import type { Receipt, GroupMember, ItemSplitWeights, ChargeSpreadMode } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Check, User } from 'lucide-react';
+import { Check, ChevronDown, ChevronRight, ClipboardCopy, FileSpreadsheet, Printer, User } from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { addPercentAssignee, checkLineWeights, computeSplit, countUnits, receiptSplitLines, type WeightMismatch } from '@/lib/split-engine';
+import { formatMoney, getReceiptCurrency } from '@/lib/currency';
+import { computeReceiptNet, getReceiptPayments } from '@/lib/settlement';
+import { downloadFile, printHtml, splitFileName, splitToCsv, splitToHtml, splitToMarkdown, type SplitExport } from '@/lib/split-export';
+import { SplitWeightsEditor } from '@/components/SplitWeightsEditor';
 
 interface ReceiptSplitterProps {
     receipt: Receipt;
     members: GroupMember[];
-    onSave: (splitMap: Record<string, string[]>) => Promise<void>;
-}
-
-interface LineItem {
-    index: number;
-    description: string;
-    total_price: number;
-    quantity?: number;
+    onSave: (
+        splitMap: Record<string, string[]>,
+        splitWeights: Record<string, ItemSplitWeights>,
+        spreadMode: ChargeSpreadMode
+    ) => Promise<void>;
 }
 
 export function ReceiptSplitter({ receipt, members, onSave }: ReceiptSplitterProps) {
     const [splitMap, setSplitMap] = useState<Record<string, string[]>>({});
-    const [items, setItems] = useState<LineItem[]>([]);
+    const [splitWeights, setSplitWeights] = useState<Record<string, ItemSplitWeights>>({});
     const [selectedItems, setSelectedItems] = useState<Set<number>>(new Set());
     const [saving, setSaving] = useState(false);
+    const [spreadMode, setSpreadMode] = useState<ChargeSpreadMode>('proportional');
+    const [expandedMember, setExpandedMember] = useState<string | null>(null);
 
-    // Parse items from receipt analysis
-    useEffect(() => {
-        if (receipt.items_analysis && receipt.items_analysis.line_items) {
-            const parsedItems = receipt.items_analysis.line_items.map((item: any, idx: number) => ({
-                ...item,
-                index: idx // Ensure we have a consistent index
-            }));
-            setItems(parsedItems);
-        }
+    const items = useMemo(() => receiptSplitLines(receipt), [receipt]);
 
-        // Load existing split if available
-        if (receipt.split_details) {
-            setSplitMap(receipt.split_details);
-        }
-    }, [receipt]);
+    // Load the saved split. Only another receipt or a different saved split
+    // resets the editor; a refetched copy of the same receipt keeps unsaved edits.
+    const savedSplit = JSON.stringify({
+        id: receipt._id,
+        details: receipt.split_details,
+        weights: receipt.split_weights,
+        spreadMode: receipt.split_spread_mode,
+    });
+    useEffect(() => {
+        const { details, weights, spreadMode: savedSpreadMode }: {
+            details?: Receipt['split_details'];
+            weights?: Receipt['split_weights'];
+            spreadMode?: Receipt['split_spread_mode'];
+        } = JSON.parse(savedSplit);
+        // Everything, so weights of a previous receipt never outlive it
+        setSplitMap(details ?? {});
+        setSplitWeights(weights ?? {});
+        setSpreadMode(savedSpreadMode ?? 'proportional');
+    }, [savedSplit]);
 
     const toggleItemSelection = (index: number) => {
         const next = new Set(selectedItems);
@@ -55,6 +66,7 @@ export function ReceiptSplitter({ receipt, members, onSave }: ReceiptSplitterPro
         if (selectedItems.size === 0) return;
 
         const nextSplitMap = { ...splitMap };
+        const nextWeights = { ...splitWeights };
 
         selectedItems.forEach(index => {
             const key = index.toString();
@@ -71,43 +83,113 @@ export function ReceiptSplitter({ receipt, members, onSave }: ReceiptSplitterPro
             if (nextSplitMap[key].length === 0) {
                 delete nextSplitMap[key];
             }
+
+            // Keep weights in sync with the assignees
+            if (nextWeights[key]) {
+                if (!nextSplitMap[key]) {
+                    delete nextWeights[key];
+                } else if (currentAssignees.includes(email)) {
+                    const weights = { ...nextWeights[key].weights };
+                    delete weights[email];
+                    nextWeights[key] = { ...nextWeights[key], weights };
+                } else if (nextWeights[key].mode === 'percent') {
+                    // A newcomer gets an even share instead of 0%
+                    const weights = addPercentAssignee(nextWeights[key].weights, currentAssignees, email);
+                    nextWeights[key] = { ...nextWeights[key], weights };
+                }
+            }
         });
 
         setSplitMap(nextSplitMap);
+        setSplitWeights(nextWeights);
         // Optional: Clear selection after assignment? keeping it might be better for bulk edits
     };
 
+    // Weights the engine would have to scale; they are fixed before saving
+    const weightIssues = items.flatMap(item => {
+        const key = item.index.toString();
+        const mismatch = checkLineWeights(item.amount, splitMap[key] || [], splitWeights[key]);
+        return mismatch ? [{ item, mismatch }] : [];
+    });
+
     const handleSave = async () => {
+        if (weightIssues.length > 0) {
+            toast.error(`Fix the split of ${weightIssues.map(({ item }) => item.name).join(', ')} before saving`);
+            return;
+        }
         setSaving(true);
         try {
-            await onSave(splitMap);
+            await onSave(splitMap, splitWeights, spreadMode);
         } finally {
             setSaving(false);
         }
     };
 
+    const currency = getReceiptCurrency(receipt);
+
+    const describeMismatch = ({ mode, expected, actual }: WeightMismatch) => {
+        const difference = expected - actual;
+        const show = (value: number) => (mode === 'percent' ? `${value.toFixed(2)}%` : formatMoney(value, currency));
+        return `${mode === 'percent' ? 'percentages' : 'amounts'} add up to ${show(actual)}, ` +
+            `${show(Math.abs(difference))} ${difference > 0 ? 'short of' : 'over'} ${show(expected)}`;
+    };
+
     const getAssigneeInitials = (email: string) => {
         return email.substring(0, 2).toUpperCase();
     };
 
-    // Calculate totals per member
-    const memberTotals = members.reduce((acc, member) => {
-        acc[member.email] = 0;
-        return acc;
-    }, {} as Record<string, number>);
+    // Calculate totals per member, including their share of tax, fees and discounts
+    const summary = useMemo(() => computeSplit({
+        lines: items,
+        charges: receipt.charges_analysis,
+        splitMap,
+        weights: splitWeights,
+        members: members.map(member => member.email),
+        spreadMode,
+    }), [items, receipt.charges_analysis, splitMap, splitWeights, members, spreadMode]);
 
-    items.forEach(item => {
-        const key = item.index.toString();
-        const assignees = splitMap[key] || [];
-        if (assignees.length > 0) {
-            const splitPrice = item.total_price / assignees.length;
-            assignees.forEach(email => {
-                if (memberTotals[email] !== undefined) {
-                    memberTotals[email] += splitPrice;
-                }
-            });
+    // Paid minus owed for each member, once we know who paid
+    const net = useMemo(() => {
+        const payments = getReceiptPayments(receipt);
+        return payments.length > 0 ? computeReceiptNet(summary, payments) : null;
+    }, [receipt, summary]);
+
+    // Exports use the same summary as the totals above, unsaved changes included
+    const exportData: SplitExport = {
+        receipt,
+        lines: items,
+        summary,
+        splitMap,
+        members: members.map(member => member.email),
+    };
+
+    const copySummary = async () => {
+        try {
+            await navigator.clipboard.writeText(splitToMarkdown(exportData));
+            toast.success('Summary copied');
+        } catch {
+            toast.error('Could not copy the summary');
         }
-    });
+    };
+
+    // Units mode keeps unit counts in the assignee list, so the editor may change both
+    const setItemSplit = (index: number, weights: ItemSplitWeights | undefined, assignees: string[]) => {
+        setSplitMap(prev => ({ ...prev, [index.toString()]: assignees }));
+        setSplitWeights(prev => {
+            const next = { ...prev };
+            if (weights) {
+                next[index.toString()] = weights;
+            } else {
+                delete next[index.toString()];
+            }
+            return next;
+        });
+    };
+
+    // Weights can be edited when exactly one assigned item is selected
+    const weightItem = selectedItems.size === 1
+        ? items.find(item => selectedItems.has(item.index) && (splitMap[item.index.toString()] || []).length > 0)
+        : undefined;
 
     if (!items.length) {
         return <div className="p-4 text-center text-gray-500">No items found in this receipt.</div>;
@@ -150,20 +232,32 @@ export function ReceiptSplitter({ receipt, members, onSave }: ReceiptSplitterPro
                                     </div>
                                     <div className="flex-1">
                                         <div className="flex justify-between">
-                                            <span className="font-medium">{item.description}</span>
-                                            <span className="font-semibold">${item.total_price.toFixed(2)}</span>
+                                            <span>
+                                                <span className="font-medium">{item.name}</span>
+                                                {item.quantity != null && item.quantity > 1 && (
+                                                    <span className="ml-2 text-xs text-gray-500">
+                                                        {item.quantity} × {formatMoney(item.amount / item.quantity, currency)}
+                                                    </span>
+                                                )}
+                                            </span>
+                                            <span className="font-semibold">{formatMoney(item.amount, currency)}</span>
                                         </div>
 
                                         {/* Assignee badges */}
                                         <div className="flex gap-1 mt-1 flex-wrap">
-                                            {assignees.map(email => (
+                                            {countUnits(assignees).map(([email, units]) => (
                                                 <span key={email} className="text-xs bg-gray-200 px-1.5 py-0.5 rounded text-gray-700">
-                                                    {email}
+                                                    {units > 1 ? `${email} × ${units}` : email}
                                                 </span>
                                             ))}
                                             {assignees.length === 0 && (
                                                 <span className="text-xs text-red-400 italic">Unassigned</span>
                                             )}
+                                            {splitWeights[item.index.toString()] && (
+                                                <span className="text-xs text-blue-600 italic">
+                                                    by {splitWeights[item.index.toString()].mode}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -183,31 +277,157 @@ export function ReceiptSplitter({ receipt, members, onSave }: ReceiptSplitterPro
                         <p className="text-xs text-gray-500 mb-2">
                             Select items on the left, then click a member to assign/unassign.
                         </p>
-                        {members.map(member => (
-                            <button
-                                key={member.email}
-                                onClick={() => assignToMember(member.email)}
-                                className="w-full flex items-center justify-between p-3 rounded border hover:border-blue-500 hover:bg-blue-50 transition-all text-left group"
-                            >
-                                <div className="flex items-center gap-3">
-                                    <Avatar className="h-8 w-8">
-                                        <AvatarFallback>{getAssigneeInitials(member.email)}</AvatarFallback>
-                                    </Avatar>
-                                    <div className="flex flex-col">
-                                        <span className="text-sm font-medium truncate w-32">{member.email}</span>
-                                    </div>
-                                </div>
-                                <div className="flex flex-col items-end">
-                                    <span className="font-bold text-green-600">${memberTotals[member.email]?.toFixed(2) || '0.00'}</span>
+                        {members.map(member => {
+                            const breakdown = summary.members[member.email];
+                            const memberNet = net?.[member.email] ?? 0;
+                            const isExpanded = expandedMember === member.email;
+
+                            return (
+                                <div key={member.email} className="space-y-1">
+                                    <button
+                                        onClick={() => assignToMember(member.email)}
+                                        className="w-full flex items-center justify-between p-3 rounded border hover:border-blue-500 hover:bg-blue-50 transition-all text-left group"
+                                    >
+                                        <div className="flex items-center gap-3">
+                                            <Avatar className="h-8 w-8">
+                                                <AvatarFallback>{getAssigneeInitials(member.email)}</AvatarFallback>
+                                            </Avatar>
+                                            <div className="flex flex-col">
+                                                <span className="text-sm font-medium truncate w-32">{member.email}</span>
+                                            </div>
+                                        </div>
+                                        <div className="flex flex-col items-end">
+                                            <span className="font-bold text-green-600">{formatMoney(breakdown?.total ?? 0, currency)}</span>
+                                            {net && memberNet !== 0 && (
+                                                <span className={cn('text-xs', memberNet > 0 ? 'text-green-600' : 'text-red-600')}>
+                                                    {memberNet > 0
+                                                        ? `gets back ${formatMoney(memberNet, currency)}`
+                                                        : `owes ${formatMoney(-memberNet, currency)}`}
+                                                </span>
+                                            )}
+                                        </div>
+                                    </button>
+                                    {breakdown && breakdown.lines.length > 0 && (
+                                        <button
+                                            onClick={() => setExpandedMember(isExpanded ? null : member.email)}
+                                            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+                                        >
+                                            {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                                            Breakdown
+                                        </button>
+                                    )}
+                                    {breakdown && isExpanded && (
+                                        <div className="text-xs text-gray-600 border rounded p-2 space-y-1 bg-gray-50">
+                                            {breakdown.lines.map(line => (
+                                                <div key={line.index} className="flex justify-between">
+                                                    <span className="truncate mr-2">
+                                                        {line.units != null && `${line.units} × `}{line.name}
+                                                    </span>
+                                                    <span>{formatMoney(line.amount, currency)}</span>
+                                                </div>
+                                            ))}
+                                            <div className="flex justify-between border-t pt-1">
+                                                <span>Tax</span>
+                                                <span>{formatMoney(breakdown.tax, currency)}</span>
+                                            </div>
+                                            <div className="flex justify-between">
+                                                <span>Fees</span>
+                                                <span>{formatMoney(breakdown.fees, currency)}</span>
+                                            </div>
+                                            <div className="flex justify-between">
+                                                <span>Discounts</span>
+                                                <span>{formatMoney(-breakdown.discounts, currency)}</span>
+                                            </div>
+                                            {breakdown.adjustment !== 0 && (
+                                                <div className="flex justify-between">
+                                                    <span>Rounding</span>
+                                                    <span>{formatMoney(breakdown.adjustment, currency)}</span>
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
-                            </button>
-                        ))}
+                            );
+                        })}
                     </CardContent>
                 </Card>
 
-                <Button onClick={handleSave} isLoading={saving} size="lg" className="w-full">
+                {weightItem && (
+                    <SplitWeightsEditor
+                        itemName={weightItem.name}
+                        itemTotal={weightItem.amount}
+                        quantity={weightItem.quantity}
+                        unitPrice={weightItem.unitPrice}
+                        currency={currency}
+                        assignees={splitMap[weightItem.index.toString()]}
+                        value={splitWeights[weightItem.index.toString()]}
+                        onChange={(weights, assignees) => setItemSplit(weightItem.index, weights, assignees)}
+                    />
+                )}
+
+                <Card>
+                    <CardContent className="p-4 space-y-3 text-sm">
+                        <div>
+                            <p className="text-xs text-gray-500 mb-2">Spread fees &amp; discounts</p>
+                            <div className="flex gap-2">
+                                <Button
+                                    size="sm"
+                                    variant={spreadMode === 'proportional' ? 'default' : 'outline'}
+                                    onClick={() => setSpreadMode('proportional')}
+                                >
+                                    Proportional
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant={spreadMode === 'even' ? 'default' : 'outline'}
+                                    onClick={() => setSpreadMode('even')}
+                                >
+                                    Even
+                                </Button>
+                            </div>
+                        </div>
+                        {summary.unassigned !== 0 && (
+                            <div className="flex justify-between text-red-500">
+                                <span>Unassigned</span>
+                                <span>{formatMoney(summary.unassigned, currency)}</span>
+                            </div>
+                        )}
+                        <div className="flex justify-between font-semibold border-t pt-2">
+                            <span>Grand Total</span>
+                            <span>{formatMoney(summary.grandTotal, currency)}</span>
+                        </div>
+                    </CardContent>
+                </Card>
+
+                {weightIssues.length > 0 && (
+                    <div className="text-xs text-amber-600 space-y-1">
+                        {weightIssues.map(({ item, mismatch }) => (
+                            <p key={item.index}>{item.name}: {describeMismatch(mismatch)}</p>
+                        ))}
+                    </div>
+                )}
+                <Button onClick={handleSave} isLoading={saving} disabled={weightIssues.length > 0} size="lg" className="w-full">
                     Save Split
                 </Button>
+
+                <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => printHtml(splitToHtml(exportData))}>
+                        <Printer className="w-4 h-4" />
+                        PDF
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => downloadFile(splitToCsv(exportData), `${splitFileName(receipt)}.csv`, 'text/csv')}
+                    >
+                        <FileSpreadsheet className="w-4 h-4" />
+                        CSV
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={copySummary}>
+                        <ClipboardCopy className="w-4 h-4" />
+                        Copy summary
+                    </Button>
+                </div>
             </div>
         </div>
     );
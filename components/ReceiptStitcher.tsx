@@ -0,0 +1,209 @@
+/**
+ * ReceiptStitcher Component
+ *
+ * Joins the photos of a long receipt into one tall image. Consecutive
+ * photos are lined up automatically where their overlap can be matched;
+ * any photo can then be dragged up or down (or nudged with the arrow keys)
+ * until the lines on both sides of a seam meet.
+ *
+ * @example
+ * ```tsx
+ * <ReceiptStitcher
+ *   files={itemsImages}
+ *   onDone={(file) => setItemsImages([file])}
+ *   onCancel={() => setStitching(false)}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  autoAlign,
+  commonWidth,
+  loadStitchParts,
+  scaledHeights,
+  stitchImages,
+  type StitchPart,
+} from '@/lib/receipt-stitch';
+
+interface ReceiptStitcherProps {
+  /** Photos in reading order, top of the receipt first */
+  files: File[];
+  onDone: (file: File) => void;
+  onCancel: () => void;
+}
+
+interface LoadedPart extends StitchPart {
+  url: string;
+}
+
+/** Preview width in CSS pixels */
+const PREVIEW_WIDTH = 280;
+const NUDGE_ROWS = 4;
+
+export function ReceiptStitcher({ files, onDone, onCancel }: ReceiptStitcherProps) {
+  const [parts, setParts] = useState<LoadedPart[] | null>(null);
+  const [overlaps, setOverlaps] = useState<number[]>([]);
+  const [unmatched, setUnmatched] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [stitching, setStitching] = useState(false);
+  const dragRef = useRef<{ seam: number; startY: number; startOverlap: number } | null>(null);
+
+  const width = parts ? commonWidth(parts) : 0;
+  const heights = parts ? scaledHeights(parts, width) : [];
+  const scale = width ? PREVIEW_WIDTH / width : 0;
+  const tops = heights.map((_, i) => heights.slice(0, i).reduce((sum, height, j) => sum + height - (overlaps[j] ?? 0), 0));
+  const fullHeight = heights.length ? tops[tops.length - 1] + heights[heights.length - 1] : 0;
+
+  const align = (loaded: StitchPart[]) => {
+    const found = autoAlign(loaded, commonWidth(loaded));
+    setOverlaps(found.map((rows) => rows ?? 0));
+    setUnmatched(found.flatMap((rows, seam) => (rows === null ? [seam] : [])));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: LoadedPart[] = [];
+
+    loadStitchParts(files)
+      .then((decoded) => {
+        loaded = decoded.map((part) => ({ ...part, url: URL.createObjectURL(part.file) }));
+        if (cancelled) return;
+        setParts(loaded);
+        align(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setError('These photos could not be opened for stitching.');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded.forEach((part) => {
+        URL.revokeObjectURL(part.url);
+        part.bitmap.close();
+      });
+    };
+  }, [files]);
+
+  const setOverlap = (seam: number, rows: number) => {
+    const limit = Math.min(heights[seam], heights[seam + 1]) - 1;
+    setOverlaps((prev) => prev.map((current, i) => (i === seam ? Math.round(Math.min(limit, Math.max(0, rows))) : current)));
+    setUnmatched((prev) => prev.filter((i) => i !== seam));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    // Dragging a photo up makes it overlap the one above more
+    setOverlap(drag.seam, drag.startOverlap - (event.clientY - drag.startY) / scale);
+  };
+
+  const handleStitch = async () => {
+    if (!parts) return;
+    setStitching(true);
+    try {
+      onDone(await stitchImages(parts, overlaps, width));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not stitch the photos');
+    } finally {
+      setStitching(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="space-y-3">
+        <p className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+        <Button variant="ghost" onClick={onCancel}>
+          Back
+        </Button>
+      </div>
+    );
+  }
+
+  if (!parts) {
+    return <p className="text-sm text-gray-500">Lining up {files.length} photos…</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Drag a photo up or down until the lines where it overlaps the one above match.
+      </p>
+      {unmatched.length > 0 && (
+        <p className="text-sm text-amber-700">
+          Could not match photo{unmatched.length === 1 ? '' : 's'}{' '}
+          {unmatched.map((seam) => seam + 2).join(', ')} automatically. Line {unmatched.length === 1 ? 'it' : 'them'} up
+          by hand.
+        </p>
+      )}
+
+      <div className="max-h-[60vh] overflow-y-auto rounded-md border bg-gray-100">
+        <div
+          className="relative mx-auto"
+          style={{ width: PREVIEW_WIDTH, height: fullHeight * scale }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragRef.current = null)}
+          onPointerCancel={() => (dragRef.current = null)}
+        >
+          {parts.map((part, index) => (
+            <Image
+              key={part.url}
+              src={part.url}
+              alt={`Photo ${index + 1}`}
+              width={PREVIEW_WIDTH}
+              height={heights[index] * scale}
+              unoptimized
+              draggable={false}
+              tabIndex={index > 0 ? 0 : undefined}
+              className={
+                index > 0
+                  ? 'absolute left-0 w-full cursor-ns-resize touch-none select-none opacity-90 outline-blue-500 focus:outline'
+                  : 'absolute left-0 w-full select-none'
+              }
+              style={{ top: tops[index] * scale, height: heights[index] * scale }}
+              onPointerDown={(event) => {
+                if (index === 0) return;
+                event.currentTarget.setPointerCapture(event.pointerId);
+                dragRef.current = { seam: index - 1, startY: event.clientY, startOverlap: overlaps[index - 1] };
+              }}
+              onKeyDown={(event) => {
+                if (index === 0 || (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')) return;
+                event.preventDefault();
+                const step = (event.key === 'ArrowUp' ? NUDGE_ROWS : -NUDGE_ROWS) / scale;
+                setOverlap(index - 1, overlaps[index - 1] + step);
+              }}
+            />
+          ))}
+          {tops.slice(1).map((top, seam) => (
+            <div
+              key={seam}
+              className="pointer-events-none absolute inset-x-0 border-t-2 border-dashed border-blue-500"
+              style={{ top: top * scale }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={handleStitch} isLoading={stitching}>
+          Stitch {parts.length} photos
+        </Button>
+        <Button variant="outline" onClick={() => align(parts)}>
+          <Wand2 className="h-4 w-4" />
+          Auto-align
+        </Button>
+        <Button variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * ReclassifyControl Component
+ *
+ * Item/Fee/Discount picker for one row of the results. Moving a row calls
+ * `onReclassify`; when the account's rules would have sorted it
+ * differently, a toast offers to save the correction as a rule so the next
+ * import from the same merchant gets it right.
+ *
+ * @example
+ * ```tsx
+ * <ReclassifyControl
+ *   name={fee.type}
+ *   kind="fee"
+ *   merchant={itemsData?.merchant_name}
+ *   onReclassify={(kind) => reclassifyLine({ kind: 'fee', index }, kind)}
+ * />
+ * ```
+ */
+
+'use client';
+
+import { toast } from 'sonner';
+import { useAuth } from '@/lib/auth-context';
+import { addRule, DEFAULT_RULES, LINE_KINDS, ruleFromCorrection } from '@/lib/classification';
+import { mutations, queryKeys, useClassificationRules } from '@/lib/queries';
+import { queryCache } from '@/lib/query-cache';
+import type { ClassificationRule, LineKind } from '@/types';
+
+interface ReclassifyControlProps {
+  name: string;
+  kind: LineKind;
+  merchant?: string | null;
+  onReclassify: (kind: LineKind) => void;
+}
+
+export function ReclassifyControl({ name, kind, merchant, onReclassify }: ReclassifyControlProps) {
+  const { user } = useAuth();
+  const { data: savedRules } = useClassificationRules({ enabled: !!user });
+
+  const handleChange = (next: LineKind) => {
+    onReclassify(next);
+
+    const label = LINE_KINDS.find((option) => option.kind === next)!.label.toLowerCase();
+    const rules = savedRules ?? DEFAULT_RULES;
+    const rule = user ? ruleFromCorrection(name, next, { rules, merchant }) : null;
+    if (!rule) return;
+
+    toast(`Moved "${name}" to ${label}s`, {
+      action: {
+        label: merchant ? `Always at ${merchant}` : 'Always',
+        onClick: async () => {
+          // The rules may have changed since the toast opened, e.g. through another "Always"
+          const current = queryCache.getState<ClassificationRule[]>(queryKeys.classificationRules).data ?? DEFAULT_RULES;
+          try {
+            await mutations.saveClassificationRules(addRule(current, rule));
+            toast.success(`"${rule.pattern}" will be imported as ${label === 'item' ? 'an' : 'a'} ${label}`);
+          } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to save the rule');
+          }
+        },
+      },
+    });
+  };
+
+  return (
+    <select
+      value={kind}
+      onChange={(e) => handleChange(e.target.value as LineKind)}
+      className="rounded-md border border-gray-200 px-1 py-1 text-xs"
+      aria-label={`Type of ${name || 'line'}`}
+    >
+      {LINE_KINDS.map((option) => (
+        <option key={option.kind} value={option.kind}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * ReconciliationPanel Component
+ *
+ * Shows how the recomputed subtotal, tax and grand total compare with the
+ * totals printed on the receipt, lists the lines most likely to explain a
+ * gap, and lets the user accept a remaining difference.
+ *
+ * @example
+ * ```tsx
+ * <ReconciliationPanel
+ *   result={reconcileReceipt(items, charges, taxProfile)}
+ *   currency="CAD"
+ *   accepted={accepted}
+ *   onAccept={() => setAcceptedDifference(result.difference)}
+ * />
+ * ```
+ */
+
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { formatMoney } from '@/lib/currency';
+import type { ReconciliationResult } from '@/lib/reconciliation';
+import { cn } from '@/lib/utils';
+
+interface ReconciliationPanelProps {
+    result: ReconciliationResult;
+    currency?: string;
+    accepted: boolean;
+    onAccept: () => void;
+}
+
+export function ReconciliationPanel({ result, currency, accepted, onAccept }: ReconciliationPanelProps) {
+    const { checks, suspects, balanced, difference } = result;
+
+    return (
+        <Card className={cn(!balanced && !accepted && 'border-amber-300')}>
+            <CardHeader className="pb-3">
+                <div className="flex items-center gap-2">
+                    {balanced || accepted ? (
+                        <CheckCircle2 className="w-5 h-5 text-green-600" />
+                    ) : (
+                        <AlertTriangle className="w-5 h-5 text-amber-500" />
+                    )}
+                    <h2 className="text-xl font-bold">Reconciliation</h2>
+                </div>
+                <p className="text-sm text-gray-600">
+                    {balanced
+                        ? 'The line items add up to the totals on the receipt.'
+                        : accepted
+                            ? `Accepted a difference of ${formatMoney(difference, currency)}.`
+                            : 'The line items do not add up to the totals on the receipt.'}
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <table className="w-full text-sm">
+                    <thead className="border-b text-left text-gray-500">
+                        <tr>
+                            <th className="pb-2 font-medium"></th>
+                            <th className="pb-2 font-medium text-right">Computed</th>
+                            <th className="pb-2 font-medium text-right">Receipt</th>
+                            <th className="pb-2 font-medium text-right">Difference</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {checks.map(check => (
+                            <tr key={check.field} className="border-b last:border-0">
+                                <td className="py-2">{check.label}</td>
+                                <td className="py-2 text-right">{formatMoney(check.computed, currency)}</td>
+                                <td className="py-2 text-right">{formatMoney(check.reported, currency, '—')}</td>
+                                <td
+                                    className={cn(
+                                        'py-2 text-right font-semibold',
+                                        check.ok ? 'text-green-600' : 'text-amber-600'
+                                    )}
+                                >
+                                    {check.reported == null ? '—' : formatMoney(check.difference, currency)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {suspects.length > 0 && (
+                    <div>
+                        <h3 className="text-sm font-semibold mb-2">Lines to check</h3>
+                        <ul className="space-y-1 text-sm">
+                            {suspects.map(suspect => (
+                                <li key={`${suspect.index}-${suspect.reason}`} className="flex gap-2">
+                                    <span className="text-gray-500 w-8 shrink-0">#{suspect.index + 1}</span>
+                                    <span className="font-medium truncate">{suspect.name}</span>
+                                    <span className="text-gray-600">{suspect.message}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                {!balanced && !accepted && (
+                    <Button variant="outline" size="sm" onClick={onAccept}>
+                        Accept difference of {formatMoney(difference, currency)}
+                    </Button>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,160 @@
+/**
+ * SplitWeightsEditor Component
+ *
+ * Edits how a single line item is divided among its assignees:
+ * equally, by shares (2:1), by percentage, by fixed amounts with the
+ * remainder split evenly, or by whole units of a multi-quantity line.
+ * Unit counts live in the assignee list (one entry per unit), so changes
+ * report both the weights and the assignees.
+ *
+ * @example
+ * ```tsx
+ * <SplitWeightsEditor
+ *   itemName="Red Wine"
+ *   itemTotal={40}
+ *   quantity={1}
+ *   assignees={['alice@test.com', 'bob@test.com']}
+ *   value={weights['3']}
+ *   onChange={(next, assignees) => setItemSplit('3', next, assignees)}
+ * />
+ * ```
+ */
+
+import type { ItemSplitWeights, SplitWeightMode } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { allocateLine, checkLineWeights, countUnits, evenPercentWeights, fromCents, toCents, UNASSIGNED } from '@/lib/split-engine';
+import { formatMoney } from '@/lib/currency';
+
+interface SplitWeightsEditorProps {
+    itemName: string;
+    itemTotal: number;
+    quantity?: number;
+    unitPrice?: number;
+    currency?: string;
+    assignees: string[];
+    value?: ItemSplitWeights;
+    onChange: (weights: ItemSplitWeights | undefined, assignees: string[]) => void;
+}
+
+const MODES: { mode: SplitWeightMode; label: string }[] = [
+    { mode: 'equal', label: 'Equal' },
+    { mode: 'shares', label: 'Shares' },
+    { mode: 'percent', label: '%' },
+    { mode: 'fixed', label: 'Amount' },
+    { mode: 'units', label: 'Units' },
+];
+
+export function SplitWeightsEditor({ itemName, itemTotal, quantity = 1, unitPrice, currency, assignees, value, onChange }: SplitWeightsEditorProps) {
+    const mode = value?.mode ?? 'equal';
+    const units = new Map(countUnits(assignees));
+    const members = Array.from(units.keys());
+    const shares = allocateLine(toCents(itemTotal), assignees, value, quantity, unitPrice);
+    const modes = quantity > 1 ? MODES : MODES.filter(option => option.mode !== 'units');
+
+    // One entry per unit, in member order
+    const expandUnits = (counts: number[]) => members.flatMap((email, idx) => Array<string>(counts[idx]).fill(email));
+
+    const setMode = (nextMode: SplitWeightMode) => {
+        if (nextMode === 'equal') {
+            onChange(undefined, members);
+            return;
+        }
+        if (nextMode === 'units') {
+            // Deal the units out evenly; everyone keeps at least one
+            const counts = members.map((_, idx) =>
+                Math.max(Math.floor(quantity / members.length) + (idx < quantity % members.length ? 1 : 0), 1)
+            );
+            onChange({ mode: nextMode, weights: {} }, expandUnits(counts));
+            return;
+        }
+        // Start from an even split in the new mode; fixed starts empty (everyone pays the rest)
+        const weights: Record<string, number> = nextMode === 'percent' ? evenPercentWeights(members) : {};
+        members.forEach(email => {
+            if (nextMode === 'shares') weights[email] = 1;
+        });
+        onChange({ mode: nextMode, weights }, members);
+    };
+
+    const setWeight = (email: string, raw: string) => {
+        if (!value) return;
+        if (mode === 'units') {
+            // Members are removed by unassigning them, so everyone keeps at least one unit
+            const count = Math.max(Math.floor(Number(raw)) || 1, 1);
+            onChange(value, expandUnits(members.map(member => (member === email ? count : units.get(member) ?? 1))));
+            return;
+        }
+        const weights = { ...value.weights };
+        if (raw === '') {
+            delete weights[email];
+        } else {
+            weights[email] = Number(raw);
+        }
+        onChange({ ...value, weights }, assignees);
+    };
+
+    const mismatch = checkLineWeights(itemTotal, assignees, value);
+
+    return (
+        <Card>
+            <CardHeader className="py-3 px-4 border-b">
+                <CardTitle className="text-base truncate">Split &quot;{itemName}&quot;</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 space-y-3">
+                <div className="flex gap-1">
+                    {modes.map(option => (
+                        <Button
+                            key={option.mode}
+                            size="xs"
+                            variant={mode === option.mode ? 'default' : 'outline'}
+                            onClick={() => setMode(option.mode)}
+                        >
+                            {option.label}
+                        </Button>
+                    ))}
+                </div>
+
+                {members.map(email => (
+                    <div key={email} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 truncate">{email}</span>
+                        {mode !== 'equal' && (
+                            <Input
+                                type="number"
+                                step={mode === 'shares' || mode === 'units' ? '1' : '0.01'}
+                                min={mode === 'units' ? '1' : '0'}
+                                value={mode === 'units' ? units.get(email) : value?.weights[email] ?? ''}
+                                placeholder={mode === 'fixed' ? 'rest' : '0'}
+                                onChange={(e) => setWeight(email, e.target.value)}
+                                className="h-7 w-20 text-sm"
+                                aria-label={`Weight for ${email}`}
+                            />
+                        )}
+                        <span className="w-16 text-right text-gray-600">
+                            {formatMoney(fromCents(shares[email] ?? 0), currency)}
+                        </span>
+                    </div>
+                ))}
+
+                {mismatch?.mode === 'percent' && (
+                    <p className="text-xs text-amber-600">
+                        Percentages add up to {mismatch.actual.toFixed(2)}%, not 100%.
+                    </p>
+                )}
+                {mode === 'units' && assignees.length !== quantity && (
+                    <p className="text-xs text-amber-600">
+                        {assignees.length} of {quantity} units assigned
+                        {shares[UNASSIGNED] ? ` (${formatMoney(fromCents(shares[UNASSIGNED]), currency)} unassigned)` : ''}.
+                    </p>
+                )}
+                {mismatch?.mode === 'fixed' && (
+                    <p className="text-xs text-amber-600">
+                        Fixed amounts add up to {formatMoney(mismatch.actual, currency)},{' '}
+                        {formatMoney(Math.abs(mismatch.expected - mismatch.actual), currency)}{' '}
+                        {mismatch.actual > mismatch.expected ? 'over' : 'short of'} the item total of {formatMoney(itemTotal, currency)}.
+                    </p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,5 +1,16 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { getReceipt, saveSplit } from './api';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { delay, http, HttpResponse } from 'msw';
+import { server } from '@/tests/mocks/server';
+import { ApiError, getReceipt, getRetryDelay, saveSplit, setUnauthorizedHandler } from './api';
+
+const API_BASE = 'http://localhost:8000';
+
+const receiptBody = {
+    _id: 'receipt-123',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    status: 'completed',
+};
 
 describe('API Client', () => {
     beforeEach(() => {
@@ -15,7 +26,7 @@ describe('API Client', () => {
             expect(receipt).toBeDefined();
             expect(receipt.id).toBe('receipt-123');
             expect(receipt.items_analysis).toBeDefined();
-            expect(receipt.items_analysis.line_items).toHaveLength(2);
+            expect(receipt.items_analysis?.line_items).toHaveLength(2);
         });
 
         it('should include authorization header', async () => {
@@ -44,8 +55,133 @@ describe('API Client', () => {
 
             const result = await saveSplit('receipt-123', splitMap);
 
-            expect(result.split_details['0']).toHaveLength(3);
-            expect(result.split_details['0']).toContain('alice@test.com');
+            expect(result.split_details?.['0']).toHaveLength(3);
+            expect(result.split_details?.['0']).toContain('alice@test.com');
+        });
+    });
+
+    describe('errors, retries and cancellation', () => {
+        beforeEach(() => {
+            // No jitter: retry immediately
+            vi.spyOn(Math, 'random').mockReturnValue(0);
+        });
+
+        afterEach(() => {
+            vi.restoreAllMocks();
+        });
+
+        it('should throw an ApiError with status, code and endpoint', async () => {
+            server.use(
+                http.get(`${API_BASE}/receipt/:id`, () => HttpResponse.json({ detail: 'Receipt not found' }, { status: 404 }))
+            );
+
+            const error = await getReceipt('missing').catch((err) => err);
+
+            expect(error).toBeInstanceOf(ApiError);
+            expect(error).toMatchObject({
+                message: 'Receipt not found',
+                status: 404,
+                code: 'not_found',
+                endpoint: '/receipt/missing',
+                retryable: false,
+            });
+        });
+
+        it('should retry GETs after a server error', async () => {
+            let calls = 0;
+            server.use(
+                http.get(`${API_BASE}/receipt/:id`, () => {
+                    calls++;
+                    return calls === 1
+                        ? HttpResponse.json({ detail: 'Unavailable' }, { status: 503 })
+                        : HttpResponse.json(receiptBody);
+                })
+            );
+
+            const receipt = await getReceipt('receipt-123');
+
+            expect(receipt._id).toBe('receipt-123');
+            expect(calls).toBe(2);
+        });
+
+        it('should not retry writes', async () => {
+            let calls = 0;
+            server.use(
+                http.patch(`${API_BASE}/receipts/:id/split`, () => {
+                    calls++;
+                    return HttpResponse.json({ detail: 'Boom' }, { status: 500 });
+                })
+            );
+
+            await expect(saveSplit('receipt-123', {})).rejects.toMatchObject({ status: 500, code: 'server' });
+            expect(calls).toBe(1);
+        });
+
+        it('should time out slow requests', async () => {
+            server.use(
+                http.get(`${API_BASE}/receipt/:id`, async () => {
+                    await delay(200);
+                    return HttpResponse.json(receiptBody);
+                })
+            );
+
+            await expect(getReceipt('receipt-123', { timeout: 20, retries: 0 }))
+                .rejects.toMatchObject({ code: 'timeout', status: 0 });
+        });
+
+        it('should stop when the signal is aborted', async () => {
+            server.use(
+                http.get(`${API_BASE}/receipt/:id`, async () => {
+                    await delay(200);
+                    return HttpResponse.json(receiptBody);
+                })
+            );
+            const controller = new AbortController();
+
+            const request = getReceipt('receipt-123', { signal: controller.signal });
+            controller.abort();
+
+            await expect(request).rejects.toMatchObject({ code: 'aborted' });
+        });
+
+        it('should refresh the session once on 401 and retry', async () => {
+            server.use(
+                http.get(`${API_BASE}/receipt/:id`, ({ request }) =>
+                    request.headers.get('Authorization') === 'Bearer fresh-token'
+                        ? HttpResponse.json(receiptBody)
+                        : HttpResponse.json({ detail: 'Token expired' }, { status: 401 })
+                )
+            );
+            const refresh = vi.fn(async () => {
+                localStorage.setItem('token', 'fresh-token');
+                return true;
+            });
+            const unregister = setUnauthorizedHandler(refresh);
+
+            const receipts = await Promise.all([getReceipt('receipt-123'), getReceipt('receipt-123')]);
+            unregister();
+
+            expect(receipts.map((r) => r._id)).toEqual(['receipt-123', 'receipt-123']);
+            expect(refresh).toHaveBeenCalledTimes(1);
+        });
+
+        it('should give up when the refresh fails', async () => {
+            server.use(
+                http.get(`${API_BASE}/receipt/:id`, () => HttpResponse.json({ detail: 'Token expired' }, { status: 401 }))
+            );
+            const refresh = vi.fn(async () => false);
+            const unregister = setUnauthorizedHandler(refresh);
+
+            await expect(getReceipt('receipt-123')).rejects.toMatchObject({ status: 401, code: 'unauthorized' });
+            unregister();
+
+            expect(refresh).toHaveBeenCalledTimes(1);
+        });
+
+        it('should cap the jittered retry delay', () => {
+            expect(getRetryDelay(0, () => 1)).toBe(500);
+            expect(getRetryDelay(3, () => 0.5)).toBe(2000);
+            expect(getRetryDelay(10, () => 1)).toBe(5000);
         });
     });
 });
@@ -1,4 +1,44 @@
-import type { Group, GroupCreateInput, Folder, FolderCreateInput, Receipt, ReceiptCreateInput } from '@/types';
+import type {
+  ApiError as ApiErrorBody,
+  ApiErrorCode,
+  ChargeSpreadMode,
+  ChargesAnalysis,
+  ClassificationRule,
+  ExchangeRate,
+  Group,
+  GroupCreateInput,
+  GroupInvitation,
+  GroupUpdateInput,
+  InvitationCreateInput,
+  Folder,
+  FolderCreateInput,
+  ItemSplitWeights,
+  LineItem,
+  Receipt,
+  ReceiptCreateInput,
+  ReceiptEvent,
+  ReceiptEventBatch,
+  ReceiptPayment,
+} from '@/types';
+import { z } from 'zod';
+import {
+  ClassificationRulesSchema,
+  ExchangeRateQuoteSchema,
+  FolderListSchema,
+  FolderSchema,
+  GroupInvitationListSchema,
+  GroupInvitationSchema,
+  GroupListSchema,
+  GroupSchema,
+  MessageSchema,
+  parseResponse,
+  ReceiptEventBatchSchema,
+  ReceiptEventSchema,
+  ReceiptListSchema,
+  ReceiptSchema,
+  SplitResultSchema,
+  UploadResponseSchema,
+} from '@/lib/schemas';
 
 /**
  * API Client for Kvitta Backend
@@ -13,34 +53,170 @@ import type { Group, GroupCreateInput, Folder, FolderCreateInput, Receipt, Recei
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://kvitta-api-368335160634.us-central1.run.app';
 // const API_BASE_URL = 'http://localhost:8000'; // Use this for local development
+
+export const DEFAULT_TIMEOUT = 15000;
+const RETRY_BASE_DELAY = 500;
+const RETRY_MAX_DELAY = 5000;
+
 /**
- * Generic fetch wrapper with error handling
+ * Error thrown by every API call. `status` is 0 when no response arrived
+ * (network failure, timeout or cancellation); `code` says which.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await getReceipt(id, { signal });
+ * } catch (err) {
+ *   if (err instanceof ApiError && err.code === 'not_found') showMissing();
+ * }
+ * ```
  */
-async function apiRequest<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
+export class ApiError extends Error implements ApiErrorBody {
+  readonly detail: string;
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly endpoint: string;
+
+  constructor({ endpoint, status = 0, code, detail }: { endpoint: string; status?: number; code?: ApiErrorCode; detail: string }) {
+    super(detail);
+    this.name = 'ApiError';
+    this.detail = detail;
+    this.status = status;
+    this.code = code ?? codeForStatus(status);
+    this.endpoint = endpoint;
+  }
+
+  /** Worth trying again: the request may succeed later */
+  get retryable(): boolean {
+    return this.code === 'network' || this.code === 'timeout' || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+function codeForStatus(status: number): ApiErrorCode {
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 409) return 'conflict';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server';
+  return status === 0 ? 'network' : 'bad_request';
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof ApiError && error.code === 'aborted';
+}
+
+/**
+ * Per-call options for the request helpers
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Milliseconds before the request is abandoned; 0 disables the timeout */
+  timeout?: number;
+  /** Extra attempts after a network error or 5xx; defaults to 2 for GETs, 0 otherwise */
+  retries?: number;
+}
+
+type ApiRequestInit = Omit<RequestInit, 'signal'> & RequestOptions;
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together
+ * do not retry together
+ */
+export function getRetryDelay(attempt: number, random: () => number = Math.random): number {
+  return Math.round(random() * Math.min(RETRY_BASE_DELAY * 2 ** attempt, RETRY_MAX_DELAY));
+}
+
+function wait(ms: number, signal: AbortSignal | undefined, endpoint: string) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError({ endpoint, code: 'aborted', detail: 'Request was cancelled' }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function errorDetail(body: unknown, status: number): string {
+  const detail = (body as { detail?: unknown } | null)?.detail;
+  if (typeof detail === 'string' && detail) return detail;
+  // FastAPI validation errors: [{ loc, msg, type }]
+  if (Array.isArray(detail)) {
+    return detail.map((item) => (item as { msg?: string })?.msg ?? String(item)).join('; ');
+  }
+  return `HTTP ${status}`;
+}
+
+/**
+ * One attempt: fetch and read the body, both under the timeout
+ */
+async function send(endpoint: string, { signal, timeout = DEFAULT_TIMEOUT, ...init }: Omit<ApiRequestInit, 'retries'>) {
+  if (signal?.aborted) {
+    throw new ApiError({ endpoint, code: 'aborted', detail: 'Request was cancelled' });
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeout > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout)
+    : undefined;
 
   try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...options.headers,
-      },
-    });
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, { ...init, signal: controller.signal });
+    const body = await response.json().catch(() => null);
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({
-        detail: `HTTP ${response.status}`
-      }));
-      throw new Error(error.detail || `Request failed: ${response.statusText}`);
+      throw new ApiError({ endpoint, status: response.status, detail: errorDetail(body, response.status) });
     }
-
-    return await response.json();
+    return body;
   } catch (error) {
-    console.error(`API Error [${endpoint}]:`, error);
-    throw error;
+    if (error instanceof ApiError) throw error;
+    if (timedOut) {
+      throw new ApiError({ endpoint, code: 'timeout', detail: `Request timed out after ${timeout / 1000}s` });
+    }
+    if (signal?.aborted) {
+      throw new ApiError({ endpoint, code: 'aborted', detail: 'Request was cancelled' });
+    }
+    throw new ApiError({
+      endpoint,
+      code: 'network',
+      detail: error instanceof Error ? error.message : 'Could not reach the server',
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Generic fetch wrapper with error handling. Failures surface as
+ * `ApiError`; GETs are retried with jittered backoff on network errors and
+ * 5xx. Responses are validated against `schema` (see lib/schemas.ts).
+ */
+async function apiRequest<T>(
+  endpoint: string,
+  schema: z.ZodType<T>,
+  { retries, ...options }: ApiRequestInit = {}
+): Promise<T> {
+  const isGet = !options.method || options.method.toUpperCase() === 'GET';
+  const maxRetries = retries ?? (isGet ? 2 : 0);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return parseResponse(schema, await send(endpoint, options), endpoint);
+    } catch (error) {
+      if (!(error instanceof ApiError) || !error.retryable || attempt >= maxRetries) throw error;
+      await wait(getRetryDelay(attempt), options.signal, endpoint);
+    }
   }
 }
 
@@ -52,20 +228,58 @@ function getStoredToken() {
   return rememberMe ? storedToken : sessionToken;
 }
 
-async function apiAuthRequest<T>(endpoint: string, options: RequestInit = {}) {
-  const token = getStoredToken();
+let unauthorizedHandler: (() => Promise<boolean>) | null = null;
+let pendingRefresh: Promise<boolean> | null = null;
 
-  if (!token) {
-    throw new Error('Not authenticated');
-  }
+/**
+ * Register how to renew the session when a request comes back 401. The
+ * handler resolves to true once a fresh token is stored. Returns a function
+ * that unregisters it.
+ */
+export function setUnauthorizedHandler(handler: () => Promise<boolean>): () => void {
+  unauthorizedHandler = handler;
+  return () => {
+    if (unauthorizedHandler === handler) unauthorizedHandler = null;
+  };
+}
 
-  return apiRequest<T>(endpoint, {
-    ...options,
-    headers: {
-      ...options.headers,
-      Authorization: `Bearer ${token}`,
-    },
-  });
+// Concurrent 401s share one refresh
+function refreshSession(): Promise<boolean> {
+  if (!unauthorizedHandler) return Promise.resolve(false);
+  pendingRefresh ??= unauthorizedHandler()
+    .catch(() => false)
+    .finally(() => {
+      pendingRefresh = null;
+    });
+  return pendingRefresh;
+}
+
+async function apiAuthRequest<T>(endpoint: string, schema: z.ZodType<T>, options: ApiRequestInit = {}) {
+  const request = () => {
+    const token = getStoredToken();
+
+    if (!token) {
+      throw new ApiError({ endpoint, status: 401, detail: 'Not authenticated' });
+    }
+
+    return apiRequest(endpoint, schema, {
+      ...options,
+      headers: {
+        ...options.headers,
+        Authorization: `Bearer ${token}`,
+      },
+    });
+  };
+
+  try {
+    return await request();
+  } catch (error) {
+    // Refresh the session once, then give the request a second chance
+    if (error instanceof ApiError && error.status === 401 && getStoredToken() && (await refreshSession())) {
+      return request();
+    }
+    throw error;
+  }
 }
 
 /**
@@ -81,13 +295,9 @@ async function apiAuthRequest<T>(endpoint: string, options: RequestInit = {}) {
  * const result = await extractReceiptText(formData);
  * ```
  */
-interface UploadResponse {
-  receipt_id: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
-  message: string;
-}
+type UploadResponse = z.infer<typeof UploadResponseSchema>;
 
-export async function extractReceiptText(formData: FormData): Promise<UploadResponse> {
+export async function extractReceiptText(formData: FormData, options: RequestOptions = {}): Promise<UploadResponse> {
   const token = getStoredToken();
   const headers: HeadersInit = {};
 
@@ -95,24 +305,17 @@ export async function extractReceiptText(formData: FormData): Promise<UploadResp
     headers['Authorization'] = `Bearer ${token}`;
   }
 
-  const response = await fetch(`${API_BASE_URL}/analyze-images-async`, {
+  return apiRequest('/analyze-images-async', UploadResponseSchema, {
     method: 'POST',
     headers, // Do NOT set Content-Type for FormData, browser does it with boundary
     body: formData,
+    timeout: 60000, // Large uploads on slow connections
+    ...options,
   });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({
-      detail: `HTTP ${response.status}`
-    }));
-    throw new Error(error.detail || 'Failed to start receipt processing');
-  }
-
-  return response.json();
 }
 
-export async function getReceipt(receiptId: string): Promise<Receipt> {
-  return apiAuthRequest(`/receipt/${receiptId}`);
+export async function getReceipt(receiptId: string, options: RequestOptions = {}): Promise<Receipt> {
+  return apiAuthRequest(`/receipt/${receiptId}`, ReceiptSchema, options);
 }
 
 /**
@@ -138,14 +341,14 @@ export async function reasonWithLLM(params: {
     ...(params.max_tokens && { max_tokens: params.max_tokens.toString() }),
   });
 
-  return apiRequest(`/nvidia-ocr/reason?${searchParams}`, {
+  return apiRequest(`/nvidia-ocr/reason?${searchParams}`, z.unknown(), {
     method: 'POST',
   });
 }
 
 // Example: Health check endpoint
 export async function checkAPIHealth() {
-  return apiRequest('/');
+  return apiRequest('/', z.unknown());
 }
 
 // ============================================
@@ -153,7 +356,7 @@ export async function checkAPIHealth() {
 // ============================================
 
 export async function createGroup(payload: GroupCreateInput): Promise<Group> {
-  return apiAuthRequest('/groups', {
+  return apiAuthRequest('/groups', GroupSchema, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -162,12 +365,22 @@ export async function createGroup(payload: GroupCreateInput): Promise<Group> {
   });
 }
 
-export async function listGroups(): Promise<Group[]> {
-  return apiAuthRequest('/groups');
+export async function listGroups(options: RequestOptions = {}): Promise<Group[]> {
+  return apiAuthRequest('/groups', GroupListSchema, options);
+}
+
+export async function updateGroup(groupId: string, payload: GroupUpdateInput): Promise<Group> {
+  return apiAuthRequest(`/groups/${groupId}`, GroupSchema, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
 }
 
 export async function addGroupMember(groupId: string, email: string): Promise<Group> {
-  return apiAuthRequest(`/groups/${groupId}/members`, {
+  return apiAuthRequest(`/groups/${groupId}/members`, GroupSchema, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -181,7 +394,7 @@ export async function updateGroupMemberRole(
   email: string,
   role: 'admin' | 'member'
 ): Promise<Group> {
-  return apiAuthRequest(`/groups/${groupId}/members/${encodeURIComponent(email)}`, {
+  return apiAuthRequest(`/groups/${groupId}/members/${encodeURIComponent(email)}`, GroupSchema, {
     method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
@@ -190,24 +403,100 @@ export async function updateGroupMemberRole(
   });
 }
 
+export async function removeGroupMember(groupId: string, email: string): Promise<Group> {
+  return apiAuthRequest(`/groups/${groupId}/members/${encodeURIComponent(email)}`, GroupSchema, {
+    method: 'DELETE',
+  });
+}
+
+/** Make another member the owner (`created_by`); the previous owner stays an admin */
+export async function transferGroupOwnership(groupId: string, email: string): Promise<Group> {
+  return apiAuthRequest(`/groups/${groupId}/owner`, GroupSchema, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email }),
+  });
+}
+
 export async function leaveGroup(groupId: string): Promise<{ message: string }> {
-  return apiAuthRequest(`/groups/${groupId}/leave`, {
+  return apiAuthRequest(`/groups/${groupId}/leave`, MessageSchema, {
     method: 'POST',
   });
 }
 
 export async function deleteGroup(groupId: string): Promise<{ message: string }> {
-  return apiAuthRequest(`/groups/${groupId}`, {
+  return apiAuthRequest(`/groups/${groupId}`, MessageSchema, {
+    method: 'DELETE',
+  });
+}
+
+// ============================================
+// Group Invitations
+// ============================================
+
+/**
+ * Invite someone by email, or create a shareable link when `email` is
+ * omitted. Nobody joins until the invitation is accepted.
+ *
+ * @example
+ * ```ts
+ * const invite = await createGroupInvitation(groupId, { role: 'member', expires_in_days: 7 });
+ * navigator.clipboard.writeText(inviteLink(invite.code));
+ * ```
+ */
+export async function createGroupInvitation(groupId: string, payload: InvitationCreateInput): Promise<GroupInvitation> {
+  return apiAuthRequest(`/groups/${groupId}/invitations`, GroupInvitationSchema, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+}
+
+export async function listGroupInvitations(groupId: string, options: RequestOptions = {}): Promise<GroupInvitation[]> {
+  return apiAuthRequest(`/groups/${groupId}/invitations`, GroupInvitationListSchema, options);
+}
+
+export async function revokeGroupInvitation(groupId: string, invitationId: string): Promise<{ message: string }> {
+  return apiAuthRequest(`/groups/${groupId}/invitations/${invitationId}`, MessageSchema, {
     method: 'DELETE',
   });
 }
 
+/** Invitations addressed to the signed-in user's email */
+export async function listMyInvitations(options: RequestOptions = {}): Promise<GroupInvitation[]> {
+  return apiAuthRequest('/invitations', GroupInvitationListSchema, options);
+}
+
+export async function respondToInvitation(
+  invitationId: string,
+  response: 'accept' | 'decline'
+): Promise<GroupInvitation> {
+  return apiAuthRequest(`/invitations/${invitationId}/${response}`, GroupInvitationSchema, {
+    method: 'POST',
+  });
+}
+
+/** Public preview of an invite link, so it can be shown before signing in */
+export async function getInvitationByCode(code: string, options: RequestOptions = {}): Promise<GroupInvitation> {
+  return apiRequest(`/invitations/code/${encodeURIComponent(code)}`, GroupInvitationSchema, options);
+}
+
+export async function acceptInvitationCode(code: string): Promise<GroupInvitation> {
+  return apiAuthRequest(`/invitations/code/${encodeURIComponent(code)}/accept`, GroupInvitationSchema, {
+    method: 'POST',
+  });
+}
+
 // ============================================
 // Folders
 // ============================================
 
 export async function createFolder(payload: FolderCreateInput): Promise<Folder> {
-  return apiAuthRequest('/folders', {
+  return apiAuthRequest('/folders', FolderSchema, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -216,18 +505,18 @@ export async function createFolder(payload: FolderCreateInput): Promise<Folder>
   });
 }
 
-export async function listFolders(): Promise<Folder[]> {
-  return apiAuthRequest('/folders');
+export async function listFolders(options: RequestOptions = {}): Promise<Folder[]> {
+  return apiAuthRequest('/folders', FolderListSchema, options);
 }
 
 export async function deleteFolder(folderId: string): Promise<{ message: string }> {
-  return apiAuthRequest(`/folders/${folderId}`, {
+  return apiAuthRequest(`/folders/${folderId}`, MessageSchema, {
     method: 'DELETE',
   });
 }
 
 export async function updateFolder(folderId: string, payload: FolderCreateInput): Promise<Folder> {
-  return apiAuthRequest(`/folders/${folderId}`, {
+  return apiAuthRequest(`/folders/${folderId}`, FolderSchema, {
     method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
@@ -240,8 +529,9 @@ export async function updateFolder(folderId: string, payload: FolderCreateInput)
 // Receipt Operations
 // ============================================
 
-export async function moveReceipt(receiptId: string, folderId: string | null): Promise<Receipt> {
-  return apiAuthRequest(`/receipts/${receiptId}/move`, {
+// Receipts here are the legacy name for groups: the endpoint moves a group
+export async function moveReceipt(receiptId: string, folderId: string | null): Promise<Group> {
+  return apiAuthRequest(`/receipts/${receiptId}/move`, GroupSchema, {
     method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
@@ -255,16 +545,345 @@ export const createReceipt = createGroup;
 export const listReceipts = listGroups;
 export const deleteReceipt = deleteGroup;
 
-export async function getGroupReceipts(groupId: string): Promise<Receipt[]> {
-  return apiAuthRequest(`/groups/${groupId}/receipts`);
+export async function getGroupReceipts(groupId: string, options: RequestOptions = {}): Promise<Receipt[]> {
+  return apiAuthRequest(`/groups/${groupId}/receipts`, ReceiptListSchema, options);
+}
+
+/**
+ * Save who is assigned to each line item. `split_map` keeps the plain
+ * item_index -> emails shape so equal splits stay readable; weights are only
+ * sent for items that are not split equally. The spread mode is left
+ * unchanged when omitted.
+ */
+export async function saveSplit(
+  receiptId: string,
+  splitMap: Record<string, string[]>,
+  splitWeights: Record<string, ItemSplitWeights> = {},
+  spreadMode?: ChargeSpreadMode
+) {
+  return apiAuthRequest(`/receipts/${receiptId}/split`, SplitResultSchema, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ split_map: splitMap, split_weights: splitWeights, split_spread_mode: spreadMode }),
+  });
+}
+
+/**
+ * Replace the payments recorded for a receipt. An empty list falls back to
+ * the single payer (`paid_by` or the uploader).
+ */
+export async function setReceiptPayments(receiptId: string, payments: ReceiptPayment[]): Promise<Receipt> {
+  return apiAuthRequest(`/receipts/${receiptId}/payments`, ReceiptSchema, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ payments }),
+  });
+}
+
+export async function updateReceiptCurrency(
+  receiptId: string,
+  currency: string,
+  exchangeRate: ExchangeRate | null
+): Promise<Receipt> {
+  return apiAuthRequest(`/receipts/${receiptId}/currency`, ReceiptSchema, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ currency, exchange_rate: exchangeRate }),
+  });
+}
+
+/**
+ * Replace a receipt's line items with the corrected ones from the items table
+ */
+export async function updateReceiptItems(receiptId: string, lineItems: LineItem[]): Promise<Receipt> {
+  return apiAuthRequest(`/receipts/${receiptId}/items`, ReceiptSchema, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ line_items: lineItems }),
+  });
+}
+
+/**
+ * Replace a receipt's charges (subtotal, fees, discounts, tax and total)
+ */
+export async function updateReceiptCharges(receiptId: string, charges: ChargesAnalysis): Promise<Receipt> {
+  return apiAuthRequest(`/receipts/${receiptId}/charges`, ReceiptSchema, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ charges_analysis: charges }),
+  });
 }
 
-export async function saveSplit(receiptId: string, splitMap: Record<string, string[]>) {
-  return apiAuthRequest(`/receipts/${receiptId}/split`, {
+export async function setReceiptTaxProfile(receiptId: string, taxProfileId: string | null): Promise<Receipt> {
+  return apiAuthRequest(`/receipts/${receiptId}/tax-profile`, ReceiptSchema, {
     method: 'PATCH',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ split_map: splitMap }),
+    body: JSON.stringify({ tax_profile_id: taxProfileId }),
   });
 }
+
+// ============================================
+// Classification Rules
+// ============================================
+
+/**
+ * The account's item/fee/discount rules, or null when it still uses the
+ * built-in ones
+ */
+export async function getClassificationRules(options: RequestOptions = {}): Promise<ClassificationRule[] | null> {
+  const { rules } = await apiAuthRequest('/users/me/classification-rules', ClassificationRulesSchema, options);
+  return rules;
+}
+
+export async function saveClassificationRules(rules: ClassificationRule[]): Promise<ClassificationRule[] | null> {
+  const { rules: saved } = await apiAuthRequest('/users/me/classification-rules', ClassificationRulesSchema, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ rules }),
+  });
+  return saved;
+}
+
+// ============================================
+// Exchange Rates
+// ============================================
+
+/**
+ * Latest rate for converting `base` into `quote`
+ *
+ * @example
+ * ```ts
+ * const { rate } = await getExchangeRate('EUR', 'CAD'); // 1 EUR = rate CAD
+ * ```
+ */
+export async function getExchangeRate(
+  base: string,
+  quote: string,
+  options: RequestOptions = {}
+): Promise<{ rate: number; as_of: string }> {
+  const searchParams = new URLSearchParams({ base, quote });
+  return apiAuthRequest(`/exchange-rates?${searchParams}`, ExchangeRateQuoteSchema, options);
+}
+
+// ============================================
+// Receipt Events
+// ============================================
+
+export type EventTransport = 'sse' | 'polling';
+
+export interface ReceiptEventOptions {
+  groupIds?: string[];
+  /** Force a transport; by default SSE is tried first */
+  transport?: EventTransport;
+  pollInterval?: number;
+  /** Wait before reopening a closed stream; doubles per failed attempt up to `maxReconnectDelay` */
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+  onTransportChange?: (transport: EventTransport) => void;
+  /** Called once per outage of the stream or of polling, not on every retry */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Parse one SSE `data:` payload; unknown or malformed events are dropped
+ */
+export function parseReceiptEvent(data: string): ReceiptEvent | null {
+  try {
+    const parsed = ReceiptEventSchema.safeParse(JSON.parse(data));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental `text/event-stream` parser. Feed it chunks as they arrive;
+ * it calls `onMessage` with the data of every complete event.
+ */
+export function createEventStreamParser(onMessage: (data: string, event?: string) => void) {
+  let buffer = '';
+  let dataLines: string[] = [];
+  let eventName: string | undefined;
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() ?? '';
+
+    lines.forEach((line) => {
+      if (line === '') {
+        if (dataLines.length > 0) onMessage(dataLines.join('\n'), eventName);
+        dataLines = [];
+        eventName = undefined;
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      } else if (line.startsWith('event:')) {
+        eventName = line.slice(6).trim();
+      }
+      // Comments (":keep-alive"), ids and retry hints are ignored
+    });
+  };
+}
+
+function eventsQuery(groupIds?: string[], since?: string) {
+  const params = new URLSearchParams();
+  groupIds?.forEach((id) => params.append('group_id', id));
+  if (since) params.set('since', since);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Events newer than `since`, for the polling fallback
+ */
+export async function getReceiptEvents(
+  groupIds?: string[],
+  since?: string,
+  options: RequestOptions = {}
+): Promise<ReceiptEventBatch> {
+  return apiAuthRequest(`/events/poll${eventsQuery(groupIds, since)}`, ReceiptEventBatchSchema, options);
+}
+
+/**
+ * Subscribe to receipt status changes, new receipts and split updates.
+ * Streams Server-Sent Events from `/events`. While the stream is down it
+ * polls `/events/poll` and keeps reopening the stream with backoff; polling
+ * stops once the stream is back. Returns a function that closes the
+ * subscription.
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = subscribeToReceiptEvents((event) => {
+ *   if (event.type === 'receipt.status') refresh(event.receipt_id);
+ * }, { groupIds: groups.map(g => g.id) });
+ * ```
+ */
+export function subscribeToReceiptEvents(
+  onEvent: (event: ReceiptEvent) => void,
+  {
+    groupIds,
+    transport,
+    pollInterval = 15000,
+    reconnectDelay = 1000,
+    maxReconnectDelay = 60000,
+    onTransportChange,
+    onError,
+  }: ReceiptEventOptions = {}
+): () => void {
+  const controller = new AbortController();
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let cursor: string | undefined;
+  // Bumped whenever polling starts or stops, so a poll in flight knows it is stale
+  let pollRun = 0;
+  let polling = false;
+  let pollFailing = false;
+  let failedConnects = 0;
+
+  const dispatch = (data: string) => {
+    const event = parseReceiptEvent(data);
+    if (event) onEvent(event);
+  };
+
+  const poll = async (run: number) => {
+    try {
+      const batch = await getReceiptEvents(groupIds, cursor, { signal: controller.signal, retries: 0 });
+      if (run !== pollRun) return;
+      cursor = batch.cursor;
+      pollFailing = false;
+      batch.events.forEach((event) => onEvent(event));
+    } catch (error) {
+      if (run !== pollRun || isAbortError(error)) return;
+      // Report once per outage, not on every interval
+      if (!pollFailing) onError?.(error);
+      pollFailing = true;
+    }
+    if (run === pollRun && !controller.signal.aborted) {
+      pollTimer = setTimeout(() => poll(run), pollInterval);
+    }
+  };
+
+  const startPolling = () => {
+    if (polling || controller.signal.aborted) return;
+    polling = true;
+    pollRun += 1;
+    onTransportChange?.('polling');
+    poll(pollRun);
+  };
+
+  const stopPolling = () => {
+    if (!polling) return;
+    polling = false;
+    pollRun += 1;
+    if (pollTimer) clearTimeout(pollTimer);
+  };
+
+  const stream = async () => {
+    const endpoint = `/events${eventsQuery(groupIds)}`;
+    const token = getStoredToken();
+    if (!token) throw new ApiError({ endpoint, status: 401, detail: 'Not authenticated' });
+
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      headers: { Accept: 'text/event-stream', Authorization: `Bearer ${token}` },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new ApiError({ endpoint, status: response.status, detail: `HTTP ${response.status}` });
+    }
+
+    failedConnects = 0;
+    stopPolling();
+    onTransportChange?.('sse');
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parse = createEventStreamParser(dispatch);
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parse(decoder.decode(value, { stream: true }));
+    }
+  };
+
+  const connect = () => {
+    stream()
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        if (failedConnects === 0) onError?.(error);
+        failedConnects += 1;
+      })
+      .finally(() => {
+        if (controller.signal.aborted) return;
+        // Poll while the stream is down unless SSE was forced, and keep trying to reopen it
+        if (transport !== 'sse') startPolling();
+        const delay = Math.min(reconnectDelay * 2 ** Math.max(failedConnects - 1, 0), maxReconnectDelay);
+        reconnectTimer = setTimeout(connect, delay);
+      });
+  };
+
+  if (transport === 'polling') {
+    startPolling();
+  } else {
+    connect();
+  }
+
+  return () => {
+    controller.abort();
+    if (pollTimer) clearTimeout(pollTimer);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+  };
+}
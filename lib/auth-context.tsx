@@ -8,7 +8,10 @@
 
 'use client';
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
+import { setUnauthorizedHandler } from '@/lib/api';
+import { queryCache } from '@/lib/query-cache';
+import { syncQueue } from '@/lib/sync-queue';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 const AUTH_COOKIE = 'kvitta_token';
@@ -51,7 +54,8 @@ interface AuthContextType {
   login: (email: string, password: string, rememberMe?: boolean) => Promise<void>;
   signup: (email: string, password: string, name?: string) => Promise<void>;
   logout: () => Promise<void>;
-  refreshToken: () => Promise<void>;
+  /** Resolves to true when a new token was stored */
+  refreshToken: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -102,6 +106,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const clearAuth = () => {
+    // Cached groups, receipts and rules belong to the user signing out
+    queryCache.clear();
     setUser(null);
     setToken(null);
     localStorage.removeItem('token');
@@ -128,6 +134,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const data = await response.json();
       const { access_token, user: userData } = data;
 
+      // Nothing cached for a previous account may show for this one
+      queryCache.clear();
       setUser(userData);
       setToken(access_token);
 
@@ -164,6 +172,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const data = await response.json();
       const { access_token, user: userData } = data;
 
+      // Nothing cached for a previous account may show for this one
+      queryCache.clear();
       setUser(userData);
       setToken(access_token);
 
@@ -195,9 +205,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const refreshToken = async () => {
+  const refreshToken = useCallback(async () => {
     try {
-      if (!token) return;
+      if (!token) return false;
 
       const response = await fetch(`${API_URL}/auth/refresh`, {
         method: 'POST',
@@ -222,11 +232,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
 
         setAuthCookie(access_token, rememberMe);
+        return true;
       }
     } catch (error) {
       console.error('Token refresh error:', error);
     }
-  };
+    return false;
+  }, [token]);
+
+  // Offline edits are only replayed for the account that made them
+  useEffect(() => {
+    syncQueue.setUser(user?.email);
+  }, [user?.email]);
+
+  // Let the API client renew the session once when a request gets a 401
+  useEffect(() => {
+    if (!token) return;
+    return setUnauthorizedHandler(refreshToken);
+  }, [token, refreshToken]);
 
   // Auto-refresh token before expiration (every 25 minutes if token expires in 30)
   useEffect(() => {
@@ -237,7 +260,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }, 25 * 60 * 1000); // 25 minutes
 
     return () => clearInterval(refreshInterval);
-  }, [token]);
+  }, [token, refreshToken]);
 
   return (
     <AuthContext.Provider value={{ user, isLoading, login, signup, logout, refreshToken }}>
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Folder, Group, Receipt } from '@/types';
+import {
+    BackupError,
+    createBackup,
+    parseBackup,
+    planRestore,
+    restoreBackup,
+    type BackupApi,
+} from './backup';
+import { mockReceiptWithSplit } from '../tests/fixtures/receipts';
+
+const folder = (id: string, name: string): Folder => ({
+    id,
+    name,
+    color: '#6366F1',
+    created_by: 'alice@test.com',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    receipt_count: 1,
+});
+
+const group = (id: string, name: string, folderId: string | null, emails: string[]): Group => ({
+    id,
+    name,
+    created_by: emails[0],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    members: emails.map((email, index) => ({ email, role: index === 0 ? 'admin' : 'member', joined_at: '' })),
+    folder_id: folderId,
+});
+
+const withPhoto: Receipt = {
+    ...mockReceiptWithSplit,
+    _id: 'r1',
+    image_urls: ['https://img.test/r1.jpg', 'https://img.test/r1-totals.jpg'],
+    charges_image_url: 'https://img.test/r1-totals.jpg',
+    charges_analysis: { subtotal_items: 20, fees: [], discounts: [], total_tax_reported: 2.6, grand_total: 22.6 },
+    split_spread_mode: 'even',
+};
+const withoutPhoto: Receipt = { ...mockReceiptWithSplit, _id: 'r2' };
+
+const fakeApi = (existing: { folders?: Folder[]; groups?: Group[] } = {}) => {
+    const api = {
+        listFolders: vi.fn(async () => existing.folders ?? [folder('f1', 'Trips')]),
+        listGroups: vi.fn(async () => existing.groups ?? [group('g1', 'Lisbon', 'f1', ['alice@test.com', 'bob@test.com'])]),
+        getGroupReceipts: vi.fn(async () => [withPhoto, withoutPhoto]),
+        fetchImage: vi.fn(async () => new Blob([new Uint8Array([1, 2, 3])], { type: 'image/png' })),
+        createFolder: vi.fn(async ({ name }: { name: string }) => folder(`new-${name}`, name)),
+        createGroup: vi.fn(async ({ name, folder_id }: { name: string; folder_id?: string }) =>
+            group(`new-${name}`, name, folder_id ?? null, ['me@test.com'])
+        ),
+        updateGroup: vi.fn(),
+        addGroupMember: vi.fn(async () => group('x', 'x', null, [])),
+        updateGroupMemberRole: vi.fn(),
+        uploadReceipt: vi.fn<BackupApi['uploadReceipt']>(async () => ({ receipt_id: 'uploaded' })),
+        getReceipt: vi.fn()
+            .mockResolvedValueOnce({ ...withPhoto, status: 'processing' })
+            .mockResolvedValue({ ...withPhoto, status: 'completed' }),
+        updateReceiptItems: vi.fn(),
+        updateReceiptCharges: vi.fn(),
+        saveSplit: vi.fn(),
+        setReceiptPayments: vi.fn(),
+        updateReceiptCurrency: vi.fn(),
+    };
+    return api as typeof api & BackupApi;
+};
+
+describe('lib/backup', () => {
+    it('should export the account with photos and read it back', async () => {
+        const archive = await createBackup({ api: fakeApi(), exportedBy: 'alice@test.com' });
+        const parsed = parseBackup(JSON.stringify(archive));
+
+        expect(parsed.folders.map((f) => f.name)).toEqual(['Trips']);
+        expect(parsed.groups[0].group.members).toHaveLength(2);
+        expect(parsed.groups[0].receipts[0].images).toEqual([
+            { kind: 'items', file_name: 'r1-1.png', content_type: 'image/png', data: 'AQID' },
+            { kind: 'charges', file_name: 'r1-2.png', content_type: 'image/png', data: 'AQID' },
+        ]);
+        expect(parsed.groups[0].receipts[0].receipt.split_details).toEqual(withPhoto.split_details);
+        expect(parsed.groups[0].receipts[1].images).toEqual([]);
+    });
+
+    it('should reject files that are not backups or come from a newer version', () => {
+        expect(() => parseBackup('not json')).toThrow(BackupError);
+        expect(() => parseBackup('{"format":"other"}')).toThrow('not a Kvitta backup');
+        expect(() => parseBackup('{"format":"kvitta-backup","version":99}')).toThrow('newer version');
+        expect(() => parseBackup('{"format":"kvitta-backup","version":1,"exported_at":"","folders":{}}')).toThrow(
+            'damaged'
+        );
+    });
+
+    it('should merge folders and skip groups whose names are taken', async () => {
+        const archive = await createBackup({ api: fakeApi() });
+        const plan = planRestore(archive, { folders: [folder('other', ' trips ')], groups: [group('g9', 'Lisbon', null, [])] });
+
+        expect(plan.folders).toEqual([{ sourceId: 'f1', name: 'Trips', existingId: 'other', action: 'merge' }]);
+        expect(plan.groups).toEqual([{ sourceId: 'g1', name: 'Lisbon', existingId: 'g9', action: 'skip' }]);
+    });
+
+    it('should recreate folders, groups, members and receipts with photos', async () => {
+        const archive = await createBackup({ api: fakeApi() });
+        const api = fakeApi({ folders: [], groups: [] });
+        const progress = vi.fn();
+
+        const result = await restoreBackup(archive, planRestore(archive, { folders: [], groups: [] }), {
+            api,
+            currentUser: 'alice@test.com',
+            onProgress: progress,
+            pollInterval: 0,
+        });
+
+        expect(api.createFolder).toHaveBeenCalledWith({ name: 'Trips', color: '#6366F1' });
+        expect(api.createGroup).toHaveBeenCalledWith({ name: 'Lisbon', description: undefined, folder_id: 'new-Trips' });
+        expect(api.addGroupMember).toHaveBeenCalledTimes(1);
+        expect(api.addGroupMember).toHaveBeenCalledWith('new-Lisbon', 'bob@test.com');
+        expect(api.uploadReceipt).toHaveBeenCalledTimes(1);
+        const [upload] = api.uploadReceipt.mock.calls[0];
+        expect((upload.getAll('receipt_items') as File[]).map((file) => file.name)).toEqual(['r1-1.png']);
+        expect((upload.get('charges_image') as File).name).toBe('r1-2.png');
+        expect(api.updateReceiptCharges).toHaveBeenCalledWith('uploaded', withPhoto.charges_analysis);
+        expect(api.saveSplit).toHaveBeenCalledWith('uploaded', withPhoto.split_details, {}, 'even');
+        expect(result).toMatchObject({ folders: 1, groups: 1, members: 1, receipts: 1, warnings: [] });
+        expect(result.skipped).toEqual([expect.stringContaining('no photos in the backup')]);
+        expect(progress).toHaveBeenLastCalledWith({ done: 4, total: 4, label: 'Done' });
+    });
+});
@@ -0,0 +1,578 @@
+import { z } from 'zod';
+import type { Folder, Group, Receipt } from '@/types';
+import {
+  addGroupMember,
+  createFolder,
+  createGroup,
+  extractReceiptText,
+  getGroupReceipts,
+  getReceipt,
+  listFolders,
+  listGroups,
+  saveSplit,
+  setReceiptPayments,
+  updateGroup,
+  updateGroupMemberRole,
+  updateReceiptCharges,
+  updateReceiptCurrency,
+  updateReceiptItems,
+} from '@/lib/api';
+import { isReceiptProcessed } from '@/lib/job-tracker';
+import { FolderSchema, GroupSchema, ReceiptSchema } from '@/lib/schemas';
+
+/**
+ * Account Backup
+ *
+ * Serializes every folder, group (with members) and receipt (with analyses,
+ * splits, payments and the original photos where they can be downloaded)
+ * into one versioned JSON archive, and restores an archive into the
+ * signed-in account through the regular folder and group endpoints.
+ *
+ * There is no endpoint that creates a receipt from data, so receipts are
+ * restored by uploading their photos again, each in the field it was first
+ * uploaded in, and, once processing finishes, writing back the backed-up
+ * line items, charges, split, payments and currency. Receipts without item
+ * photos in the archive are reported as skipped.
+ *
+ * @example
+ * ```ts
+ * const archive = await createBackup({ exportedBy: user.email, onProgress });
+ * downloadFile(JSON.stringify(archive), backupFileName(archive), 'application/json');
+ *
+ * const archive = parseBackup(await file.text());
+ * const plan = planRestore(archive, { folders, groups });
+ * const result = await restoreBackup(archive, plan, { currentUser: user.email, onProgress });
+ * ```
+ */
+
+export const BACKUP_FORMAT = 'kvitta-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupImage {
+  /** Upload field: item photos, or the photo of the totals (`charges_image`) */
+  kind: 'items' | 'charges';
+  file_name: string;
+  content_type: string;
+  /** Base64, without a data: prefix */
+  data: string;
+}
+
+export interface BackupReceipt {
+  receipt: Receipt;
+  images: BackupImage[];
+  /** Photos listed on the receipt that could not be downloaded */
+  missing_images: number;
+}
+
+export interface BackupGroup {
+  group: Group;
+  receipts: BackupReceipt[];
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  exported_by: string | null;
+  folders: Folder[];
+  groups: BackupGroup[];
+}
+
+export interface BackupProgress {
+  done: number;
+  total: number;
+  label: string;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/** The endpoints backup and restore use, replaceable in tests */
+export interface BackupApi {
+  listFolders: () => Promise<Folder[]>;
+  listGroups: () => Promise<Group[]>;
+  getGroupReceipts: (groupId: string) => Promise<Receipt[]>;
+  createFolder: typeof createFolder;
+  createGroup: typeof createGroup;
+  updateGroup: typeof updateGroup;
+  addGroupMember: typeof addGroupMember;
+  updateGroupMemberRole: typeof updateGroupMemberRole;
+  uploadReceipt: (formData: FormData) => Promise<{ receipt_id: string }>;
+  getReceipt: (receiptId: string) => Promise<Receipt>;
+  updateReceiptItems: typeof updateReceiptItems;
+  updateReceiptCharges: typeof updateReceiptCharges;
+  saveSplit: (...args: Parameters<typeof saveSplit>) => Promise<unknown>;
+  setReceiptPayments: typeof setReceiptPayments;
+  updateReceiptCurrency: typeof updateReceiptCurrency;
+  fetchImage: (url: string) => Promise<Blob>;
+}
+
+async function fetchImage(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return response.blob();
+}
+
+export const defaultBackupApi: BackupApi = {
+  listFolders: () => listFolders(),
+  listGroups: () => listGroups(),
+  getGroupReceipts: (groupId) => getGroupReceipts(groupId),
+  createFolder,
+  createGroup,
+  updateGroup,
+  addGroupMember,
+  updateGroupMemberRole,
+  uploadReceipt: (formData) => extractReceiptText(formData),
+  getReceipt: (receiptId) => getReceipt(receiptId),
+  updateReceiptItems,
+  updateReceiptCharges,
+  saveSplit,
+  setReceiptPayments,
+  updateReceiptCurrency,
+  fetchImage,
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// ============================================
+// Images
+// ============================================
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'application/pdf': 'pdf',
+};
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so large photos do not overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function imageToFile(image: BackupImage): File {
+  const binary = atob(image.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new File([bytes], image.file_name, { type: image.content_type });
+}
+
+const hasItemPhotos = (images: BackupImage[]) => images.some((image) => image.kind === 'items');
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Read the whole account. Photos that cannot be downloaded (expired links,
+ * CORS) are counted in `missing_images` instead of failing the backup.
+ */
+export async function createBackup({
+  api = defaultBackupApi,
+  exportedBy = null,
+  onProgress,
+}: {
+  api?: BackupApi;
+  exportedBy?: string | null;
+  onProgress?: (progress: BackupProgress) => void;
+} = {}): Promise<BackupArchive> {
+  const [folders, groups] = await Promise.all([api.listFolders(), api.listGroups()]);
+  const backupGroups: BackupGroup[] = [];
+
+  for (const [index, group] of groups.entries()) {
+    onProgress?.({ done: index, total: groups.length, label: group.name });
+    const receipts: BackupReceipt[] = [];
+    for (const receipt of await api.getGroupReceipts(group.id)) {
+      const images: BackupImage[] = [];
+      let missing = 0;
+      const photos = [
+        ...(receipt.image_urls ?? [])
+          .filter((url) => url !== receipt.charges_image_url)
+          .map((url) => ({ kind: 'items' as const, url })),
+        ...(receipt.charges_image_url ? [{ kind: 'charges' as const, url: receipt.charges_image_url }] : []),
+      ];
+      for (const [position, { kind, url }] of photos.entries()) {
+        try {
+          const blob = await api.fetchImage(url);
+          const type = blob.type || 'image/jpeg';
+          images.push({
+            kind,
+            file_name: `${receipt._id}-${position + 1}.${IMAGE_EXTENSIONS[type] ?? 'jpg'}`,
+            content_type: type,
+            data: await blobToBase64(blob),
+          });
+        } catch {
+          missing++;
+        }
+      }
+      receipts.push({ receipt, images, missing_images: missing });
+    }
+    backupGroups.push({ group, receipts });
+  }
+  onProgress?.({ done: groups.length, total: groups.length, label: 'Done' });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    exported_by: exportedBy,
+    folders,
+    groups: backupGroups,
+  };
+}
+
+/** e.g. "kvitta-backup-2026-10-19.json" */
+export function backupFileName(archive: BackupArchive): string {
+  return `${BACKUP_FORMAT}-${archive.exported_at.slice(0, 10)}.json`;
+}
+
+export function backupStats(archive: BackupArchive) {
+  const receipts = archive.groups.flatMap((group) => group.receipts);
+  return {
+    folders: archive.folders.length,
+    groups: archive.groups.length,
+    receipts: receipts.length,
+    images: receipts.reduce((sum, receipt) => sum + receipt.images.length, 0),
+    missingImages: receipts.reduce((sum, receipt) => sum + receipt.missing_images, 0),
+    restorableReceipts: receipts.filter((receipt) => hasItemPhotos(receipt.images)).length,
+  };
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const BackupImageSchema = z.object({
+  // Archives made before photos were tagged only hold item photos
+  kind: z.enum(['items', 'charges']).default('items'),
+  file_name: z.string(),
+  content_type: z.string(),
+  data: z.string(),
+});
+
+const BackupArchiveSchema: z.ZodType<BackupArchive> = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  exported_at: z.string(),
+  exported_by: z.string().nullish().transform((value) => value ?? null),
+  folders: z.array(FolderSchema),
+  groups: z.array(
+    z.object({
+      group: GroupSchema,
+      receipts: z.array(
+        z.object({
+          receipt: ReceiptSchema,
+          images: z.array(BackupImageSchema).default([]),
+          missing_images: z.number().int().default(0),
+        })
+      ),
+    })
+  ),
+});
+
+/**
+ * Validate a backup file. Throws a `BackupError` saying what is wrong
+ * rather than restoring part of a file from another app or a newer version.
+ */
+export function parseBackup(text: string): BackupArchive {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+
+  const header = data as { format?: unknown; version?: unknown } | null;
+  if (header?.format !== BACKUP_FORMAT) {
+    throw new BackupError('This is not a Kvitta backup file.');
+  }
+  if (typeof header.version !== 'number' || header.version > BACKUP_VERSION) {
+    throw new BackupError(`This backup was made by a newer version of Kvitta (format ${String(header.version)}).`);
+  }
+
+  const result = BackupArchiveSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new BackupError(`The backup is damaged: ${issue.path.join('.') || 'file'} ${issue.message.toLowerCase()}.`);
+  }
+  return result.data;
+}
+
+// ============================================
+// Conflicts
+// ============================================
+
+/**
+ * What to do with a backed-up folder or group:
+ * - `create`: create it; named "… (restored)" when the name is taken
+ * - `merge`: use the existing one with the same name (groups also get the
+ *   missing members and the backed-up receipts)
+ * - `skip`: leave it out, along with a group's receipts
+ */
+export type RestoreAction = 'create' | 'merge' | 'skip';
+
+export interface RestoreItem {
+  sourceId: string;
+  name: string;
+  /** Folder or group in this account with the same name */
+  existingId: string | null;
+  action: RestoreAction;
+}
+
+export interface RestorePlan {
+  folders: RestoreItem[];
+  groups: RestoreItem[];
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+function findByName<T extends { id: string; name: string }>(items: T[], name: string): T | undefined {
+  return items.find((item) => nameKey(item.name) === nameKey(name));
+}
+
+/**
+ * Match the archive against this account by name. Folders with a taken name
+ * are merged by default; groups are skipped, since merging them uploads
+ * their receipts a second time.
+ */
+export function planRestore(
+  archive: BackupArchive,
+  existing: { folders: Folder[]; groups: Group[] }
+): RestorePlan {
+  return {
+    folders: archive.folders.map((folder) => {
+      const match = findByName(existing.folders, folder.name);
+      return { sourceId: folder.id, name: folder.name, existingId: match?.id ?? null, action: match ? 'merge' : 'create' };
+    }),
+    groups: archive.groups.map(({ group }) => {
+      const match = findByName(existing.groups, group.name);
+      return { sourceId: group.id, name: group.name, existingId: match?.id ?? null, action: match ? 'skip' : 'create' };
+    }),
+  };
+}
+
+export function conflictCount(plan: RestorePlan): number {
+  return [...plan.folders, ...plan.groups].filter((item) => item.existingId).length;
+}
+
+const restoredName = (item: RestoreItem) => (item.existingId ? `${item.name} (restored)` : item.name);
+
+// ============================================
+// Restore
+// ============================================
+
+export interface RestoreResult {
+  folders: number;
+  groups: number;
+  members: number;
+  receipts: number;
+  /** Things left out on purpose or because they cannot be recreated */
+  skipped: string[];
+  /** Steps that failed; the rest of the restore carried on */
+  warnings: string[];
+}
+
+export interface RestoreOptions {
+  api?: BackupApi;
+  /** Not re-added to groups; the creator is a member already */
+  currentUser?: string | null;
+  onProgress?: (progress: BackupProgress) => void;
+  signal?: AbortSignal;
+  /** Between checks on an uploaded receipt */
+  pollInterval?: number;
+  /** Give up waiting for an uploaded receipt after this long */
+  processingTimeout?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitForProcessing(
+  api: BackupApi,
+  receiptId: string,
+  { pollInterval, processingTimeout, signal }: Required<Pick<RestoreOptions, 'pollInterval' | 'processingTimeout'>> &
+    Pick<RestoreOptions, 'signal'>
+): Promise<Receipt> {
+  const deadline = Date.now() + processingTimeout;
+  for (;;) {
+    signal?.throwIfAborted();
+    const receipt = await api.getReceipt(receiptId);
+    if (isReceiptProcessed(receipt)) return receipt;
+    if (receipt.status === 'error') throw new Error('processing failed');
+    if (Date.now() >= deadline) throw new Error('processing timed out');
+    await sleep(pollInterval);
+  }
+}
+
+/**
+ * Write a backed-up receipt's corrections over the freshly processed one.
+ * Each step is independent, so one failing only costs that part.
+ */
+async function restoreReceiptData(api: BackupApi, receiptId: string, source: Receipt, warn: (message: string) => void) {
+  const lineItems = source.items_analysis?.line_items ?? [];
+  const charges = source.charges_analysis;
+  const steps: [string, (() => Promise<unknown>) | null][] = [
+    ['line items', lineItems.length > 0 ? () => api.updateReceiptItems(receiptId, lineItems) : null],
+    ['charges', charges ? () => api.updateReceiptCharges(receiptId, charges) : null],
+    [
+      'split',
+      Object.keys(source.split_details ?? {}).length > 0
+        ? () =>
+            api.saveSplit(receiptId, source.split_details ?? {}, source.split_weights ?? {}, source.split_spread_mode)
+        : null,
+    ],
+    ['payments', source.payments?.length ? () => api.setReceiptPayments(receiptId, source.payments ?? []) : null],
+    [
+      'currency',
+      source.currency ? () => api.updateReceiptCurrency(receiptId, source.currency!, source.exchange_rate ?? null) : null,
+    ],
+  ];
+
+  for (const [label, run] of steps) {
+    if (!run) continue;
+    try {
+      await run();
+    } catch (error) {
+      warn(`${label}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Recreate an archive in this account following `plan`. Folders come
+ * first so groups can be filed into them, then each group with its members
+ * and receipts. Failures are collected in the result instead of stopping
+ * the restore; only `signal` aborts it.
+ */
+export async function restoreBackup(
+  archive: BackupArchive,
+  plan: RestorePlan,
+  {
+    api = defaultBackupApi,
+    currentUser = null,
+    onProgress,
+    signal,
+    pollInterval = 2000,
+    processingTimeout = 5 * 60 * 1000,
+  }: RestoreOptions = {}
+): Promise<RestoreResult> {
+  const result: RestoreResult = { folders: 0, groups: 0, members: 0, receipts: 0, skipped: [], warnings: [] };
+  const folderPlan = new Map(plan.folders.map((item) => [item.sourceId, item]));
+  const groupPlan = new Map(plan.groups.map((item) => [item.sourceId, item]));
+  const included = archive.groups.filter(({ group }) => groupPlan.get(group.id)?.action !== 'skip');
+
+  const total =
+    plan.folders.filter((item) => item.action !== 'skip').length +
+    included.reduce((sum, { receipts }) => sum + 1 + receipts.length, 0);
+  let done = 0;
+  const step = (label: string) => {
+    signal?.throwIfAborted();
+    onProgress?.({ done: done++, total, label });
+  };
+
+  // Folders: backed-up id -> id in this account
+  const folderIds = new Map<string, string>();
+  for (const folder of archive.folders) {
+    const item = folderPlan.get(folder.id);
+    if (!item || item.action === 'skip') {
+      result.skipped.push(`Folder "${folder.name}"`);
+      continue;
+    }
+    step(`Folder "${folder.name}"`);
+    if (item.action === 'merge' && item.existingId) {
+      folderIds.set(folder.id, item.existingId);
+      continue;
+    }
+    try {
+      const created = await api.createFolder({ name: restoredName(item), color: folder.color });
+      folderIds.set(folder.id, created.id);
+      result.folders++;
+    } catch (error) {
+      result.warnings.push(`Folder "${folder.name}": ${errorMessage(error)}`);
+    }
+  }
+
+  const existingGroups = plan.groups.some((item) => item.action === 'merge') ? await api.listGroups() : [];
+
+  for (const { group, receipts } of archive.groups) {
+    const item = groupPlan.get(group.id);
+    if (!item || item.action === 'skip') {
+      result.skipped.push(`Group "${group.name}" and its ${receipts.length} receipt(s)`);
+      continue;
+    }
+
+    step(`Group "${group.name}"`);
+    let target = item.action === 'merge' ? existingGroups.find((candidate) => candidate.id === item.existingId) : undefined;
+    if (!target) {
+      try {
+        target = await api.createGroup({
+          name: restoredName(item),
+          description: group.description ?? undefined,
+          folder_id: group.folder_id ? folderIds.get(group.folder_id) : undefined,
+        });
+        result.groups++;
+        if (group.base_currency && group.base_currency !== target.base_currency) {
+          target = await api.updateGroup(target.id, { base_currency: group.base_currency });
+        }
+      } catch (error) {
+        result.warnings.push(`Group "${group.name}": ${errorMessage(error)}`);
+        if (!target) {
+          result.skipped.push(`${receipts.length} receipt(s) of "${group.name}"`);
+          done += receipts.length;
+          continue;
+        }
+      }
+    }
+
+    const known = new Set([...target.members.map((member) => nameKey(member.email)), nameKey(currentUser ?? '')]);
+    for (const member of group.members) {
+      if (known.has(nameKey(member.email))) continue;
+      try {
+        await api.addGroupMember(target.id, member.email);
+        result.members++;
+        if (member.role === 'admin') await api.updateGroupMemberRole(target.id, member.email, 'admin');
+      } catch (error) {
+        result.warnings.push(`Member ${member.email} in "${group.name}": ${errorMessage(error)}`);
+      }
+    }
+
+    for (const { receipt, images } of receipts) {
+      const label = receipt.items_analysis?.merchant_name || `receipt from ${receipt.created_at.slice(0, 10)}`;
+      step(`${group.name}: ${label}`);
+      if (!hasItemPhotos(images)) {
+        result.skipped.push(`${group.name}: ${label} (no photos in the backup)`);
+        continue;
+      }
+      try {
+        const formData = new FormData();
+        const items = images.filter((image) => image.kind === 'items');
+        // Without a totals photo the last item photo stands in; the charges are written back anyway
+        const charges = images.find((image) => image.kind === 'charges') ?? items[items.length - 1];
+        items.forEach((image) => formData.append('receipt_items', imageToFile(image)));
+        formData.append('charges_image', imageToFile(charges));
+        formData.append('group_id', target.id);
+        const { receipt_id } = await api.uploadReceipt(formData);
+        await waitForProcessing(api, receipt_id, { pollInterval, processingTimeout, signal });
+        await restoreReceiptData(api, receipt_id, receipt, (message) =>
+          result.warnings.push(`${group.name}: ${label}, ${message}`)
+        );
+        result.receipts++;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        result.warnings.push(`${group.name}: ${label}: ${errorMessage(error)}`);
+      }
+    }
+  }
+
+  onProgress?.({ done: total, total, label: 'Done' });
+  return result;
+}
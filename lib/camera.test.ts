@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { describeCameraError, isCameraSupported, openCamera } from './camera';
+
+describe('lib/camera', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should explain why the camera could not start', () => {
+        expect(describeCameraError(new DOMException('Permission denied', 'NotAllowedError'))).toMatch(/denied/);
+        expect(describeCameraError(new DOMException('', 'NotFoundError'))).toMatch(/No camera/);
+        expect(describeCameraError(new Error('Boom'))).toBe('Boom');
+    });
+
+    it('should ask for the rear camera at full resolution', async () => {
+        const getUserMedia = vi.fn().mockResolvedValue({});
+        vi.stubGlobal('navigator', { mediaDevices: { getUserMedia } });
+
+        expect(isCameraSupported()).toBe(true);
+        await openCamera();
+
+        expect(getUserMedia).toHaveBeenCalledWith(expect.objectContaining({
+            video: expect.objectContaining({ facingMode: { ideal: 'environment' } }),
+        }));
+    });
+
+    it('should report browsers without camera access', () => {
+        vi.stubGlobal('navigator', {});
+        expect(isCameraSupported()).toBe(false);
+    });
+});
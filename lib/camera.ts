@@ -0,0 +1,82 @@
+/**
+ * Camera helpers for photographing receipts
+ *
+ * Opens the rear camera at the highest resolution the device offers (small
+ * print needs every pixel) and turns video frames into JPEG files that can
+ * go straight into the upload form.
+ *
+ * @example
+ * ```ts
+ * const stream = await openCamera();
+ * video.srcObject = stream;
+ * const photo = await captureFrame(video, 'receipt-items-1.jpg');
+ * stopCamera(stream);
+ * ```
+ */
+
+export const PHOTO_TYPE = 'image/jpeg';
+export const PHOTO_QUALITY = 0.92;
+
+export function isCameraSupported(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function openCamera(): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    audio: false,
+    video: {
+      facingMode: { ideal: 'environment' },
+      width: { ideal: 3840 },
+      height: { ideal: 2160 },
+    },
+  });
+}
+
+export function stopCamera(stream: MediaStream | null | undefined) {
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
+/**
+ * Grab the current video frame at full resolution.
+ */
+export function captureFrame(video: HTMLVideoElement, fileName: string): Promise<File> {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+
+  const context = canvas.getContext('2d');
+  if (!context || canvas.width === 0) {
+    return Promise.reject(new Error('The camera is not ready yet'));
+  }
+  context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Could not capture the photo'));
+          return;
+        }
+        resolve(new File([blob], fileName, { type: PHOTO_TYPE, lastModified: Date.now() }));
+      },
+      PHOTO_TYPE,
+      PHOTO_QUALITY
+    );
+  });
+}
+
+export function describeCameraError(error: unknown): string {
+  const name = (error as { name?: string } | null)?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'Camera access was denied. Allow it in your browser settings, or upload photos instead.';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'No camera was found on this device.';
+    case 'NotReadableError':
+      return 'The camera is being used by another app.';
+    default:
+      return error instanceof Error ? error.message : 'Could not start the camera.';
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { addRule, classifyLine, createRule, DEFAULT_RULES, ruleFromCorrection } from './classification';
+
+const kind = (name: string, amount: number | null = 1, options = {}) => classifyLine(name, amount, options).kind;
+
+describe('lib/classification', () => {
+    it('should match whole words instead of substrings', () => {
+        expect(kind('Bag of chips')).toBe('item');
+        expect(kind('Tipo 00 flour')).toBe('item');
+        expect(kind('Taxi cab toy')).toBe('item');
+        expect(kind('Driver tip')).toBe('fee');
+        expect(kind('Service-charge')).toBe('fee');
+        expect(kind('Delivery fees')).toBe('fee');
+        expect(kind('Bags')).toBe('fee');
+        expect(kind('Delivery discount')).toBe('discount');
+    });
+
+    it('should treat negative amounts as discounts unless a rule keeps them as items', () => {
+        const deposit = createRule({ match: 'word', pattern: 'bottle deposit', kind: 'item' });
+
+        expect(kind('Member price', -2)).toBe('discount');
+        expect(kind('Delivery fee refund', -3)).toBe('discount');
+        expect(kind('Bottle deposit return', -0.1, { rules: [deposit, ...DEFAULT_RULES] })).toBe('item');
+    });
+
+    it('should try merchant rules before general ones and skip invalid patterns', () => {
+        const rules = [
+            ...DEFAULT_RULES,
+            createRule({ match: 'regex', pattern: '([', kind: 'fee' }),
+            createRule({ match: 'regex', pattern: '^delivery\\b', kind: 'item', merchant: 'Costco' }),
+        ];
+
+        expect(kind('Delivery bundle', 10, { rules, merchant: 'Costco Wholesale #552' })).toBe('item');
+        expect(kind('Delivery bundle', 10, { rules, merchant: 'Walmart' })).toBe('fee');
+        expect(kind('Delivery bundle', 10, { rules })).toBe('fee');
+    });
+
+    it('should turn a correction into a rule only when the rules disagree', () => {
+        const rule = ruleFromCorrection('Bag fee waived', 'item', { rules: DEFAULT_RULES, merchant: 'Loblaws' });
+
+        expect(rule).toMatchObject({ match: 'word', pattern: 'Bag fee waived', kind: 'item', merchant: 'Loblaws' });
+        const rules = addRule(DEFAULT_RULES, rule!);
+        expect(kind('BAG FEE WAIVED', 0, { rules, merchant: 'Loblaws' })).toBe('item');
+        expect(kind('Bag fee waived', 0, { rules })).toBe('fee');
+        expect(ruleFromCorrection('Bag fee', 'fee', { rules })).toBeNull();
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Line classification
+ *
+ * Decides whether an imported row is an item, a fee or a discount. Rules
+ * match whole words or phrases ("tip" matches "Tip" and "Driver tip" but
+ * not "Tipo 00 flour") or a regular expression. Rules scoped to a merchant
+ * are tried before the general ones, and within each group the first
+ * matching rule wins. Accounts start with `DEFAULT_RULES` and can edit
+ * them; corrections made in the results view can be saved as new rules.
+ *
+ * @example
+ * ```ts
+ * const { kind } = classifyLine('Bag fee', 0.1, { rules, merchant: 'Loblaws' });
+ * // kind === 'fee'
+ * ```
+ */
+
+import type { ClassificationRule, LineKind } from '@/types';
+
+export const LINE_KINDS: { kind: LineKind; label: string }[] = [
+  { kind: 'item', label: 'Item' },
+  { kind: 'fee', label: 'Fee' },
+  { kind: 'discount', label: 'Discount' },
+];
+
+const words = (kind: LineKind, patterns: string[]): ClassificationRule[] =>
+  patterns.map((pattern) => ({ id: `default-${kind}-${pattern.replace(/\W+/g, '-')}`, match: 'word', pattern, kind }));
+
+/** Discounts come first so "Delivery discount" is not read as a fee */
+export const DEFAULT_RULES: ClassificationRule[] = [
+  ...words('discount', ['discount', 'coupon', 'promo', 'promotion', 'savings', 'rebate']),
+  ...words('fee', [
+    'fee',
+    'surcharge',
+    'service charge',
+    'delivery',
+    'shipping',
+    'handling',
+    'checkout bag',
+    'carrier bag',
+    'paper bag',
+    'plastic bag',
+    'bag charge',
+    'tip',
+    'gratuity',
+    'tax',
+    'hst',
+    'gst',
+    'pst',
+    'qst',
+    'vat',
+  ]),
+  // A line that is only "Bag" or "Bags" is the store's bag charge
+  { id: 'default-fee-bag', match: 'regex', pattern: '^\\s*bags?\\s*$', kind: 'fee' },
+];
+
+// ============================================
+// Matching
+// ============================================
+
+const compiled = new Map<string, RegExp | null>();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The rule's pattern as a regular expression, or null when it is empty or
+ * not a valid expression (such rules never match).
+ */
+export function ruleRegExp(rule: Pick<ClassificationRule, 'match' | 'pattern'>): RegExp | null {
+  const key = `${rule.match}:${rule.pattern}`;
+  if (compiled.has(key)) return compiled.get(key)!;
+
+  let regExp: RegExp | null = null;
+  const pattern = rule.pattern.trim();
+  if (pattern) {
+    try {
+      regExp =
+        rule.match === 'regex'
+          ? new RegExp(pattern, 'iu')
+          : // Words may be written with any spacing or punctuation between them, and in the plural
+            new RegExp(
+              `(?<![\\p{L}\\p{N}])${pattern.split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(escapeRegExp).join('[^\\p{L}\\p{N}]+')}s?(?![\\p{L}\\p{N}])`,
+              'iu'
+            );
+    } catch {
+      regExp = null;
+    }
+  }
+  compiled.set(key, regExp);
+  return regExp;
+}
+
+export function matchesRule(text: string, rule: Pick<ClassificationRule, 'match' | 'pattern'>): boolean {
+  return ruleRegExp(rule)?.test(text) ?? false;
+}
+
+/** Merchant names match as words too, so a "Costco" rule covers "Costco Wholesale #552" */
+const appliesTo = (rule: ClassificationRule, merchant: string | null | undefined) =>
+  !rule.merchant || (!!merchant && matchesRule(merchant, { match: 'word', pattern: rule.merchant }));
+
+export function findRule(
+  name: string,
+  rules: ClassificationRule[],
+  merchant?: string | null
+): ClassificationRule | null {
+  const scoped = rules.filter((rule) => rule.merchant && appliesTo(rule, merchant));
+  const general = rules.filter((rule) => !rule.merchant);
+  return [...scoped, ...general].find((rule) => matchesRule(name, rule)) ?? null;
+}
+
+/**
+ * Classify one row. Negative amounts are discounts unless a rule keeps
+ * them as items, e.g. a bottle deposit refund.
+ */
+export function classifyLine(
+  name: string,
+  amount: number | null,
+  { rules = DEFAULT_RULES, merchant }: { rules?: ClassificationRule[]; merchant?: string | null } = {}
+): { kind: LineKind; rule: ClassificationRule | null } {
+  const rule = findRule(name, rules, merchant);
+  if (amount !== null && amount < 0 && rule?.kind !== 'item') return { kind: 'discount', rule };
+  return { kind: rule?.kind ?? 'item', rule };
+}
+
+// ============================================
+// Editing
+// ============================================
+
+let nextId = 0;
+
+export function createRule(fields: Omit<ClassificationRule, 'id'>): ClassificationRule {
+  return { ...fields, id: `rule-${Date.now().toString(36)}-${nextId++}` };
+}
+
+/**
+ * A rule that sorts rows named like `name` into `kind` from now on, for
+ * `merchant` only when one is given. Returns null when the current rules
+ * already give that result.
+ */
+export function ruleFromCorrection(
+  name: string,
+  kind: LineKind,
+  { rules, merchant }: { rules: ClassificationRule[]; merchant?: string | null }
+): ClassificationRule | null {
+  const pattern = name.trim();
+  if (!pattern || classifyLine(pattern, null, { rules, merchant }).kind === kind) return null;
+  return createRule({ match: 'word', pattern, kind, merchant: merchant || null });
+}
+
+/**
+ * Add a rule ahead of the ones it should override: merchant rules are
+ * always tried first, so new rules go to the top of the list.
+ */
+export function addRule(rules: ClassificationRule[], rule: ClassificationRule): ClassificationRule[] {
+  return [rule, ...rules.filter((existing) => existing.id !== rule.id)];
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, guessColumns, mapRows, parseAmount, parseCsv } from './csv-import';
+
+describe('lib/csv-import', () => {
+    it('should parse quoted fields, escaped quotes, empty fields and line breaks', () => {
+        const text = '﻿name,qty,price\r\n"Cheese, aged",,4.50\n"12"" Pizza",1,"10.00"\n\n"Note\nsplit",2,1.00\n';
+
+        expect(parseCsv(text)).toEqual([
+            ['name', 'qty', 'price'],
+            ['Cheese, aged', '', '4.50'],
+            ['12" Pizza', '1', '10.00'],
+            ['Note\nsplit', '2', '1.00'],
+        ]);
+    });
+
+    it('should detect the delimiter from the whole sample', () => {
+        expect(detectDelimiter('Apple\t2\t3,98\nBanana\t5\t2,95')).toBe('\t');
+        expect(detectDelimiter('Apple;2;3,98\nBanana;5;2,95')).toBe(';');
+        expect(detectDelimiter('"Milk; 2%",1,2.99\nBread,1,3.50')).toBe(',');
+    });
+
+    it('should read locale amounts and currency symbols', () => {
+        expect(parseAmount('3.50')).toBe(3.5);
+        expect(parseAmount('€3,50')).toBe(3.5);
+        expect(parseAmount('1.234,56 kr')).toBe(1234.56);
+        expect(parseAmount('$1,234.56')).toBe(1234.56);
+        expect(parseAmount('1,234')).toBe(1234);
+        expect(parseAmount('1,234', ',')).toBe(1.234);
+        expect(parseAmount('(2.00)')).toBe(-2);
+        expect(parseAmount('-$2.00')).toBe(-2);
+        expect(parseAmount('')).toBeNull();
+        expect(parseAmount('abc')).toBeNaN();
+    });
+
+    it('should map columns by header, in any order', () => {
+        const records = parseCsv('Taxable;Description;Total;Qty\nyes;Wine;25,00;2');
+        const { mapping, hasHeader } = guessColumns(records);
+
+        expect(hasHeader).toBe(true);
+        expect(mapping).toEqual({ taxable: 0, name: 1, lineTotal: 2, quantity: 3 });
+        expect(mapRows(records, mapping, { hasHeader })[0].item).toEqual({
+            name_raw: 'Wine',
+            quantity: 2,
+            unit_price: 12.5,
+            line_subtotal: 25,
+            taxable: true,
+        });
+    });
+
+    it('should fall back to positional columns and report row errors', () => {
+        const records = parseCsv('Apple,2,1.99,true\n,1,2.00\nPear,two,1.00\nPlum,1,,maybe\nFig');
+        const { mapping, hasHeader } = guessColumns(records);
+        const rows = mapRows(records, mapping, { hasHeader });
+
+        expect(mapping).toEqual({ name: 0, quantity: 1, unitPrice: 2, taxable: 3 });
+        expect(rows[0].item).toMatchObject({ name_raw: 'Apple', unit_price: 1.99, line_subtotal: 3.98, taxable: true });
+        expect(rows.slice(1).map((row) => [row.line, row.errors])).toEqual([
+            [2, ['Missing name']],
+            [3, ['Quantity "two" is not a number']],
+            [4, ['Missing price', 'Taxable "maybe" should be yes or no']],
+            [5, ['Missing price']],
+        ]);
+    });
+});
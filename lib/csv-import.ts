@@ -0,0 +1,262 @@
+/**
+ * CSV/TSV import
+ *
+ * One parser for every pasted or exported item list. Records are split per
+ * RFC 4180 (quoted fields, doubled quotes, line breaks inside quotes), the
+ * delimiter is detected from the whole sample, and columns are mapped to
+ * line item fields by their header or, without one, by position. Amounts
+ * may use decimal commas, thousands separators and currency symbols. Every
+ * row reports its own parse errors so a preview can show what will be
+ * imported.
+ *
+ * @example
+ * ```ts
+ * const table = parseCsv(text);
+ * const { mapping, hasHeader } = guessColumns(table);
+ * const rows = mapRows(table, mapping, { hasHeader });
+ * const items = rows.flatMap((row) => (row.item ? [row.item] : []));
+ * ```
+ */
+
+import type { LineItem } from '@/types';
+
+export type Delimiter = ',' | '\t' | ';';
+export type DecimalSeparator = '.' | ',';
+export type CsvField = 'name' | 'quantity' | 'unitPrice' | 'lineTotal' | 'taxable';
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+export interface CsvRow {
+  /** 1-based record number in the input, header included */
+  line: number;
+  cells: string[];
+  item: LineItem | null;
+  errors: string[];
+}
+
+export const CSV_FIELDS: { field: CsvField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'unitPrice', label: 'Unit price' },
+  { field: 'lineTotal', label: 'Line total' },
+  { field: 'taxable', label: 'Taxable' },
+];
+
+// ============================================
+// Records
+// ============================================
+
+/**
+ * Split text into records and fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0].trim() !== '') records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[i++];
+      else quoted = false;
+    } else if (char === '"' && field.trim() === '') {
+      // Quotes only open a field at its start; spaces before them are dropped
+      field = '';
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * Spreadsheets run text starting with =, +, - or @ as a formula; such text
+ * is prefixed with an apostrophe. Numbers are left alone.
+ */
+export const spreadsheetSafe = (value: string | number) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+
+/**
+ * Write records as RFC 4180 CSV, quoting fields that need it. Lines end
+ * with CRLF.
+ */
+export function formatCsv(records: (string | number)[][]): string {
+  const field = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return records.map((record) => record.map(field).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * The delimiter that splits the sample into the most rows of the same,
+ * multi-column width. Commas win ties.
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const sample = text.slice(0, 10000);
+  let best: Delimiter = ',';
+  let bestScore = 0;
+
+  ([',', '\t', ';'] as Delimiter[]).forEach((delimiter) => {
+    const widths = parseCsv(sample, delimiter).slice(0, 20).map((record) => record.length);
+    const counts = new Map<number, number>();
+    widths.forEach((width) => counts.set(width, (counts.get(width) ?? 0) + 1));
+    const [width, rows] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [1, 0];
+    const score = width > 1 ? rows * 10 + width : 0;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  });
+  return best;
+}
+
+// ============================================
+// Values
+// ============================================
+
+/**
+ * Parse an amount such as "3.50", "€3,50", "1.234,56", "$-2.00" or
+ * "(2.00)". Returns null for blanks and NaN for anything else.
+ */
+export function parseAmount(text: string, decimal: DecimalSeparator | 'auto' = 'auto'): number | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const negative = /^\(.*\)$/.test(trimmed) || /[-−]/.test(trimmed);
+  // Currency symbols and codes, spaces and Swiss apostrophes
+  const digits = trimmed.replace(/[()\-−+\s'’]|[^\d.,]/g, '');
+  if (!/^\d[\d.,]*$/.test(digits) || /[^\d.,\s'’()\-−+$€£¥₹₩a-z]/i.test(trimmed)) return NaN;
+
+  let separator = decimal;
+  if (separator === 'auto') {
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+    if (lastDot !== -1 && lastComma !== -1) separator = lastDot > lastComma ? '.' : ',';
+    // "1,234" groups thousands, "3,50" is a decimal comma
+    else if (lastComma !== -1) separator = /^\d{1,3}(,\d{3})+$/.test(digits) ? '.' : ',';
+    else separator = '.';
+  }
+
+  const normalized =
+    separator === '.' ? digits.replace(/,/g, '') : digits.replace(/\./g, '').replace(',', '.');
+  if (!/^\d+(\.\d+)?$/.test(normalized)) return NaN;
+  return (negative ? -1 : 1) * Number(normalized);
+}
+
+/** Returns null for values that are neither yes nor no */
+export function parseFlag(text: string): boolean | null {
+  const value = text.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1', 'x', 't', '✓'].includes(value)) return true;
+  if (['false', 'no', 'n', '0', 'f', ''].includes(value)) return false;
+  return null;
+}
+
+// ============================================
+// Columns
+// ============================================
+
+const HEADER_PATTERNS: [CsvField, RegExp][] = [
+  ['taxable', /tax/i],
+  ['quantity', /qty|quantity|count|units?$/i],
+  ['lineTotal', /total|subtotal|amount|sum/i],
+  ['unitPrice', /price|each|rate|cost/i],
+  ['name', /name|item|description|product|article/i],
+];
+
+/**
+ * Map columns by header names, or by position (name, quantity, price,
+ * taxable) when the first row has no recognizable header.
+ */
+export function guessColumns(
+  records: string[][],
+  { priceField = 'unitPrice' }: { priceField?: 'unitPrice' | 'lineTotal' } = {}
+): { mapping: ColumnMapping; hasHeader: boolean } {
+  const header = records[0] ?? [];
+  const mapping: ColumnMapping = {};
+
+  header.forEach((cell, column) => {
+    if (!Number.isNaN(parseAmount(cell) ?? NaN)) return;
+    const match = HEADER_PATTERNS.find(([field, pattern]) => mapping[field] === undefined && pattern.test(cell));
+    if (match) mapping[match[0]] = column;
+  });
+
+  if (mapping.name !== undefined) return { mapping, hasHeader: true };
+
+  const width = Math.max(0, ...records.map((record) => record.length));
+  const positional: ColumnMapping = { name: 0 };
+  if (width > 1) positional.quantity = 1;
+  if (width > 2) positional[priceField] = 2;
+  if (width > 3) positional.taxable = 3;
+  return { mapping: positional, hasHeader: false };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Turn records into line items. Rows with errors have no item.
+ */
+export function mapRows(
+  records: string[][],
+  mapping: ColumnMapping,
+  { hasHeader = false, decimal = 'auto' }: { hasHeader?: boolean; decimal?: DecimalSeparator | 'auto' } = {}
+): CsvRow[] {
+  const cell = (cells: string[], field: CsvField) => {
+    const column = mapping[field];
+    return column === undefined ? '' : (cells[column] ?? '').trim();
+  };
+
+  return records.slice(hasHeader ? 1 : 0).map((cells, index) => {
+    const errors: string[] = [];
+    const number = (field: CsvField, label: string) => {
+      const value = parseAmount(cell(cells, field), decimal);
+      if (Number.isNaN(value)) errors.push(`${label} "${cell(cells, field)}" is not a number`);
+      return value === null || Number.isNaN(value) ? null : value;
+    };
+
+    const name = cell(cells, 'name');
+    if (!name) errors.push('Missing name');
+
+    const quantity = number('quantity', 'Quantity') ?? 1;
+    const unitPrice = number('unitPrice', 'Unit price');
+    const lineTotal = number('lineTotal', 'Line total');
+    if (unitPrice === null && lineTotal === null && errors.length === 0) errors.push('Missing price');
+
+    const taxable = parseFlag(cell(cells, 'taxable'));
+    if (taxable === null) errors.push(`Taxable "${cell(cells, 'taxable')}" should be yes or no`);
+
+    const subtotal = lineTotal ?? (unitPrice !== null ? round(unitPrice * quantity) : null);
+    return {
+      line: index + (hasHeader ? 2 : 1),
+      cells,
+      errors,
+      item:
+        errors.length > 0
+          ? null
+          : {
+              name_raw: name,
+              quantity,
+              unit_price: unitPrice ?? (subtotal !== null && quantity !== 0 ? round(subtotal / quantity) : subtotal),
+              line_subtotal: subtotal,
+              taxable: taxable ?? false,
+            },
+    };
+  });
+}
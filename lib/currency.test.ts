@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { createExchangeRate, formatMoney, getConversionRate, getReceiptCurrency, toBaseAmount } from './currency';
+import { mockReceipt } from '@/tests/fixtures/receipts';
+import type { Receipt } from '@/types';
+
+const eurReceipt: Receipt = {
+    ...mockReceipt,
+    currency: 'EUR',
+    exchange_rate: createExchangeRate('EUR', 'CAD', 1.475),
+};
+
+describe('lib/currency', () => {
+    it('should format amounts with the currency symbol', () => {
+        expect(formatMoney(12.5, 'USD', 'N/A', 'en-US')).toBe('$12.50');
+        expect(formatMoney(12.5, 'EUR', 'N/A', 'en-US')).toBe('€12.50');
+        expect(formatMoney(null)).toBe('N/A');
+    });
+
+    it('should format for Canada unless given a locale', () => {
+        expect(formatMoney(12.5)).toBe('$12.50');
+        expect(formatMoney(12.5, 'USD')).toBe('US$12.50');
+        expect(formatMoney(12.5, 'CAD', 'N/A', 'en-US')).toBe('CA$12.50');
+    });
+
+    it('should default receipts without a currency to CAD', () => {
+        expect(getReceiptCurrency(mockReceipt)).toBe('CAD');
+        expect(getReceiptCurrency(eurReceipt)).toBe('EUR');
+    });
+
+    it('should convert with the stored rate in either direction', () => {
+        expect(getConversionRate(eurReceipt, 'EUR')).toBe(1);
+        expect(toBaseAmount(eurReceipt, 12.5, 'CAD')).toBe(18.44);
+
+        const inverse = { ...eurReceipt, exchange_rate: createExchangeRate('CAD', 'EUR', 0.5) };
+        expect(getConversionRate(inverse, 'CAD')).toBe(2);
+    });
+
+    it('should return null when no rate is stored', () => {
+        expect(getConversionRate(eurReceipt, 'GBP')).toBeNull();
+        expect(toBaseAmount(eurReceipt, 10, 'GBP')).toBeNull();
+    });
+});
@@ -0,0 +1,99 @@
+import type { ExchangeRate, Group, Receipt } from '@/types';
+
+/**
+ * Currency helpers
+ *
+ * Every amount shown in the UI goes through `formatMoney` so receipts in
+ * different currencies render with the right symbol and precision.
+ * Conversion to a group's base currency uses the exchange rate stored on
+ * each receipt.
+ *
+ * @example
+ * ```ts
+ * formatMoney(12.5, 'EUR'); // "€12.50"
+ * toBaseAmount(receipt, 12.5, 'CAD'); // 18.44 with a stored EUR->CAD rate of 1.475
+ * ```
+ */
+
+/**
+ * Receipts and groups without a currency are Canadian dollars, like the
+ * default tax profile (Ontario HST). Amounts are formatted for Canada
+ * unless a caller passes a locale, so "$" means CAD and other dollars are
+ * marked (US$, A$) whatever the browser's language.
+ */
+export const DEFAULT_CURRENCY = 'CAD';
+export const DEFAULT_LOCALE = 'en-CA';
+
+export const SUPPORTED_CURRENCIES = [
+  'USD', 'CAD', 'EUR', 'GBP', 'CHF', 'SEK', 'NOK', 'DKK',
+  'JPY', 'AUD', 'NZD', 'MXN', 'INR', 'CNY', 'SGD', 'HKD',
+];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(currency: string, locale: string) {
+  const key = `${locale}:${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    } catch {
+      // Unknown currency code: fall back to plain two-decimal formatting
+      formatter = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Format an amount in the given currency. `null`/`undefined` render as
+ * `fallback` so callers don't have to guard every optional total.
+ */
+export function formatMoney(
+  amount: number | null | undefined,
+  currency: string = DEFAULT_CURRENCY,
+  fallback = 'N/A',
+  locale: string = DEFAULT_LOCALE
+): string {
+  if (amount == null || !Number.isFinite(amount)) return fallback;
+  return getFormatter(currency.toUpperCase(), locale).format(amount);
+}
+
+export function getReceiptCurrency(receipt: Pick<Receipt, 'currency' | 'charges_analysis'>): string {
+  return receipt.currency || receipt.charges_analysis?.currency || DEFAULT_CURRENCY;
+}
+
+export function getGroupCurrency(group?: Pick<Group, 'base_currency'> | null): string {
+  return group?.base_currency || DEFAULT_CURRENCY;
+}
+
+/**
+ * Rate that converts one unit of the receipt's currency into `baseCurrency`,
+ * or `null` when the receipt is in another currency and no rate is stored.
+ */
+export function getConversionRate(receipt: Receipt, baseCurrency: string): number | null {
+  const currency = getReceiptCurrency(receipt);
+  if (currency === baseCurrency) return 1;
+
+  const stored = receipt.exchange_rate;
+  if (!stored || stored.rate <= 0) return null;
+  if (stored.base === currency && stored.quote === baseCurrency) return stored.rate;
+  if (stored.base === baseCurrency && stored.quote === currency) return 1 / stored.rate;
+  return null;
+}
+
+export function toBaseAmount(receipt: Receipt, amount: number, baseCurrency: string): number | null {
+  const rate = getConversionRate(receipt, baseCurrency);
+  if (rate == null) return null;
+  return Math.round(amount * rate * 100) / 100;
+}
+
+export function createExchangeRate(
+  base: string,
+  quote: string,
+  rate: number,
+  source: ExchangeRate['source'] = 'manual'
+): ExchangeRate {
+  return { base, quote, rate, source, as_of: new Date().toISOString() };
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RULES } from './classification';
+import { EReceiptError, extractEReceipt, findAmounts, htmlToLines, parseEmail } from './e-receipt';
+
+const uberEatsEmail = [
+    'From: Uber Receipts <noreply@uber.com>',
+    'Subject: =?UTF-8?Q?Your_Uber_Eats_order_from_Chipotle?=',
+    'MIME-Version: 1.0',
+    'Content-Type: multipart/alternative; boundary="b1"',
+    '',
+    '--b1',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'Plain text version',
+    '--b1',
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    '<html><body><table>',
+    '<tr><td>Total</td><td>$30.89</td></tr>',
+    '<tr><td>2</td><td>Chicken Burrito</td><td>$21.90</td></tr>',
+    '<tr><td colspan=3D"3">Extra guacamole</td></tr>',
+    '<tr><td>1</td><td>Chips &amp; Salsa</td><td>$3.95</td></tr>',
+    '<tr><td>Subtotal</td><td>$25.85</td></tr>',
+    '<tr><td>Delivery Fee</td><td>$0.49</td></tr>',
+    '<tr><td>Service Fee</td><td>$2.99</td></tr>',
+    '<tr><td>Promotion</td><td>-$3.00</td></tr>',
+    '<tr><td>Taxes</td><td>$2.06</td></tr>',
+    '<tr><td>Tip</td><td>$2.50</td></tr>',
+    '<tr><td>Total</td><td>$30.89</td></tr>',
+    '</table></body></html>',
+    '--b1--',
+].join('\r\n');
+
+const instacartHtml = `
+    <html><body>
+    <h1>Your Instacart order from Costco</h1>
+    <div>Organic Bananas</div><div>3 × $0.69</div><div>$2.07</div>
+    <div>Kirkland Olive Oil</div><div>Qty: 1</div><div>$19.99</div>
+    <div>Replaced: Sparkling Water</div>
+    <p>Items Subtotal $22.06</p>
+    <p>Service fee $2.00</p>
+    <p>Instacart+ member savings -$1.50</p>
+    <p>Total $22.56</p>
+    </body></html>`;
+
+function emlFile(text: string, name = 'receipt.eml') {
+    return new File([text], name, { type: 'message/rfc822' });
+}
+
+describe('lib/e-receipt', () => {
+    it('should decode multipart emails with quoted-printable HTML and encoded subjects', () => {
+        const email = parseEmail(uberEatsEmail);
+
+        expect(email.subject).toBe('Your Uber Eats order from Chipotle');
+        expect(email.text).toBe('Plain text version\n');
+        expect(email.html).toContain('<td colspan="3">Extra guacamole</td>');
+    });
+
+    it('should flatten HTML into one line per row', () => {
+        expect(htmlToLines('<table><tr><td>1</td><td>Tacos</td><td>$8.00</td></tr></table><p>Thanks<br>Bye</p>'))
+            .toEqual(['1 Tacos $8.00', 'Thanks', 'Bye']);
+    });
+
+    it('should read signed amounts and currency symbols', () => {
+        expect(findAmounts('Promotion -$3.00')).toMatchObject([{ value: -3 }]);
+        expect(findAmounts('Burrito – CA$1,299.50')).toMatchObject([{ value: 1299.5, symbol: 'CA$' }]);
+    });
+
+    it('should extract an Uber Eats order', async () => {
+        const receipt = await extractEReceipt(emlFile(uberEatsEmail));
+
+        expect(receipt.vendor).toBe('Uber Eats');
+        expect(receipt.items_analysis).toEqual({
+            merchant_name: 'Chipotle',
+            line_items: [
+                { name_raw: 'Chicken Burrito', quantity: 2, unit_price: 10.95, line_subtotal: 21.9, taxable: true },
+                { name_raw: 'Chips & Salsa', quantity: 1, unit_price: 3.95, line_subtotal: 3.95, taxable: true },
+            ],
+        });
+        expect(receipt.charges_analysis).toEqual({
+            subtotal_items: 25.85,
+            fees: [
+                { type: 'Delivery Fee', amount: 0.49, taxable: false },
+                { type: 'Service Fee', amount: 2.99, taxable: false },
+                { type: 'Tip', amount: 2.5, taxable: false },
+            ],
+            discounts: [{ description: 'Promotion', amount: 3 }],
+            total_tax_reported: 2.06,
+            grand_total: 30.89,
+            currency: null,
+            tax_profile_id: null,
+            tax_inclusive: false,
+        });
+    });
+
+    it('should extract Instacart items listed over several lines', async () => {
+        const receipt = await extractEReceipt(new File([instacartHtml], 'instacart.html', { type: 'text/html' }));
+
+        expect(receipt.items_analysis.line_items).toEqual([
+            { name_raw: 'Organic Bananas', quantity: 3, unit_price: 0.69, line_subtotal: 2.07, taxable: false },
+            { name_raw: 'Kirkland Olive Oil', quantity: 1, unit_price: 19.99, line_subtotal: 19.99, taxable: false },
+        ]);
+        expect(receipt.items_analysis.merchant_name).toBe('Costco');
+        expect(receipt.charges_analysis).toMatchObject({
+            subtotal_items: 22.06,
+            discounts: [{ description: 'Instacart+ member savings', amount: 1.5 }],
+            grand_total: 22.56,
+        });
+    });
+
+    it('should sort fees from items by whole words and the account rules', async () => {
+        const html = `
+            <html><body>
+            <h1>Your Instacart order from Metro</h1>
+            <p>Bag of chips $3.49</p>
+            <p>Coffee beans $12.00</p>
+            <p>Bottle deposit $0.40</p>
+            <p>Checkout bag fee $0.10</p>
+            <p>Total $16.39</p>
+            </body></html>`;
+        const rules = [...DEFAULT_RULES, { id: 'r1', match: 'word' as const, pattern: 'deposit', kind: 'fee' as const }];
+
+        const receipt = await extractEReceipt(new File([html], 'instacart.html', { type: 'text/html' }), { rules });
+
+        expect(receipt.items_analysis.line_items.map((item) => item.name_raw)).toEqual(['Bag of chips', 'Coffee beans']);
+        expect(receipt.charges_analysis.fees.map((fee) => fee.type)).toEqual(['Bottle deposit', 'Checkout bag fee']);
+    });
+
+    it('should extract Amazon items after the order summary from a base64 body', async () => {
+        const html = [
+            '<p>Hello Alex, thanks for your order</p>',
+            '<p>Arriving Friday $0.00</p>',
+            '<h2>Order Summary</h2>',
+            '<div>USB-C Cable, 2 Pack</div><div>Quantity: 2</div><div>$25.98</div>',
+            '<div>Sold by: Anker</div>',
+            '<p>Item(s) Subtotal: $25.98</p>',
+            '<p>Shipping &amp; Handling: $0.00</p>',
+            '<p>Total before tax: $25.98</p>',
+            '<p>Estimated tax to be collected: $3.38</p>',
+            '<p>Grand Total: $29.36</p>',
+        ].join('');
+        const raw = [
+            'From: "Amazon.ca" <auto-confirm@amazon.ca>',
+            'Subject: Your Amazon.ca order #702-1234567',
+            'Content-Type: text/html; charset=utf-8',
+            'Content-Transfer-Encoding: base64',
+            '',
+            btoa(html).replace(/(.{76})/g, '$1\n'),
+        ].join('\n');
+
+        const receipt = await extractEReceipt(emlFile(raw));
+
+        expect(receipt.vendor).toBe('Amazon');
+        expect(receipt.items_analysis.merchant_name).toBe('Amazon');
+        expect(receipt.items_analysis.line_items).toEqual([
+            { name_raw: 'USB-C Cable, 2 Pack', quantity: 2, unit_price: 12.99, line_subtotal: 25.98, taxable: true },
+        ]);
+        expect(receipt.charges_analysis).toMatchObject({ fees: [], total_tax_reported: 3.38, grand_total: 29.36 });
+    });
+
+    it('should reject files without items', async () => {
+        await expect(extractEReceipt(new File(['<p>Hello</p>'], 'note.html', { type: 'text/html' })))
+            .rejects.toBeInstanceOf(EReceiptError);
+    });
+});
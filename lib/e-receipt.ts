@@ -0,0 +1,472 @@
+/**
+ * E-receipt import
+ *
+ * Order confirmations from Instacart, Uber Eats and Amazon arrive as emails
+ * (saved as `.eml`) or HTML pages. They already contain the items and
+ * charges as text, so they are parsed in the browser instead of going
+ * through OCR: the email is decoded, its HTML flattened into lines, and a
+ * vendor extractor picks out item lines, fees, discounts, tax and totals.
+ * Fees and discounts are told apart from items by the same classification
+ * rules as scanned receipts, including the account's own. The result has the same `ItemsAnalysis`/`ChargesAnalysis` shape as a
+ * CSV import.
+ *
+ * @example
+ * ```ts
+ * if (isEReceipt(file)) {
+ *   const receipt = await extractEReceipt(file, { rules: savedRules });
+ *   receipt.vendor; // 'Uber Eats'
+ *   receipt.items_analysis.line_items;
+ * }
+ * ```
+ */
+
+import type { ChargesAnalysis, ClassificationRule, Discount, Fee, ItemsAnalysis, LineItem } from '@/types';
+import { classifyLine, DEFAULT_RULES } from '@/lib/classification';
+
+export interface EReceipt {
+  vendor: string;
+  items_analysis: ItemsAnalysis;
+  charges_analysis: ChargesAnalysis;
+}
+
+export class EReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EReceiptError';
+  }
+}
+
+export function isEReceipt(file: File): boolean {
+  return (
+    ['message/rfc822', 'text/html'].includes(file.type) || /\.(eml|html?)$/i.test(file.name)
+  );
+}
+
+// ============================================
+// Email decoding
+// ============================================
+
+export interface ParsedEmail {
+  subject: string;
+  from: string;
+  html: string | null;
+  text: string | null;
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace
+  block.replace(/\n[ \t]+/g, ' ').split('\n').forEach((line) => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers[name] ??= line.slice(colon + 1).trim();
+  });
+  return headers;
+}
+
+const headerParam = (header: string | undefined, name: string) =>
+  header?.match(new RegExp(`${name}="?([^";]+)"?`, 'i'))?.[1] ?? null;
+
+function decodeBytes(bytes: Uint8Array, charset: string | null): string {
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function quotedPrintableBytes(text: string): Uint8Array {
+  const soft = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < soft.length; i++) {
+    if (soft[i] === '=' && /^[0-9A-F]{2}$/i.test(soft.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(soft.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(soft.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function base64Bytes(text: string): Uint8Array {
+  return Uint8Array.from(atob(text.replace(/\s/g, '')), (char) => char.charCodeAt(0));
+}
+
+function decodeBody(body: string, encoding: string | undefined, charset: string | null): string {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return decodeBytes(base64Bytes(body), charset);
+    case 'quoted-printable':
+      return decodeBytes(quotedPrintableBytes(body), charset);
+    default:
+      return body;
+  }
+}
+
+/** Encoded words such as =?UTF-8?Q?Your_order?= in subjects */
+function decodeHeaderWords(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=\s*/gi, (_, charset: string, kind: string, text: string) =>
+    kind.toUpperCase() === 'B'
+      ? decodeBytes(base64Bytes(text), charset)
+      : decodeBytes(quotedPrintableBytes(text.replace(/_/g, ' ')), charset)
+  );
+}
+
+function collectBodies(raw: string, found: { html: string | null; text: string | null }) {
+  const split = raw.search(/\n\n/);
+  const headers = parseHeaders(split === -1 ? raw : raw.slice(0, split));
+  const body = split === -1 ? '' : raw.slice(split + 2);
+  const type = headers['content-type']?.split(';')[0].trim().toLowerCase() ?? 'text/plain';
+
+  if (type.startsWith('multipart/')) {
+    const boundary = headerParam(headers['content-type'], 'boundary');
+    if (!boundary) return;
+    body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((part) => !part.startsWith('--'))
+      .forEach((part) => collectBodies(part.replace(/^\n/, ''), found));
+    return;
+  }
+
+  const decoded = () =>
+    decodeBody(body, headers['content-transfer-encoding'], headerParam(headers['content-type'], 'charset'));
+  if (type === 'text/html') found.html ??= decoded();
+  else if (type === 'text/plain') found.text ??= decoded();
+}
+
+export function parseEmail(raw: string): ParsedEmail {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const split = normalized.search(/\n\n/);
+  const headers = parseHeaders(split === -1 ? normalized : normalized.slice(0, split));
+  const found = { html: null as string | null, text: null as string | null };
+  collectBodies(normalized, found);
+
+  return {
+    subject: decodeHeaderWords(headers.subject ?? ''),
+    from: decodeHeaderWords(headers.from ?? ''),
+    ...found,
+  };
+}
+
+// ============================================
+// HTML to lines
+// ============================================
+
+const BLOCK_ELEMENTS = new Set([
+  'ADDRESS', 'ARTICLE', 'BR', 'CAPTION', 'DIV', 'FOOTER', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'HEADER', 'HR', 'LI', 'OL', 'P', 'SECTION', 'TABLE', 'TBODY', 'TR', 'UL',
+]);
+
+/**
+ * Visible text of an HTML document, one line per block or table row.
+ * Table cells on the same row stay on one line.
+ */
+export function htmlToLines(html: string): string[] {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  document.querySelectorAll('head, script, style, noscript').forEach((element) => element.remove());
+
+  const lines: string[] = [];
+  let current = '';
+  const flush = () => {
+    const line = current.replace(/\s+/g, ' ').trim();
+    if (line) lines.push(line);
+    current = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const block = BLOCK_ELEMENTS.has((node as Element).tagName);
+    if (block) flush();
+    node.childNodes.forEach(walk);
+    if (block) flush();
+    else if (['TD', 'TH'].includes((node as Element).tagName)) current += ' ';
+  };
+
+  walk(document.body);
+  flush();
+  return lines;
+}
+
+// ============================================
+// Line parsing
+// ============================================
+
+/** A minus sign only counts when it touches the amount: "Burrito – $9.50" is not negative */
+const AMOUNT_PATTERN = /([-−])?(CA\$|A\$|US\$|\$|€|£)?\s*(\d{1,3}(?:,\d{3})+\.\d{2}|\d+\.\d{2})(?![\d.])/g;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  CA$: 'CAD',
+  A$: 'AUD',
+  US$: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+};
+
+interface Amount {
+  value: number;
+  symbol: string | null;
+  index: number;
+}
+
+export function findAmounts(line: string): Amount[] {
+  return Array.from(line.matchAll(AMOUNT_PATTERN), (match) => ({
+    value: (match[1] ? -1 : 1) * Number(match[3].replace(/,/g, '')),
+    symbol: match[2] ?? null,
+    index: match.index ?? 0,
+  }));
+}
+
+type ChargeKind = 'subtotal' | 'fee' | 'tax' | 'discount' | 'total' | 'ignore';
+
+/**
+ * Checked in order; the first label that matches wins. Labels matching none
+ * are fees, discounts or items according to the classification rules.
+ */
+const COMMON_CHARGES: [RegExp, ChargeKind][] = [
+  [/total savings|you saved|total before tax|amount paid|charged to/i, 'ignore'],
+  [/^(items?\s*|item\(s\)\s*)?sub-?total/i, 'subtotal'],
+  [/^(estimated\s+)?(sales\s+)?tax(es)?\b|^(hst|gst|pst|qst|vat)\b/i, 'tax'],
+  [/^(grand\s+|order\s+)?total\b/i, 'total'],
+];
+
+/** Lines in item lists that are not items */
+const COMMON_SKIP = /^(order\s*(#|number|id)|placed on|delivered|deliver(ing)? to|ship(ped)? to|arriving|payment|visa|mastercard|amex|sold by|condition|replaced|refunded|weight)/i;
+
+interface VendorExtractor {
+  name: string;
+  matches: (email: ParsedEmail) => boolean;
+  /** Store or restaurant; defaults to the "from ..." part of the subject */
+  merchant?: (email: ParsedEmail) => string | undefined;
+  /** Item lists start after the first line matching this */
+  start?: RegExp;
+  charges?: [RegExp, ChargeKind][];
+  skip?: RegExp;
+}
+
+export const VENDORS: VendorExtractor[] = [
+  {
+    name: 'Instacart',
+    matches: (email) => /instacart/i.test(`${email.from} ${email.subject}`),
+    charges: [[/instacart\+?\s+member/i, 'discount']],
+    skip: /^(found|out of stock|substitut)/i,
+  },
+  {
+    name: 'Uber Eats',
+    matches: (email) => /uber\s*eats|ubereats/i.test(`${email.from} ${email.subject}`),
+    charges: [[/uber one/i, 'discount']],
+  },
+  {
+    name: 'Amazon',
+    matches: (email) => /amazon\./i.test(email.from) || /^your amazon/i.test(email.subject),
+    merchant: () => 'Amazon',
+    start: /^(order (summary|details)|items? ordered)/i,
+    charges: [[/^estimated tax/i, 'tax']],
+    skip: /^(gift|return|ships from)/i,
+  },
+];
+
+const GENERIC_VENDOR: VendorExtractor = {
+  name: 'E-receipt',
+  matches: () => true,
+};
+
+export interface ExtractOptions {
+  /** The account's classification rules; defaults to `DEFAULT_RULES` */
+  rules?: ClassificationRule[];
+  merchant?: string | null;
+}
+
+function classifyCharge(label: string, amount: number, vendor: VendorExtractor, options: ExtractOptions): ChargeKind | null {
+  const patterns = [...(vendor.charges ?? []), ...COMMON_CHARGES];
+  const common = patterns.find(([pattern]) => pattern.test(label))?.[1];
+  if (common) return common;
+  const { kind } = classifyLine(label, amount, { rules: options.rules ?? DEFAULT_RULES, merchant: options.merchant });
+  return kind === 'item' ? null : kind;
+}
+
+interface ItemLine {
+  name: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  total: number | null;
+}
+
+function parseItemLine(line: string): ItemLine {
+  let rest = line;
+  let quantity: number | null = null;
+  let unitPrice: number | null = null;
+
+  // "2 × $0.69" or "2 @ 0.69": quantity and unit price
+  const each = rest.match(/(\d+(?:\.\d+)?)\s*(?:[x×@]|ea\.?\s*@?)\s*((?:CA\$|A\$|US\$|\$|€|£)?\s*\d[\d,]*\.\d{2})/i);
+  if (each) {
+    quantity = Number(each[1]);
+    unitPrice = findAmounts(each[2])[0]?.value ?? null;
+    rest = rest.replace(each[0], ' ');
+  }
+
+  // "Qty: 2", or a leading "2x" / "2 " before the name
+  const labelled = rest.match(/\b(?:qty|quantity)\s*:?\s*(\d+)/i);
+  const leading = rest.match(/^(\d+)\s*[x×]?\s+(?=\D)/);
+  if (labelled) {
+    quantity = Number(labelled[1]);
+    rest = rest.replace(labelled[0], ' ');
+  } else if (leading && quantity === null) {
+    quantity = Number(leading[1]);
+    rest = rest.slice(leading[0].length);
+  }
+
+  const amounts = findAmounts(rest);
+  const total = amounts.length > 0 ? amounts[amounts.length - 1].value : null;
+  const name = rest
+    .replace(AMOUNT_PATTERN, ' ')
+    .replace(/[\s:|•·-]+$/, '')
+    .replace(/^[\s:|•·-]+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { name: /[a-z]/i.test(name) ? name : '', quantity, unitPrice, total };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function extractFromLines(
+  lines: string[],
+  vendor: VendorExtractor,
+  options: ExtractOptions = {}
+): Omit<EReceipt, 'vendor'> {
+  const items: LineItem[] = [];
+  const fees: Fee[] = [];
+  const discounts: Discount[] = [];
+  let subtotal: number | null = null;
+  let total: number | null = null;
+  let tax: number | null = null;
+  let currency: string | null = null;
+  let inItems = !vendor.start;
+  let pending: { name: string; quantity: number | null; unitPrice: number | null } | null = null;
+
+  const addItem = (name: string, quantity: number | null, unitPrice: number | null, lineTotal: number | null) => {
+    const qty = quantity ?? 1;
+    const subtotalForLine = lineTotal ?? (unitPrice != null ? unitPrice * qty : null);
+    if (subtotalForLine == null) return;
+    items.push({
+      name_raw: name,
+      quantity: qty,
+      unit_price: unitPrice ?? (qty ? round(subtotalForLine / qty) : subtotalForLine),
+      line_subtotal: round(subtotalForLine),
+      taxable: false,
+    });
+  };
+
+  const flushPending = () => {
+    if (pending?.unitPrice != null) addItem(pending.name, pending.quantity, pending.unitPrice, null);
+    pending = null;
+  };
+
+  for (const line of lines) {
+    if (!inItems) {
+      inItems = !!vendor.start?.test(line);
+      continue;
+    }
+
+    const amounts = findAmounts(line);
+    currency ??= amounts.map((amount) => CURRENCY_SYMBOLS[amount.symbol ?? '']).find(Boolean) ?? null;
+
+    if (amounts.length > 0) {
+      const label = line.slice(0, amounts[0].index).replace(/[:\s]+$/, '').trim();
+      const kind = label ? classifyCharge(label, amounts[amounts.length - 1].value, vendor, options) : null;
+      if (kind) {
+        flushPending();
+        const value = amounts[amounts.length - 1].value;
+        if (kind === 'subtotal') subtotal = value;
+        else if (kind === 'total') total = value;
+        else if (kind === 'tax') tax = round((tax ?? 0) + value);
+        else if (kind === 'discount' && value !== 0) discounts.push({ description: label, amount: Math.abs(value) });
+        else if (kind === 'fee' && value !== 0) fees.push({ type: label, amount: value, taxable: false });
+        continue;
+      }
+    }
+
+    // Everything after the subtotal is charges
+    if (subtotal !== null || COMMON_SKIP.test(line) || vendor.skip?.test(line)) continue;
+
+    const parsed = parseItemLine(line);
+    if (parsed.name && parsed.total !== null) {
+      flushPending();
+      addItem(parsed.name, parsed.quantity, parsed.unitPrice, parsed.total);
+    } else if (parsed.name) {
+      // A name on its own line; quantity and price follow
+      flushPending();
+      pending = { name: parsed.name, quantity: parsed.quantity, unitPrice: parsed.unitPrice };
+    } else if (pending) {
+      pending.quantity = parsed.quantity ?? pending.quantity;
+      pending.unitPrice = parsed.unitPrice ?? pending.unitPrice;
+      if (parsed.total !== null) {
+        addItem(pending.name, pending.quantity, pending.unitPrice, parsed.total);
+        pending = null;
+      }
+    }
+  }
+  flushPending();
+
+  const itemsSubtotal = round(items.reduce((sum, item) => sum + (item.line_subtotal ?? 0), 0));
+  const feesTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+  const discountsTotal = discounts.reduce((sum, discount) => sum + discount.amount, 0);
+
+  return {
+    items_analysis: {
+      // Vendors report tax for the whole order; share it over every item
+      line_items: tax ? items.map((item) => ({ ...item, taxable: true })) : items,
+    },
+    charges_analysis: {
+      subtotal_items: subtotal ?? itemsSubtotal,
+      fees,
+      discounts,
+      total_tax_reported: tax ?? 0,
+      grand_total: total ?? round(itemsSubtotal + feesTotal - discountsTotal + (tax ?? 0)),
+      currency,
+      tax_profile_id: null,
+      tax_inclusive: false,
+    },
+  };
+}
+
+function merchantFromSubject(subject: string): string | undefined {
+  return subject.match(/\b(?:from|with)\s+(.+?)(?:\s*[|·–-]\s.*)?$/i)?.[1].trim();
+}
+
+/**
+ * Parse an `.eml` or HTML e-receipt. Throws `EReceiptError` when no items
+ * could be found.
+ */
+export async function extractEReceipt(file: File, { rules }: Pick<ExtractOptions, 'rules'> = {}): Promise<EReceipt> {
+  const raw = await file.text();
+  const email = /\.eml$/i.test(file.name) || file.type === 'message/rfc822'
+    ? parseEmail(raw)
+    : { subject: raw.match(/<(?:title|h1)[^>]*>([^<]*)</i)?.[1].trim() ?? '', from: '', html: raw, text: null };
+
+  const vendor = VENDORS.find((candidate) => candidate.matches(email)) ?? GENERIC_VENDOR;
+  const lines = email.html ? htmlToLines(email.html) : (email.text ?? '').split('\n').map((line) => line.trim());
+  const merchant = vendor.merchant?.(email) ?? merchantFromSubject(email.subject);
+  const extracted = extractFromLines(lines.filter(Boolean), vendor, { rules, merchant });
+
+  if (extracted.items_analysis.line_items.length === 0) {
+    throw new EReceiptError(`No items found in ${file.name}. Try uploading a screenshot instead.`);
+  }
+
+  return {
+    vendor: vendor.name,
+    ...extracted,
+    items_analysis: {
+      ...extracted.items_analysis,
+      merchant_name: merchant,
+    },
+  };
+}
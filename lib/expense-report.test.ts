@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import type { Group, Receipt } from '@/types';
+import { buildExpenseReport, reportToCsv, reportToJson, scopeGroups } from './expense-report';
+import { mockReceipt } from '../tests/fixtures/receipts';
+
+const member = (email: string) => ({ email, role: 'member' as const, joined_at: '' });
+
+const group = (id: string, folderId: string | null): Group => ({
+    id,
+    name: `Group ${id}`,
+    created_by: 'alice@test.com',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    members: [member('alice@test.com'), member('bob@test.com')],
+    folder_id: folderId,
+});
+
+const receipt = (id: string, createdAt: string, merchant: string, splitMap: Record<string, string[]>): Receipt => ({
+    ...mockReceipt,
+    _id: id,
+    created_at: createdAt,
+    items_analysis: { ...mockReceipt.items_analysis!, merchant_name: merchant },
+    charges_analysis: {
+        subtotal_items: 38.5,
+        fees: [{ type: 'Service', amount: 5, taxable: false }],
+        discounts: [{ description: 'Coupon', amount: 2 }],
+        total_tax_reported: 3.85,
+        grand_total: 45.36,
+    },
+    split_details: splitMap,
+});
+
+const trips = group('g1', 'f1');
+const office = group('g2', null);
+const entries = [
+    { group: trips, receipt: receipt('r1', '2026-01-15T12:00:00Z', 'Costco', { '0': ['alice@test.com', 'bob@test.com'], '1': ['bob@test.com'] }) },
+    { group: trips, receipt: receipt('r2', '2026-02-03T12:00:00Z', '=HYPERLINK("x")', { '0': ['alice@test.com'] }) },
+    { group: office, receipt: receipt('r3', '2026-03-20T12:00:00Z', 'Costco', {}) },
+];
+
+const cents = (value: number) => Math.round(value * 100);
+
+describe('lib/expense-report', () => {
+    it('should pick groups by folder or group', () => {
+        expect(scopeGroups([trips, office], { kind: 'folder', folderId: 'f1' })).toEqual([trips]);
+        expect(scopeGroups([trips, office], { kind: 'folder', folderId: null })).toEqual([office]);
+        expect(scopeGroups([trips, office], { kind: 'group', groupId: 'g2' })).toEqual([office]);
+    });
+
+    it('should allocate every receipt down to its grand total, unassigned part included', () => {
+        const report = buildExpenseReport(entries, { groupBy: 'member' });
+
+        report.receipts.forEach((summary) => {
+            const rowCents = report.rows
+                .filter((row) => row.receiptId === summary.id)
+                .reduce((sum, row) => sum + cents(row.amount), 0);
+            expect(rowCents).toBe(cents(45.36));
+            expect(summary.allocated).toBe(summary.grandTotal);
+        });
+        expect(report.totals.map((total) => total.key)).toEqual(['alice@test.com', 'bob@test.com', 'Unassigned']);
+        expect(report.totals.reduce((sum, total) => sum + cents(total.amount), 0)).toBe(3 * cents(45.36));
+        expect(report.grandTotals).toEqual([{ key: 'All receipts', currency: 'CAD', receipts: 3, amount: 136.08 }]);
+    });
+
+    it('should filter by date range and group by month or merchant', () => {
+        const byMonth = buildExpenseReport(entries, { groupBy: 'month', from: '2026-02-01', to: '2026-03-31' });
+        expect(byMonth.totals.map((total) => [total.key, total.amount])).toEqual([
+            ['2026-02', 45.36],
+            ['2026-03', 45.36],
+        ]);
+
+        const byMerchant = buildExpenseReport(entries, { groupBy: 'merchant' });
+        expect(byMerchant.totals.find((total) => total.key === 'Costco')).toMatchObject({ receipts: 2, amount: 90.72 });
+    });
+
+    it('should write plain and spreadsheet CSV and a JSON archive', () => {
+        const report = buildExpenseReport(entries);
+        const plain = reportToCsv(report);
+        const excel = reportToCsv(report, { excel: true });
+
+        expect(plain.startsWith('Date,Group,Merchant,Receipt,Member,Type,Description,Quantity,Line total,Amount,Currency\r\n')).toBe(true);
+        expect(plain).toContain('"\'=HYPERLINK(""x"")"');
+        expect(plain).not.toContain('Totals by');
+        expect(excel.charCodeAt(0)).toBe(0xfeff);
+        expect(excel).toContain('"\'=HYPERLINK(""x"")"');
+        expect(excel).toContain('Totals by month');
+
+        const archive = JSON.parse(reportToJson(report, { scope: 'All receipts' }));
+        expect(archive.receipts).toHaveLength(3);
+        expect(archive.receipts[0].line_items).toHaveLength(3);
+        expect(archive.receipts[0].allocations.length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,359 @@
+import type { Folder, Group, Receipt } from '@/types';
+import { getReceiptCurrency } from '@/lib/currency';
+import { formatCsv, spreadsheetSafe } from '@/lib/csv-import';
+import { computeSplit, fromCents, receiptSplitLines, toCents } from '@/lib/split-engine';
+
+/**
+ * Expense Reports
+ *
+ * Flattens the receipts of a folder, a group or every group (optionally
+ * within a date range) into one row per member per line, for expense claims
+ * and accounting. Allocations come from the split engine and the part
+ * nobody was assigned is reported as "Unassigned", so each receipt's rows
+ * add up to its `grand_total` and every total in the report reconciles.
+ *
+ * @example
+ * ```ts
+ * const groups = scopeGroups(allGroups, { kind: 'folder', folderId });
+ * const entries = (
+ *   await Promise.all(groups.map(async (group) => (await fetchGroupReceipts(group.id)).map((receipt) => ({ group, receipt }))))
+ * ).flat();
+ * const report = buildExpenseReport(entries, { groupBy: 'month', from: '2026-01-01' });
+ * downloadFile(reportToCsv(report, { excel: true }), 'report.csv', 'text/csv');
+ * ```
+ */
+
+export type ReportScope =
+  | { kind: 'all' }
+  | { kind: 'folder'; folderId: string | null }
+  | { kind: 'group'; groupId: string };
+
+export type ReportGroupBy = 'merchant' | 'month' | 'member';
+
+export interface ReportOptions {
+  groupBy?: ReportGroupBy;
+  /** Inclusive ISO dates (YYYY-MM-DD) matched against the receipt date */
+  from?: string;
+  to?: string;
+}
+
+export type ReportRowType = 'item' | 'tax' | 'fees' | 'discounts' | 'rounding' | 'charges';
+
+export interface ReportRow {
+  date: string;
+  group: string;
+  merchant: string;
+  receiptId: string;
+  /** Empty for the unassigned part of a receipt */
+  member: string;
+  type: ReportRowType;
+  description: string;
+  quantity: number | null;
+  lineTotal: number | null;
+  amount: number;
+  currency: string;
+}
+
+export interface ReportReceipt {
+  id: string;
+  date: string;
+  group: string;
+  merchant: string;
+  currency: string;
+  grandTotal: number;
+  /** Sum of the receipt's rows; always equal to `grandTotal` */
+  allocated: number;
+  receipt: Receipt;
+}
+
+export interface ReportTotal {
+  key: string;
+  currency: string;
+  receipts: number;
+  amount: number;
+}
+
+export interface ExpenseReport {
+  groupBy: ReportGroupBy;
+  rows: ReportRow[];
+  receipts: ReportReceipt[];
+  /** Per `groupBy` key and currency */
+  totals: ReportTotal[];
+  /** Per currency, across all receipts */
+  grandTotals: ReportTotal[];
+}
+
+export const UNASSIGNED_MEMBER = 'Unassigned';
+
+export const REPORT_GROUP_BY: { value: ReportGroupBy; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'merchant', label: 'Merchant' },
+  { value: 'member', label: 'Member' },
+];
+
+// ============================================
+// Scope
+// ============================================
+
+export function scopeGroups(groups: Group[], scope: ReportScope): Group[] {
+  if (scope.kind === 'group') return groups.filter((group) => group.id === scope.groupId);
+  if (scope.kind === 'folder') return groups.filter((group) => (group.folder_id ?? null) === scope.folderId);
+  return groups;
+}
+
+export function describeScope(scope: ReportScope, groups: Group[], folders: Folder[]): string {
+  if (scope.kind === 'group') return groups.find((group) => group.id === scope.groupId)?.name ?? 'Group';
+  if (scope.kind === 'folder') {
+    return scope.folderId ? (folders.find((folder) => folder.id === scope.folderId)?.name ?? 'Folder') : 'Uncategorized';
+  }
+  return 'All receipts';
+}
+
+const receiptDate = (receipt: Receipt) => receipt.created_at.slice(0, 10);
+
+// ============================================
+// Rows
+// ============================================
+
+/**
+ * One receipt as report rows. Assigned shares come straight from
+ * `computeSplit`; what is left of each line goes to the unassigned member,
+ * and the unassigned share of tax, fees and discounts becomes one
+ * "charges" row.
+ */
+function receiptRows(group: Group, receipt: Receipt): { rows: ReportRow[]; grandTotal: number } {
+  const lines = receiptSplitLines(receipt);
+  const summary = computeSplit({
+    lines,
+    charges: receipt.charges_analysis,
+    splitMap: receipt.split_details ?? {},
+    weights: receipt.split_weights,
+    members: group.members.map((member) => member.email),
+    spreadMode: receipt.split_spread_mode,
+  });
+
+  const base = {
+    date: receiptDate(receipt),
+    group: group.name,
+    merchant: receipt.items_analysis?.merchant_name || 'Unknown merchant',
+    receiptId: receipt._id,
+    currency: getReceiptCurrency(receipt),
+  };
+  const rows: ReportRow[] = [];
+  const charge = (member: string, type: ReportRowType, cents: number) => {
+    if (cents !== 0) {
+      rows.push({ ...base, member, type, description: '', quantity: null, lineTotal: null, amount: fromCents(cents) });
+    }
+  };
+
+  const assignedCents = new Map<number, number>();
+  Object.values(summary.members).forEach((member) => {
+    member.lines.forEach((share) => {
+      const line = lines.find((candidate) => candidate.index === share.index);
+      assignedCents.set(share.index, (assignedCents.get(share.index) ?? 0) + toCents(share.amount));
+      rows.push({
+        ...base,
+        member: member.email,
+        type: 'item',
+        description: share.name,
+        quantity: share.units ?? line?.quantity ?? null,
+        lineTotal: line?.amount ?? null,
+        amount: share.amount,
+      });
+    });
+    charge(member.email, 'tax', toCents(member.tax));
+    charge(member.email, 'fees', toCents(member.fees));
+    charge(member.email, 'discounts', -toCents(member.discounts));
+    charge(member.email, 'rounding', toCents(member.adjustment));
+  });
+
+  let unassignedItemCents = 0;
+  lines.forEach((line) => {
+    const cents = toCents(line.amount) - (assignedCents.get(line.index) ?? 0);
+    if (cents === 0) return;
+    unassignedItemCents += cents;
+    rows.push({
+      ...base,
+      member: '',
+      type: 'item',
+      description: line.name,
+      quantity: line.quantity ?? null,
+      lineTotal: line.amount,
+      amount: fromCents(cents),
+    });
+  });
+  charge('', 'charges', toCents(summary.unassigned) - unassignedItemCents);
+
+  return { rows, grandTotal: summary.grandTotal };
+}
+
+const keyOf = (row: ReportRow, groupBy: ReportGroupBy) => {
+  if (groupBy === 'merchant') return row.merchant;
+  if (groupBy === 'month') return row.date.slice(0, 7);
+  return row.member || UNASSIGNED_MEMBER;
+};
+
+/**
+ * Sum rows per key and currency. `receipts` counts the receipts that
+ * contributed to each total.
+ */
+function sumRows(rows: ReportRow[], key: (row: ReportRow) => string): ReportTotal[] {
+  const totals = new Map<string, { total: ReportTotal; cents: number; receipts: Set<string> }>();
+  rows.forEach((row) => {
+    const id = `${key(row)}\u0000${row.currency}`;
+    let entry = totals.get(id);
+    if (!entry) {
+      entry = { total: { key: key(row), currency: row.currency, receipts: 0, amount: 0 }, cents: 0, receipts: new Set() };
+      totals.set(id, entry);
+    }
+    entry.cents += toCents(row.amount);
+    entry.receipts.add(row.receiptId);
+  });
+  return Array.from(totals.values(), ({ total, cents, receipts }) => ({
+    ...total,
+    receipts: receipts.size,
+    amount: fromCents(cents),
+  })).sort((a, b) => a.key.localeCompare(b.key) || a.currency.localeCompare(b.currency));
+}
+
+export function buildExpenseReport(
+  entries: { group: Group; receipt: Receipt }[],
+  { groupBy = 'month', from, to }: ReportOptions = {}
+): ExpenseReport {
+  const receipts: ReportReceipt[] = [];
+  const rows: ReportRow[] = [];
+
+  entries
+    .filter(({ receipt }) => (!from || receiptDate(receipt) >= from) && (!to || receiptDate(receipt) <= to))
+    .sort((a, b) => a.receipt.created_at.localeCompare(b.receipt.created_at))
+    .forEach(({ group, receipt }) => {
+      const { rows: own, grandTotal } = receiptRows(group, receipt);
+      rows.push(...own);
+      receipts.push({
+        id: receipt._id,
+        date: receiptDate(receipt),
+        group: group.name,
+        merchant: receipt.items_analysis?.merchant_name || 'Unknown merchant',
+        currency: getReceiptCurrency(receipt),
+        grandTotal,
+        allocated: fromCents(own.reduce((sum, row) => sum + toCents(row.amount), 0)),
+        receipt,
+      });
+    });
+
+  // Stable sort: rows keep their receipt order within each key
+  const sorted = rows
+    .map((row, order) => ({ row, order, key: keyOf(row, groupBy) }))
+    .sort((a, b) => a.key.localeCompare(b.key) || a.order - b.order)
+    .map(({ row }) => row);
+
+  return {
+    groupBy,
+    rows: sorted,
+    receipts,
+    totals: sumRows(sorted, (row) => keyOf(row, groupBy)),
+    grandTotals: sumRows(sorted, () => 'All receipts'),
+  };
+}
+
+// ============================================
+// Output
+// ============================================
+
+const ROW_HEADER = [
+  'Date',
+  'Group',
+  'Merchant',
+  'Receipt',
+  'Member',
+  'Type',
+  'Description',
+  'Quantity',
+  'Line total',
+  'Amount',
+  'Currency',
+];
+
+const money = (value: number) => fromCents(toCents(value)).toFixed(2);
+
+const rowCells = (row: ReportRow) => [
+  row.date,
+  row.group,
+  row.merchant,
+  row.receiptId,
+  row.member || UNASSIGNED_MEMBER,
+  row.type,
+  row.description,
+  row.quantity ?? '',
+  row.lineTotal != null ? money(row.lineTotal) : '',
+  money(row.amount),
+  row.currency,
+];
+
+/**
+ * Plain CSV is the row table only, for importing into other tools. With
+ * `excel`, the file opens correctly in Excel and Numbers (UTF-8 byte order
+ * mark) and adds per-receipt and per-group totals below the rows. Text that
+ * a spreadsheet would run as a formula is escaped in both.
+ */
+export function reportToCsv(report: ExpenseReport, { excel = false }: { excel?: boolean } = {}): string {
+  const records: (string | number)[][] = [ROW_HEADER, ...report.rows.map(rowCells)];
+
+  if (excel) {
+    const label = REPORT_GROUP_BY.find((option) => option.value === report.groupBy)!.label;
+    records.push(
+      [],
+      ['Receipts'],
+      ['Date', 'Group', 'Merchant', 'Receipt', 'Currency', 'Grand total', 'Allocated'],
+      ...report.receipts.map((receipt) => [
+        receipt.date,
+        receipt.group,
+        receipt.merchant,
+        receipt.id,
+        receipt.currency,
+        money(receipt.grandTotal),
+        money(receipt.allocated),
+      ]),
+      [],
+      [`Totals by ${label.toLowerCase()}`],
+      [label, 'Currency', 'Receipts', 'Amount'],
+      ...[...report.totals, ...report.grandTotals].map((total) => [
+        total.key,
+        total.currency,
+        total.receipts,
+        money(total.amount),
+      ])
+    );
+  }
+
+  const csv = formatCsv(records.map((record) => record.map(spreadsheetSafe)));
+  return excel ? `\uFEFF${csv}` : csv;
+}
+
+/**
+ * Everything in the report plus each receipt as stored (line items,
+ * charges, splits and payments), for keeping or re-importing elsewhere.
+ */
+export function reportToJson(report: ExpenseReport, { scope }: { scope: string }): string {
+  return JSON.stringify(
+    {
+      generated_at: new Date().toISOString(),
+      scope,
+      group_by: report.groupBy,
+      receipts: report.receipts.map(({ receipt, ...summary }) => ({
+        ...summary,
+        line_items: receipt.items_analysis?.line_items ?? [],
+        charges_analysis: receipt.charges_analysis ?? null,
+        split_details: receipt.split_details ?? {},
+        split_weights: receipt.split_weights ?? {},
+        split_spread_mode: receipt.split_spread_mode ?? 'proportional',
+        payments: receipt.payments ?? [],
+        allocations: report.rows.filter((row) => row.receiptId === receipt._id),
+      })),
+      totals: report.totals,
+      grand_totals: report.grandTotals,
+    },
+    null,
+    2
+  );
+}
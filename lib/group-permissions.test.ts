@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { Group, GroupRole } from '@/types';
+import { getGroupPermissions, getMemberActions } from './group-permissions';
+
+const member = (email: string, role: GroupRole) => ({ email, role, joined_at: '' });
+
+const group: Group = {
+    id: 'g1',
+    name: 'Lisbon',
+    created_by: 'owner@test.com',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    members: [member('owner@test.com', 'admin'), member('admin@test.com', 'admin'), member('bob@test.com', 'member')],
+};
+
+const find = (email: string) => group.members.find((m) => m.email === email)!;
+
+describe('lib/group-permissions', () => {
+    it('should let admins edit and only the owner transfer ownership', () => {
+        expect(getGroupPermissions(group, 'Owner@test.com')).toMatchObject({
+            role: 'admin',
+            isOwner: true,
+            canEdit: true,
+            canTransferOwnership: true,
+            canLeave: false,
+        });
+        expect(getGroupPermissions(group, 'admin@test.com')).toMatchObject({
+            canEdit: true,
+            canManageMembers: true,
+            canTransferOwnership: false,
+            canDelete: true,
+            canLeave: true,
+        });
+        expect(getGroupPermissions(group, 'bob@test.com')).toMatchObject({
+            canEdit: false,
+            canManageMembers: false,
+            canDelete: false,
+            canLeave: true,
+        });
+        expect(getGroupPermissions(group, 'stranger@test.com')).toMatchObject({ role: null, canEdit: false, canLeave: false });
+    });
+
+    it('should block the owner and sole members from leaving', () => {
+        expect(getGroupPermissions(group, 'owner@test.com').leaveBlockedReason).toContain('Transfer ownership');
+
+        const solo = { ...group, members: [member('owner@test.com', 'admin')] };
+        expect(getGroupPermissions(solo, 'owner@test.com').leaveBlockedReason).toContain('only member');
+    });
+
+    it('should protect the owner from demotion and removal', () => {
+        expect(getMemberActions(group, 'admin@test.com', find('owner@test.com'))).toEqual({
+            canPromote: false,
+            canDemote: false,
+            canRemove: false,
+            canMakeOwner: false,
+        });
+        expect(getMemberActions(group, 'admin@test.com', find('bob@test.com'))).toEqual({
+            canPromote: true,
+            canDemote: false,
+            canRemove: true,
+            canMakeOwner: false,
+        });
+        expect(getMemberActions(group, 'owner@test.com', find('admin@test.com'))).toEqual({
+            canPromote: false,
+            canDemote: true,
+            canRemove: true,
+            canMakeOwner: true,
+        });
+        expect(getMemberActions(group, 'bob@test.com', find('admin@test.com'))).toMatchObject({ canDemote: false, canRemove: false });
+    });
+});
@@ -0,0 +1,81 @@
+import type { Group, GroupMember, GroupRole } from '@/types';
+
+/**
+ * Group Permissions
+ *
+ * What the signed-in user may do in a group, derived from their
+ * `GroupRole` and whether they own the group (`created_by`). Admins edit
+ * the group and manage members; only the owner hands ownership over, and
+ * the owner cannot be demoted or removed. The backend enforces the same
+ * rules; these only decide which controls are enabled.
+ *
+ * @example
+ * ```ts
+ * const permissions = getGroupPermissions(group, user?.email);
+ * const actions = getMemberActions(group, user?.email, member);
+ * <Button disabled={!actions.canRemove}>Remove</Button>
+ * ```
+ */
+
+export interface GroupPermissions {
+  /** null when the user is not a member */
+  role: GroupRole | null;
+  isOwner: boolean;
+  /** Name, description, default folder, tax profile and currency */
+  canEdit: boolean;
+  /** Roles, removal and invitations */
+  canManageMembers: boolean;
+  canTransferOwnership: boolean;
+  canDelete: boolean;
+  canLeave: boolean;
+  /** Why `canLeave` is false for a member */
+  leaveBlockedReason: string | null;
+}
+
+export interface MemberActions {
+  canPromote: boolean;
+  canDemote: boolean;
+  canRemove: boolean;
+  canMakeOwner: boolean;
+}
+
+const sameEmail = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+export const isGroupOwner = (group: Group, email: string | null | undefined) => sameEmail(group.created_by, email);
+
+export function getGroupPermissions(group: Group, email: string | null | undefined): GroupPermissions {
+  const role = group.members.find((member) => sameEmail(member.email, email))?.role ?? null;
+  const isOwner = role !== null && isGroupOwner(group, email);
+  const isAdmin = role === 'admin';
+  const others = group.members.filter((member) => !sameEmail(member.email, email)).length;
+
+  let leaveBlockedReason: string | null = null;
+  if (isOwner && others > 0) leaveBlockedReason = 'Transfer ownership to another member before leaving.';
+  else if (role && others === 0) leaveBlockedReason = 'You are the only member. Delete the group instead.';
+
+  return {
+    role,
+    isOwner,
+    canEdit: isAdmin,
+    canManageMembers: isAdmin,
+    canTransferOwnership: isOwner && others > 0,
+    canDelete: isAdmin,
+    canLeave: role !== null && !leaveBlockedReason,
+    leaveBlockedReason,
+  };
+}
+
+/** What the user may do to one member; leaving is how you remove yourself */
+export function getMemberActions(group: Group, email: string | null | undefined, member: GroupMember): MemberActions {
+  const { canManageMembers, isOwner } = getGroupPermissions(group, email);
+  const targetIsOwner = isGroupOwner(group, member.email);
+  const isSelf = sameEmail(member.email, email);
+
+  return {
+    canPromote: canManageMembers && member.role === 'member',
+    canDemote: canManageMembers && member.role === 'admin' && !targetIsOwner,
+    canRemove: canManageMembers && !targetIsOwner && !isSelf,
+    canMakeOwner: isOwner && !isSelf,
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+    findDocumentBounds,
+    getOutputSize,
+    orientationTransform,
+    prepareForUpload,
+    readExifOrientation,
+    stretchContrast,
+    toGrayscale,
+} from './image-preprocess';
+
+/** Minimal JPEG: SOI, an APP1 Exif segment with one IFD entry, then SOS */
+function jpegWithOrientation(orientation: number, littleEndian = false) {
+    const bytes = new Uint8Array(36);
+    const view = new DataView(bytes.buffer);
+    view.setUint16(0, 0xffd8);
+    view.setUint16(2, 0xffe1);
+    view.setUint16(4, 30);
+    view.setUint32(6, 0x45786966);
+    const tiff = 12;
+    view.setUint16(tiff, littleEndian ? 0x4949 : 0x4d4d);
+    view.setUint16(tiff + 2, 42, littleEndian);
+    view.setUint32(tiff + 4, 8, littleEndian);
+    view.setUint16(tiff + 8, 1, littleEndian);
+    view.setUint16(tiff + 10, 0x0112, littleEndian);
+    view.setUint16(tiff + 12, 3, littleEndian);
+    view.setUint32(tiff + 14, 1, littleEndian);
+    view.setUint16(tiff + 18, orientation, littleEndian);
+    return bytes.buffer;
+}
+
+function solidImage(width: number, height: number, value: number) {
+    return new Uint8ClampedArray(width * height * 4).fill(value);
+}
+
+describe('lib/image-preprocess', () => {
+    it('should upload the original and say why when it cannot be decoded', async () => {
+        const original = new File(['not an image'], 'scan.png', { type: 'image/png' });
+
+        const upload = await prepareForUpload(original);
+
+        expect(upload.file).toBe(original);
+        expect(upload.error).toBeInstanceOf(Error);
+    });
+
+    it('should read the EXIF orientation in either byte order', () => {
+        expect(readExifOrientation(jpegWithOrientation(6))).toBe(6);
+        expect(readExifOrientation(jpegWithOrientation(8, true))).toBe(8);
+        expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+        expect(readExifOrientation(jpegWithOrientation(6).slice(0, 20))).toBe(1);
+    });
+
+    it('should downscale to the maximum size and swap sides for quarter turns', () => {
+        expect(getOutputSize(4000, 3000, 1, 2000)).toEqual({ drawWidth: 2000, drawHeight: 1500, width: 2000, height: 1500 });
+        expect(getOutputSize(4000, 3000, 6, 2000)).toEqual({ drawWidth: 2000, drawHeight: 1500, width: 1500, height: 2000 });
+        expect(getOutputSize(800, 600, 1, 2000)).toMatchObject({ width: 800, height: 600 });
+        expect(orientationTransform(6, 1500, 2000)).toEqual([0, 1, -1, 0, 1500, 0]);
+        expect(orientationTransform(1, 1500, 2000)).toEqual([1, 0, 0, 1, 0, 0]);
+    });
+
+    it('should convert to grayscale and stretch faded print to full contrast', () => {
+        const pixels = new Uint8ClampedArray([255, 0, 0, 255, 100, 100, 100, 255]);
+        toGrayscale(pixels);
+        expect(Array.from(pixels)).toEqual([76, 76, 76, 255, 100, 100, 100, 255]);
+
+        const faded = new Uint8ClampedArray(8 * 4);
+        faded.forEach((_, i) => {
+            faded[i] = i % 4 === 3 ? 255 : Math.floor(i / 16) ? 200 : 120;
+        });
+        stretchContrast(faded);
+        expect(faded[0]).toBe(0);
+        expect(faded[faded.length - 2]).toBe(255);
+
+        const flat = solidImage(4, 4, 128);
+        stretchContrast(flat);
+        expect(flat[0]).toBe(128);
+    });
+
+    it('should find the bright receipt on a dark background', () => {
+        const width = 100;
+        const height = 100;
+        const pixels = solidImage(width, height, 30);
+        for (let y = 10; y < 90; y++) {
+            for (let x = 30; x < 60; x++) pixels.fill(230, (y * width + x) * 4, (y * width + x) * 4 + 3);
+        }
+
+        expect(findDocumentBounds(pixels, width, height)).toEqual({ x: 28, y: 8, width: 34, height: 84 });
+        expect(findDocumentBounds(solidImage(width, height, 230), width, height)).toBeNull();
+    });
+});
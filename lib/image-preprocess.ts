@@ -0,0 +1,490 @@
+/**
+ * Receipt image preprocessing
+ *
+ * Runs before receipt photos are uploaded for OCR. Phone photos are large,
+ * often stored sideways with an EXIF orientation tag, and show the table
+ * around the receipt. Each image is rotated upright, downscaled, converted
+ * to grayscale (or contrast-stretched), cropped to the paper and re-encoded.
+ * The work happens in a Web Worker when the browser supports
+ * OffscreenCanvas, and on the main thread otherwise.
+ *
+ * @example
+ * ```ts
+ * const upload = await prepareForUpload(file); // smaller, upright JPEG
+ * const { file: processed, width, height } = await preprocessImage(file, { format: 'image/webp' });
+ * ```
+ */
+
+export type PreprocessMode = 'grayscale' | 'contrast' | 'none';
+export type OutputFormat = 'image/jpeg' | 'image/webp';
+
+export interface PreprocessOptions {
+  /** Longest side of the output, in pixels */
+  maxDimension?: number;
+  mode?: PreprocessMode;
+  /** Crop to the receipt when it stands out from the background */
+  crop?: boolean;
+  format?: OutputFormat;
+  quality?: number;
+}
+
+export interface PreprocessResult {
+  file: File;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: Required<PreprocessOptions> = {
+  maxDimension: 2400,
+  mode: 'grayscale',
+  crop: true,
+  format: 'image/jpeg',
+  quality: 0.85,
+};
+
+// ============================================
+// EXIF orientation
+// ============================================
+
+/**
+ * Orientation tag (1-8) of a JPEG, 1 when absent or unreadable.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  try {
+    if (view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Metadata segments all come before the image data
+      if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const little = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, little);
+        const count = view.getUint16(ifd, little);
+
+        for (let i = 0; i < count; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, little) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, little);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed metadata
+  }
+  return 1;
+}
+
+/** Orientations 5-8 are rotated a quarter turn, swapping width and height */
+const isQuarterTurn = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+export function getOutputSize(width: number, height: number, orientation: number, maxDimension: number) {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const drawWidth = Math.round(width * scale);
+  const drawHeight = Math.round(height * scale);
+  return isQuarterTurn(orientation)
+    ? { drawWidth, drawHeight, width: drawHeight, height: drawWidth }
+    : { drawWidth, drawHeight, width: drawWidth, height: drawHeight };
+}
+
+/**
+ * Canvas transform that draws a stored image upright, for a canvas of the
+ * upright size.
+ */
+export function orientationTransform(
+  orientation: number,
+  width: number,
+  height: number
+): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, width, 0];
+    case 3: return [-1, 0, 0, -1, width, height];
+    case 4: return [1, 0, 0, -1, 0, height];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, width, 0];
+    case 7: return [0, -1, -1, 0, width, height];
+    case 8: return [0, -1, 1, 0, 0, height];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+// ============================================
+// Pixel operations (RGBA, in place)
+// ============================================
+
+const luminance = (pixels: Uint8ClampedArray, i: number) =>
+  0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+
+export function toGrayscale(pixels: Uint8ClampedArray) {
+  for (let i = 0; i < pixels.length; i += 4) {
+    const value = luminance(pixels, i);
+    pixels[i] = pixels[i + 1] = pixels[i + 2] = value;
+  }
+}
+
+function histogram(pixels: Uint8ClampedArray, step = 1) {
+  const counts = new Array<number>(256).fill(0);
+  let total = 0;
+  for (let i = 0; i < pixels.length; i += 4 * step) {
+    counts[Math.round(luminance(pixels, i))]++;
+    total++;
+  }
+  return { counts, total };
+}
+
+/**
+ * Stretch brightness so the darkest and brightest `clip` share of pixels
+ * become black and white. Faded thermal print gains the most.
+ */
+export function stretchContrast(pixels: Uint8ClampedArray, clip = 0.01) {
+  const { counts, total } = histogram(pixels);
+  const cutoff = total * clip;
+
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + counts[low] <= cutoff; low++) seen += counts[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + counts[high] <= cutoff; high--) seen += counts[high];
+  // Flat images would only gain noise
+  if (high - low < 16) return;
+
+  const scale = 255 / (high - low);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = (pixels[i] - low) * scale;
+    pixels[i + 1] = (pixels[i + 1] - low) * scale;
+    pixels[i + 2] = (pixels[i + 2] - low) * scale;
+  }
+}
+
+function otsuThreshold(counts: number[], total: number): number {
+  let sum = 0;
+  counts.forEach((count, value) => {
+    sum += value * count;
+  });
+
+  let best = 0;
+  let bestVariance = 0;
+  let darkCount = 0;
+  let darkSum = 0;
+  for (let value = 0; value < 256; value++) {
+    darkCount += counts[value];
+    if (darkCount === 0) continue;
+    const brightCount = total - darkCount;
+    if (brightCount === 0) break;
+
+    darkSum += value * counts[value];
+    const difference = darkSum / darkCount - (sum - darkSum) / brightCount;
+    const variance = darkCount * brightCount * difference * difference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the receipt: the bright paper against a darker background. Columns
+ * that are mostly paper give the left and right edges, rows that are mostly
+ * paper between those edges give the top and bottom. Returns null when there
+ * is no clear background to crop.
+ */
+export function findDocumentBounds(pixels: Uint8ClampedArray, width: number, height: number): Bounds | null {
+  const step = Math.max(1, Math.floor(Math.max(width, height) / 400));
+  const { counts, total } = histogram(pixels, step);
+  const threshold = otsuThreshold(counts, total);
+
+  let darkSum = 0;
+  let darkCount = 0;
+  counts.forEach((count, value) => {
+    if (value <= threshold) {
+      darkSum += value * count;
+      darkCount += count;
+    }
+  });
+  const brightCount = total - darkCount;
+  if (darkCount === 0 || brightCount === 0) return null;
+  const brightMean = (counts.reduce((sum, count, value) => sum + value * count, 0) - darkSum) / brightCount;
+  if (brightMean - darkSum / darkCount < 40) return null;
+
+  const isPaper = (x: number, y: number) => luminance(pixels, (y * width + x) * 4) > threshold;
+  const paperShare = (count: number, of: number) => count / Math.max(1, of);
+
+  const columns: number[] = [];
+  for (let x = 0; x < width; x += step) {
+    let paper = 0;
+    let samples = 0;
+    for (let y = 0; y < height; y += step, samples++) if (isPaper(x, y)) paper++;
+    if (paperShare(paper, samples) > 0.5) columns.push(x);
+  }
+  if (columns.length === 0) return null;
+  const left = columns[0];
+  const right = columns[columns.length - 1] + step;
+
+  const rows: number[] = [];
+  for (let y = 0; y < height; y += step) {
+    let paper = 0;
+    let samples = 0;
+    for (let x = left; x < right; x += step, samples++) if (isPaper(x, y)) paper++;
+    if (paperShare(paper, samples) > 0.5) rows.push(y);
+  }
+  if (rows.length === 0) return null;
+  const top = rows[0];
+  const bottom = rows[rows.length - 1] + step;
+
+  const padX = Math.round(width * 0.02);
+  const padY = Math.round(height * 0.02);
+  const x = Math.max(0, left - padX);
+  const y = Math.max(0, top - padY);
+  const bounds = {
+    x,
+    y,
+    width: Math.min(width, right + padX) - x,
+    height: Math.min(height, bottom + padY) - y,
+  };
+
+  // Nothing worth cropping, or too little left to be the receipt
+  const share = (bounds.width * bounds.height) / (width * height);
+  return share > 0.95 || share < 0.1 ? null : bounds;
+}
+
+// ============================================
+// Canvas pipeline
+// ============================================
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement;
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function context2d(canvas: AnyCanvas): Context2D {
+  // The '2d' overload is lost on the union of both canvas types
+  const context = canvas.getContext('2d') as Context2D | null;
+  if (!context) throw new Error('Image processing is not supported in this browser');
+  return context;
+}
+
+function encode(canvas: AnyCanvas, type: string, quality: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+      type,
+      quality
+    );
+  });
+}
+
+export async function decodeImage(file: Blob): Promise<{ bitmap: ImageBitmap; orientation: number }> {
+  const orientation = readExifOrientation(await file.slice(0, 256 * 1024).arrayBuffer());
+  try {
+    // Raw pixels, so the orientation is applied exactly once, by us
+    return { bitmap: await createImageBitmap(file, { imageOrientation: 'none' }), orientation };
+  } catch {
+    // Browsers without the option rotate by themselves
+    return { bitmap: await createImageBitmap(file), orientation: 1 };
+  }
+}
+
+export async function processBitmap(
+  bitmap: ImageBitmap,
+  orientation: number,
+  options: Required<PreprocessOptions>
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const size = getOutputSize(bitmap.width, bitmap.height, orientation, options.maxDimension);
+  const canvas = createCanvas(size.width, size.height);
+  const context = context2d(canvas);
+
+  context.setTransform(...orientationTransform(orientation, size.width, size.height));
+  context.drawImage(bitmap, 0, 0, size.drawWidth, size.drawHeight);
+  context.setTransform(1, 0, 0, 1, 0, 0);
+
+  const image = context.getImageData(0, 0, size.width, size.height);
+  if (options.mode === 'grayscale') toGrayscale(image.data);
+  if (options.mode !== 'none') stretchContrast(image.data);
+  const bounds = options.crop ? findDocumentBounds(image.data, size.width, size.height) : null;
+  context.putImageData(image, 0, 0);
+
+  let output = canvas;
+  if (bounds) {
+    output = createCanvas(bounds.width, bounds.height);
+    context2d(output).drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  }
+
+  let blob = await encode(output, options.format, options.quality);
+  // Browsers that cannot encode WebP hand back a PNG instead
+  if (blob.type !== options.format) blob = await encode(output, 'image/jpeg', options.quality);
+  return { blob, width: output.width, height: output.height };
+}
+
+// ============================================
+// Entry points
+// ============================================
+
+export interface PreprocessRequest {
+  id: number;
+  file: Blob;
+  options: Required<PreprocessOptions>;
+}
+
+export type PreprocessResponse =
+  | { id: number; blob: Blob; width: number; height: number; originalWidth: number; originalHeight: number }
+  | { id: number; error: string };
+
+export async function preprocessInContext(file: Blob, options: Required<PreprocessOptions>) {
+  const { bitmap, orientation } = await decodeImage(file);
+  try {
+    const upright = isQuarterTurn(orientation)
+      ? { originalWidth: bitmap.height, originalHeight: bitmap.width }
+      : { originalWidth: bitmap.width, originalHeight: bitmap.height };
+    return { ...(await processBitmap(bitmap, orientation, options)), ...upright };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** A photo that takes longer than this in the worker is redone on the main thread */
+const WORKER_TIMEOUT = 30_000;
+
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<
+  number,
+  { resolve: (response: PreprocessResponse) => void; reject: (error: Error) => void; timer: ReturnType<typeof setTimeout> }
+>();
+
+/** Stop using the worker; waiting requests fail and later ones run on the main thread */
+function abandonWorker(reason: string) {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(({ reject, timer }) => {
+    clearTimeout(timer);
+    reject(new Error(reason));
+  });
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  worker = null;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return worker;
+
+  try {
+    worker = new Worker(new URL('./image-preprocess.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      clearTimeout(request.timer);
+      pending.delete(event.data.id);
+      request.resolve(event.data);
+    };
+    worker.onerror = () => abandonWorker('The image worker crashed');
+    worker.onmessageerror = () => abandonWorker('The image worker sent an unreadable reply');
+  } catch {
+    worker = null;
+  }
+  return worker;
+}
+
+function runInWorker(target: Worker, file: Blob, options: Required<PreprocessOptions>) {
+  const id = nextRequestId++;
+  return new Promise<PreprocessResponse>((resolve, reject) => {
+    const timer = setTimeout(() => abandonWorker('The image worker timed out'), WORKER_TIMEOUT);
+    pending.set(id, { resolve, reject, timer });
+    target.postMessage({ id, file, options } satisfies PreprocessRequest);
+  });
+}
+
+function renameFor(file: File, format: OutputFormat) {
+  const base = file.name.replace(/\.[^.]+$/, '') || 'receipt';
+  return `${base}.${format === 'image/webp' ? 'webp' : 'jpg'}`;
+}
+
+export async function preprocessImage(file: File, options: PreprocessOptions = {}): Promise<PreprocessResult> {
+  const settings = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+  const target = getWorker();
+
+  let result: Exclude<PreprocessResponse, { error: string }> | Awaited<ReturnType<typeof preprocessInContext>>;
+  // No worker, or the worker failed rather than the photo: process it here
+  const response = target ? await runInWorker(target, file, settings).catch(() => null) : null;
+  if (response) {
+    if ('error' in response) throw new Error(response.error);
+    result = response;
+  } else {
+    result = await preprocessInContext(file, settings);
+  }
+
+  return {
+    file: new File([result.blob], renameFor(file, settings.format), { type: result.blob.type }),
+    width: result.width,
+    height: result.height,
+    originalWidth: result.originalWidth,
+    originalHeight: result.originalHeight,
+  };
+}
+
+const uploads = new WeakMap<File, Promise<PreprocessResult>>();
+
+/**
+ * Preprocess with the default settings, once per file: previews and the
+ * upload share the result.
+ */
+export function preprocessForUpload(file: File): Promise<PreprocessResult> {
+  let result = uploads.get(file);
+  if (!result) {
+    result = preprocessImage(file);
+    uploads.set(file, result);
+  }
+  return result;
+}
+
+/**
+ * Register a file built from already preprocessed images, e.g. stitched
+ * photos, so it is uploaded as it is.
+ */
+export function markPreprocessed(file: File, width: number, height: number) {
+  uploads.set(file, Promise.resolve({ file, width, height, originalWidth: width, originalHeight: height }));
+}
+
+export interface PreparedUpload {
+  file: File;
+  /** Why the original is uploaded as it is, when it could not be preprocessed */
+  error?: unknown;
+}
+
+/** The file to upload: preprocessed, or the original if it cannot be decoded */
+export async function prepareForUpload(file: File): Promise<PreparedUpload> {
+  try {
+    return { file: (await preprocessForUpload(file)).file };
+  } catch (error) {
+    return { file, error };
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,19 @@
+/**
+ * Web Worker running the preprocessing pipeline off the main thread.
+ * Started by `preprocessImage` in lib/image-preprocess.ts.
+ */
+
+import { preprocessInContext, type PreprocessRequest, type PreprocessResponse } from '@/lib/image-preprocess';
+
+const scope = self as unknown as Pick<Worker, 'addEventListener' | 'postMessage'>;
+
+scope.addEventListener('message', async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, file, options } = event.data;
+  let response: PreprocessResponse;
+  try {
+    response = { id, ...(await preprocessInContext(file, options)) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  scope.postMessage(response);
+});
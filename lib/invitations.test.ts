@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { GroupInvitation } from '@/types';
+import { acceptInvitationsAfterSignup, describeExpiry, invitationStatus, rememberInviteCode, takeInviteCode } from './invitations';
+
+const now = Date.parse('2026-10-19T12:00:00Z');
+
+const invitation = (overrides: Partial<GroupInvitation> = {}): GroupInvitation => ({
+    id: 'inv-1',
+    group_id: 'g1',
+    group_name: 'Lisbon',
+    email: 'new@test.com',
+    code: 'abc123',
+    role: 'member',
+    status: 'pending',
+    invited_by: 'alice@test.com',
+    created_at: '2026-10-10T12:00:00Z',
+    expires_at: '2026-10-22T18:00:00Z',
+    ...overrides,
+});
+
+describe('lib/invitations', () => {
+    it('should treat pending invitations past their expiry as expired', () => {
+        expect(invitationStatus(invitation(), now)).toBe('pending');
+        expect(invitationStatus(invitation({ expires_at: '2026-10-19T11:59:00Z' }), now)).toBe('expired');
+        expect(invitationStatus(invitation({ expires_at: '2026-10-01T00:00:00Z', status: 'accepted' }), now)).toBe('accepted');
+        expect(invitationStatus(invitation({ expires_at: null }), now)).toBe('pending');
+
+        expect(describeExpiry(invitation(), now)).toBe('Expires in 3 days');
+        expect(describeExpiry(invitation({ expires_at: '2026-10-19T20:00:00Z' }), now)).toBe('Expires today');
+        expect(describeExpiry(invitation({ expires_at: null }), now)).toBe('Never expires');
+    });
+
+    it('should keep an invite code for one use', () => {
+        const values = new Map<string, string>();
+        const storage = {
+            getItem: (key: string) => values.get(key) ?? null,
+            setItem: (key: string, value: string) => void values.set(key, value),
+            removeItem: (key: string) => void values.delete(key),
+        };
+
+        rememberInviteCode('abc123', storage);
+        expect(takeInviteCode(storage)).toBe('abc123');
+        expect(takeInviteCode(storage)).toBeNull();
+    });
+
+    it('should accept the invite link and open invitations sent to the new email', async () => {
+        const api = {
+            acceptInvitationCode: vi.fn(async () => invitation({ id: 'link', group_id: 'g0', group_name: 'Office', email: null })),
+            listMyInvitations: vi.fn(async () => [
+                invitation(),
+                invitation({ id: 'inv-2', group_id: 'g2', email: 'NEW@test.com' }),
+                invitation({ id: 'inv-3', group_id: 'g3', expires_at: '2026-10-18T00:00:00Z' }),
+                invitation({ id: 'inv-4', group_id: 'g4', status: 'declined' }),
+                invitation({ id: 'inv-5', group_id: 'g0' }),
+            ]),
+            respondToInvitation: vi.fn(async (id: string) => {
+                if (id === 'inv-2') throw new Error('Group is full');
+                return invitation({ id, status: 'accepted' });
+            }),
+        };
+
+        const { joined, failed } = await acceptInvitationsAfterSignup('new@test.com', { code: 'abc123', api, now });
+
+        expect(api.acceptInvitationCode).toHaveBeenCalledWith('abc123');
+        expect(api.respondToInvitation.mock.calls).toEqual([
+            ['inv-1', 'accept'],
+            ['inv-2', 'accept'],
+        ]);
+        expect(joined.map((i) => i.id)).toEqual(['link', 'inv-1']);
+        expect(failed).toEqual(['Lisbon: Group is full']);
+    });
+});
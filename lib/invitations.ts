@@ -0,0 +1,145 @@
+import type { GroupInvitation, InvitationStatus } from '@/types';
+import { acceptInvitationCode, listMyInvitations, respondToInvitation } from '@/lib/api';
+
+/**
+ * Group Invitations
+ *
+ * Helpers around `GroupInvitation`: the status to show (pending
+ * invitations past `expires_at` count as expired even before the backend
+ * marks them), invite links, and accepting invitations for a newly signed
+ * up account. An invite code opened while signed out is kept in
+ * sessionStorage so it survives the trip through signup or login.
+ *
+ * @example
+ * ```ts
+ * const status = invitationStatus(invite); // 'pending' | 'accepted' | 'declined' | 'expired'
+ * navigator.clipboard.writeText(inviteLink(invite.code));
+ * const { joined } = await acceptInvitationsAfterSignup(email, { code: takeInviteCode() });
+ * ```
+ */
+
+export const INVITE_CODE_STORAGE_KEY = 'kvitta_invite_code';
+
+export const INVITE_EXPIRY_OPTIONS: { days: number | null; label: string }[] = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: null, label: 'Never' },
+];
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export function invitationStatus(invitation: GroupInvitation, now = Date.now()): InvitationStatus {
+  if (invitation.status === 'pending' && invitation.expires_at && Date.parse(invitation.expires_at) <= now) {
+    return 'expired';
+  }
+  return invitation.status;
+}
+
+/** Pending and not yet expired */
+export const isOpenInvitation = (invitation: GroupInvitation, now = Date.now()) =>
+  invitationStatus(invitation, now) === 'pending';
+
+/** e.g. "Expires in 3 days", "Expires today", "Never expires" */
+export function describeExpiry(invitation: GroupInvitation, now = Date.now()): string {
+  if (!invitation.expires_at) return 'Never expires';
+  const left = Date.parse(invitation.expires_at) - now;
+  if (left <= 0) return `Expired ${new Date(invitation.expires_at).toLocaleDateString()}`;
+  const days = Math.floor(left / DAY);
+  if (days === 0) return 'Expires today';
+  return `Expires in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+export function inviteLink(code: string, origin = typeof window === 'undefined' ? '' : window.location.origin): string {
+  return `${origin}/invite/${encodeURIComponent(code)}`;
+}
+
+// ============================================
+// Invite codes across signup
+// ============================================
+
+type CodeStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | null;
+
+const defaultStorage = (): CodeStorage => (typeof window === 'undefined' ? null : window.sessionStorage);
+
+export function rememberInviteCode(code: string, storage: CodeStorage = defaultStorage()): void {
+  storage?.setItem(INVITE_CODE_STORAGE_KEY, code);
+}
+
+/** The remembered code, removed so it is only used once */
+export function takeInviteCode(storage: CodeStorage = defaultStorage()): string | null {
+  const code = storage?.getItem(INVITE_CODE_STORAGE_KEY) ?? null;
+  storage?.removeItem(INVITE_CODE_STORAGE_KEY);
+  return code;
+}
+
+// ============================================
+// Auto-acceptance
+// ============================================
+
+export interface AcceptAfterSignupOptions {
+  /** Invite link code the user arrived with */
+  code?: string | null;
+  api?: {
+    acceptInvitationCode: typeof acceptInvitationCode;
+    listMyInvitations: () => Promise<GroupInvitation[]>;
+    respondToInvitation: typeof respondToInvitation;
+  };
+  now?: number;
+}
+
+/**
+ * Accept everything a new account was invited to: the invite link it
+ * signed up through and every open invitation sent to its email. Failures
+ * are returned rather than thrown; signup itself already succeeded.
+ */
+export async function acceptInvitationsAfterSignup(
+  email: string,
+  {
+    code = null,
+    api = { acceptInvitationCode, listMyInvitations: () => listMyInvitations(), respondToInvitation },
+    now = Date.now(),
+  }: AcceptAfterSignupOptions = {}
+): Promise<{ joined: GroupInvitation[]; failed: string[] }> {
+  const joined: GroupInvitation[] = [];
+  const failed: string[] = [];
+  const message = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  if (code) {
+    try {
+      joined.push(await api.acceptInvitationCode(code));
+    } catch (error) {
+      failed.push(`Invite link: ${message(error)}`);
+    }
+  }
+
+  let invitations: GroupInvitation[] = [];
+  try {
+    invitations = await api.listMyInvitations();
+  } catch (error) {
+    failed.push(`Invitations: ${message(error)}`);
+  }
+
+  const addressed = invitations.filter(
+    (invitation) =>
+      invitation.email?.toLowerCase() === email.toLowerCase() &&
+      isOpenInvitation(invitation, now) &&
+      !joined.some((group) => group.group_id === invitation.group_id)
+  );
+  for (const invitation of addressed) {
+    try {
+      joined.push(await api.respondToInvitation(invitation.id, 'accept'));
+    } catch (error) {
+      failed.push(`${invitation.group_name}: ${message(error)}`);
+    }
+  }
+
+  return { joined, failed };
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Receipt } from '@/types';
+import { ApiError } from './api';
+import { createJobTracker, getBackoffDelay, isTransientError, JOBS_STORAGE_KEY } from './job-tracker';
+
+const makeReceipt = (status: string): Receipt => ({
+    _id: 'r1',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    status: status as Receipt['status'],
+});
+
+const memoryStorage = () => {
+    const data: Record<string, string> = {};
+    return {
+        getItem: (key: string) => data[key] ?? null,
+        setItem: (key: string, value: string) => {
+            data[key] = value;
+        },
+    };
+};
+
+describe('lib/job-tracker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should back off exponentially up to the maximum', () => {
+        expect([0, 1, 2, 3, 4, 5].map((attempt) => getBackoffDelay(attempt, 1000, 10000)))
+            .toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+    });
+
+    it('should tell transient errors from fatal ones', () => {
+        expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+        expect(isTransientError(new Error('HTTP 503'))).toBe(true);
+        expect(isTransientError(new Error('HTTP 429'))).toBe(true);
+        expect(isTransientError(new Error('Receipt not found'))).toBe(false);
+        expect(isTransientError(new Error('Not authenticated'))).toBe(false);
+        expect(isTransientError({ status: 403 })).toBe(false);
+        expect(isTransientError(new ApiError({ endpoint: '/receipt/r1', code: 'timeout', detail: 'Timed out' }))).toBe(true);
+        expect(isTransientError(new ApiError({ endpoint: '/receipt/r1', status: 404, detail: 'Not found' }))).toBe(false);
+    });
+
+    it('should poll until the receipt is processed', async () => {
+        const fetchReceipt = vi.fn()
+            .mockResolvedValueOnce(makeReceipt('processing'))
+            .mockResolvedValueOnce(makeReceipt('completed'));
+        const tracker = createJobTracker({ fetchReceipt, storage: null, initialDelay: 10, baseDelay: 100 });
+
+        tracker.track('r1');
+        await vi.advanceTimersByTimeAsync(10);
+        expect(tracker.getJob('r1')?.status).toBe('processing');
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(tracker.getJob('r1')).toMatchObject({ status: 'completed', attempts: 2 });
+        expect(fetchReceipt).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry transient errors and stop on fatal ones', async () => {
+        const fetchReceipt = vi.fn()
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockRejectedValueOnce(new Error('Receipt not found'));
+        const tracker = createJobTracker({ fetchReceipt, storage: null, initialDelay: 0, baseDelay: 100 });
+
+        tracker.track('r1');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(tracker.getJob('r1')).toMatchObject({ status: 'processing', error: 'Failed to fetch' });
+
+        await vi.advanceTimersByTimeAsync(100);
+        expect(tracker.getJob('r1')).toMatchObject({ status: 'failed', error: 'Receipt not found' });
+    });
+
+    it('should fail receipts that errored on the server', async () => {
+        const fetchReceipt = vi.fn().mockResolvedValue(makeReceipt('error'));
+        const tracker = createJobTracker({ fetchReceipt, storage: null, initialDelay: 0 });
+
+        tracker.track('r1');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(tracker.getJob('r1')?.status).toBe('failed');
+        expect(fetchReceipt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop polling when cancelled', async () => {
+        const fetchReceipt = vi.fn().mockResolvedValue(makeReceipt('processing'));
+        const tracker = createJobTracker({ fetchReceipt, storage: null, initialDelay: 10 });
+
+        tracker.track('r1');
+        tracker.cancel('r1');
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(tracker.getJob('r1')?.status).toBe('cancelled');
+        expect(fetchReceipt).not.toHaveBeenCalled();
+    });
+
+    it('should check right away on refresh', async () => {
+        const fetchReceipt = vi.fn().mockResolvedValue(makeReceipt('completed'));
+        const tracker = createJobTracker({ fetchReceipt, storage: null, initialDelay: 5000 });
+
+        tracker.track('r1');
+        tracker.refresh('r1');
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(tracker.getJob('r1')?.status).toBe('completed');
+        expect(fetchReceipt).toHaveBeenCalledTimes(1);
+    });
+
+    it('should persist in-flight jobs and resume them in a new tracker', async () => {
+        const storage = memoryStorage();
+        const first = createJobTracker({
+            fetchReceipt: vi.fn().mockResolvedValue(makeReceipt('processing')),
+            storage,
+            initialDelay: 10,
+        });
+        first.track('r1', { groupId: 'g1' });
+
+        expect(JSON.parse(storage.getItem(JOBS_STORAGE_KEY)!)).toMatchObject([{ receiptId: 'r1', groupId: 'g1' }]);
+
+        const fetchReceipt = vi.fn().mockResolvedValue(makeReceipt('completed'));
+        const second = createJobTracker({ fetchReceipt, storage });
+        second.resume();
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(second.getJob('r1')).toMatchObject({ status: 'completed', groupId: 'g1' });
+        expect(JSON.parse(storage.getItem(JOBS_STORAGE_KEY)!)).toEqual([]);
+        first.cancel('r1');
+    });
+
+    it('should give up after the timeout', async () => {
+        let clock = 0;
+        const fetchReceipt = vi.fn().mockResolvedValue(makeReceipt('processing'));
+        const tracker = createJobTracker({
+            fetchReceipt,
+            storage: null,
+            initialDelay: 0,
+            baseDelay: 100,
+            timeout: 150,
+            now: () => clock,
+        });
+
+        tracker.track('r1');
+        await vi.advanceTimersByTimeAsync(0);
+        clock = 200;
+        await vi.advanceTimersByTimeAsync(100);
+
+        expect(tracker.getJob('r1')).toMatchObject({ status: 'failed' });
+        expect(tracker.getJob('r1')?.error).toMatch(/timed out/);
+    });
+});
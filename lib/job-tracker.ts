@@ -0,0 +1,262 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { Receipt } from '@/types';
+import { ApiError, getReceipt } from '@/lib/api';
+import { ApiSchemaError } from '@/lib/schemas';
+
+/**
+ * Receipt Processing Job Tracker
+ *
+ * Single source of truth for receipts that are still being processed by
+ * the backend. In-flight receipt ids are persisted to localStorage so
+ * tracking resumes after a reload or on another page. Polling backs off
+ * exponentially; transient errors (network, 5xx, 429) are retried, fatal
+ * ones (404, auth, server-side processing errors) stop the job.
+ *
+ * @example
+ * ```ts
+ * jobTracker.track(receiptId, { groupId });
+ * const job = useReceiptJob(receiptId); // job.status: 'processing' | 'completed' | ...
+ * jobTracker.cancel(receiptId);
+ * ```
+ */
+
+export type JobStatus = 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProcessingJob {
+  receiptId: string;
+  groupId?: string;
+  status: JobStatus;
+  attempts: number;
+  startedAt: number;
+  error?: string;
+  receipt?: Receipt;
+}
+
+export interface JobTrackerOptions {
+  fetchReceipt?: (receiptId: string) => Promise<Receipt>;
+  storage?: Pick<Storage, 'getItem' | 'setItem'> | null;
+  initialDelay?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  /** Give up on a job after this long */
+  timeout?: number;
+  now?: () => number;
+}
+
+export const JOBS_STORAGE_KEY = 'kvitta_processing_jobs';
+
+export class FatalJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FatalJobError';
+  }
+}
+
+/** The schema already maps the legacy "PROCESSED" status to `completed` */
+export function isReceiptProcessed(receipt: Receipt): boolean {
+  return receipt.status === 'completed';
+}
+
+/**
+ * Errors worth retrying: network failures, timeouts, rate limits and 5xx.
+ * Everything that says the receipt is gone, we are not allowed to see it,
+ * or the response has an unexpected shape is fatal.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof FatalJobError || error instanceof ApiSchemaError) return false;
+  if (error instanceof ApiError) return error.retryable;
+  const status = (error as { status?: number } | null)?.status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/not authenticated|not found|HTTP 4\d\d/i.test(message)) {
+    return /HTTP (408|429)/.test(message);
+  }
+  return true;
+}
+
+export function getBackoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  return Math.min(baseDelay * 2 ** attempt, maxDelay);
+}
+
+type StoredJob = Pick<ProcessingJob, 'receiptId' | 'groupId' | 'startedAt' | 'attempts'>;
+
+function defaultStorage() {
+  return typeof window === 'undefined' ? null : window.localStorage;
+}
+
+export function createJobTracker({
+  fetchReceipt = getReceipt,
+  storage = defaultStorage(),
+  initialDelay = 1000,
+  baseDelay = 2000,
+  maxDelay = 30000,
+  timeout = 10 * 60 * 1000,
+  now = Date.now,
+}: JobTrackerOptions = {}) {
+  let jobs: Record<string, ProcessingJob> = {};
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const inFlight = new Set<string>();
+  const listeners = new Set<() => void>();
+
+  const persist = () => {
+    if (!storage) return;
+    const stored: StoredJob[] = Object.values(jobs)
+      .filter((job) => job.status === 'processing')
+      .map(({ receiptId, groupId, startedAt, attempts }) => ({ receiptId, groupId, startedAt, attempts }));
+    try {
+      storage.setItem(JOBS_STORAGE_KEY, JSON.stringify(stored));
+    } catch {
+      // Storage full or unavailable: tracking still works for this page
+    }
+  };
+
+  const readStored = (): StoredJob[] => {
+    if (!storage) return [];
+    try {
+      const parsed = JSON.parse(storage.getItem(JOBS_STORAGE_KEY) || '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const update = (receiptId: string, updates: Partial<ProcessingJob>) => {
+    const current = jobs[receiptId];
+    if (!current) return;
+    jobs = { ...jobs, [receiptId]: { ...current, ...updates } };
+    persist();
+    listeners.forEach((listener) => listener());
+  };
+
+  const finish = (receiptId: string, updates: Partial<ProcessingJob>) => {
+    const timer = timers.get(receiptId);
+    if (timer) clearTimeout(timer);
+    timers.delete(receiptId);
+    update(receiptId, updates);
+  };
+
+  const schedule = (receiptId: string, delay: number) => {
+    const timer = setTimeout(() => poll(receiptId), delay);
+    timers.set(receiptId, timer);
+  };
+
+  const poll = async (receiptId: string) => {
+    const job = jobs[receiptId];
+    if (!job || job.status !== 'processing') return;
+
+    if (now() - job.startedAt > timeout) {
+      finish(receiptId, { status: 'failed', error: 'Processing timed out. Please check your dashboard later.' });
+      return;
+    }
+
+    const attempts = job.attempts + 1;
+    inFlight.add(receiptId);
+    try {
+      const receipt = await fetchReceipt(receiptId);
+      // Cancelled while the request was in flight
+      if (jobs[receiptId]?.status !== 'processing') return;
+
+      if (isReceiptProcessed(receipt)) {
+        finish(receiptId, { status: 'completed', attempts, receipt, error: undefined });
+        return;
+      }
+      if (receipt.status === 'error') {
+        throw new FatalJobError('Receipt processing failed on the server.');
+      }
+      update(receiptId, { attempts, receipt, error: undefined });
+    } catch (err) {
+      if (jobs[receiptId]?.status !== 'processing') return;
+
+      const message = err instanceof Error ? err.message : 'Failed to check receipt status';
+      if (!isTransientError(err)) {
+        finish(receiptId, { status: 'failed', attempts, error: message });
+        return;
+      }
+      update(receiptId, { attempts, error: message });
+    } finally {
+      inFlight.delete(receiptId);
+    }
+
+    schedule(receiptId, getBackoffDelay(attempts - 1, baseDelay, maxDelay));
+  };
+
+  const start = (job: ProcessingJob, delay: number) => {
+    if (timers.has(job.receiptId)) return;
+    jobs = { ...jobs, [job.receiptId]: job };
+    persist();
+    listeners.forEach((listener) => listener());
+    schedule(job.receiptId, delay);
+  };
+
+  return {
+    /** Start tracking a receipt. Already tracked receipts are left alone. */
+    track(receiptId: string, { groupId }: { groupId?: string } = {}) {
+      if (jobs[receiptId]?.status === 'processing') return;
+      start({ receiptId, groupId, status: 'processing', attempts: 0, startedAt: now() }, initialDelay);
+    },
+
+    /** Pick up every job persisted by a previous page load. */
+    resume() {
+      readStored().forEach((stored) => {
+        if (jobs[stored.receiptId]?.status === 'processing') return;
+        start({ ...stored, status: 'processing' }, 0);
+      });
+    },
+
+    /** Check a job right away, e.g. when a status event arrives. */
+    refresh(receiptId: string) {
+      // A check already on its way will report soon enough
+      if (jobs[receiptId]?.status !== 'processing' || inFlight.has(receiptId)) return;
+      const timer = timers.get(receiptId);
+      if (timer) clearTimeout(timer);
+      schedule(receiptId, 0);
+    },
+
+    cancel(receiptId: string) {
+      if (jobs[receiptId]?.status !== 'processing') return;
+      finish(receiptId, { status: 'cancelled' });
+    },
+
+    getJob(receiptId: string | null | undefined): ProcessingJob | undefined {
+      return receiptId ? jobs[receiptId] : undefined;
+    },
+
+    getJobs(): Record<string, ProcessingJob> {
+      return jobs;
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type JobTracker = ReturnType<typeof createJobTracker>;
+
+export const jobTracker = createJobTracker();
+
+const EMPTY_JOBS: Record<string, ProcessingJob> = {};
+
+/**
+ * All jobs known to the tracker, re-rendering whenever one changes.
+ */
+export function useProcessingJobs(tracker: JobTracker = jobTracker): Record<string, ProcessingJob> {
+  return useSyncExternalStore(tracker.subscribe, tracker.getJobs, () => EMPTY_JOBS);
+}
+
+export function useReceiptJob(
+  receiptId: string | null | undefined,
+  tracker: JobTracker = jobTracker
+): ProcessingJob | undefined {
+  return useSyncExternalStore(
+    tracker.subscribe,
+    () => tracker.getJob(receiptId),
+    () => undefined
+  );
+}
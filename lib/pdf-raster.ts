@@ -0,0 +1,72 @@
+/**
+ * PDF rasterizing
+ *
+ * The OCR endpoint only reads images, so PDF invoices are rendered page by
+ * page in the browser and uploaded like photos. pdf.js is loaded on first
+ * use, keeping it out of the upload page bundle.
+ *
+ * @example
+ * ```ts
+ * if (isPdf(file)) {
+ *   const pages = await rasterizePdf(file); // JPEG files, one per page
+ * }
+ * ```
+ */
+
+export const PDF_TYPE = 'application/pdf';
+
+/** About 200 dpi: small print stays legible for the OCR */
+const RENDER_SCALE = 200 / 72;
+const MAX_PAGE_PIXELS = 16_000_000;
+
+export function isPdf(file: File): boolean {
+  return file.type === PDF_TYPE || /\.pdf$/i.test(file.name);
+}
+
+function canvasToFile(canvas: HTMLCanvasElement, fileName: string): Promise<File> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Could not render the PDF page'));
+          return;
+        }
+        resolve(new File([blob], fileName, { type: 'image/jpeg' }));
+      },
+      'image/jpeg',
+      0.92
+    );
+  });
+}
+
+/**
+ * Render the first `maxPages` pages of a PDF as JPEG files.
+ */
+export async function rasterizePdf(file: File, { maxPages = 5 }: { maxPages?: number } = {}): Promise<File[]> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const baseName = file.name.replace(/\.pdf$/i, '') || 'receipt';
+    const pages: File[] = [];
+
+    for (let number = 1; number <= Math.min(pdf.numPages, maxPages); number++) {
+      const page = await pdf.getPage(number);
+      const natural = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({
+        scale: Math.min(RENDER_SCALE, Math.sqrt(MAX_PAGE_PIXELS / (natural.width * natural.height))),
+      });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      pages.push(await canvasToFile(canvas, `${baseName}-page-${number}.jpg`));
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
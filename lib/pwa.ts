@@ -0,0 +1,25 @@
+/**
+ * Progressive Web App helpers
+ *
+ * Registers `public/sw.js` so Kvitta can be installed and opened offline.
+ * Skipped in development, where a cached shell would hide code changes.
+ *
+ * @example
+ * ```ts
+ * useEffect(() => {
+ *   registerServiceWorker();
+ * }, []);
+ * ```
+ */
+
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (process.env.NODE_ENV !== 'production') return null;
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return null;
+
+  try {
+    return await navigator.serviceWorker.register('/sw.js', { scope: '/' });
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+}
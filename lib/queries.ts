@@ -0,0 +1,334 @@
+'use client';
+
+import type {
+  ChargeSpreadMode,
+  ClassificationRule,
+  Folder,
+  Group,
+  GroupCreateInput,
+  GroupInvitation,
+  GroupUpdateInput,
+  InvitationCreateInput,
+  ItemSplitWeights,
+  LineItem,
+  Receipt,
+} from '@/types';
+import {
+  acceptInvitationCode,
+  addGroupMember,
+  createGroup,
+  createGroupInvitation,
+  deleteFolder,
+  deleteGroup,
+  getClassificationRules,
+  getGroupReceipts,
+  listFolders,
+  listGroupInvitations,
+  listGroups,
+  leaveGroup,
+  listMyInvitations,
+  moveReceipt,
+  removeGroupMember,
+  respondToInvitation,
+  revokeGroupInvitation,
+  saveClassificationRules,
+  saveSplit,
+  transferGroupOwnership,
+  updateGroup,
+  updateGroupMemberRole,
+  updateReceiptItems,
+} from '@/lib/api';
+import { restoreBackup, type BackupArchive, type RestoreOptions, type RestorePlan } from '@/lib/backup';
+import { queryCache, useQuery } from '@/lib/query-cache';
+
+/**
+ * Cached Queries & Mutations
+ *
+ * The keys, hooks and mutations pages use instead of calling `lib/api.ts`
+ * directly. Mutations here know which keys they touch: they update the
+ * cache optimistically where the result is predictable and invalidate the
+ * rest, so every page sees the change without refetching everything.
+ *
+ * @example
+ * ```ts
+ * const { data: groups = [], isLoading } = useGroups();
+ * await mutations.moveReceipt(groupId, folderId); // UI updates before the request returns
+ * ```
+ */
+
+// Invalidation works by prefix, so the group list sits under its own key
+// rather than above every group's receipts and invitations
+export const queryKeys = {
+  groups: ['groups', 'list'] as const,
+  folders: ['folders'] as const,
+  groupReceipts: (groupId: string) => ['groups', groupId, 'receipts'] as const,
+  classificationRules: ['classification-rules'] as const,
+  invitations: ['invitations'] as const,
+  groupInvitations: (groupId: string) => ['groups', groupId, 'invitations'] as const,
+};
+
+export function useGroups({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery(queryKeys.groups, ({ signal }) => listGroups({ signal }), { enabled });
+}
+
+export function useFolders() {
+  return useQuery(queryKeys.folders, ({ signal }) => listFolders({ signal }));
+}
+
+export function useGroupReceipts(groupId: string | null | undefined) {
+  return useQuery(
+    queryKeys.groupReceipts(groupId ?? ''),
+    ({ signal }) => getGroupReceipts(groupId!, { signal }),
+    { enabled: !!groupId }
+  );
+}
+
+/** Invitations sent to the signed-in user */
+export function useInvitations({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery(queryKeys.invitations, ({ signal }) => listMyInvitations({ signal }), { enabled });
+}
+
+export function useGroupInvitations(groupId: string | null | undefined) {
+  return useQuery(
+    queryKeys.groupInvitations(groupId ?? ''),
+    ({ signal }) => listGroupInvitations(groupId!, { signal }),
+    { enabled: !!groupId }
+  );
+}
+
+/** null until the account saves its own rules; see `DEFAULT_RULES` */
+export function useClassificationRules({ enabled = true }: { enabled?: boolean } = {}) {
+  return useQuery(queryKeys.classificationRules, ({ signal }) => getClassificationRules({ signal }), { enabled });
+}
+
+/** Loads into the same cache entry as `useGroupReceipts`, outside of a component */
+export function fetchGroupReceipts(groupId: string) {
+  return queryCache.fetchQuery(queryKeys.groupReceipts(groupId), ({ signal }) => getGroupReceipts(groupId, { signal }));
+}
+
+const countMove = (folders: Folder[], from: string | null | undefined, to: string | null) =>
+  folders.map((folder) => {
+    if (folder.id === from) return { ...folder, receipt_count: Math.max(0, folder.receipt_count - 1) };
+    if (folder.id === to) return { ...folder, receipt_count: folder.receipt_count + 1 };
+    return folder;
+  });
+
+// Put a group returned by the API into the cached list, if it is loaded
+const storeGroup = (group: Group) => {
+  if (queryCache.getState(queryKeys.groups).data) {
+    queryCache.setQueryData<Group[]>(queryKeys.groups, (groups = []) => groups.map((g) => (g.id === group.id ? group : g)));
+  }
+  return group;
+};
+
+const withoutGroup = (groupId: string) => ({
+  key: queryKeys.groups,
+  update: (groups: Group[]) => groups.filter((g) => g.id !== groupId),
+});
+
+export const mutations = {
+  createGroup(payload: GroupCreateInput) {
+    return queryCache.mutate(() => createGroup(payload), {
+      invalidate: [queryKeys.groups, queryKeys.folders],
+    });
+  },
+
+  async addGroupMember(groupId: string, email: string) {
+    return storeGroup(
+      await queryCache.mutate(() => addGroupMember(groupId, email), {
+        invalidate: [queryKeys.groups],
+      })
+    );
+  },
+
+  async updateGroup(groupId: string, payload: GroupUpdateInput) {
+    return storeGroup(
+      await queryCache.mutate(() => updateGroup(groupId, payload), {
+        optimistic: [
+          {
+            key: queryKeys.groups,
+            update: (groups: Group[]) => groups.map((g) => (g.id === groupId ? { ...g, ...payload } : g)),
+          },
+        ],
+        invalidate: [queryKeys.groups],
+      })
+    );
+  },
+
+  async updateGroupMemberRole(groupId: string, email: string, role: 'admin' | 'member') {
+    return storeGroup(
+      await queryCache.mutate(() => updateGroupMemberRole(groupId, email, role), {
+        optimistic: [
+          {
+            key: queryKeys.groups,
+            update: (groups: Group[]) =>
+              groups.map((g) =>
+                g.id === groupId ? { ...g, members: g.members.map((m) => (m.email === email ? { ...m, role } : m)) } : g
+              ),
+          },
+        ],
+        invalidate: [queryKeys.groups],
+      })
+    );
+  },
+
+  async removeGroupMember(groupId: string, email: string) {
+    return storeGroup(
+      await queryCache.mutate(() => removeGroupMember(groupId, email), {
+        optimistic: [
+          {
+            key: queryKeys.groups,
+            update: (groups: Group[]) =>
+              groups.map((g) => (g.id === groupId ? { ...g, members: g.members.filter((m) => m.email !== email) } : g)),
+          },
+        ],
+        invalidate: [queryKeys.groups],
+      })
+    );
+  },
+
+  async transferGroupOwnership(groupId: string, email: string) {
+    return storeGroup(
+      await queryCache.mutate(() => transferGroupOwnership(groupId, email), {
+        invalidate: [queryKeys.groups],
+      })
+    );
+  },
+
+  leaveGroup(groupId: string) {
+    return queryCache.mutate(() => leaveGroup(groupId), {
+      optimistic: [withoutGroup(groupId)],
+      invalidate: [queryKeys.groups, queryKeys.folders],
+    });
+  },
+
+  deleteGroup(groupId: string) {
+    return queryCache.mutate(() => deleteGroup(groupId), {
+      optimistic: [withoutGroup(groupId)],
+      invalidate: [queryKeys.groups, queryKeys.folders],
+    });
+  },
+
+  moveReceipt(groupId: string, folderId: string | null) {
+    const from = queryCache.getState<Group[]>(queryKeys.groups).data?.find((g) => g.id === groupId)?.folder_id;
+
+    return queryCache.mutate(() => moveReceipt(groupId, folderId), {
+      optimistic: [
+        {
+          key: queryKeys.groups,
+          update: (groups: Group[]) => groups.map((g) => (g.id === groupId ? { ...g, folder_id: folderId } : g)),
+        },
+        {
+          key: queryKeys.folders,
+          update: (folders: Folder[]) => (from === folderId ? folders : countMove(folders, from, folderId)),
+        },
+      ],
+      invalidate: [queryKeys.groups, queryKeys.folders],
+    });
+  },
+
+  deleteFolder(folderId: string) {
+    return queryCache.mutate(() => deleteFolder(folderId), {
+      optimistic: [
+        {
+          key: queryKeys.folders,
+          update: (folders: Folder[]) => folders.filter((folder) => folder.id !== folderId),
+        },
+        {
+          // The backend moves the folder's groups back to the root
+          key: queryKeys.groups,
+          update: (groups: Group[]) => groups.map((g) => (g.folder_id === folderId ? { ...g, folder_id: null } : g)),
+        },
+      ],
+      invalidate: [queryKeys.groups, queryKeys.folders],
+    });
+  },
+
+  saveSplit(
+    groupId: string,
+    receiptId: string,
+    splitMap: Record<string, string[]>,
+    splitWeights: Record<string, ItemSplitWeights> = {},
+    spreadMode?: ChargeSpreadMode
+  ) {
+    return queryCache.mutate(() => saveSplit(receiptId, splitMap, splitWeights, spreadMode), {
+      optimistic: [
+        {
+          key: queryKeys.groupReceipts(groupId),
+          update: (receipts: Receipt[]) =>
+            receipts.map((r) =>
+              r._id === receiptId
+                ? {
+                    ...r,
+                    split_details: splitMap,
+                    split_weights: splitWeights,
+                    split_spread_mode: spreadMode ?? r.split_spread_mode,
+                  }
+                : r
+            ),
+        },
+      ],
+      invalidate: [queryKeys.groupReceipts(groupId)],
+    });
+  },
+
+  async saveClassificationRules(rules: ClassificationRule[]) {
+    const saved = await queryCache.mutate(() => saveClassificationRules(rules), {
+      optimistic: [{ key: queryKeys.classificationRules, update: () => rules }],
+    });
+    queryCache.setQueryData(queryKeys.classificationRules, saved);
+    return saved;
+  },
+
+  updateReceiptItems(groupId: string | undefined, receiptId: string, lineItems: LineItem[]) {
+    return queryCache.mutate(() => updateReceiptItems(receiptId, lineItems), {
+      invalidate: groupId ? [queryKeys.groupReceipts(groupId)] : [],
+    });
+  },
+
+  createInvitation(groupId: string, payload: InvitationCreateInput) {
+    return queryCache.mutate(() => createGroupInvitation(groupId, payload), {
+      invalidate: [queryKeys.groupInvitations(groupId)],
+    });
+  },
+
+  revokeInvitation(groupId: string, invitationId: string) {
+    return queryCache.mutate(() => revokeGroupInvitation(groupId, invitationId), {
+      optimistic: [
+        {
+          key: queryKeys.groupInvitations(groupId),
+          update: (invitations: GroupInvitation[]) => invitations.filter((i) => i.id !== invitationId),
+        },
+      ],
+      invalidate: [queryKeys.groupInvitations(groupId)],
+    });
+  },
+
+  respondToInvitation(invitationId: string, response: 'accept' | 'decline') {
+    return queryCache.mutate(() => respondToInvitation(invitationId, response), {
+      optimistic: [
+        {
+          key: queryKeys.invitations,
+          update: (invitations: GroupInvitation[]) =>
+            invitations.map((i) =>
+              i.id === invitationId ? { ...i, status: response === 'accept' ? ('accepted' as const) : ('declined' as const) } : i
+            ),
+        },
+      ],
+      invalidate: response === 'accept' ? [queryKeys.invitations, queryKeys.groups] : [queryKeys.invitations],
+    });
+  },
+
+  acceptInvitationCode(code: string) {
+    return queryCache.mutate(() => acceptInvitationCode(code), {
+      invalidate: [queryKeys.invitations, queryKeys.groups],
+    });
+  },
+
+  // Refetches even after a partial restore, since whatever was created stays
+  restoreBackup(archive: BackupArchive, plan: RestorePlan, options: RestoreOptions = {}) {
+    return queryCache.mutate(() => restoreBackup(archive, plan, options), {
+      invalidate: [queryKeys.groups, queryKeys.folders],
+    });
+  },
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createQueryCache } from './query-cache';
+import { queryKeys } from './queries';
+
+const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+        resolve = res;
+        reject = rej;
+    });
+    return { promise, resolve, reject };
+};
+
+describe('lib/query-cache', () => {
+    it('should share one request between concurrent fetches of a key', async () => {
+        const cache = createQueryCache();
+        const fetcher = vi.fn().mockResolvedValue(['g1']);
+
+        const [first, second] = await Promise.all([
+            cache.fetchQuery(['groups'], fetcher),
+            cache.fetchQuery(['groups'], fetcher),
+        ]);
+
+        expect(first).toEqual(['g1']);
+        expect(second).toBe(first);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(cache.getState(['groups'])).toMatchObject({ status: 'success', data: ['g1'], isFetching: false });
+    });
+
+    it('should serve fresh data from the cache and refetch once stale', async () => {
+        let clock = 0;
+        const cache = createQueryCache({ staleTime: 1000, now: () => clock });
+        const fetcher = vi.fn().mockResolvedValueOnce(['old']).mockResolvedValueOnce(['new']);
+
+        await cache.fetchQuery(['groups'], fetcher);
+        clock = 500;
+        expect(await cache.fetchQuery(['groups'], fetcher)).toEqual(['old']);
+
+        clock = 1500;
+        expect(await cache.fetchQuery(['groups'], fetcher)).toEqual(['new']);
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refetch observed keys under an invalidated prefix', async () => {
+        const cache = createQueryCache();
+        const receipts = vi.fn().mockResolvedValue([]);
+        const folders = vi.fn().mockResolvedValue([]);
+
+        cache.observe(['groups', 'g1', 'receipts']);
+        cache.observe(['folders']);
+        await cache.fetchQuery(['groups', 'g1', 'receipts'], receipts);
+        await cache.fetchQuery(['folders'], folders);
+
+        await cache.invalidate(['groups']);
+
+        expect(receipts).toHaveBeenCalledTimes(2);
+        expect(folders).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch the group list without the receipts of every group', async () => {
+        const cache = createQueryCache();
+        const groups = vi.fn().mockResolvedValue([]);
+        const receipts = vi.fn().mockResolvedValue([]);
+
+        cache.observe(queryKeys.groups);
+        cache.observe(queryKeys.groupReceipts('g1'));
+        await cache.fetchQuery(queryKeys.groups, groups);
+        await cache.fetchQuery(queryKeys.groupReceipts('g1'), receipts);
+
+        await cache.invalidate(queryKeys.groups);
+
+        expect(groups).toHaveBeenCalledTimes(2);
+        expect(receipts).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply optimistic updates and roll them back on failure', async () => {
+        const cache = createQueryCache();
+        cache.setQueryData(['folders'], [{ id: 'f1' }, { id: 'f2' }]);
+        const request = deferred<void>();
+
+        const mutation = cache.mutate(() => request.promise, {
+            optimistic: [{
+                key: ['folders'],
+                update: (folders: { id: string }[]) => folders.filter((folder) => folder.id !== 'f1'),
+            }],
+        });
+        expect(cache.getState(['folders']).data).toEqual([{ id: 'f2' }]);
+
+        request.reject(new Error('HTTP 500'));
+        await expect(mutation).rejects.toThrow('HTTP 500');
+        expect(cache.getState(['folders']).data).toEqual([{ id: 'f1' }, { id: 'f2' }]);
+    });
+
+    it('should abort a request once its last observer is gone', async () => {
+        const cache = createQueryCache();
+        let signal: AbortSignal | undefined;
+        const fetcher = vi.fn(({ signal: s }: { signal: AbortSignal }) => {
+            signal = s;
+            return new Promise<string[]>((_, reject) => {
+                s.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+            });
+        });
+
+        const release = cache.observe(['groups']);
+        const request = cache.fetchQuery(['groups'], fetcher);
+        release();
+
+        await expect(request).rejects.toThrow('Aborted');
+        expect(signal?.aborted).toBe(true);
+        expect(cache.getState(['groups'])).toMatchObject({ status: 'idle', isFetching: false });
+    });
+});
@@ -0,0 +1,275 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { isAbortError } from '@/lib/api';
+
+/**
+ * Client-side Query Cache
+ *
+ * Caches API responses by key so pages share one copy of the data.
+ * Concurrent fetches of the same key share one request, fresh entries are
+ * served without a request, and mutations invalidate the keys they touch.
+ * Optimistic updates are applied immediately and rolled back if the
+ * mutation fails. A request is aborted once nothing observes its key.
+ *
+ * @example
+ * ```ts
+ * const { data: groups } = useQuery(['groups'], ({ signal }) => listGroups({ signal }));
+ *
+ * await queryCache.mutate(() => deleteFolder(id), {
+ *   optimistic: [{ key: ['folders'], update: (folders: Folder[]) => folders.filter(f => f.id !== id) }],
+ *   invalidate: [['folders']],
+ * });
+ * ```
+ */
+
+export type QueryKey = readonly unknown[];
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryState<T> {
+  data?: T;
+  error?: Error;
+  status: QueryStatus;
+  isFetching: boolean;
+  updatedAt: number;
+}
+
+export type QueryFetcher<T> = (context: { signal: AbortSignal }) => Promise<T>;
+
+export interface OptimisticUpdate {
+  key: QueryKey;
+  // Skipped when the key has not been loaded yet
+  update: (data: never) => unknown;
+}
+
+export interface MutationOptions {
+  optimistic?: OptimisticUpdate[];
+  /** Key prefixes to refetch once the mutation settles */
+  invalidate?: QueryKey[];
+}
+
+export interface QueryCacheOptions {
+  /** How long data is served without refetching */
+  staleTime?: number;
+  now?: () => number;
+}
+
+const IDLE: QueryState<never> = { status: 'idle', isFetching: false, updatedAt: 0 };
+
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function matchesPrefix(key: QueryKey, prefix: QueryKey): boolean {
+  return prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+}
+
+export function createQueryCache({ staleTime = 30000, now = Date.now }: QueryCacheOptions = {}) {
+  const entries = new Map<string, { key: QueryKey; state: QueryState<unknown> }>();
+  const inFlight = new Map<string, { promise: Promise<unknown>; controller: AbortController }>();
+  const fetchers = new Map<string, QueryFetcher<unknown>>();
+  const observers = new Map<string, number>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const getState = <T>(key: QueryKey): QueryState<T> =>
+    (entries.get(hashQueryKey(key))?.state ?? IDLE) as QueryState<T>;
+
+  const setState = (key: QueryKey, updates: Partial<QueryState<unknown>>) => {
+    const hash = hashQueryKey(key);
+    entries.set(hash, { key, state: { ...(entries.get(hash)?.state ?? IDLE), ...updates } });
+    notify();
+  };
+
+  const fetchQuery = <T>(key: QueryKey, fetcher: QueryFetcher<T>, { force = false } = {}): Promise<T> => {
+    const hash = hashQueryKey(key);
+    fetchers.set(hash, fetcher as QueryFetcher<unknown>);
+
+    const pending = inFlight.get(hash);
+    if (pending) return pending.promise as Promise<T>;
+
+    const current = getState<T>(key);
+    if (!force && current.status === 'success' && now() - current.updatedAt < staleTime) {
+      return Promise.resolve(current.data as T);
+    }
+
+    const controller = new AbortController();
+    // Superseded requests (see invalidate) must not overwrite newer state
+    const isCurrent = () => inFlight.get(hash)?.controller === controller;
+    setState(key, { status: current.data === undefined ? 'loading' : current.status, isFetching: true });
+
+    const promise = fetcher({ signal: controller.signal })
+      .then((data) => {
+        if (isCurrent()) {
+          setState(key, { data, error: undefined, status: 'success', isFetching: false, updatedAt: now() });
+        }
+        return data;
+      })
+      .catch((error: unknown) => {
+        if (!isCurrent()) throw error;
+        if (isAbortError(error) || controller.signal.aborted) {
+          // Nobody is waiting for it: go back to what we had
+          setState(key, { status: current.status === 'loading' ? 'idle' : current.status, isFetching: false });
+        } else {
+          setState(key, {
+            error: error instanceof Error ? error : new Error(String(error)),
+            status: 'error',
+            isFetching: false,
+          });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (inFlight.get(hash)?.promise === promise) inFlight.delete(hash);
+      });
+
+    inFlight.set(hash, { promise, controller });
+    return promise;
+  };
+
+  const setQueryData = <T>(key: QueryKey, update: T | ((data: T | undefined) => T)) => {
+    const previous = getState<T>(key).data;
+    const data = typeof update === 'function' ? (update as (data: T | undefined) => T)(previous) : update;
+    setState(key, { data, error: undefined, status: 'success', updatedAt: now() });
+  };
+
+  /**
+   * Mark every entry under `prefix` stale and refetch the observed ones.
+   */
+  const invalidate = (prefix: QueryKey) => {
+    const refetches: Promise<unknown>[] = [];
+    entries.forEach(({ key, state }, hash) => {
+      if (!matchesPrefix(key, prefix)) return;
+      entries.set(hash, { key, state: { ...state, updatedAt: 0 } });
+
+      const fetcher = fetchers.get(hash);
+      if (fetcher && (observers.get(hash) ?? 0) > 0) {
+        // A request started before the mutation may return stale data
+        inFlight.get(hash)?.controller.abort();
+        inFlight.delete(hash);
+        refetches.push(fetchQuery(key, fetcher, { force: true }).catch(() => undefined));
+      }
+    });
+    notify();
+    return Promise.all(refetches).then(() => undefined);
+  };
+
+  return {
+    getState,
+    fetchQuery,
+    setQueryData,
+    invalidate,
+
+    /**
+     * Run a mutation. Optimistic updates are applied first and restored if
+     * it fails; `invalidate` prefixes are refetched either way.
+     */
+    async mutate<T>(run: () => Promise<T>, { optimistic = [], invalidate: prefixes = [] }: MutationOptions = {}): Promise<T> {
+      const snapshots = optimistic.flatMap(({ key, update }) => {
+        const hash = hashQueryKey(key);
+        const snapshot = entries.get(hash);
+        if (snapshot?.state.data === undefined) return [];
+        setQueryData(key, (data: unknown) => (update as (data: unknown) => unknown)(data));
+        return [{ hash, snapshot }];
+      });
+
+      try {
+        return await run();
+      } catch (error) {
+        snapshots.forEach(({ hash, snapshot }) => entries.set(hash, snapshot));
+        notify();
+        throw error;
+      } finally {
+        prefixes.forEach((prefix) => invalidate(prefix));
+      }
+    },
+
+    /** Count a component that uses the key; returns its release function */
+    observe(key: QueryKey) {
+      const hash = hashQueryKey(key);
+      observers.set(hash, (observers.get(hash) ?? 0) + 1);
+      return () => {
+        const count = (observers.get(hash) ?? 1) - 1;
+        observers.set(hash, count);
+        if (count === 0) {
+          inFlight.get(hash)?.controller.abort();
+        }
+      };
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    clear() {
+      inFlight.forEach(({ controller }) => controller.abort());
+      inFlight.clear();
+      entries.clear();
+      notify();
+    },
+  };
+}
+
+export type QueryCache = ReturnType<typeof createQueryCache>;
+
+export const queryCache = createQueryCache();
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: Error | undefined;
+  isLoading: boolean;
+  isFetching: boolean;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Read a query from the cache, fetching it when missing or stale.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, cache = queryCache }: { enabled?: boolean; cache?: QueryCache } = {}
+): QueryResult<T> {
+  const hash = hashQueryKey(key);
+  const keyRef = useRef(key);
+  const fetcherRef = useRef(fetcher);
+
+  useEffect(() => {
+    keyRef.current = key;
+    fetcherRef.current = fetcher;
+  });
+
+  const state = useSyncExternalStore(
+    cache.subscribe,
+    () => cache.getState<T>(key),
+    () => IDLE as QueryState<T>
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const release = cache.observe(keyRef.current);
+    cache.fetchQuery(keyRef.current, (context) => fetcherRef.current(context)).catch(() => undefined);
+    return release;
+  }, [cache, enabled, hash]);
+
+  const refetch = useCallback(
+    () =>
+      cache
+        .fetchQuery(keyRef.current, (context) => fetcherRef.current(context), { force: true })
+        .then(() => undefined, () => undefined),
+    [cache]
+  );
+
+  return {
+    data: enabled ? state.data : undefined,
+    error: enabled ? state.error : undefined,
+    isLoading: enabled && (state.status === 'loading' || (state.status === 'idle' && state.data === undefined)),
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
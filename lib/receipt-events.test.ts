@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { http, HttpResponse } from 'msw';
+import type { ReceiptEvent } from '@/types';
+import { server } from '@/tests/mocks/server';
+import { createMockEventStream } from '@/tests/mocks/event-stream';
+import { createEventStreamParser, parseReceiptEvent, subscribeToReceiptEvents } from './api';
+
+const API_BASE = 'http://localhost:8000';
+
+const statusEvent: ReceiptEvent = {
+    type: 'receipt.status',
+    receipt_id: 'receipt-123',
+    group_id: 'group-123',
+    status: 'completed',
+};
+
+const splitEvent: ReceiptEvent = {
+    type: 'split.updated',
+    receipt_id: 'receipt-123',
+    split_details: { '0': ['alice@test.com'] },
+};
+
+describe('receipt events', () => {
+    beforeEach(() => {
+        localStorage.setItem('token', 'mock-jwt-token-12345');
+        localStorage.setItem('rememberMe', 'true');
+    });
+
+    it('should parse events split across chunks', () => {
+        const messages: string[] = [];
+        const parse = createEventStreamParser((data) => messages.push(data));
+
+        parse(': keep-alive\n\nevent: receipt.status\ndata: {"a"');
+        expect(messages).toEqual([]);
+
+        parse(':1}\n\ndata: line one\r\ndata: line two\r\n\r\n');
+        expect(messages).toEqual(['{"a":1}', 'line one\nline two']);
+    });
+
+    it('should drop unknown and malformed events', () => {
+        expect(parseReceiptEvent(JSON.stringify(statusEvent))).toEqual(statusEvent);
+        expect(parseReceiptEvent('{"type":"group.deleted","receipt_id":"r1"}')).toBeNull();
+        expect(parseReceiptEvent('{"type":"receipt.status"}')).toBeNull();
+        expect(parseReceiptEvent('not json')).toBeNull();
+    });
+
+    it('should deliver events from the stream', async () => {
+        let authorization: string | null = null;
+        let groupIds: string[] = [];
+        server.use(
+            http.get(`${API_BASE}/events`, ({ request }) => {
+                authorization = request.headers.get('Authorization');
+                groupIds = new URL(request.url).searchParams.getAll('group_id');
+                return createMockEventStream([statusEvent, splitEvent]);
+            })
+        );
+
+        const onEvent = vi.fn();
+        const onTransportChange = vi.fn();
+        const unsubscribe = subscribeToReceiptEvents(onEvent, {
+            groupIds: ['group-123', 'group-456'],
+            transport: 'sse',
+            onTransportChange,
+        });
+
+        await vi.waitFor(() => expect(onEvent).toHaveBeenCalledTimes(2));
+        unsubscribe();
+
+        expect(onEvent.mock.calls.map(([event]) => event)).toEqual([statusEvent, splitEvent]);
+        expect(onTransportChange).toHaveBeenCalledWith('sse');
+        expect(authorization).toBe('Bearer mock-jwt-token-12345');
+        expect(groupIds).toEqual(['group-123', 'group-456']);
+    });
+
+    it('should fall back to polling when the stream is unavailable', async () => {
+        const cursors: (string | null)[] = [];
+        server.use(
+            http.get(`${API_BASE}/events`, () => HttpResponse.json({ detail: 'Not Found' }, { status: 404 })),
+            http.get(`${API_BASE}/events/poll`, ({ request }) => {
+                const since = new URL(request.url).searchParams.get('since');
+                cursors.push(since);
+                return HttpResponse.json({ events: since ? [] : [statusEvent], cursor: 'cursor-1' });
+            })
+        );
+
+        const onEvent = vi.fn();
+        const onTransportChange = vi.fn();
+        const onError = vi.fn();
+        const unsubscribe = subscribeToReceiptEvents(onEvent, { pollInterval: 10, onTransportChange, onError });
+
+        await vi.waitFor(() => expect(cursors.length).toBeGreaterThanOrEqual(2));
+        unsubscribe();
+
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 404 }));
+
+        expect(onTransportChange).toHaveBeenLastCalledWith('polling');
+        expect(onEvent).toHaveBeenCalledTimes(1);
+        expect(onEvent).toHaveBeenCalledWith(statusEvent);
+        expect(cursors.slice(0, 2)).toEqual([null, 'cursor-1']);
+    });
+
+    it('should reopen a closed stream and only poll while it is down', async () => {
+        let connections = 0;
+        let polls = 0;
+        server.use(
+            http.get(`${API_BASE}/events`, () => {
+                connections += 1;
+                if (connections === 1) return createMockEventStream([statusEvent]);
+                // The second stream stays open
+                const body = new ReadableStream({
+                    start(controller) {
+                        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(splitEvent)}\n\n`));
+                    },
+                });
+                return new HttpResponse(body, { headers: { 'Content-Type': 'text/event-stream' } });
+            }),
+            http.get(`${API_BASE}/events/poll`, () => {
+                polls += 1;
+                return HttpResponse.json({ events: [], cursor: 'cursor-1' });
+            })
+        );
+
+        const onEvent = vi.fn();
+        const onTransportChange = vi.fn();
+        const unsubscribe = subscribeToReceiptEvents(onEvent, { pollInterval: 60000, reconnectDelay: 10, onTransportChange });
+
+        await vi.waitFor(() => expect(onEvent).toHaveBeenCalledWith(splitEvent));
+        unsubscribe();
+
+        expect(onTransportChange.mock.calls.slice(0, 3).map(([transport]) => transport)).toEqual(['sse', 'polling', 'sse']);
+        expect(polls).toBe(1);
+    });
+
+    it('should report once while polling keeps failing', async () => {
+        let polls = 0;
+        server.use(
+            http.get(`${API_BASE}/events/poll`, () => {
+                polls += 1;
+                return HttpResponse.json({ detail: 'Unavailable' }, { status: 503 });
+            })
+        );
+
+        const onError = vi.fn();
+        const unsubscribe = subscribeToReceiptEvents(vi.fn(), { transport: 'polling', pollInterval: 10, onError });
+
+        await vi.waitFor(() => expect(polls).toBeGreaterThanOrEqual(3));
+        unsubscribe();
+
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,45 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ReceiptEvent } from '@/types';
+import { subscribeToReceiptEvents, type EventTransport } from '@/lib/api';
+
+/**
+ * Subscribe a component to receipt events for the given groups. The
+ * subscription is reopened only when the set of groups changes; the
+ * latest `onEvent` is always the one called.
+ *
+ * @example
+ * ```tsx
+ * const transport = useReceiptEvents((event) => {
+ *   if (event.type === 'split.updated') reload(event.receipt_id);
+ * }, { groupIds: [groupId] });
+ * ```
+ */
+export function useReceiptEvents(
+  onEvent: (event: ReceiptEvent) => void,
+  { groupIds, enabled = true }: { groupIds?: string[]; enabled?: boolean } = {}
+): EventTransport | null {
+  const handlerRef = useRef(onEvent);
+  const [transport, setTransport] = useState<EventTransport | null>(null);
+  const groupKey = groupIds?.join(',') ?? '';
+
+  useEffect(() => {
+    handlerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribe = subscribeToReceiptEvents((event) => handlerRef.current(event), {
+      groupIds: groupKey ? groupKey.split(',') : undefined,
+      onTransportChange: setTransport,
+    });
+    return () => {
+      unsubscribe();
+      setTransport(null);
+    };
+  }, [enabled, groupKey]);
+
+  return transport;
+}
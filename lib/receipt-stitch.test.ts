@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { findBoundaryDuplicates, findOverlap, rowSignatures } from './receipt-stitch';
+import type { LineItem } from '@/types';
+
+const BINS = 16;
+
+/** Deterministic "printed" rows: every strip a different shade */
+function printedRows(count: number, seed: number) {
+    const rows = new Float32Array(count * BINS);
+    let state = seed;
+    for (let i = 0; i < rows.length; i++) {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        rows[i] = state % 256;
+    }
+    return rows;
+}
+
+function concat(...parts: Float32Array[]) {
+    const result = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach((part) => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+}
+
+const item = (name: string, line_subtotal: number, image_index?: number): LineItem => ({
+    name_raw: name,
+    quantity: 1,
+    unit_price: line_subtotal,
+    line_subtotal,
+    taxable: false,
+    ...(image_index !== undefined ? { image_index } : {}),
+});
+
+describe('lib/receipt-stitch', () => {
+    it('should average each row into strips', () => {
+        // 4x1 image: two black pixels, then two white ones
+        const pixels = new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 255, 255, 255, 255, 255, 255, 255, 255, 255]);
+        expect(Array.from(rowSignatures(pixels, 4, 1, 2))).toEqual([0, 255]);
+    });
+
+    it('should find where the next photo repeats the bottom of the previous one', () => {
+        const upper = printedRows(100, 1);
+        const lower = concat(upper.slice(70 * BINS), printedRows(80, 2));
+
+        expect(findOverlap(upper, lower)).toBe(30);
+    });
+
+    it('should not match photos that do not overlap, or blank paper', () => {
+        expect(findOverlap(printedRows(100, 1), printedRows(100, 2))).toBeNull();
+
+        const blank = new Float32Array(100 * BINS).fill(250);
+        expect(findOverlap(blank, blank)).toBeNull();
+    });
+
+    it('should propose lines read twice across photo seams only', () => {
+        const items = [
+            item('Milk', 2.99, 0),
+            item('Milk', 2.99, 0),
+            item('Bread', 3.5, 0),
+            item('Eggs', 4.25, 0),
+            item('Bread', 3.5, 1),
+            item('EGGS', 4.25, 1),
+            item('Apples', 5, 1),
+        ];
+
+        // The two Milk lines are separate purchases inside one photo
+        expect(findBoundaryDuplicates(items)).toEqual([4, 5]);
+
+        // Without photo positions (or within one stitched photo) nothing is proposed
+        expect(findBoundaryDuplicates(items.map((line) => ({ ...line, image_index: undefined })))).toEqual([]);
+        expect(findBoundaryDuplicates(items.map((line) => ({ ...line, image_index: 0 })))).toEqual([]);
+    });
+});
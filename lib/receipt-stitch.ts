@@ -0,0 +1,240 @@
+/**
+ * Long receipt stitching
+ *
+ * Long receipts are photographed in parts, top to bottom, each photo
+ * overlapping the one before. `autoAlign` finds the overlaps by matching
+ * rows of pixels and `stitchImages` draws the parts into one tall image so
+ * the OCR reads every line once. Receipts uploaded as separate photos can
+ * still have lines read twice where the photos meet; `findBoundaryDuplicates`
+ * points them out for the user to remove.
+ *
+ * @example
+ * ```ts
+ * const parts = await loadStitchParts(files);
+ * const width = commonWidth(parts);
+ * const overlaps = autoAlign(parts, width).map((rows) => rows ?? 0);
+ * const file = await stitchImages(parts, overlaps, width);
+ * ```
+ */
+
+import { markPreprocessed, prepareForUpload } from '@/lib/image-preprocess';
+import type { LineItem } from '@/types';
+
+/** Width the photos are compared at; row matching needs no more */
+const SAMPLE_WIDTH = 160;
+const SIGNATURE_BINS = 16;
+
+/** Stay inside the canvas limits of mobile Safari */
+const MAX_HEIGHT = 16000;
+const MAX_PIXELS = 16_000_000;
+
+export interface StitchPart {
+  file: File;
+  bitmap: ImageBitmap;
+}
+
+/** Decode the photos, upright and preprocessed like any other upload */
+export function loadStitchParts(files: File[]): Promise<StitchPart[]> {
+  return Promise.all(
+    files.map(async (original) => {
+      const { file } = await prepareForUpload(original);
+      return { file, bitmap: await createImageBitmap(file) };
+    })
+  );
+}
+
+/** Parts are scaled to the narrowest photo so none is enlarged */
+export function commonWidth(parts: StitchPart[]): number {
+  return Math.min(...parts.map((part) => part.bitmap.width));
+}
+
+export function scaledHeights(parts: StitchPart[], width: number): number[] {
+  return parts.map((part) => Math.round((part.bitmap.height * width) / part.bitmap.width));
+}
+
+// ============================================
+// Alignment
+// ============================================
+
+/**
+ * Mean brightness of `bins` vertical strips for every row of an RGBA image.
+ */
+export function rowSignatures(pixels: Uint8ClampedArray, width: number, height: number, bins = SIGNATURE_BINS) {
+  const signatures = new Float32Array(height * bins);
+  const counts = new Float32Array(bins);
+  for (let x = 0; x < width; x++) counts[Math.floor((x * bins) / width)]++;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      signatures[y * bins + Math.floor((x * bins) / width)] +=
+        0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+    }
+    for (let bin = 0; bin < bins; bin++) signatures[y * bins + bin] /= counts[bin];
+  }
+  return signatures;
+}
+
+export interface OverlapOptions {
+  bins?: number;
+  minRows?: number;
+  /** Largest overlap tried, as a share of the shorter image */
+  maxShare?: number;
+  /** Largest mean difference still accepted as a match */
+  tolerance?: number;
+}
+
+/**
+ * Rows at the bottom of `upper` that repeat at the top of `lower`, or null
+ * when no overlap matches well enough. Overlaps of blank paper match
+ * anything, so a candidate needs rows with print in it.
+ */
+export function findOverlap(
+  upper: Float32Array,
+  lower: Float32Array,
+  { bins = SIGNATURE_BINS, minRows = 4, maxShare = 0.7, tolerance = 12 }: OverlapOptions = {}
+): number | null {
+  const upperRows = upper.length / bins;
+  const lowerRows = lower.length / bins;
+  const maxRows = Math.floor(Math.min(upperRows, lowerRows) * maxShare);
+
+  // A row has print when its strips differ in brightness
+  const printed: number[] = [0];
+  for (let row = 0; row < lowerRows; row++) {
+    const strips = lower.subarray(row * bins, (row + 1) * bins);
+    printed.push(printed[row] + (Math.max(...strips) - Math.min(...strips) > 20 ? 1 : 0));
+  }
+
+  let best: number | null = null;
+  let bestScore = tolerance;
+  for (let rows = minRows; rows <= maxRows; rows++) {
+    if (printed[rows] < Math.max(2, rows * 0.1)) continue;
+
+    const start = (upperRows - rows) * bins;
+    let difference = 0;
+    for (let i = 0; i < rows * bins; i++) difference += Math.abs(upper[start + i] - lower[i]);
+    const score = difference / (rows * bins);
+    if (score < bestScore) {
+      bestScore = score;
+      best = rows;
+    }
+  }
+  return best;
+}
+
+function sampleSignatures(bitmap: ImageBitmap) {
+  const width = SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round((bitmap.height * width) / bitmap.width));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Image processing is not supported in this browser');
+  context.drawImage(bitmap, 0, 0, width, height);
+  return rowSignatures(context.getImageData(0, 0, width, height).data, width, height);
+}
+
+/**
+ * Overlap between each part and the next, in rows at `width`; null where
+ * the photos could not be matched and need lining up by hand.
+ */
+export function autoAlign(parts: StitchPart[], width: number): (number | null)[] {
+  const signatures = parts.map((part) => sampleSignatures(part.bitmap));
+  return signatures.slice(1).map((lower, i) => {
+    const rows = findOverlap(signatures[i], lower);
+    return rows === null ? null : Math.round((rows * width) / SAMPLE_WIDTH);
+  });
+}
+
+// ============================================
+// Stitching
+// ============================================
+
+/**
+ * Draw the parts top to bottom, each `overlaps[i]` rows over the one before.
+ */
+export function stitchImages(parts: StitchPart[], overlaps: number[], width: number): Promise<File> {
+  const heights = scaledHeights(parts, width);
+  const tops = heights.map((_, i) =>
+    heights.slice(0, i).reduce((sum, height, j) => sum + height - overlaps[j], 0)
+  );
+  const fullHeight = tops[tops.length - 1] + heights[heights.length - 1];
+  const scale = Math.min(1, MAX_HEIGHT / fullHeight, Math.sqrt(MAX_PIXELS / (width * fullHeight)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(fullHeight * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('Image processing is not supported in this browser'));
+
+  parts.forEach((part, i) => {
+    context.drawImage(part.bitmap, 0, Math.round(tops[i] * scale), canvas.width, Math.round(heights[i] * scale));
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Could not stitch the photos'));
+          return;
+        }
+        const file = new File([blob], `receipt-items-stitched-${Date.now()}.jpg`, { type: 'image/jpeg' });
+        markPreprocessed(file, canvas.width, canvas.height);
+        resolve(file);
+      },
+      'image/jpeg',
+      0.9
+    );
+  });
+}
+
+// ============================================
+// Duplicate lines
+// ============================================
+
+/** Longest run of lines that a single overlap is expected to repeat */
+const MAX_REPEATED_LINES = 6;
+
+const sameLine = (a: LineItem, b: LineItem) =>
+  a.name_raw.toLowerCase().replace(/[^a-z0-9]/g, '') === b.name_raw.toLowerCase().replace(/[^a-z0-9]/g, '') &&
+  a.line_subtotal === b.line_subtotal;
+
+/** Indices where the lines switch from one uploaded photo to the next */
+export function seamPositions(items: LineItem[]): number[] {
+  const seams: number[] = [];
+  for (let i = 1; i < items.length; i++) {
+    const previous = items[i - 1].image_index;
+    const current = items[i].image_index;
+    if (previous != null && current != null && current !== previous) seams.push(i);
+  }
+  return seams;
+}
+
+/**
+ * Indices of lines that look read twice where two uploaded photos meet: the
+ * longest run just after a seam that repeats the run just before it. Only
+ * seams reported by the OCR (`image_index`) are compared, so repeated
+ * purchases elsewhere, and everything inside a stitched photo, are left
+ * alone. The result is a proposal to show the user, not an edit.
+ */
+export function findBoundaryDuplicates(items: LineItem[]): number[] {
+  const seams = seamPositions(items);
+  const duplicates: number[] = [];
+  seams.forEach((seam, n) => {
+    // Both runs stay within the photos on either side of this seam
+    const before = seam - (seams[n - 1] ?? 0);
+    const after = (seams[n + 1] ?? items.length) - seam;
+    const longest = Math.min(MAX_REPEATED_LINES, before, after);
+    for (let length = longest; length > 0; length--) {
+      let repeated = true;
+      for (let i = 0; i < length && repeated; i++) {
+        repeated = sameLine(items[seam - length + i], items[seam + i]);
+      }
+      if (repeated) {
+        for (let i = 0; i < length; i++) duplicates.push(seam + i);
+        break;
+      }
+    }
+  });
+  return duplicates;
+}
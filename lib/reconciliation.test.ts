@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileReceipt } from './reconciliation';
+import { getTaxProfile } from './tax';
+
+const hst = getTaxProfile('ca-on-hst');
+
+const lines = [
+    { name_raw: 'Milk', quantity: 2, unit_price: 3.5, line_subtotal: 7, taxable: false },
+    { name_raw: 'Paper Towels', quantity: 1, unit_price: 10, line_subtotal: 10, taxable: true },
+];
+
+const charges = {
+    subtotal_items: 17,
+    fees: [],
+    discounts: [],
+    total_tax_reported: 1.3,
+    grand_total: 18.3,
+};
+
+describe('lib/reconciliation', () => {
+    it('should balance when the items match the receipt', () => {
+        const result = reconcileReceipt(lines, charges, hst);
+        expect(result.balanced).toBe(true);
+        expect(result.suspects).toEqual([]);
+    });
+
+    it('should not fail totals that were not reported', () => {
+        const result = reconcileReceipt(lines, null, hst);
+        expect(result.balanced).toBe(true);
+        expect(result.checks.every((c) => c.reported == null)).toBe(true);
+    });
+
+    it('should flag a missing line and point at lines without a quantity', () => {
+        const result = reconcileReceipt(
+            [...lines, { name_raw: 'Eggs', quantity: null, unit_price: 4.25, line_subtotal: 4.25, taxable: false }],
+            { ...charges, subtotal_items: 21.25, grand_total: 22.55 },
+            hst
+        );
+
+        expect(result.balanced).toBe(false);
+        expect(result.difference).toBe(-4.25);
+        expect(result.checks.find((c) => c.field === 'subtotal')?.ok).toBe(false);
+        expect(result.checks.find((c) => c.field === 'tax')?.ok).toBe(true);
+        expect(result.suspects.map((s) => [s.index, s.reason])).toEqual([[2, 'missing_quantity']]);
+    });
+
+    it('should flag duplicates that match the surplus', () => {
+        const result = reconcileReceipt([...lines, lines[0]], charges, hst);
+
+        expect(result.difference).toBe(7);
+        expect(result.suspects.map((s) => [s.index, s.reason])).toEqual([
+            [0, 'matches_gap'],
+            [2, 'duplicate'],
+            [2, 'matches_gap'],
+        ]);
+    });
+
+    it('should flag lines whose price disagrees with the printed subtotal', () => {
+        const result = reconcileReceipt(
+            [{ ...lines[0], unit_price: 3.75 }, lines[1]],
+            charges,
+            hst
+        );
+
+        expect(result.suspects.map((s) => s.reason)).toContain('subtotal_mismatch');
+        expect(result.suspects.find((s) => s.reason === 'missing_subtotal')).toBeUndefined();
+    });
+});
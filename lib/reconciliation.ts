@@ -0,0 +1,167 @@
+import type { ChargesAnalysis, TaxProfile } from '@/types';
+import { computeTaxTotals } from './tax';
+
+/**
+ * Receipt reconciliation
+ *
+ * Compares the totals recomputed from the (edited) line items against the
+ * subtotal, tax and grand total reported on the receipt, and points at the
+ * lines most likely to explain a gap.
+ *
+ * @example
+ * ```ts
+ * const result = reconcileReceipt(editableItems, chargesData, taxProfile);
+ * if (!result.balanced) console.log(result.checks, result.suspects);
+ * ```
+ */
+
+export const RECONCILE_TOLERANCE = 0.01;
+
+export interface ReconcileLine {
+  name_raw: string;
+  quantity: number | null;
+  unit_price: number | null;
+  line_subtotal: number | null;
+  taxable?: boolean;
+  tax_class?: string;
+}
+
+export type ReconciliationField = 'subtotal' | 'tax' | 'grand_total';
+
+export interface ReconciliationCheck {
+  field: ReconciliationField;
+  label: string;
+  computed: number;
+  reported: number | null;
+  difference: number; // computed - reported, 0 when nothing was reported
+  ok: boolean;
+}
+
+export type SuspectReason =
+  | 'missing_quantity'
+  | 'missing_subtotal'
+  | 'subtotal_mismatch'
+  | 'duplicate'
+  | 'matches_gap';
+
+export interface SuspectLine {
+  index: number;
+  name: string;
+  reason: SuspectReason;
+  message: string;
+}
+
+export interface ReconciliationResult {
+  checks: ReconciliationCheck[];
+  suspects: SuspectLine[];
+  balanced: boolean;
+  difference: number; // grand total gap, or subtotal gap when no grand total was reported
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount a line contributes: quantity × unit price, as in the items table,
+ * or the printed subtotal when no price was read. Lines without a quantity
+ * are not counted.
+ */
+export function lineAmount(line: ReconcileLine): number | null {
+  if (line.quantity == null) return null;
+  if (line.unit_price == null) return line.line_subtotal;
+  return line.quantity * line.unit_price;
+}
+
+function check(
+  field: ReconciliationField,
+  label: string,
+  computed: number,
+  reported: number | null | undefined,
+  tolerance: number
+): ReconciliationCheck {
+  const value = reported ?? null;
+  const difference = value == null ? 0 : round2(computed - value);
+  return { field, label, computed: round2(computed), reported: value, difference, ok: Math.abs(difference) <= tolerance };
+}
+
+function findSuspects(lines: ReconcileLine[], subtotalGap: number, tolerance: number): SuspectLine[] {
+  const suspects: SuspectLine[] = [];
+  const seen = new Map<string, number>();
+
+  lines.forEach((line, index) => {
+    const name = line.name_raw || `Item ${index + 1}`;
+    const amount = lineAmount(line);
+
+    if (line.quantity == null || line.quantity <= 0) {
+      suspects.push({ index, name, reason: 'missing_quantity', message: 'No quantity, so the line is not counted' });
+    }
+    if (line.line_subtotal == null) {
+      suspects.push({ index, name, reason: 'missing_subtotal', message: 'No subtotal was read from the receipt' });
+    } else if (amount != null && Math.abs(amount - line.line_subtotal) > tolerance) {
+      suspects.push({
+        index,
+        name,
+        reason: 'subtotal_mismatch',
+        message: `Quantity × price is ${amount.toFixed(2)} but the receipt shows ${line.line_subtotal.toFixed(2)}`,
+      });
+    }
+
+    const key = `${name.trim().toLowerCase()}|${amount == null ? '' : round2(amount)}`;
+    const first = seen.get(key);
+    if (first != null) {
+      suspects.push({ index, name, reason: 'duplicate', message: `Same name and amount as line ${first + 1}` });
+    } else {
+      seen.set(key, index);
+    }
+
+    if (amount != null && Math.abs(subtotalGap) > tolerance && Math.abs(Math.abs(amount) - Math.abs(subtotalGap)) <= tolerance) {
+      suspects.push({
+        index,
+        name,
+        reason: 'matches_gap',
+        message: subtotalGap > 0 ? 'Amount equals the surplus over the receipt' : 'Amount equals what is missing',
+      });
+    }
+  });
+
+  return suspects;
+}
+
+/**
+ * Reconcile line items with the reported charges. Totals that were not
+ * reported are listed but never fail.
+ */
+export function reconcileReceipt(
+  lines: ReconcileLine[],
+  charges: ChargesAnalysis | null | undefined,
+  profile: TaxProfile,
+  tolerance = RECONCILE_TOLERANCE
+): ReconciliationResult {
+  const fees = charges?.fees ?? [];
+  const discounts = charges?.discounts ?? [];
+
+  const subtotal = lines.reduce((sum, line) => sum + (lineAmount(line) ?? 0), 0);
+  const tax = computeTaxTotals(
+    [
+      ...lines.map((line) => ({ ...line, amount: lineAmount(line) ?? 0 })),
+      ...fees.map((fee) => ({ amount: fee.amount, taxable: fee.taxable })),
+    ],
+    profile
+  ).tax;
+  const feesTotal = fees.reduce((sum, fee) => sum + fee.amount, 0);
+  const discountsTotal = discounts.reduce((sum, discount) => sum + Math.abs(discount.amount), 0);
+  const grandTotal = subtotal + feesTotal - discountsTotal + (profile.inclusive ? 0 : tax);
+
+  const checks = [
+    check('subtotal', 'Items subtotal', subtotal, charges?.subtotal_items, tolerance),
+    check('tax', 'Tax', tax, charges?.total_tax_reported, tolerance),
+    check('grand_total', 'Grand total', grandTotal, charges?.grand_total, tolerance),
+  ];
+  const [subtotalCheck, , grandCheck] = checks;
+
+  return {
+    checks,
+    suspects: findSuspects(lines, subtotalCheck.difference, tolerance),
+    balanced: checks.every((c) => c.ok),
+    difference: grandCheck.reported != null ? grandCheck.difference : subtotalCheck.difference,
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+    ApiSchemaError,
+    ChargesAnalysisSchema,
+    ItemsAnalysisSchema,
+    parseResponse,
+    ReceiptEventBatchSchema,
+    ReceiptSchema,
+} from './schemas';
+
+const receipt = {
+    _id: 'receipt-1',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    status: 'completed',
+};
+
+describe('lib/schemas', () => {
+    it('should map legacy line item fields onto LineItem and keep missing values', () => {
+        const items = ItemsAnalysisSchema.parse({
+            line_items: [
+                { description: 'Caesar Salad', total_price: 12, quantity: 2 },
+                { name_raw: 'Pizza', unit_price: '9.50', taxable: 'true' },
+            ],
+        });
+
+        expect(items.line_items).toEqual([
+            { name_raw: 'Caesar Salad', quantity: 2, unit_price: null, line_subtotal: 12, taxable: false },
+            { name_raw: 'Pizza', quantity: null, unit_price: 9.5, line_subtotal: null, taxable: true },
+        ]);
+    });
+
+    it('should read decimal commas and reject ambiguous amounts', () => {
+        const items = ItemsAnalysisSchema.parse({
+            line_items: [
+                { name_raw: 'Coffee', line_subtotal: '12,50' },
+                { name_raw: 'Laptop', line_subtotal: '1,299.00' },
+            ],
+        });
+
+        expect(items.line_items.map((item) => item.line_subtotal)).toEqual([12.5, 1299]);
+        expect(() => ItemsAnalysisSchema.parse({ line_items: [{ name_raw: 'Tea', line_subtotal: '1.2.3' }] })).toThrow();
+    });
+
+    it('should parse analyses sent as JSON strings and fill in defaults', () => {
+        const charges = ChargesAnalysisSchema.parse(
+            JSON.stringify({ subtotal_items: '$1,020.00', fees: [{ type: 'Delivery', amount: 4 }], grand_total: null })
+        );
+
+        expect(charges).toEqual({
+            subtotal_items: 1020,
+            fees: [{ type: 'Delivery', amount: 4, taxable: false }],
+            discounts: [],
+            total_tax_reported: null,
+            grand_total: null,
+        });
+    });
+
+    it('should normalize receipts from the API', () => {
+        const parsed = ReceiptSchema.parse({
+            ...receipt,
+            _id: undefined,
+            id: 'receipt-2',
+            status: 'PROCESSED',
+            payments: null,
+            items_analysis: '{"line_items":[{"description":"Tea","total_price":3}]}',
+            name: 'Lunch',
+        });
+
+        expect(parsed._id).toBe('receipt-2');
+        expect(parsed.status).toBe('completed');
+        expect(parsed.payments).toBeUndefined();
+        expect(parsed.items_analysis?.line_items[0]).toMatchObject({ name_raw: 'Tea', line_subtotal: 3 });
+        expect(parsed).toMatchObject({ name: 'Lunch' });
+    });
+
+    it('should name the fields that drifted', () => {
+        const drifted = {
+            ...receipt,
+            items_analysis: { line_items: [{ name_raw: 'Tea', quantity: 'two' }] },
+        };
+
+        expect(() => parseResponse(ReceiptSchema, drifted, '/receipt/receipt-1')).toThrow(ApiSchemaError);
+        expect(() => parseResponse(ReceiptSchema, drifted, '/receipt/receipt-1'))
+            .toThrow(/\/receipt\/receipt-1: items_analysis\.line_items\.0\.quantity/);
+        expect(() => parseResponse(ReceiptSchema, { ...receipt, items_analysis: 'not json' }, '/receipt/receipt-1'))
+            .toThrow(/items_analysis/);
+    });
+
+    it('should drop unknown events from a batch', () => {
+        const batch = ReceiptEventBatchSchema.parse({
+            cursor: 'c1',
+            events: [
+                { type: 'receipt.status', receipt_id: 'r1', status: 'processing' },
+                { type: 'group.deleted', group_id: 'g1' },
+            ],
+        });
+
+        expect(batch.events).toEqual([{ type: 'receipt.status', receipt_id: 'r1', status: 'processing' }]);
+    });
+});
@@ -0,0 +1,349 @@
+import { z } from 'zod';
+import { parseAmount } from '@/lib/csv-import';
+import type {
+  ChargesAnalysis,
+  ClassificationRule,
+  Discount,
+  ExchangeRate,
+  Fee,
+  Folder,
+  Group,
+  GroupInvitation,
+  ItemsAnalysis,
+  ItemSplitWeights,
+  LineItem,
+  Receipt,
+  ReceiptEvent,
+  ReceiptEventBatch,
+  ReceiptMember,
+  ReceiptPayment,
+} from '@/types';
+
+/**
+ * Runtime schemas for API responses
+ *
+ * Every response is validated once, in `lib/api.ts`. The analysis schemas
+ * also normalize what the LLM produced: JSON strings are parsed, numbers
+ * written as strings are converted, and legacy field names
+ * (`description`, `total_price`) are mapped onto `LineItem`. Anything that
+ * still does not fit raises an `ApiSchemaError` naming the offending fields.
+ *
+ * @example
+ * ```ts
+ * const receipt = parseResponse(ReceiptSchema, await response.json(), '/receipt/123');
+ * receipt.items_analysis?.line_items[0].line_subtotal; // number | null
+ * ```
+ */
+
+export class ApiSchemaError extends Error {
+  readonly endpoint: string;
+  readonly issues: z.ZodError['issues'];
+
+  constructor(endpoint: string, issues: z.ZodError['issues']) {
+    const details = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      .join('; ');
+    super(`Unexpected response from ${endpoint}: ${details}`);
+    this.name = 'ApiSchemaError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export function parseResponse<T>(schema: z.ZodType<T>, data: unknown, endpoint: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiSchemaError(endpoint, result.error.issues);
+  }
+  return result.data;
+}
+
+// ============================================
+// Normalizing primitives
+// ============================================
+
+/**
+ * Amounts may arrive as "12.50", "$1,299.00" or "12,50" and are read like
+ * CSV amounts (`parseAmount`); blanks become null
+ */
+const amount = z.preprocess((value) => {
+  if (value == null) return null;
+  if (typeof value === 'string') {
+    const parsed = parseAmount(value);
+    return Number.isNaN(parsed) ? value : parsed; // Unreadable text is reported as "expected number"
+  }
+  return value;
+}, z.number().nullable());
+
+const flag = z.preprocess((value) => {
+  if (typeof value === 'string') return ['true', 'yes', 'y', '1'].includes(value.trim().toLowerCase());
+  return value ?? false;
+}, z.boolean());
+
+/** Optional field that the backend may send as null */
+const optional = <T extends z.ZodType>(schema: T) =>
+  schema.nullish().transform((value) => value ?? undefined);
+
+/** Objects the LLM endpoints sometimes return as JSON strings */
+const jsonValue = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value; // Reported as "expected object, received string"
+    }
+  }, schema);
+
+// ============================================
+// Receipt analysis
+// ============================================
+
+export const LineItemSchema: z.ZodType<LineItem> = z
+  .object({
+    name_raw: z.string().nullish(),
+    description: z.string().nullish(), // Legacy name field
+    quantity: amount.optional(),
+    unit_price: amount.optional(),
+    line_subtotal: amount.optional(),
+    total_price: amount.optional(), // Legacy subtotal field
+    taxable: flag.optional(),
+    tax_class: z.string().nullish(),
+    image_index: z.number().int().nullish(),
+  })
+  // Missing values stay null so reconciliation can point them out; they are
+  // derived where amounts are needed (`lineAmount`, `receiptSplitLines`)
+  .transform((item) => ({
+    name_raw: item.name_raw ?? item.description ?? '',
+    quantity: item.quantity ?? null,
+    unit_price: item.unit_price ?? null,
+    line_subtotal: item.line_subtotal ?? item.total_price ?? null,
+    taxable: item.taxable ?? false,
+    ...(item.tax_class ? { tax_class: item.tax_class } : {}),
+    ...(item.image_index != null ? { image_index: item.image_index } : {}),
+  }));
+
+export const ItemsAnalysisSchema: z.ZodType<ItemsAnalysis> = jsonValue(
+  z.object({
+    line_items: z.array(LineItemSchema).nullish().transform((items) => items ?? []),
+    merchant_name: optional(z.string()),
+  })
+);
+
+const FeeSchema: z.ZodType<Fee> = z.object({
+  type: z.string().nullish().transform((type) => type || 'fee'),
+  amount: amount.transform((value) => value ?? 0),
+  taxable: flag.optional().transform((taxable) => taxable ?? false),
+});
+
+const DiscountSchema: z.ZodType<Discount> = z.object({
+  description: z.string().nullish().transform((description) => description ?? ''),
+  amount: amount.transform((value) => value ?? 0),
+});
+
+export const ChargesAnalysisSchema: z.ZodType<ChargesAnalysis> = jsonValue(
+  z.object({
+    subtotal_items: amount.optional().transform((value) => value ?? null),
+    fees: z.array(FeeSchema).nullish().transform((fees) => fees ?? []),
+    discounts: z.array(DiscountSchema).nullish().transform((discounts) => discounts ?? []),
+    total_tax_reported: amount.optional().transform((value) => value ?? null),
+    grand_total: amount.optional().transform((value) => value ?? null),
+    currency: z.string().nullish(),
+    tax_profile_id: z.string().nullish(),
+    tax_inclusive: optional(z.boolean()),
+  })
+);
+
+// ============================================
+// Receipts
+// ============================================
+
+const ReceiptStatusSchema = z.preprocess(
+  // Older receipts report "PROCESSED" once extraction finished
+  (status) => (typeof status === 'string' && status.toLowerCase() === 'processed' ? 'completed' : status),
+  z.enum(['pending', 'processing', 'completed', 'error'])
+);
+
+const ReceiptPaymentSchema: z.ZodType<ReceiptPayment> = z.object({
+  email: z.string(),
+  amount: z.number(),
+});
+
+export const ExchangeRateSchema: z.ZodType<ExchangeRate> = z.object({
+  base: z.string(),
+  quote: z.string(),
+  rate: z.number(),
+  source: z.enum(['manual', 'imported']),
+  as_of: z.string(),
+});
+
+const ItemSplitWeightsSchema: z.ZodType<ItemSplitWeights> = z.object({
+  mode: z.enum(['equal', 'shares', 'percent', 'fixed', 'units']),
+  weights: z.record(z.string(), z.number()),
+});
+
+const SplitDetailsSchema = z.record(z.string(), z.array(z.string()));
+
+const ChargeSpreadModeSchema = z.enum(['proportional', 'even']);
+
+export const ReceiptSchema: z.ZodType<Receipt> = z.preprocess(
+  // Some endpoints return `id` instead of the MongoDB `_id`
+  (value) => {
+    const raw = value as { _id?: unknown; id?: unknown } | null;
+    return raw && typeof raw === 'object' && raw._id == null && raw.id != null ? { ...raw, _id: raw.id } : value;
+  },
+  z.looseObject({
+    _id: z.string(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    status: ReceiptStatusSchema,
+    folder_id: optional(z.string()),
+    group_id: optional(z.string()),
+    uploaded_by: optional(z.string()),
+    paid_by: z.string().nullish(),
+    payments: optional(z.array(ReceiptPaymentSchema)),
+    items_analysis: ItemsAnalysisSchema.nullish(),
+    charges_analysis: ChargesAnalysisSchema.nullish(),
+    split_details: optional(SplitDetailsSchema),
+    split_weights: optional(z.record(z.string(), ItemSplitWeightsSchema)),
+    split_spread_mode: optional(ChargeSpreadModeSchema),
+    currency: optional(z.string()),
+    exchange_rate: ExchangeRateSchema.nullish(),
+    tax_profile_id: z.string().nullish(),
+    image_urls: optional(z.array(z.string())),
+    charges_image_url: optional(z.string()),
+  })
+);
+
+export const ReceiptListSchema = z.array(ReceiptSchema);
+
+export const UploadResponseSchema = z.object({
+  receipt_id: z.string(),
+  status: ReceiptStatusSchema,
+  message: z.string().default(''),
+});
+
+/** What the split endpoint echoes back after saving */
+export const SplitResultSchema = z.looseObject({
+  split_details: optional(SplitDetailsSchema),
+  split_weights: optional(z.record(z.string(), ItemSplitWeightsSchema)),
+  split_spread_mode: optional(ChargeSpreadModeSchema),
+});
+
+// ============================================
+// Groups & Folders
+// ============================================
+
+const MemberSchema: z.ZodType<ReceiptMember> = z.object({
+  email: z.string(),
+  role: z.enum(['admin', 'member']),
+  joined_at: z.string().default(''),
+});
+
+export const GroupSchema: z.ZodType<Group> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  members: z.array(MemberSchema),
+  folder_id: z.string().nullish(),
+  receipt_ids: optional(z.array(z.string())),
+  base_currency: optional(z.string()),
+  tax_profile_id: z.string().nullish(),
+});
+
+export const GroupListSchema = z.array(GroupSchema);
+
+export const GroupInvitationSchema: z.ZodType<GroupInvitation> = z.looseObject({
+  id: z.string(),
+  group_id: z.string(),
+  group_name: z.string(),
+  email: z.string().nullish().transform((email) => email ?? null),
+  code: z.string(),
+  role: z.enum(['admin', 'member']),
+  status: z.enum(['pending', 'accepted', 'declined', 'expired']),
+  invited_by: z.string(),
+  created_at: z.string(),
+  expires_at: z.string().nullish().transform((date) => date ?? null),
+  accepted_by: optional(z.array(z.string())),
+});
+
+export const GroupInvitationListSchema = z.array(GroupInvitationSchema);
+
+export const FolderSchema: z.ZodType<Folder> = z.looseObject({
+  id: z.string(),
+  name: z.string(),
+  color: z.string(),
+  created_by: z.string(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  receipt_count: z.number().default(0),
+});
+
+export const FolderListSchema = z.array(FolderSchema);
+
+export const MessageSchema = z.object({ message: z.string() });
+
+export const ExchangeRateQuoteSchema = z.object({
+  rate: z.number().positive(),
+  as_of: z.string(),
+});
+
+// ============================================
+// Classification Rules
+// ============================================
+
+const ClassificationRuleSchema: z.ZodType<ClassificationRule> = z.object({
+  id: z.string(),
+  match: z.enum(['word', 'regex']),
+  pattern: z.string(),
+  kind: z.enum(['item', 'fee', 'discount']),
+  merchant: z.string().nullish(),
+});
+
+/** `rules` is null until the account saves its own set */
+export const ClassificationRulesSchema = z.object({
+  rules: z.array(ClassificationRuleSchema).nullable(),
+});
+
+// ============================================
+// Receipt Events
+// ============================================
+
+export const ReceiptEventSchema: z.ZodType<ReceiptEvent> = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('receipt.status'),
+    receipt_id: z.string(),
+    group_id: optional(z.string()),
+    status: ReceiptStatusSchema,
+    receipt: optional(ReceiptSchema),
+  }),
+  z.object({
+    type: z.literal('receipt.added'),
+    receipt_id: z.string(),
+    group_id: z.string(),
+    receipt: optional(ReceiptSchema),
+  }),
+  z.object({
+    type: z.literal('split.updated'),
+    receipt_id: z.string(),
+    group_id: optional(z.string()),
+    split_details: SplitDetailsSchema,
+    split_weights: optional(z.record(z.string(), ItemSplitWeightsSchema)),
+    split_spread_mode: optional(ChargeSpreadModeSchema),
+  }),
+]);
+
+/** Unknown or malformed events in a batch are dropped, not fatal */
+export const ReceiptEventBatchSchema: z.ZodType<ReceiptEventBatch> = z.object({
+  events: z.array(z.unknown()).transform((events) =>
+    events.flatMap((event) => {
+      const parsed = ReceiptEventSchema.safeParse(event);
+      return parsed.success ? [parsed.data] : [];
+    })
+  ),
+  cursor: z.string(),
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import type { Receipt } from '@/types';
+import { computeSplit } from './split-engine';
+import { computeGroupLedger, computeReceiptNet, simplifyDebts, validatePayments } from './settlement';
+
+const members = ['alice@test.com', 'bob@test.com', 'charlie@test.com'];
+
+const makeReceipt = (overrides: Partial<Receipt>): Receipt => ({
+    _id: 'receipt-1',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    status: 'completed',
+    items_analysis: {
+        line_items: [
+            { name_raw: 'Pizza', quantity: 1, unit_price: 30, line_subtotal: 30 },
+            { name_raw: 'Wine', quantity: 1, unit_price: 15, line_subtotal: 15 },
+        ],
+    },
+    ...overrides,
+});
+
+describe('lib/settlement', () => {
+    describe('simplifyDebts', () => {
+        it('should settle every balance with at most n - 1 transfers', () => {
+            const transfers = simplifyDebts({
+                'alice@test.com': 30,
+                'bob@test.com': -10,
+                'charlie@test.com': -20,
+            });
+
+            expect(transfers).toEqual([
+                { from: 'charlie@test.com', to: 'alice@test.com', amount: 20 },
+                { from: 'bob@test.com', to: 'alice@test.com', amount: 10 },
+            ]);
+        });
+
+        it('should return nothing when everyone is even', () => {
+            expect(simplifyDebts({ 'alice@test.com': 0, 'bob@test.com': 0 })).toEqual([]);
+        });
+    });
+
+    describe('computeGroupLedger', () => {
+        it('should net balances across receipts paid by different members', () => {
+            const receipts = [
+                makeReceipt({
+                    _id: 'r1',
+                    uploaded_by: 'alice@test.com',
+                    split_details: { '0': members, '1': ['alice@test.com'] },
+                }),
+                makeReceipt({
+                    _id: 'r2',
+                    uploaded_by: 'alice@test.com',
+                    paid_by: 'bob@test.com',
+                    split_details: { '0': ['alice@test.com', 'bob@test.com'], '1': ['charlie@test.com'] },
+                }),
+            ];
+
+            const ledger = computeGroupLedger(receipts, members);
+
+            expect(ledger.entries.map(e => e.payer)).toEqual(['alice@test.com', 'bob@test.com']);
+            // r1: alice paid 45, owes 25; bob owes 10; charlie owes 10
+            // r2: bob paid 45, owes 15; alice owes 15; charlie owes 15
+            expect(ledger.balances).toEqual({
+                'alice@test.com': 5,
+                'bob@test.com': 20,
+                'charlie@test.com': -25,
+            });
+            expect(ledger.transfers).toEqual([
+                { from: 'charlie@test.com', to: 'bob@test.com', amount: 20 },
+                { from: 'charlie@test.com', to: 'alice@test.com', amount: 5 },
+            ]);
+        });
+
+        it('should credit several payers in proportion to what they paid', () => {
+            const ledger = computeGroupLedger(
+                [
+                    makeReceipt({
+                        _id: 'r1',
+                        uploaded_by: 'alice@test.com',
+                        payments: [
+                            { email: 'alice@test.com', amount: 30 },
+                            { email: 'bob@test.com', amount: 15 },
+                        ],
+                        split_details: { '0': members, '1': members },
+                    }),
+                ],
+                members
+            );
+
+            expect(ledger.entries[0].paid).toEqual({ 'alice@test.com': 30, 'bob@test.com': 15 });
+            expect(ledger.balances).toEqual({
+                'alice@test.com': 15,
+                'bob@test.com': 0,
+                'charlie@test.com': -15,
+            });
+        });
+
+        it('should spread fees the way the split was saved', () => {
+            const receipt = makeReceipt({
+                _id: 'r1',
+                uploaded_by: 'alice@test.com',
+                split_details: { '0': ['alice@test.com'], '1': ['bob@test.com'] },
+                split_spread_mode: 'even',
+                charges_analysis: {
+                    subtotal_items: 45,
+                    fees: [{ type: 'Service', amount: 6, taxable: false }],
+                    discounts: [],
+                    total_tax_reported: 0,
+                    grand_total: 51,
+                },
+            });
+
+            // Even: 3 each, where proportional would charge bob only 2
+            expect(computeGroupLedger([receipt], members).balances['bob@test.com']).toBe(-18);
+            expect(
+                computeGroupLedger([{ ...receipt, split_spread_mode: undefined }], members).balances['bob@test.com']
+            ).toBe(-17);
+        });
+
+        it('should skip receipts that are not split or have no payer', () => {
+            const ledger = computeGroupLedger(
+                [
+                    makeReceipt({ _id: 'r1', uploaded_by: 'alice@test.com' }),
+                    makeReceipt({ _id: 'r2', split_details: { '0': ['bob@test.com'] } }),
+                ],
+                members
+            );
+
+            expect(ledger.entries).toHaveLength(0);
+            expect(ledger.skipped.map(s => s.receiptId)).toEqual(['r1', 'r2']);
+            expect(ledger.transfers).toEqual([]);
+        });
+    });
+
+    describe('validatePayments', () => {
+        it('should accept payments that add up to the grand total', () => {
+            const check = validatePayments(
+                [{ email: 'alice@test.com', amount: 30.1 }, { email: 'bob@test.com', amount: 14.9 }],
+                45
+            );
+            expect(check).toEqual({ paid: 45, remaining: 0, valid: true });
+        });
+
+        it('should report what is left to pay', () => {
+            const check = validatePayments([{ email: 'alice@test.com', amount: 40 }], 45);
+            expect(check).toEqual({ paid: 40, remaining: 5, valid: false });
+        });
+
+        it('should reject zero amounts', () => {
+            const check = validatePayments(
+                [{ email: 'alice@test.com', amount: 45 }, { email: 'bob@test.com', amount: 0 }],
+                45
+            );
+            expect(check.valid).toBe(false);
+        });
+    });
+
+    describe('computeReceiptNet', () => {
+        it('should subtract what each member owes from what they paid', () => {
+            const summary = computeSplit({
+                lines: [{ index: 0, name: 'Pizza', amount: 30 }],
+                splitMap: { '0': members },
+                members,
+            });
+            const net = computeReceiptNet(summary, [
+                { email: 'alice@test.com', amount: 20 },
+                { email: 'bob@test.com', amount: 10 },
+            ]);
+
+            expect(net).toEqual({ 'alice@test.com': 10, 'bob@test.com': 0, 'charlie@test.com': -10 });
+        });
+    });
+});
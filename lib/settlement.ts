@@ -0,0 +1,264 @@
+import type { Receipt, ReceiptPayment } from '@/types';
+import {
+  allocateCents,
+  computeSplit,
+  fromCents,
+  receiptSplitLines,
+  toCents,
+  type SplitSummary,
+} from '@/lib/split-engine';
+import { DEFAULT_CURRENCY, getConversionRate, getReceiptCurrency } from '@/lib/currency';
+
+/**
+ * Group Settlement Ledger
+ *
+ * Nets what every member paid against what they owe across all split
+ * receipts of a group, then reduces the balances to a short list of
+ * "A pays B" transfers. Everything is settled in the group's base currency.
+ *
+ * @example
+ * ```ts
+ * const ledger = computeGroupLedger(receipts, group.members.map(m => m.email), 'CAD');
+ * ledger.transfers; // [{ from: 'bob@test.com', to: 'alice@test.com', amount: 12.5 }]
+ * ```
+ */
+
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+export interface LedgerEntry {
+  receiptId: string;
+  /** The first (or only) payer */
+  payer: string;
+  /** What each payer is credited for this receipt, in the base currency */
+  paid: Record<string, number>;
+  /** Receipt total converted to the base currency */
+  total: number;
+  /** What each member owes for this receipt, in the base currency */
+  shares: Record<string, number>;
+}
+
+export interface SkippedReceipt {
+  receiptId: string;
+  reason: string;
+}
+
+export interface GroupLedger {
+  currency: string;
+  entries: LedgerEntry[];
+  /** Positive: the member is owed money. Negative: the member owes money. */
+  balances: Record<string, number>;
+  transfers: Transfer[];
+  skipped: SkippedReceipt[];
+}
+
+/**
+ * The member who paid a receipt: an explicit payer if one was recorded,
+ * otherwise whoever uploaded it.
+ */
+export function getReceiptPayer(receipt: Receipt): string | null {
+  return receipt.paid_by || receipt.uploaded_by || null;
+}
+
+/**
+ * Payments towards a receipt. Recorded payments win; otherwise the single
+ * payer from `getReceiptPayer` covered the whole bill (`amount` is null).
+ */
+export function getReceiptPayments(receipt: Receipt): { email: string; amount: number | null }[] {
+  if (receipt.payments && receipt.payments.length > 0) return receipt.payments;
+  const payer = getReceiptPayer(receipt);
+  return payer ? [{ email: payer, amount: null }] : [];
+}
+
+/**
+ * Printed grand total of a receipt, or the sum of its lines when none was read.
+ */
+export function getReceiptTotal(receipt: Receipt): number {
+  const grandTotal = receipt.charges_analysis?.grand_total;
+  if (grandTotal != null) return grandTotal;
+  return fromCents(receiptSplitLines(receipt).reduce((sum, line) => sum + toCents(line.amount), 0));
+}
+
+export interface PaymentCheck {
+  paid: number;
+  /** Still to be covered; negative when the payments exceed the total */
+  remaining: number;
+  valid: boolean;
+}
+
+/**
+ * Payments are valid when every amount is positive and they add up to the
+ * receipt's grand total to the cent.
+ */
+export function validatePayments(payments: ReceiptPayment[], grandTotal: number): PaymentCheck {
+  const paidCents = payments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  const remainingCents = toCents(grandTotal) - paidCents;
+  return {
+    paid: fromCents(paidCents),
+    remaining: fromCents(remainingCents),
+    valid: payments.length > 0 && remainingCents === 0 && payments.every((payment) => payment.amount > 0),
+  };
+}
+
+/**
+ * Each member's net position on a single receipt: what they paid minus what
+ * they owe. Positive means the others owe them.
+ */
+export function computeReceiptNet(
+  summary: SplitSummary,
+  payments: { email: string; amount: number | null }[]
+): Record<string, number> {
+  const netCents: Record<string, number> = {};
+  Object.values(summary.members).forEach(({ email, total }) => {
+    netCents[email] = -toCents(total);
+  });
+  payments.forEach(({ email, amount }) => {
+    netCents[email] = (netCents[email] ?? 0) + toCents(amount ?? summary.grandTotal);
+  });
+
+  const net: Record<string, number> = {};
+  Object.entries(netCents).forEach(([email, cents]) => {
+    net[email] = fromCents(cents);
+  });
+  return net;
+}
+
+export function isReceiptSplit(receipt: Receipt): boolean {
+  return !!receipt.split_details && Object.keys(receipt.split_details).length > 0;
+}
+
+/**
+ * Greedily settle the largest debt against the largest credit until every
+ * balance is zero. This produces at most `members - 1` transfers.
+ */
+export function simplifyDebts(balances: Record<string, number>): Transfer[] {
+  const creditors: { email: string; cents: number }[] = [];
+  const debtors: { email: string; cents: number }[] = [];
+
+  Object.entries(balances).forEach(([email, amount]) => {
+    const cents = toCents(amount);
+    if (cents > 0) creditors.push({ email, cents });
+    if (cents < 0) debtors.push({ email, cents: -cents });
+  });
+
+  const byAmount = (a: { cents: number }, b: { cents: number }) => b.cents - a.cents;
+  const transfers: Transfer[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort(byAmount);
+    debtors.sort(byAmount);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const cents = Math.min(creditor.cents, debtor.cents);
+
+    transfers.push({ from: debtor.email, to: creditor.email, amount: fromCents(cents) });
+
+    creditor.cents -= cents;
+    debtor.cents -= cents;
+    if (creditor.cents === 0) creditors.shift();
+    if (debtor.cents === 0) debtors.shift();
+  }
+
+  return transfers;
+}
+
+/**
+ * Build the ledger for a group from its receipts. Receipts that have not
+ * been split yet, or that have no known payer, are reported in `skipped`.
+ * Amounts on unassigned items stay with the payers. Receipts in another
+ * currency need a stored exchange rate to be included.
+ */
+export function computeGroupLedger(
+  receipts: Receipt[],
+  members: string[],
+  baseCurrency: string = DEFAULT_CURRENCY
+): GroupLedger {
+  const balanceCents: Record<string, number> = {};
+  members.forEach((email) => {
+    balanceCents[email] = 0;
+  });
+
+  const entries: LedgerEntry[] = [];
+  const skipped: SkippedReceipt[] = [];
+
+  receipts.forEach((receipt) => {
+    if (!isReceiptSplit(receipt)) {
+      skipped.push({ receiptId: receipt._id, reason: 'Not split yet' });
+      return;
+    }
+
+    const payments = getReceiptPayments(receipt);
+    if (payments.length === 0) {
+      skipped.push({ receiptId: receipt._id, reason: 'No payer recorded' });
+      return;
+    }
+
+    const rate = getConversionRate(receipt, baseCurrency);
+    if (rate == null) {
+      skipped.push({
+        receiptId: receipt._id,
+        reason: `No ${getReceiptCurrency(receipt)} to ${baseCurrency} rate`,
+      });
+      return;
+    }
+
+    const summary = computeSplit({
+      lines: receiptSplitLines(receipt),
+      charges: receipt.charges_analysis,
+      splitMap: receipt.split_details ?? {},
+      weights: receipt.split_weights,
+      members,
+      spreadMode: receipt.split_spread_mode,
+    });
+
+    // Convert the assigned amount once, then re-split it so shares still add up
+    const memberCents = Object.values(summary.members)
+      .filter(({ total }) => total !== 0)
+      .map(({ email, total }): [string, number] => [email, toCents(total)]);
+    const assignedCents = memberCents.reduce((sum, [, cents]) => sum + cents, 0);
+    const baseCents = allocateCents(Math.round(assignedCents * rate), memberCents);
+
+    const shares: Record<string, number> = {};
+    Object.entries(baseCents).forEach(([email, cents]) => {
+      shares[email] = fromCents(cents);
+      balanceCents[email] = (balanceCents[email] ?? 0) - cents;
+    });
+
+    // Payers are credited for the assigned amount in proportion to what they paid
+    const assignedBaseCents = Object.values(baseCents).reduce((sum, cents) => sum + cents, 0);
+    const paidCents = allocateCents(
+      assignedBaseCents,
+      payments.map(({ email, amount }): [string, number] => [email, amount == null ? 1 : toCents(amount)])
+    );
+    const paid: Record<string, number> = {};
+    Object.entries(paidCents).forEach(([email, cents]) => {
+      paid[email] = fromCents(cents);
+      balanceCents[email] = (balanceCents[email] ?? 0) + cents;
+    });
+
+    entries.push({
+      receiptId: receipt._id,
+      payer: payments[0].email,
+      paid,
+      total: fromCents(Math.round(toCents(summary.grandTotal) * rate)),
+      shares,
+    });
+  });
+
+  const balances: Record<string, number> = {};
+  Object.entries(balanceCents).forEach(([email, cents]) => {
+    balances[email] = fromCents(cents);
+  });
+
+  return {
+    currency: baseCurrency,
+    entries,
+    balances,
+    transfers: simplifyDebts(balances),
+    skipped,
+  };
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import {
+    addPercentAssignee,
+    allocateCents,
+    allocateLine,
+    checkLineWeights,
+    computeSplit,
+    evenPercentWeights,
+    UNASSIGNED,
+} from './split-engine';
+
+const members = ['alice@test.com', 'bob@test.com', 'charlie@test.com'];
+
+const lines = [
+    { index: 0, name: 'Margherita Pizza', amount: 18.5, taxable: true },
+    { index: 1, name: 'Caesar Salad', amount: 12.0, taxable: true },
+    { index: 2, name: 'Soft Drinks', amount: 8.0, taxable: false },
+];
+
+const fullSplit = {
+    '0': ['alice@test.com', 'bob@test.com'],
+    '1': ['alice@test.com'],
+    '2': ['alice@test.com', 'bob@test.com', 'charlie@test.com'],
+};
+
+const sumTotals = (summary: ReturnType<typeof computeSplit>) =>
+    Math.round(Object.values(summary.members).reduce((sum, m) => sum + m.total, 0) * 100);
+
+describe('lib/split-engine', () => {
+    describe('allocateCents', () => {
+        it('should hand leftover cents to the earliest keys', () => {
+            expect(allocateCents(800, [['a', 1], ['b', 1], ['c', 1]])).toEqual({ a: 267, b: 267, c: 266 });
+        });
+
+        it('should split in proportion to weights', () => {
+            expect(allocateCents(100, [['a', 3], ['b', 1]])).toEqual({ a: 75, b: 25 });
+        });
+
+        it('should spread evenly when all weights are zero', () => {
+            expect(allocateCents(-10, [['a', 0], ['b', 0]])).toEqual({ a: -5, b: -5 });
+        });
+    });
+
+    describe('allocateLine', () => {
+        const pair = ['alice@test.com', 'bob@test.com'];
+
+        it('should split equally without weights', () => {
+            expect(allocateLine(4000, pair)).toEqual({ 'alice@test.com': 2000, 'bob@test.com': 2000 });
+        });
+
+        it('should split by shares', () => {
+            const shares = allocateLine(3000, pair, { mode: 'shares', weights: { 'alice@test.com': 2, 'bob@test.com': 1 } });
+            expect(shares).toEqual({ 'alice@test.com': 2000, 'bob@test.com': 1000 });
+        });
+
+        it('should split by percentages', () => {
+            const shares = allocateLine(4000, pair, { mode: 'percent', weights: { 'alice@test.com': 50, 'bob@test.com': 50 } });
+            expect(shares).toEqual({ 'alice@test.com': 2000, 'bob@test.com': 2000 });
+        });
+
+        it('should split the remainder of fixed amounts evenly', () => {
+            const shares = allocateLine(4000, members, { mode: 'fixed', weights: { 'alice@test.com': 20 } });
+            expect(shares).toEqual({ 'alice@test.com': 2000, 'bob@test.com': 1000, 'charlie@test.com': 1000 });
+        });
+
+        it('should split a multi-quantity line by units', () => {
+            const units = ['alice@test.com', 'alice@test.com', 'bob@test.com', 'charlie@test.com'];
+            const shares = allocateLine(800, units, { mode: 'units', weights: {} }, 4);
+            expect(shares).toEqual({ 'alice@test.com': 400, 'bob@test.com': 200, 'charlie@test.com': 200 });
+        });
+
+        it('should price claimed units from the unit price and leave the rest unassigned', () => {
+            const shares = allocateLine(900, ['alice@test.com', 'alice@test.com', 'bob@test.com'], { mode: 'units', weights: {} }, 4, 2.5);
+            expect(shares).toEqual({ 'alice@test.com': 500, 'bob@test.com': 250, [UNASSIGNED]: 150 });
+
+            expect(allocateLine(800, ['alice@test.com'], { mode: 'units', weights: {} }, 4)).toEqual({
+                'alice@test.com': 200,
+                [UNASSIGNED]: 600,
+            });
+        });
+
+        it('should scale fixed amounts down when they exceed the line', () => {
+            const shares = allocateLine(3000, pair, { mode: 'fixed', weights: { 'alice@test.com': 30, 'bob@test.com': 30 } });
+            expect(shares).toEqual({ 'alice@test.com': 1500, 'bob@test.com': 1500 });
+        });
+    });
+
+    describe('line weights', () => {
+        it('should give a new percent assignee an even share and keep the total at 100', () => {
+            expect(evenPercentWeights(members)).toEqual({ 'alice@test.com': 33.34, 'bob@test.com': 33.33, 'charlie@test.com': 33.33 });
+            expect(addPercentAssignee({ 'alice@test.com': 75, 'bob@test.com': 25 }, members.slice(0, 2), 'charlie@test.com'))
+                .toEqual({ 'alice@test.com': 50, 'bob@test.com': 16.67, 'charlie@test.com': 33.33 });
+        });
+
+        it('should report percentages off 100 and fixed amounts off the line total', () => {
+            const pair = ['alice@test.com', 'bob@test.com'];
+            expect(checkLineWeights(40, pair, { mode: 'percent', weights: { 'alice@test.com': 60, 'bob@test.com': 30 } }))
+                .toEqual({ mode: 'percent', expected: 100, actual: 90 });
+            expect(checkLineWeights(40, pair, { mode: 'fixed', weights: { 'alice@test.com': 20, 'bob@test.com': 15 } }))
+                .toEqual({ mode: 'fixed', expected: 40, actual: 35 });
+            // Bob pays whatever Alice does not
+            expect(checkLineWeights(40, pair, { mode: 'fixed', weights: { 'alice@test.com': 20 } })).toBeNull();
+            expect(checkLineWeights(40, pair, { mode: 'fixed', weights: { 'alice@test.com': 45 } }))
+                .toEqual({ mode: 'fixed', expected: 40, actual: 45 });
+        });
+    });
+
+    describe('computeSplit', () => {
+        it('should divide items evenly without charges', () => {
+            const summary = computeSplit({ lines, splitMap: fullSplit, members });
+
+            expect(summary.members['alice@test.com'].total).toBe(23.92);
+            expect(summary.members['bob@test.com'].total).toBe(11.92);
+            expect(summary.members['charlie@test.com'].total).toBe(2.66);
+            expect(summary.grandTotal).toBe(38.5);
+        });
+
+        it('should only apply tax to taxable lines', () => {
+            const summary = computeSplit({
+                lines,
+                splitMap: fullSplit,
+                members,
+                charges: {
+                    subtotal_items: 38.5,
+                    fees: [],
+                    discounts: [],
+                    total_tax_reported: 3.97,
+                    grand_total: 42.47,
+                },
+            });
+
+            // Charlie only had drinks, which are not taxable
+            expect(summary.members['charlie@test.com'].tax).toBe(0);
+            expect(sumTotals(summary)).toBe(4247);
+        });
+
+        it('should spread fees and discounts by item subtotal and match the grand total', () => {
+            const summary = computeSplit({
+                lines,
+                splitMap: fullSplit,
+                members,
+                charges: {
+                    subtotal_items: 38.5,
+                    fees: [{ type: 'Delivery', amount: 5.0, taxable: false }],
+                    discounts: [{ description: 'Promo', amount: 3.0 }],
+                    total_tax_reported: 3.97,
+                    grand_total: 44.48,
+                },
+            });
+
+            const alice = summary.members['alice@test.com'];
+            expect(alice.fees).toBeGreaterThan(summary.members['bob@test.com'].fees);
+            expect(alice.discounts).toBeGreaterThan(0);
+            // 38.50 + 5.00 - 3.00 + 3.97 = 44.47, so one cent of rounding is absorbed
+            expect(sumTotals(summary)).toBe(4448);
+            expect(summary.unassigned).toBe(0);
+        });
+
+        it('should not add tax again for tax-inclusive receipts', () => {
+            const summary = computeSplit({
+                lines,
+                splitMap: fullSplit,
+                members,
+                charges: {
+                    subtotal_items: 38.5,
+                    fees: [],
+                    discounts: [],
+                    total_tax_reported: 4.0,
+                    grand_total: 38.5,
+                    tax_inclusive: true,
+                },
+            });
+
+            expect(summary.members['alice@test.com'].tax).toBe(0);
+            expect(summary.members['alice@test.com'].total).toBe(23.92);
+        });
+
+        it('should spread fees evenly in even mode', () => {
+            const summary = computeSplit({
+                lines,
+                splitMap: fullSplit,
+                members,
+                spreadMode: 'even',
+                charges: {
+                    subtotal_items: 38.5,
+                    fees: [{ type: 'Service', amount: 3.0, taxable: false }],
+                    discounts: [],
+                    total_tax_reported: 0,
+                    grand_total: 41.5,
+                },
+            });
+
+            members.forEach((email) => {
+                expect(summary.members[email].fees).toBe(1);
+            });
+        });
+
+        it('should apply per-item weights', () => {
+            const summary = computeSplit({
+                lines,
+                splitMap: { ...fullSplit, '0': ['alice@test.com', 'bob@test.com'] },
+                weights: { '0': { mode: 'shares', weights: { 'alice@test.com': 3, 'bob@test.com': 1 } } },
+                members,
+            });
+
+            // Pizza 3:1 -> 13.88 / 4.62
+            expect(summary.members['alice@test.com'].total).toBe(28.55);
+            expect(summary.members['bob@test.com'].total).toBe(7.29);
+        });
+
+        it('should keep the share of unassigned items separate', () => {
+            const summary = computeSplit({
+                lines,
+                splitMap: { '0': ['alice@test.com'] },
+                members,
+                charges: {
+                    subtotal_items: 38.5,
+                    fees: [],
+                    discounts: [],
+                    total_tax_reported: 3.97,
+                    grand_total: 42.47,
+                },
+            });
+
+            expect(Math.round(summary.unassigned * 100) + sumTotals(summary)).toBe(4247);
+            expect(summary.unassigned).toBeGreaterThan(20);
+        });
+    });
+});
@@ -0,0 +1,407 @@
+import type { ChargeSpreadMode, ChargesAnalysis, ItemSplitWeights, Receipt } from '@/types';
+
+/**
+ * Split Engine
+ *
+ * Turns a receipt's line items, charges and split map into per-member totals.
+ * All arithmetic happens in integer cents and every allocation uses the
+ * largest-remainder method, so member totals always add up to the receipt's
+ * grand total to the cent.
+ *
+ * @example
+ * ```ts
+ * const summary = computeSplit({
+ *   lines: [{ index: 0, name: 'Pizza', amount: 18.5, taxable: true }],
+ *   charges: receipt.charges_analysis,
+ *   splitMap: { '0': ['alice@test.com', 'bob@test.com'] },
+ *   members: ['alice@test.com', 'bob@test.com'],
+ * });
+ * summary.members['alice@test.com'].total; // 9.25 plus a share of tax and fees
+ * ```
+ */
+
+export type { ChargeSpreadMode };
+
+export interface SplitLine {
+  index: number;
+  name: string;
+  amount: number;
+  quantity?: number;
+  /** Price of one unit, used to price units when a line is split by units */
+  unitPrice?: number;
+  taxable?: boolean;
+}
+
+export interface MemberLineShare {
+  index: number;
+  name: string;
+  amount: number;
+  /** Units taken from a multi-quantity line, when split by units */
+  units?: number;
+}
+
+export interface MemberBreakdown {
+  email: string;
+  lines: MemberLineShare[];
+  items: number;
+  tax: number;
+  fees: number;
+  discounts: number;
+  adjustment: number;
+  total: number;
+}
+
+export interface SplitSummary {
+  members: Record<string, MemberBreakdown>;
+  /** Amount still attached to items nobody has been assigned to */
+  unassigned: number;
+  grandTotal: number;
+}
+
+export interface SplitInput {
+  lines: SplitLine[];
+  charges?: ChargesAnalysis | null;
+  splitMap: Record<string, string[]>;
+  /** Per-item weights; items without an entry are split equally */
+  weights?: Record<string, ItemSplitWeights>;
+  members: string[];
+  spreadMode?: ChargeSpreadMode;
+}
+
+/** Key for the part of a line or charge that nobody has been assigned to */
+export const UNASSIGNED = '__unassigned__';
+
+export function toCents(amount: number | null | undefined): number {
+  if (amount == null || !Number.isFinite(amount)) return 0;
+  return Math.round(amount * 100);
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Distribute an integer number of cents across keys in proportion to their
+ * weights. Leftover cents go to the largest fractional remainders, ties are
+ * broken by key order so the result is deterministic. When every weight is
+ * zero the amount is spread evenly.
+ */
+export function allocateCents(totalCents: number, weights: [string, number][]): Record<string, number> {
+  const result: Record<string, number> = {};
+  if (weights.length === 0) return result;
+
+  const sign = totalCents < 0 ? -1 : 1;
+  const absTotal = Math.abs(totalCents);
+  const weightSum = weights.reduce((sum, [, weight]) => sum + Math.max(weight, 0), 0);
+  const normalized: [string, number][] = weightSum > 0
+    ? weights.map(([key, weight]) => [key, Math.max(weight, 0)])
+    : weights.map(([key]) => [key, 1]);
+  const effectiveSum = weightSum > 0 ? weightSum : weights.length;
+
+  let allocated = 0;
+  const remainders = normalized.map(([key, weight], order) => {
+    const exact = (absTotal * weight) / effectiveSum;
+    const floored = Math.floor(exact);
+    result[key] = (result[key] ?? 0) + floored;
+    allocated += floored;
+    return { key, remainder: exact - floored, order };
+  });
+
+  remainders
+    .sort((a, b) => b.remainder - a.remainder || a.order - b.order)
+    .slice(0, absTotal - allocated)
+    .forEach(({ key }) => {
+      result[key] += 1;
+    });
+
+  if (sign < 0) {
+    Object.keys(result).forEach((key) => {
+      result[key] = -result[key];
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Each assignee once, with the number of times they appear. In `units`
+ * mode a line's assignees repeat a member once per unit they took, so this
+ * is their unit count.
+ */
+export function countUnits(assignees: string[]): [string, number][] {
+  const counts = new Map<string, number>();
+  assignees.forEach((email) => counts.set(email, (counts.get(email) ?? 0) + 1));
+  return Array.from(counts);
+}
+
+/**
+ * Divide one line among its assignees according to its weights.
+ * Fixed amounts are taken first and the remainder is split evenly among
+ * assignees without one; if fixed amounts exceed the line they are scaled
+ * down proportionally. In `units` mode each assignee pays for their unit
+ * count at `unitPrice` (the line's average when unknown) and units nobody
+ * claimed are returned under `UNASSIGNED`; once every unit is claimed the
+ * line total is shared by unit count.
+ */
+export function allocateLine(
+  lineCents: number,
+  assignees: string[],
+  itemWeights?: ItemSplitWeights,
+  quantity = 1,
+  unitPrice?: number
+): Record<string, number> {
+  const weightOf = (email: string, fallback: number) => {
+    const weight = itemWeights?.weights[email];
+    return weight != null && Number.isFinite(weight) ? weight : fallback;
+  };
+
+  switch (itemWeights?.mode) {
+    case 'shares':
+      return allocateCents(lineCents, assignees.map((email) => [email, weightOf(email, 1)]));
+    case 'percent':
+      return allocateCents(lineCents, assignees.map((email) => [email, weightOf(email, 0)]));
+    case 'units': {
+      const units = countUnits(assignees);
+      const claimed = assignees.length;
+      if (claimed >= quantity) return allocateCents(lineCents, units);
+
+      const unitCents = unitPrice != null ? toCents(unitPrice) : lineCents / quantity;
+      // Never price the claimed units above the line itself
+      const claimedCents = Math.sign(lineCents) * Math.min(Math.abs(Math.round(unitCents * claimed)), Math.abs(lineCents));
+      return { ...allocateCents(claimedCents, units), [UNASSIGNED]: lineCents - claimedCents };
+    }
+    case 'fixed': {
+      const fixed = assignees.filter((email) => itemWeights.weights[email] != null);
+      const rest = assignees.filter((email) => itemWeights.weights[email] == null);
+      const fixedCents = fixed.map((email): [string, number] => [email, toCents(weightOf(email, 0))]);
+      const fixedTotal = fixedCents.reduce((sum, [, cents]) => sum + cents, 0);
+
+      if (fixedTotal >= lineCents || rest.length === 0) {
+        return allocateCents(lineCents, fixedCents);
+      }
+
+      return {
+        ...Object.fromEntries(fixedCents),
+        ...allocateCents(lineCents - fixedTotal, rest.map((email) => [email, 1])),
+      };
+    }
+    default:
+      return allocateCents(lineCents, assignees.map((email) => [email, 1]));
+  }
+}
+
+/** Percentages as hundredths, so they can be allocated like cents */
+const fromHundredths = (shares: Record<string, number>) =>
+  Object.fromEntries(Object.entries(shares).map(([email, hundredths]) => [email, hundredths / 100]));
+
+/** Percent weights that split a line evenly and add up to exactly 100 */
+export function evenPercentWeights(assignees: string[]): Record<string, number> {
+  return fromHundredths(allocateCents(10000, assignees.map((email) => [email, 1])));
+}
+
+/**
+ * Percent weights after `email` joins a line split by percentage: the
+ * newcomer gets an even share and the others keep their proportions of
+ * the rest, so the total stays 100.
+ */
+export function addPercentAssignee(weights: Record<string, number>, assignees: string[], email: string): Record<string, number> {
+  const share = Math.round(10000 / (assignees.length + 1));
+  return {
+    ...fromHundredths(allocateCents(10000 - share, assignees.map((other) => [other, weights[other] ?? 0]))),
+    [email]: share / 100,
+  };
+}
+
+export interface WeightMismatch {
+  mode: 'percent' | 'fixed';
+  /** 100 for percentages, the line total for fixed amounts */
+  expected: number;
+  actual: number;
+}
+
+/**
+ * Weights that `allocateLine` would have to correct: percentages that do
+ * not add up to 100, and fixed amounts that exceed the line or, when every
+ * assignee has one, fall short of it. Null when the weights are consistent.
+ */
+export function checkLineWeights(amount: number, assignees: string[], itemWeights?: ItemSplitWeights): WeightMismatch | null {
+  const given = assignees.filter((email) => itemWeights?.weights[email] != null);
+  const total = given.reduce((sum, email) => sum + toCents(itemWeights?.weights[email]), 0);
+
+  if (itemWeights?.mode === 'percent') {
+    return Math.abs(total - 10000) > 1 ? { mode: 'percent', expected: 100, actual: fromCents(total) } : null;
+  }
+  if (itemWeights?.mode === 'fixed') {
+    const lineCents = toCents(amount);
+    const everyoneFixed = given.length === assignees.length;
+    if (total > lineCents || (everyoneFixed && total !== lineCents)) {
+      return { mode: 'fixed', expected: fromCents(lineCents), actual: fromCents(total) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the line items of a stored receipt as split lines. Legacy field
+ * names are already mapped onto `LineItem` by `ItemsAnalysisSchema`.
+ */
+export function receiptSplitLines(receipt: Receipt): SplitLine[] {
+  const lineItems = receipt.items_analysis?.line_items ?? [];
+  return lineItems.map((item, index) => ({
+    index,
+    name: item.name_raw,
+    amount: item.line_subtotal ?? (item.unit_price != null ? item.unit_price * (item.quantity ?? 1) : 0),
+    quantity: item.quantity ?? undefined,
+    unitPrice: item.unit_price ?? undefined,
+    taxable: Boolean(item.taxable),
+  }));
+}
+
+interface Bucket {
+  lines: MemberLineShare[];
+  items: number;
+  taxableBase: number;
+  tax: number;
+  fees: number;
+  discounts: number;
+  adjustment: number;
+}
+
+const emptyBucket = (): Bucket => ({
+  lines: [],
+  items: 0,
+  taxableBase: 0,
+  tax: 0,
+  fees: 0,
+  discounts: 0,
+  adjustment: 0,
+});
+
+const bucketTotal = (bucket: Bucket) =>
+  bucket.items + bucket.tax + bucket.fees - bucket.discounts + bucket.adjustment;
+
+/**
+ * Compute every member's share of a receipt.
+ *
+ * - Items are divided among their assignees by the item's weights: equally
+ *   by default, or by shares, percentages, fixed amounts or units.
+ * - Tax follows taxable lines (and taxable fees). If no line is flagged as
+ *   taxable, the reported tax is spread over all items instead. Receipts
+ *   with `tax_inclusive` charges carry no separate tax.
+ * - Fees and discounts are spread in proportion to each member's item
+ *   subtotal, or evenly across participating members in `even` mode.
+ * - Any gap between the computed total and `grand_total` (rounding on the
+ *   printed receipt) becomes a proportional adjustment.
+ */
+export function computeSplit({
+  lines,
+  charges,
+  splitMap,
+  weights = {},
+  members,
+  spreadMode = 'proportional',
+}: SplitInput): SplitSummary {
+  const buckets = new Map<string, Bucket>();
+  members.forEach((email) => buckets.set(email, emptyBucket()));
+  buckets.set(UNASSIGNED, emptyBucket());
+
+  const getBucket = (key: string) => {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = emptyBucket();
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  };
+
+  const hasTaxableLines = lines.some((line) => line.taxable);
+
+  // 1. Items
+  lines.forEach((line) => {
+    const lineCents = toCents(line.amount);
+    const key = line.index.toString();
+    const assignees = splitMap[key] ?? [];
+    const shares = assignees.length > 0
+      ? allocateLine(lineCents, assignees, weights[key], line.quantity, line.unitPrice)
+      : { [UNASSIGNED]: lineCents };
+
+    Object.entries(shares).forEach(([email, cents]) => {
+      const bucket = getBucket(email);
+      bucket.items += cents;
+      if (!hasTaxableLines || line.taxable) bucket.taxableBase += cents;
+      if (email !== UNASSIGNED && cents !== 0) {
+        const units = weights[key]?.mode === 'units' ? assignees.filter((assignee) => assignee === email).length : undefined;
+        bucket.lines.push({ index: line.index, name: line.name, amount: fromCents(cents), units });
+      }
+    });
+  });
+
+  const keys = Array.from(buckets.keys());
+  const participants = keys.filter((key) => key !== UNASSIGNED && getBucket(key).items !== 0);
+  const chargeWeights = (): [string, number][] => {
+    if (spreadMode === 'even' && participants.length > 0) {
+      return participants.map((key) => [key, 1]);
+    }
+    return keys.map((key) => [key, getBucket(key).items]);
+  };
+
+  // 2. Fees (taxable fees also widen the taxable base)
+  (charges?.fees ?? []).forEach((fee) => {
+    const shares = allocateCents(toCents(fee.amount), chargeWeights());
+    Object.entries(shares).forEach(([key, cents]) => {
+      const bucket = getBucket(key);
+      bucket.fees += cents;
+      if (fee.taxable) bucket.taxableBase += cents;
+    });
+  });
+
+  // 3. Discounts
+  (charges?.discounts ?? []).forEach((discount) => {
+    const shares = allocateCents(toCents(Math.abs(discount.amount)), chargeWeights());
+    Object.entries(shares).forEach(([key, cents]) => {
+      getBucket(key).discounts += cents;
+    });
+  });
+
+  // 4. Tax (already inside the line prices for tax-inclusive receipts)
+  const taxCents = charges?.tax_inclusive ? 0 : toCents(charges?.total_tax_reported);
+  if (taxCents !== 0) {
+    const shares = allocateCents(taxCents, keys.map((key) => [key, getBucket(key).taxableBase]));
+    Object.entries(shares).forEach(([key, cents]) => {
+      getBucket(key).tax += cents;
+    });
+  }
+
+  // 5. Reconcile with the printed grand total
+  const computedCents = keys.reduce((sum, key) => sum + bucketTotal(getBucket(key)), 0);
+  const grandTotalCents = charges?.grand_total != null ? toCents(charges.grand_total) : computedCents;
+  const gap = grandTotalCents - computedCents;
+  if (gap !== 0) {
+    const shares = allocateCents(gap, keys.map((key) => [key, bucketTotal(getBucket(key))]));
+    Object.entries(shares).forEach(([key, cents]) => {
+      getBucket(key).adjustment += cents;
+    });
+  }
+
+  const summary: SplitSummary = {
+    members: {},
+    unassigned: fromCents(bucketTotal(getBucket(UNASSIGNED))),
+    grandTotal: fromCents(grandTotalCents),
+  };
+
+  buckets.forEach((bucket, key) => {
+    if (key === UNASSIGNED) return;
+    summary.members[key] = {
+      email: key,
+      lines: bucket.lines,
+      items: fromCents(bucket.items),
+      tax: fromCents(bucket.tax),
+      fees: fromCents(bucket.fees),
+      discounts: fromCents(bucket.discounts),
+      adjustment: fromCents(bucket.adjustment),
+      total: fromCents(bucketTotal(bucket)),
+    };
+  });
+
+  return summary;
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { Receipt } from '@/types';
+import { computeSplit, receiptSplitLines } from './split-engine';
+import { splitFileName, splitToCsv, splitToHtml, splitToMarkdown, type SplitExport } from './split-export';
+import { mockReceiptWithSplit } from '../tests/fixtures/receipts';
+
+const members = ['alice@test.com', 'bob@test.com', 'charlie@test.com'];
+
+const receipt: Receipt = {
+    ...mockReceiptWithSplit,
+    currency: 'CAD',
+    items_analysis: { ...mockReceiptWithSplit.items_analysis!, merchant_name: 'Tony\'s "Pizza" & Co' },
+    charges_analysis: {
+        subtotal_items: 38.5,
+        fees: [{ type: 'Delivery', amount: 4.99, taxable: false }],
+        discounts: [{ description: 'Coupon', amount: 3 }],
+        total_tax_reported: 3.41,
+        grand_total: 43.9,
+    },
+};
+
+const build = (): SplitExport => {
+    const lines = receiptSplitLines(receipt);
+    const splitMap = receipt.split_details!;
+    return {
+        receipt,
+        lines,
+        splitMap,
+        members,
+        summary: computeSplit({ lines, charges: receipt.charges_analysis, splitMap, members }),
+    };
+};
+
+describe('lib/split-export', () => {
+    it('should write CSV rows that add up to each member total', () => {
+        const split = build();
+        const [header, ...rows] = splitToCsv(split).trim().split('\r\n').map((row) => row.split(','));
+
+        expect(header).toEqual(['Member', 'Type', 'Item', 'Units', 'Line total', 'Amount', 'Currency']);
+        expect(rows.filter((row) => row[0] === 'alice@test.com' && row[1] === 'item')).toHaveLength(3);
+        members.forEach((email) => {
+            const cents = rows
+                .filter((row) => row[0] === email)
+                .reduce((sum, row) => sum + Math.round(Number(row[5]) * 100), 0);
+            expect(cents).toBe(Math.round(split.summary.members[email].total * 100));
+        });
+    });
+
+    it('should keep spreadsheets from running item names as formulas', () => {
+        const split = build();
+        split.summary.members['alice@test.com'].lines[0].name = '=HYPERLINK("x")';
+        const csv = splitToCsv(split);
+
+        expect(csv).toContain('"\'=HYPERLINK(""x"")"');
+        expect(csv).toContain(',-');
+    });
+
+    it('should list every member total in the chat summary', () => {
+        const split = build();
+        const text = splitToMarkdown(split);
+
+        expect(text).toContain('Total: $43.90');
+        members.forEach((email) => {
+            const total = split.summary.members[email].total.toFixed(2);
+            expect(text).toContain(`- ${email}: **$${total}**`);
+        });
+    });
+
+    it('should escape receipt text in the printable page', () => {
+        const html = splitToHtml(build());
+
+        expect(html).toContain('Tony&#39;s &quot;Pizza&quot; &amp; Co');
+        expect(html).not.toContain('"Pizza"');
+        expect(html).toContain('Grand total');
+        expect(splitFileName(receipt)).toBe('split-tony-s-pizza-co-2024-01-01');
+    });
+});
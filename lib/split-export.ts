@@ -0,0 +1,241 @@
+import type { Receipt } from '@/types';
+import { formatMoney, getReceiptCurrency } from '@/lib/currency';
+import { formatCsv, spreadsheetSafe } from '@/lib/csv-import';
+import { countUnits, toCents, type SplitLine, type SplitSummary } from '@/lib/split-engine';
+
+/**
+ * Split Export
+ *
+ * Hands a split to people outside the app: a CSV with one row per member
+ * per item, a Markdown summary for group chats and a printable page that
+ * the browser saves as PDF. Every amount comes from the `SplitSummary` the
+ * splitter shows, so exports match it to the cent; in the CSV, each
+ * member's rows add up to their total.
+ *
+ * @example
+ * ```ts
+ * const split = { receipt, lines, summary, splitMap, members };
+ * downloadFile(splitToCsv(split), `${splitFileName(receipt)}.csv`, 'text/csv');
+ * await navigator.clipboard.writeText(splitToMarkdown(split));
+ * printHtml(splitToHtml(split));
+ * ```
+ */
+
+export interface SplitExport {
+  receipt: Receipt;
+  lines: SplitLine[];
+  summary: SplitSummary;
+  splitMap: Record<string, string[]>;
+  members: string[];
+}
+
+const amount = (value: number) => (toCents(value) / 100).toFixed(2);
+
+function receiptTitle(receipt: Receipt): string {
+  const merchant = receipt.items_analysis?.merchant_name || 'Receipt';
+  return `${merchant} – ${new Date(receipt.created_at).toLocaleDateString()}`;
+}
+
+/** e.g. "split-costco-2026-10-19" */
+export function splitFileName(receipt: Receipt): string {
+  const merchant = (receipt.items_analysis?.merchant_name || 'receipt')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `split-${merchant || 'receipt'}-${receipt.created_at.slice(0, 10)}`;
+}
+
+/** Members in the order given, then anyone else with a share */
+const memberOrder = ({ members, summary }: SplitExport) => [
+  ...members.filter((email) => summary.members[email]),
+  ...Object.keys(summary.members).filter((email) => !members.includes(email)),
+];
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * One row per member per item, then that member's tax, fees, discounts and
+ * rounding, so summing `Amount` by member gives their total. Item names
+ * come from OCR or other members, so formula-like text is escaped.
+ */
+export function splitToCsv(split: SplitExport): string {
+  const currency = getReceiptCurrency(split.receipt);
+  const lineTotals = new Map(split.lines.map((line) => [line.index, line.amount]));
+  const rows: (string | number)[][] = [['Member', 'Type', 'Item', 'Units', 'Line total', 'Amount', 'Currency']];
+
+  memberOrder(split).forEach((email) => {
+    const member = split.summary.members[email];
+    member.lines.forEach((line) => {
+      rows.push([email, 'item', line.name, line.units ?? '', amount(lineTotals.get(line.index) ?? 0), amount(line.amount), currency]);
+    });
+    const charges: [string, number][] = [
+      ['tax', member.tax],
+      ['fees', member.fees],
+      ['discounts', -member.discounts],
+      ['rounding', member.adjustment],
+    ];
+    charges.forEach(([type, value]) => {
+      if (toCents(value) !== 0) rows.push([email, type, '', '', '', amount(value), currency]);
+    });
+  });
+
+  return formatCsv(rows.map((row) => row.map(spreadsheetSafe)));
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+/**
+ * A short summary to paste into a group chat: each member's total with the
+ * items they had.
+ */
+export function splitToMarkdown(split: SplitExport): string {
+  const currency = getReceiptCurrency(split.receipt);
+  const money = (value: number) => formatMoney(value, currency);
+  const out = [`**${receiptTitle(split.receipt)}**`, `Total: ${money(split.summary.grandTotal)}`, ''];
+
+  memberOrder(split).forEach((email) => {
+    const member = split.summary.members[email];
+    out.push(`- ${email}: **${money(member.total)}**`);
+    if (member.lines.length > 0) {
+      const items = member.lines.map((line) => `${line.units != null ? `${line.units} × ` : ''}${line.name} ${money(line.amount)}`);
+      out.push(`  - ${items.join(', ')}`);
+    }
+    const extras = [
+      toCents(member.tax) !== 0 && `tax ${money(member.tax)}`,
+      toCents(member.fees) !== 0 && `fees ${money(member.fees)}`,
+      toCents(member.discounts) !== 0 && `discounts -${money(member.discounts)}`,
+      toCents(member.adjustment) !== 0 && `rounding ${money(member.adjustment)}`,
+    ].filter(Boolean);
+    if (extras.length > 0) out.push(`  - ${extras.join(', ')}`);
+  });
+
+  if (toCents(split.summary.unassigned) !== 0) {
+    out.push('', `Not assigned yet: ${money(split.summary.unassigned)}`);
+  }
+  return out.join('\n');
+}
+
+// ============================================
+// Printable page
+// ============================================
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const PRINT_STYLES = `
+  body { font: 12px/1.4 system-ui, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th.num, td.num { text-align: right; white-space: nowrap; }
+  tfoot td { font-weight: 600; border-bottom: none; }
+  .muted { color: #666; }
+  .images { display: flex; gap: 8px; flex-wrap: wrap; }
+  .images img { max-height: 480px; max-width: 48%; border: 1px solid #ddd; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+/**
+ * A standalone HTML document with the receipt photos, the items and who
+ * has them, and each member's total with tax and fees.
+ */
+export function splitToHtml(split: SplitExport): string {
+  const { receipt, summary } = split;
+  const currency = getReceiptCurrency(receipt);
+  const money = (value: number) => escapeHtml(formatMoney(value, currency));
+  const title = escapeHtml(receiptTitle(receipt));
+  const members = memberOrder(split);
+
+  const images = (receipt.image_urls ?? [])
+    .map((url, index) => `<img src="${escapeHtml(url)}" alt="Receipt photo ${index + 1}">`)
+    .join('');
+
+  const itemRows = split.lines
+    .map((line) => {
+      // Units mode lists a member once per unit; show each member once
+      const assignees = countUnits(split.splitMap[line.index.toString()] ?? [])
+        .map(([email]) => {
+          const share = summary.members[email]?.lines.find((memberLine) => memberLine.index === line.index);
+          return share ? `${escapeHtml(email)} (${money(share.amount)})` : escapeHtml(email);
+        })
+        .join('<br>');
+      return `<tr><td>${escapeHtml(line.name)}</td><td class="num">${line.quantity ?? ''}</td><td class="num">${money(line.amount)}</td><td>${assignees || '<span class="muted">Unassigned</span>'}</td></tr>`;
+    })
+    .join('');
+
+  const memberRows = members
+    .map((email) => {
+      const member = summary.members[email];
+      return `<tr><td>${escapeHtml(email)}</td><td class="num">${money(member.items)}</td><td class="num">${money(member.tax)}</td><td class="num">${money(member.fees)}</td><td class="num">${money(-member.discounts)}</td><td class="num">${money(member.adjustment)}</td><td class="num"><strong>${money(member.total)}</strong></td></tr>`;
+    })
+    .join('');
+
+  const unassigned =
+    toCents(summary.unassigned) !== 0
+      ? `<tr><td class="muted">Not assigned yet</td><td colspan="5"></td><td class="num">${money(summary.unassigned)}</td></tr>`
+      : '';
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="muted">Total ${money(summary.grandTotal)}</p>
+${images ? `<div class="images">${images}</div>` : ''}
+<h2>Items</h2>
+<table>
+<thead><tr><th>Item</th><th class="num">Qty</th><th class="num">Amount</th><th>Assigned to</th></tr></thead>
+<tbody>${itemRows}</tbody>
+</table>
+<h2>Totals</h2>
+<table>
+<thead><tr><th>Member</th><th class="num">Items</th><th class="num">Tax</th><th class="num">Fees</th><th class="num">Discounts</th><th class="num">Rounding</th><th class="num">Total</th></tr></thead>
+<tbody>${memberRows}${unassigned}</tbody>
+<tfoot><tr><td>Grand total</td><td colspan="5"></td><td class="num">${money(summary.grandTotal)}</td></tr></tfoot>
+</table>
+</body>
+</html>`;
+}
+
+// ============================================
+// Browser helpers
+// ============================================
+
+export function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Print a document from a hidden frame once its images have loaded; the
+ * print dialog offers "Save as PDF".
+ */
+export function printHtml(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.addEventListener('afterprint', () => frame.remove(), { once: true });
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Receipt } from '@/types';
+import { ApiError } from './api';
+import { createSyncQueue, withPendingReceiptEdits, type QueuedMutation, type SyncEntry } from './sync-queue';
+
+const makeReceipt = (updatedAt: string): Receipt => ({
+    _id: 'r1',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: updatedAt,
+    status: 'completed',
+});
+
+const split = (email: string): QueuedMutation => ({
+    kind: 'saveSplit',
+    groupId: 'g1',
+    receiptId: 'r1',
+    splitMap: { '0': [email] },
+    splitWeights: {},
+});
+
+const memoryStorage = (initial: SyncEntry[] = []) => {
+    const queues = new Map<string, SyncEntry[]>([['a@x.com', initial]]);
+    return {
+        load: vi.fn(async (user: string) => queues.get(user) ?? []),
+        save: vi.fn(async (user: string, entries: SyncEntry[]) => {
+            queues.set(user, entries);
+        }),
+        get stored() {
+            return queues.get('a@x.com');
+        },
+        queues,
+    };
+};
+
+describe('lib/sync-queue', () => {
+    it('should save right away when online', async () => {
+        const execute = vi.fn().mockResolvedValue(undefined);
+        const queue = createSyncQueue({ storage: null, execute, isOnline: () => true });
+
+        await expect(queue.submit(split('a@x.com'))).resolves.toBe('saved');
+        expect(execute).toHaveBeenCalledTimes(1);
+        expect(queue.getEntries()).toEqual([]);
+    });
+
+    it('should persist edits made offline and replay them in order', async () => {
+        let online = false;
+        const storage = memoryStorage();
+        const execute = vi.fn().mockResolvedValue(undefined);
+        const queue = createSyncQueue({ storage, user: 'a@x.com', execute, isOnline: () => online });
+
+        const move: QueuedMutation = { kind: 'moveReceipt', groupId: 'g1', folderId: 'f1' };
+        await queue.submit(split('a@x.com'));
+        await queue.submit(move);
+        // A second split of the same receipt replaces the first
+        await expect(queue.submit(split('b@x.com'))).resolves.toBe('queued');
+
+        await vi.waitFor(() => expect(storage.stored).toHaveLength(2));
+        expect(execute).not.toHaveBeenCalled();
+
+        online = true;
+        await queue.flush();
+
+        expect(execute.mock.calls.map(([mutation]) => mutation)).toEqual([split('b@x.com'), move]);
+        expect(queue.getEntries()).toEqual([]);
+    });
+
+    it('should not move a split ahead of item edits queued after the split it replaces', async () => {
+        let online = false;
+        const execute = vi.fn().mockResolvedValue(undefined);
+        const queue = createSyncQueue({ storage: null, execute, isOnline: () => online });
+
+        const items: QueuedMutation = { kind: 'updateItems', groupId: 'g1', receiptId: 'r1', lineItems: [] };
+        await queue.submit(split('a@x.com'));
+        await queue.submit(items);
+        await queue.submit(split('b@x.com'));
+        await queue.submit(split('c@x.com'));
+
+        online = true;
+        await queue.flush();
+
+        expect(execute.mock.calls.map(([mutation]) => mutation)).toEqual([split('a@x.com'), items, split('c@x.com')]);
+    });
+
+    it('should queue changes that fail for lack of a connection', async () => {
+        const execute = vi.fn()
+            .mockRejectedValueOnce(new ApiError({ endpoint: '/receipts/r1/split', code: 'network', detail: 'Offline' }))
+            .mockResolvedValueOnce(undefined);
+        const queue = createSyncQueue({ storage: null, execute, isOnline: () => true });
+
+        await expect(queue.submit(split('a@x.com'))).resolves.toBe('queued');
+        await queue.flush();
+
+        expect(execute).toHaveBeenCalledTimes(2);
+        expect(queue.getEntries()).toEqual([]);
+    });
+
+    it('should hold edits to receipts that changed on the server', async () => {
+        let online = false;
+        const execute = vi.fn().mockResolvedValue(undefined);
+        const fetchReceipt = vi.fn().mockResolvedValue(makeReceipt('2024-01-02T00:00:00Z'));
+        const queue = createSyncQueue({ storage: null, execute, fetchReceipt, isOnline: () => online });
+
+        await queue.submit(split('a@x.com'), { baseUpdatedAt: '2024-01-01T00:00:00Z' });
+        await queue.submit({ kind: 'updateItems', receiptId: 'r1', lineItems: [] });
+        online = true;
+        await queue.flush();
+
+        const [conflict, waiting] = queue.getEntries();
+        expect(conflict).toMatchObject({ status: 'conflict', serverReceipt: { updated_at: '2024-01-02T00:00:00Z' } });
+        expect(waiting).toMatchObject({ status: 'pending' });
+        expect(execute).not.toHaveBeenCalled();
+
+        // Keeping the local version overwrites the server and releases the rest
+        await queue.retry(conflict.id);
+        expect(execute).toHaveBeenCalledTimes(2);
+        expect(queue.getEntries()).toEqual([]);
+    });
+
+    it('should restore entries saved by a previous visit', async () => {
+        const stored: SyncEntry = { id: 'e1', mutation: split('a@x.com'), status: 'pending', createdAt: 0 };
+        const queue = createSyncQueue({ storage: memoryStorage([stored]), user: 'A@x.com', isOnline: () => false });
+
+        await queue.restore();
+
+        expect(queue.getEntries()).toEqual([stored]);
+        expect(withPendingReceiptEdits([makeReceipt('t')], queue.getEntries())[0].split_details).toEqual({ '0': ['a@x.com'] });
+    });
+
+    it('should report when the queue cannot be stored on this device', async () => {
+        const storage = memoryStorage();
+        const queue = createSyncQueue({ storage, user: 'a@x.com', isOnline: () => false });
+        await queue.restore();
+        storage.save.mockRejectedValueOnce(new Error('QuotaExceededError'));
+
+        await queue.submit(split('a@x.com'));
+        await vi.waitFor(() => expect(queue.getStorageError()).toMatch(/could not be stored/));
+
+        await queue.submit(split('b@x.com'));
+        await vi.waitFor(() => expect(queue.getStorageError()).toBeNull());
+    });
+
+    it('should keep each user\'s edits apart and replay them only for that user', async () => {
+        let online = false;
+        const storage = memoryStorage();
+        const execute = vi.fn().mockResolvedValue(undefined);
+        const queue = createSyncQueue({ storage, user: 'a@x.com', execute, isOnline: () => online });
+
+        await queue.submit(split('a@x.com'));
+        await vi.waitFor(() => expect(storage.stored).toHaveLength(1));
+
+        // Signing out puts the entry away; the next user starts empty
+        queue.setUser(null);
+        queue.setUser('b@x.com');
+        online = true;
+        await queue.flush();
+        expect(queue.getEntries()).toEqual([]);
+        expect(execute).not.toHaveBeenCalled();
+        expect(storage.stored).toHaveLength(1);
+
+        queue.setUser('a@x.com');
+        await vi.waitFor(() => expect(execute).toHaveBeenCalledWith(split('a@x.com')));
+        await vi.waitFor(() => expect(queue.getEntries()).toEqual([]));
+    });
+});
@@ -0,0 +1,442 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { ChargeSpreadMode, Group, ItemSplitWeights, LineItem, Receipt } from '@/types';
+import { ApiError, getReceipt } from '@/lib/api';
+import { isTransientError } from '@/lib/job-tracker';
+import { mutations } from '@/lib/queries';
+
+/**
+ * Offline Sync Queue
+ *
+ * Edits made without a connection (splits, item corrections, folder moves)
+ * are kept in IndexedDB and replayed in order once the app is back online.
+ * Before replaying a receipt edit, the receipt is compared with the version
+ * the edit was made against; if someone else changed it in the meantime the
+ * entry is parked as a conflict for the user to resolve, and later edits to
+ * that receipt wait behind it. Each account has its own queue: signing out
+ * puts the entries away until the same user signs in again, so they are
+ * never replayed with someone else's session.
+ *
+ * @example
+ * ```ts
+ * const outcome = await syncQueue.submit(
+ *   { kind: 'saveSplit', groupId, receiptId, splitMap, splitWeights, spreadMode },
+ *   { baseUpdatedAt: receipt.updated_at }
+ * );
+ * if (outcome === 'queued') toast('Saved on this device');
+ * ```
+ */
+
+export type QueuedMutation =
+  | {
+      kind: 'saveSplit';
+      groupId: string;
+      receiptId: string;
+      splitMap: Record<string, string[]>;
+      splitWeights: Record<string, ItemSplitWeights>;
+      spreadMode?: ChargeSpreadMode;
+    }
+  | { kind: 'updateItems'; groupId?: string; receiptId: string; lineItems: LineItem[] }
+  | { kind: 'moveReceipt'; groupId: string; folderId: string | null };
+
+export type SyncStatus = 'pending' | 'conflict' | 'failed';
+
+export interface SyncEntry {
+  id: string;
+  mutation: QueuedMutation;
+  status: SyncStatus;
+  createdAt: number;
+  /** Server `updated_at` of the receipt the edit was made against */
+  baseUpdatedAt?: string;
+  /** Replay without the conflict check: the user chose their version */
+  force?: boolean;
+  error?: string;
+  /** The receipt as the server has it, for conflicts */
+  serverReceipt?: Receipt;
+}
+
+/** Queues are stored per user, by lower-cased email */
+export interface SyncQueueStorage {
+  load(user: string): Promise<SyncEntry[]>;
+  save(user: string, entries: SyncEntry[]): Promise<void>;
+}
+
+export interface SyncQueueOptions {
+  storage?: SyncQueueStorage | null;
+  /** Signed-in user's email; see `setUser` */
+  user?: string | null;
+  execute?: (mutation: QueuedMutation) => Promise<unknown>;
+  fetchReceipt?: (receiptId: string) => Promise<Receipt>;
+  isOnline?: () => boolean;
+  now?: () => number;
+}
+
+export type SubmitOutcome = 'saved' | 'queued';
+
+const DB_NAME = 'kvitta';
+const STORE_NAME = 'sync-queue';
+const ENTRIES_KEY = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Each user's queue is stored as one record, so its order survives as is.
+ */
+export function createIndexedDbStorage(dbName = DB_NAME): SyncQueueStorage {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      db = promisify(request);
+    }
+    return db;
+  };
+
+  return {
+    async load(user) {
+      const store = (await open()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const entries = await promisify(store.get(`${ENTRIES_KEY}:${user}`));
+      return Array.isArray(entries) ? entries : [];
+    },
+
+    async save(user, entries) {
+      const store = (await open()).transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await promisify(store.put(entries, `${ENTRIES_KEY}:${user}`));
+    },
+  };
+}
+
+function defaultStorage() {
+  return typeof indexedDB === 'undefined' ? null : createIndexedDbStorage();
+}
+
+function defaultIsOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+function executeMutation(mutation: QueuedMutation): Promise<unknown> {
+  switch (mutation.kind) {
+    case 'saveSplit':
+      return mutations.saveSplit(
+        mutation.groupId,
+        mutation.receiptId,
+        mutation.splitMap,
+        mutation.splitWeights,
+        mutation.spreadMode
+      );
+    case 'updateItems':
+      return mutations.updateReceiptItems(mutation.groupId, mutation.receiptId, mutation.lineItems);
+    case 'moveReceipt':
+      return mutations.moveReceipt(mutation.groupId, mutation.folderId);
+  }
+}
+
+/** Edits to the same target are replayed in order; back-to-back edits of one kind replace each other */
+function targetOf(mutation: QueuedMutation): string {
+  return mutation.kind === 'moveReceipt' ? `group:${mutation.groupId}` : `receipt:${mutation.receiptId}`;
+}
+
+const isConflict = (error: unknown) => error instanceof ApiError && error.code === 'conflict';
+
+const normalizeUser = (email: string | null | undefined) => email?.trim().toLowerCase() || null;
+
+export function createSyncQueue({
+  storage = defaultStorage(),
+  user: initialUser = null,
+  execute = executeMutation,
+  fetchReceipt = getReceipt,
+  isOnline = defaultIsOnline,
+  now = Date.now,
+}: SyncQueueOptions = {}) {
+  let user = normalizeUser(initialUser);
+  let entries: SyncEntry[] = [];
+  let restored: Promise<void> | null = null;
+  let flushing: Promise<void> | null = null;
+  let saving = Promise.resolve();
+  let nextId = 0;
+  // Why the queue could not be saved to or loaded from this device, if it failed
+  let storageError: string | null = null;
+  const listeners = new Set<() => void>();
+
+  const setStorageError = (message: string | null) => {
+    if (message === storageError) return;
+    storageError = message;
+    listeners.forEach((listener) => listener());
+  };
+
+  const commit = (next: SyncEntry[]) => {
+    entries = next;
+    listeners.forEach((listener) => listener());
+    const owner = user;
+    if (!storage || !owner) return;
+    // Chained so an older snapshot never lands after a newer one
+    saving = saving
+      .then(() => storage.save(owner, next))
+      .then(
+        () => setStorageError(null),
+        () => setStorageError('Changes could not be stored on this device and are lost if you close this page.')
+      );
+  };
+
+  const update = (id: string, updates: Partial<SyncEntry>) =>
+    commit(entries.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry)));
+
+  const remove = (id: string) => commit(entries.filter((entry) => entry.id !== id));
+
+  const enqueue = (mutation: QueuedMutation, baseUpdatedAt?: string) => {
+    const target = targetOf(mutation);
+    // Only the newest entry for the target may absorb the edit; replacing an
+    // older one would replay it ahead of edits queued since
+    const latest = [...entries].reverse().find((entry) => targetOf(entry.mutation) === target);
+    const existing = latest?.status === 'pending' && latest.mutation.kind === mutation.kind ? latest : undefined;
+    if (existing) {
+      // Keep the original base: the server has not seen either edit
+      update(existing.id, { mutation });
+      return;
+    }
+    commit([
+      ...entries,
+      { id: `${now()}-${nextId++}`, mutation, status: 'pending', createdAt: now(), baseUpdatedAt },
+    ]);
+  };
+
+  const replay = async () => {
+    // Targets with an unresolved entry ahead; their later edits must wait
+    const held = new Set<string>();
+    // Receipts this run already wrote; newer server versions are ours
+    const written = new Set<string>();
+    const owner = user;
+
+    for (const { id } of entries) {
+      // Re-read: the user may have discarded or retried it meanwhile
+      const entry = entries.find((current) => current.id === id);
+      if (!entry) continue;
+      const target = targetOf(entry.mutation);
+      if (entry.status !== 'pending' || held.has(target)) {
+        held.add(target);
+        continue;
+      }
+      // Offline, or signed out mid-run: the rest waits for the next flush
+      if (!isOnline() || user !== owner) return;
+
+      const { mutation } = entry;
+      try {
+        if (mutation.kind !== 'moveReceipt' && entry.baseUpdatedAt && !entry.force && !written.has(target)) {
+          const serverReceipt = await fetchReceipt(mutation.receiptId);
+          if (serverReceipt.updated_at !== entry.baseUpdatedAt) {
+            update(entry.id, {
+              status: 'conflict',
+              serverReceipt,
+              error: 'This receipt was changed by someone else while you were offline.',
+            });
+            held.add(target);
+            continue;
+          }
+        }
+        await execute(mutation);
+        remove(entry.id);
+        written.add(target);
+      } catch (error) {
+        if (isConflict(error)) {
+          update(entry.id, { status: 'conflict', error: (error as Error).message });
+        } else if (isTransientError(error)) {
+          return; // Still offline after all; try again on the next flush
+        } else {
+          update(entry.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        }
+        held.add(target);
+      }
+    }
+  };
+
+  const queue = {
+    /** Load the entries saved by a previous visit. Safe to call repeatedly. */
+    restore(): Promise<void> {
+      if (!restored) {
+        const owner = user;
+        restored = storage && owner
+          ? storage
+              .load(owner)
+              .then((stored) => {
+                if (user !== owner) return;
+                const known = new Set(entries.map((entry) => entry.id));
+                commit([...stored.filter((entry) => !known.has(entry.id)), ...entries]);
+              })
+              .catch(() => setStorageError('Changes left from an earlier visit could not be loaded.'))
+          : Promise.resolve();
+      }
+      return restored;
+    },
+
+    /**
+     * Switch to the queue of the signed-in user, or put the entries away
+     * when `email` is null. A returning user's entries are loaded and replayed.
+     */
+    setUser(email: string | null | undefined) {
+      const next = normalizeUser(email);
+      if (next === user) return;
+      const previousRun = flushing;
+      user = next;
+      restored = null;
+      entries = [];
+      storageError = null;
+      listeners.forEach((listener) => listener());
+      if (user) {
+        void queue
+          .restore()
+          .then(() => previousRun)
+          .then(() => (isOnline() ? queue.flush() : undefined));
+      }
+    },
+
+    /**
+     * Save a change now, or queue it when offline. Changes also queue
+     * behind older ones so the server sees them in order.
+     */
+    async submit(mutation: QueuedMutation, { baseUpdatedAt }: { baseUpdatedAt?: string } = {}): Promise<SubmitOutcome> {
+      await queue.restore();
+      const target = targetOf(mutation);
+      const mustWait = entries.some((entry) => entry.status === 'pending' || targetOf(entry.mutation) === target);
+
+      if (isOnline() && !mustWait) {
+        try {
+          await execute(mutation);
+          return 'saved';
+        } catch (error) {
+          if (isConflict(error) || !isTransientError(error)) throw error;
+        }
+      }
+
+      enqueue(mutation, baseUpdatedAt);
+      if (isOnline()) void queue.flush();
+      return 'queued';
+    },
+
+    /** Replay pending entries in order. Concurrent calls share one run. */
+    flush(): Promise<void> {
+      if (!flushing) {
+        flushing = queue
+          .restore()
+          .then(replay)
+          .finally(() => {
+            flushing = null;
+          });
+      }
+      return flushing;
+    },
+
+    /** Replay a conflicting or failed entry as it is, overwriting the server */
+    retry(id: string) {
+      update(id, { status: 'pending', force: true, error: undefined, serverReceipt: undefined });
+      return queue.flush();
+    },
+
+    /** Drop an entry and keep what the server has */
+    discard(id: string) {
+      remove(id);
+      return queue.flush();
+    },
+
+    getEntries(): SyncEntry[] {
+      return entries;
+    },
+
+    getStorageError(): string | null {
+      return storageError;
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return queue;
+}
+
+export type SyncQueue = ReturnType<typeof createSyncQueue>;
+
+export const syncQueue = createSyncQueue();
+
+// ============================================
+// Local view of unsynced changes
+// ============================================
+
+/** Entries that still describe what the user sees */
+const isUnsynced = (entry: SyncEntry) => entry.status !== 'failed';
+
+/**
+ * Receipts as the user left them: queued splits and item edits applied on
+ * top of what the server returned.
+ */
+export function withPendingReceiptEdits(receipts: Receipt[], entries: SyncEntry[]): Receipt[] {
+  const edits = entries.filter((entry) => isUnsynced(entry) && entry.mutation.kind !== 'moveReceipt');
+  if (edits.length === 0) return receipts;
+
+  return receipts.map((receipt) =>
+    edits.reduce((current, { mutation }) => {
+      if (mutation.kind === 'moveReceipt' || mutation.receiptId !== current._id) return current;
+      if (mutation.kind === 'saveSplit') {
+        return {
+          ...current,
+          split_details: mutation.splitMap,
+          split_weights: mutation.splitWeights,
+          split_spread_mode: mutation.spreadMode ?? current.split_spread_mode,
+        };
+      }
+      return { ...current, items_analysis: { ...current.items_analysis, line_items: mutation.lineItems } };
+    }, receipt)
+  );
+}
+
+/** Groups with queued folder moves applied */
+export function withPendingMoves(groups: Group[], entries: SyncEntry[]): Group[] {
+  const moves = new Map<string, string | null>();
+  entries.forEach((entry) => {
+    if (entry.mutation.kind === 'moveReceipt' && isUnsynced(entry)) {
+      moves.set(entry.mutation.groupId, entry.mutation.folderId);
+    }
+  });
+  if (moves.size === 0) return groups;
+
+  return groups.map((group) => (moves.has(group.id) ? { ...group, folder_id: moves.get(group.id) } : group));
+}
+
+// ============================================
+// Hooks
+// ============================================
+
+const NO_ENTRIES: SyncEntry[] = [];
+
+export function useSyncQueue(queue: SyncQueue = syncQueue): SyncEntry[] {
+  return useSyncExternalStore(queue.subscribe, queue.getEntries, () => NO_ENTRIES);
+}
+
+export function useSyncQueueStorageError(queue: SyncQueue = syncQueue): string | null {
+  return useSyncExternalStore(queue.subscribe, queue.getStorageError, () => null);
+}
+
+const subscribeToConnection = (listener: () => void) => {
+  window.addEventListener('online', listener);
+  window.addEventListener('offline', listener);
+  return () => {
+    window.removeEventListener('online', listener);
+    window.removeEventListener('offline', listener);
+  };
+};
+
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToConnection, defaultIsOnline, () => true);
+}
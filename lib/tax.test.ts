@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+    computeLineTax,
+    computeTaxTotals,
+    DEFAULT_TAX_PROFILE_ID,
+    describeTaxProfile,
+    getTaxClasses,
+    getTaxProfile,
+    resolveTaxProfile,
+} from './tax';
+
+describe('lib/tax', () => {
+    it('should default to Ontario HST', () => {
+        expect(getTaxProfile(undefined).id).toBe(DEFAULT_TAX_PROFILE_ID);
+        expect(getTaxProfile('unknown').id).toBe(DEFAULT_TAX_PROFILE_ID);
+        expect(computeLineTax(10, { taxable: true }, getTaxProfile()).tax).toBe(1.3);
+    });
+
+    it('should prefer the receipt profile over the group profile', () => {
+        expect(resolveTaxProfile({ tax_profile_id: 'ca-bc' }, { tax_profile_id: 'ca-qc' }).id).toBe('ca-bc');
+        expect(resolveTaxProfile(null, { tax_profile_id: 'ca-qc' }).id).toBe('ca-qc');
+    });
+
+    it('should add every component on exclusive profiles', () => {
+        const breakdown = computeLineTax(10, { taxable: true }, getTaxProfile('ca-bc'));
+        expect(breakdown).toEqual({
+            net: 10,
+            tax: 1.2,
+            gross: 11.2,
+            components: [{ name: 'GST', amount: 0.5 }, { name: 'PST', amount: 0.7 }],
+        });
+    });
+
+    it('should not tax exempt lines', () => {
+        expect(computeLineTax(10, { taxable: false }, getTaxProfile('ca-bc')).tax).toBe(0);
+    });
+
+    it('should back tax out of inclusive prices by tax class', () => {
+        const vat = getTaxProfile('eu-fr-vat');
+        expect(getTaxClasses(vat)).toEqual(['standard', 'intermediate', 'reduced']);
+        expect(computeLineTax(12, { taxable: true }, vat)).toMatchObject({ net: 10, tax: 2, gross: 12 });
+        expect(computeLineTax(10.55, { taxable: true, tax_class: 'reduced' }, vat).tax).toBe(0.55);
+    });
+
+    it('should total components across lines', () => {
+        const totals = computeTaxTotals(
+            [
+                { amount: 12, taxable: true },
+                { amount: 10.55, taxable: true, tax_class: 'reduced' },
+                { amount: 5, taxable: false },
+            ],
+            getTaxProfile('eu-fr-vat')
+        );
+        expect(totals.tax).toBe(2.55);
+        expect(totals.gross).toBe(27.55);
+        expect(totals.components).toEqual([
+            { name: 'VAT 20%', amount: 2 },
+            { name: 'VAT 10%', amount: 0 },
+            { name: 'VAT 5.5%', amount: 0.55 },
+        ]);
+    });
+
+    it('should describe profiles', () => {
+        expect(describeTaxProfile(getTaxProfile('us-ny-nyc'))).toBe('NY State 4% + NYC 4.5% + MCTD 0.375%');
+        expect(describeTaxProfile(getTaxProfile('eu-de-vat'))).toBe('VAT 19% / VAT 7% (incl.)');
+    });
+});
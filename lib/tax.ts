@@ -0,0 +1,193 @@
+import type { Group, Receipt, TaxComponent, TaxProfile } from '@/types';
+
+/**
+ * Tax profiles
+ *
+ * A profile lists the taxes levied on a line (HST, GST + PST, state + city
+ * sales tax, VAT at several rates) and whether prices already include them.
+ * Lines pick the components that apply through their tax class; untaxed
+ * lines pay nothing. Receipts use their own profile, then their group's,
+ * then `DEFAULT_TAX_PROFILE_ID`.
+ *
+ * @example
+ * ```ts
+ * const profile = getTaxProfile('ca-bc');
+ * computeLineTax(10, { taxable: true }, profile);
+ * // { net: 10, tax: 1.2, gross: 11.2, components: [{ name: 'GST', amount: 0.5 }, { name: 'PST', amount: 0.7 }] }
+ * ```
+ */
+
+export const DEFAULT_TAX_CLASS = 'standard';
+
+export const DEFAULT_TAX_PROFILE_ID = 'ca-on-hst';
+
+export const TAX_PROFILES: TaxProfile[] = [
+  { id: 'ca-on-hst', name: 'Ontario HST', inclusive: false, components: [{ name: 'HST', rate: 0.13 }] },
+  {
+    id: 'ca-bc',
+    name: 'British Columbia GST + PST',
+    inclusive: false,
+    components: [{ name: 'GST', rate: 0.05 }, { name: 'PST', rate: 0.07 }],
+  },
+  {
+    id: 'ca-qc',
+    name: 'Quebec GST + QST',
+    inclusive: false,
+    components: [{ name: 'GST', rate: 0.05 }, { name: 'QST', rate: 0.09975 }],
+  },
+  { id: 'ca-ab-gst', name: 'Alberta GST', inclusive: false, components: [{ name: 'GST', rate: 0.05 }] },
+  {
+    id: 'us-ny-nyc',
+    name: 'New York City sales tax',
+    inclusive: false,
+    components: [
+      { name: 'NY State', rate: 0.04 },
+      { name: 'NYC', rate: 0.045 },
+      { name: 'MCTD', rate: 0.00375 },
+    ],
+  },
+  {
+    id: 'us-wa-seattle',
+    name: 'Seattle sales tax',
+    inclusive: false,
+    components: [{ name: 'WA State', rate: 0.065 }, { name: 'Seattle', rate: 0.0385 }],
+  },
+  {
+    id: 'eu-fr-vat',
+    name: 'France VAT',
+    inclusive: true,
+    components: [
+      { name: 'VAT 20%', rate: 0.2, classes: ['standard'] },
+      { name: 'VAT 10%', rate: 0.1, classes: ['intermediate'] },
+      { name: 'VAT 5.5%', rate: 0.055, classes: ['reduced'] },
+    ],
+  },
+  {
+    id: 'eu-de-vat',
+    name: 'Germany VAT',
+    inclusive: true,
+    components: [
+      { name: 'VAT 19%', rate: 0.19, classes: ['standard'] },
+      { name: 'VAT 7%', rate: 0.07, classes: ['reduced'] },
+    ],
+  },
+  { id: 'none', name: 'No tax', inclusive: false, components: [] },
+];
+
+export interface TaxableLine {
+  taxable?: boolean;
+  tax_class?: string;
+}
+
+export interface TaxComponentAmount {
+  name: string;
+  amount: number;
+}
+
+export interface TaxBreakdown {
+  net: number;
+  tax: number;
+  gross: number;
+  components: TaxComponentAmount[];
+}
+
+export function getTaxProfile(id?: string | null): TaxProfile {
+  return (
+    TAX_PROFILES.find((profile) => profile.id === id) ??
+    TAX_PROFILES.find((profile) => profile.id === DEFAULT_TAX_PROFILE_ID)!
+  );
+}
+
+/**
+ * Profile for a receipt: its own choice, else its group's, else the default.
+ */
+export function resolveTaxProfile(
+  receipt?: Pick<Receipt, 'tax_profile_id' | 'charges_analysis'> | null,
+  group?: Pick<Group, 'tax_profile_id'> | null
+): TaxProfile {
+  return getTaxProfile(
+    receipt?.tax_profile_id || receipt?.charges_analysis?.tax_profile_id || group?.tax_profile_id
+  );
+}
+
+/**
+ * Tax classes a profile distinguishes, e.g. ['standard', 'reduced'] for VAT.
+ */
+export function getTaxClasses(profile: TaxProfile): string[] {
+  const classes = new Set<string>();
+  profile.components.forEach((component) => {
+    (component.classes ?? [DEFAULT_TAX_CLASS]).forEach((taxClass) => classes.add(taxClass));
+  });
+  return classes.size > 0 ? Array.from(classes) : [DEFAULT_TAX_CLASS];
+}
+
+function appliesTo(component: TaxComponent, line: TaxableLine): boolean {
+  if (!line.taxable) return false;
+  return (component.classes ?? [DEFAULT_TAX_CLASS]).includes(line.tax_class || DEFAULT_TAX_CLASS);
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Tax on one line. For inclusive profiles `amount` is the gross price and
+ * the tax is backed out of it; otherwise tax is added on top.
+ */
+export function computeLineTax(amount: number, line: TaxableLine, profile: TaxProfile): TaxBreakdown {
+  const applicable = profile.components.filter((component) => appliesTo(component, line));
+  const totalRate = applicable.reduce((sum, component) => sum + component.rate, 0);
+  const net = profile.inclusive ? amount / (1 + totalRate) : amount;
+
+  const components = applicable.map((component) => ({
+    name: component.name,
+    amount: round2(net * component.rate),
+  }));
+  const tax = round2(components.reduce((sum, component) => sum + component.amount, 0));
+
+  return profile.inclusive
+    ? { net: round2(amount - tax), tax, gross: amount, components }
+    : { net: amount, tax, gross: round2(amount + tax), components };
+}
+
+/**
+ * Sum of `computeLineTax` over several lines, with per-component totals in
+ * profile order.
+ */
+export function computeTaxTotals(
+  lines: (TaxableLine & { amount: number })[],
+  profile: TaxProfile
+): TaxBreakdown {
+  const totals = new Map<string, number>(profile.components.map((component) => [component.name, 0]));
+  let net = 0;
+  let tax = 0;
+  let gross = 0;
+
+  lines.forEach((line) => {
+    const breakdown = computeLineTax(line.amount, line, profile);
+    net += breakdown.net;
+    tax += breakdown.tax;
+    gross += breakdown.gross;
+    breakdown.components.forEach((component) => {
+      totals.set(component.name, (totals.get(component.name) ?? 0) + component.amount);
+    });
+  });
+
+  return {
+    net: round2(net),
+    tax: round2(tax),
+    gross: round2(gross),
+    components: Array.from(totals, ([name, amount]) => ({ name, amount: round2(amount) })),
+  };
+}
+
+/**
+ * Short label such as "GST 5% + PST 7%" or "VAT 20% / VAT 5.5% (incl.)"
+ */
+export function describeTaxProfile(profile: TaxProfile): string {
+  if (profile.components.length === 0) return 'No tax';
+  const classes = getTaxClasses(profile);
+  const parts = profile.components.map((component) => {
+    const percent = `${Number((component.rate * 100).toFixed(3))}%`;
+    return component.name.includes(percent) ? component.name : `${component.name} ${percent}`;
+  });
+  return parts.join(classes.length > 1 ? ' / ' : ' + ') + (profile.inclusive ? ' (incl.)' : '');
+}
@@ -0,0 +1,78 @@
+/**
+ * Kvitta Service Worker
+ *
+ * Keeps the app shell available offline so receipts can be opened and
+ * edited without a connection (edits are queued by lib/sync-queue.ts).
+ * - Pages: network first, falling back to the last cached copy
+ * - Build assets and icons: cache first; their URLs change with each build
+ * - API calls and non-GET requests are never cached
+ *
+ * Bump CACHE_VERSION to drop every cache from older releases.
+ */
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `kvitta-shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `kvitta-assets-${CACHE_VERSION}`;
+const SHELL_URLS = ['/', '/dashboard', '/upload', '/split', '/settle', '/manifest.webmanifest', '/icons/icon.svg'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('kvitta-') && key !== SHELL_CACHE && key !== ASSET_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    // Query strings (?receiptId=...) are handled client-side
+    const cached = (await cache.match(request, { ignoreSearch: true })) || (await cache.match('/dashboard'));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // The API lives on another origin and has its own offline handling
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
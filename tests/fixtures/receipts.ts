@@ -1,33 +1,30 @@
 import type { Receipt } from '@/types';
 
 export const mockReceipt: Receipt = {
-    id: 'receipt-123',
-    user_email: 'test@example.com',
+    _id: 'receipt-123',
     created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
     items_analysis: {
         line_items: [
             {
-                description: 'Margherita Pizza',
-                total_price: 18.50,
+                name_raw: 'Margherita Pizza',
                 quantity: 1,
-                index: 0,
+                unit_price: 18.50,
+                line_subtotal: 18.50,
             },
             {
-                description: 'Caesar Salad',
-                total_price: 12.00,
+                name_raw: 'Caesar Salad',
                 quantity: 2,
-                index: 1,
+                unit_price: 6.00,
+                line_subtotal: 12.00,
             },
             {
-                description: 'Soft Drinks',
-                total_price: 8.00,
+                name_raw: 'Soft Drinks',
                 quantity: 4,
-                index: 2,
+                unit_price: 2.00,
+                line_subtotal: 8.00,
             },
         ],
-        total: 38.50,
-        tax: 3.08,
-        tip: 7.00,
     },
     split_details: {},
     status: 'completed',
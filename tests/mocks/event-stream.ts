@@ -0,0 +1,23 @@
+import { HttpResponse } from 'msw';
+import type { ReceiptEvent } from '@/types';
+
+/**
+ * Build a `text/event-stream` response that sends the given receipt events
+ * and then closes, so handlers can stand in for the `/events` endpoint.
+ */
+export function createMockEventStream(events: ReceiptEvent[]) {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+        start(controller) {
+            controller.enqueue(encoder.encode(': connected\n\n'));
+            events.forEach((event) => {
+                controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+            });
+            controller.close();
+        },
+    });
+
+    return new HttpResponse(stream, {
+        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+    });
+}
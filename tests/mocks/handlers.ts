@@ -1,6 +1,7 @@
 import { http, HttpResponse } from 'msw';
+import { createMockEventStream } from './event-stream';
 
-const API_BASE = 'https://kvitta-api-7d3pprqtaq-uc.a.run.app';
+const API_BASE = 'http://localhost:8000';
 
 export const handlers = [
     // Auth endpoints
@@ -58,6 +59,7 @@ export const handlers = [
             id: params.id,
             user_email: 'test@example.com',
             created_at: '2024-01-01T00:00:00Z',
+            updated_at: '2024-01-01T00:00:00Z',
             items_analysis: {
                 line_items: [
                     {
@@ -106,4 +108,22 @@ export const handlers = [
             },
         ]);
     }),
+
+    // Receipt events
+    http.get(`${API_BASE}/events`, () => {
+        return createMockEventStream([
+            { type: 'receipt.status', receipt_id: 'receipt-123', group_id: 'group-123', status: 'completed' },
+        ]);
+    }),
+
+    http.get(`${API_BASE}/events/poll`, ({ request }) => {
+        const since = new URL(request.url).searchParams.get('since');
+
+        return HttpResponse.json({
+            events: since ? [] : [
+                { type: 'receipt.status', receipt_id: 'receipt-123', group_id: 'group-123', status: 'completed' },
+            ],
+            cursor: 'cursor-1',
+        });
+    }),
 ];
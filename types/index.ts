@@ -14,9 +14,12 @@
 
 export interface LineItem {
   name_raw: string;
-  quantity: number;
+  quantity: number | null;
   unit_price: number | null;
   line_subtotal: number | null;
+  taxable?: boolean;
+  tax_class?: string; // Tax profile class, defaults to 'standard' when taxable
+  image_index?: number; // Uploaded photo the line was read from, when the OCR reports it
 }
 
 export interface Fee {
@@ -38,20 +41,21 @@ export interface OcrResponse {
   full_text?: string | null;
   items_text?: string;
   charges_text?: string;
-  items_analysis?: ItemsAnalysis | string | null;
-  charges_analysis?: ChargesAnalysis | string | null;
+  items_analysis?: ItemsAnalysis | null;
+  charges_analysis?: ChargesAnalysis | null;
   success?: boolean;
 }
 
 /**
- * Parsed items analysis
+ * Parsed items analysis, normalized by `ItemsAnalysisSchema`
  */
 export interface ItemsAnalysis {
   line_items: LineItem[];
+  merchant_name?: string;
 }
 
 /**
- * Parsed charges analysis
+ * Parsed charges analysis, normalized by `ChargesAnalysisSchema`
  */
 export interface ChargesAnalysis {
   subtotal_items: number | null;
@@ -59,6 +63,54 @@ export interface ChargesAnalysis {
   discounts: Discount[];
   total_tax_reported: number | null;
   grand_total: number | null;
+  currency?: string | null; // ISO 4217 code, when detected on the receipt
+  tax_profile_id?: string | null; // Profile used to compute total_tax_reported
+  tax_inclusive?: boolean; // Line prices already include total_tax_reported
+}
+
+// ============================================
+// Tax Profiles
+// ============================================
+
+/**
+ * One tax levied on a line, e.g. GST or a city sales tax.
+ * `classes` lists the tax classes it applies to (defaults to ['standard']).
+ */
+export interface TaxComponent {
+  name: string;
+  rate: number; // 0.05 = 5%
+  classes?: string[];
+}
+
+/**
+ * A tax regime such as Ontario HST, BC GST+PST or French VAT.
+ * `inclusive` profiles treat line prices as already containing tax.
+ */
+export interface TaxProfile {
+  id: string;
+  name: string;
+  inclusive: boolean;
+  components: TaxComponent[];
+}
+
+// ============================================
+// Classification Rules
+// ============================================
+
+export type LineKind = 'item' | 'fee' | 'discount';
+
+/**
+ * Sorts imported rows into items, fees and discounts. `word` patterns
+ * match whole words or phrases, case-insensitively; `regex` patterns are
+ * tested as written (case-insensitive). Rules with a `merchant` only apply
+ * to that merchant's receipts and win over the general ones.
+ */
+export interface ClassificationRule {
+  id: string;
+  match: 'word' | 'regex';
+  pattern: string;
+  kind: LineKind;
+  merchant?: string | null;
 }
 
 // ============================================
@@ -89,12 +141,28 @@ export interface ReceiptCardProps {
 // Utility Types
 // ============================================
 
+/**
+ * Machine-readable reason an API call failed
+ */
+export type ApiErrorCode =
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'bad_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'server';
+
 /**
  * API Error response structure
  */
 export interface ApiError {
   detail: string;
-  status?: number;
+  status?: number; // 0 when no response was received
+  code?: ApiErrorCode;
 }
 
 /**
@@ -136,12 +204,90 @@ export interface Receipt {
   folder_id?: string;
   group_id?: string;
   uploaded_by?: string;
-  items_analysis?: any; // JSON from LLM
-  charges_analysis?: any; // JSON from LLM
+  paid_by?: string | null; // Explicit payer, falls back to uploaded_by
+  payments?: ReceiptPayment[]; // Who paid how much, overrides paid_by when set
+  items_analysis?: ItemsAnalysis | null; // Normalized LLM output
+  charges_analysis?: ChargesAnalysis | null;
   split_details?: Record<string, string[]>; // item_index -> user_ids
+  split_weights?: Record<string, ItemSplitWeights>; // item_index -> weights, missing = equal split
+  split_spread_mode?: ChargeSpreadMode; // How fees and discounts are spread, defaults to proportional
+  currency?: string; // ISO 4217 code, defaults to DEFAULT_CURRENCY
+  exchange_rate?: ExchangeRate | null; // Receipt currency -> group base currency
+  tax_profile_id?: string | null; // Overrides the group's tax profile
+  image_urls?: string[]; // Uploaded photos, when the backend kept them
+  charges_image_url?: string; // Photo of the totals (charges_image), when the backend kept it
   updated_at: string;
 }
 
+/**
+ * One payment towards a receipt, in the receipt's currency. Several
+ * payments cover bills paid with more than one card.
+ */
+export interface ReceiptPayment {
+  email: string;
+  amount: number;
+}
+
+/**
+ * Exchange rate stored with a receipt: 1 `base` = `rate` `quote`
+ */
+export interface ExchangeRate {
+  base: string;
+  quote: string;
+  rate: number;
+  source: 'manual' | 'imported';
+  as_of: string;
+}
+
+/**
+ * How a line item is divided among its assignees
+ * - equal: everyone pays the same
+ * - shares: proportional to share counts (e.g. 2:1)
+ * - percent: percentages that add up to 100
+ * - fixed: fixed amounts, the remainder is split evenly among the rest
+ * - units: whole units of a multi-quantity line (e.g. 2 of 4 drinks). The
+ *   line's `split_details` entry lists a member once per unit they took
+ *   and `weights` stays empty.
+ */
+export type SplitWeightMode = 'equal' | 'shares' | 'percent' | 'fixed' | 'units';
+
+export interface ItemSplitWeights {
+  mode: SplitWeightMode;
+  weights: Record<string, number>; // email -> shares, percent or amount
+}
+
+/**
+ * How fees and discounts are spread over a receipt's members
+ * - proportional: in proportion to each member's item subtotal
+ * - even: the same amount for every member with items
+ */
+export type ChargeSpreadMode = 'proportional' | 'even';
+
+// ============================================
+// Receipt Events
+// ============================================
+
+/**
+ * Pushed by the backend when a receipt changes. `receipt` carries the
+ * updated document when the server has it at hand.
+ */
+export type ReceiptEvent =
+  | { type: 'receipt.status'; receipt_id: string; group_id?: string; status: Receipt['status']; receipt?: Receipt }
+  | { type: 'receipt.added'; receipt_id: string; group_id: string; receipt?: Receipt }
+  | {
+      type: 'split.updated';
+      receipt_id: string;
+      group_id?: string;
+      split_details: Record<string, string[]>;
+      split_weights?: Record<string, ItemSplitWeights>;
+      split_spread_mode?: ChargeSpreadMode;
+    };
+
+export interface ReceiptEventBatch {
+  events: ReceiptEvent[];
+  cursor: string; // Pass back as `since` to get only newer events
+}
+
 export interface ReceiptCreateInput {
   name: string;
   description?: string;
@@ -174,8 +320,46 @@ export interface Group {
   members: ReceiptMember[];
   folder_id?: string | null;
   receipt_ids?: string[];
+  base_currency?: string; // Currency the group settles in
+  tax_profile_id?: string | null; // Default tax profile for the group's receipts
 }
 
 export type GroupRole = ReceiptRole;
 export type GroupMember = ReceiptMember;
 export type GroupCreateInput = ReceiptCreateInput;
+
+export interface GroupUpdateInput {
+  name?: string;
+  description?: string | null;
+  folder_id?: string | null;
+  base_currency?: string;
+  tax_profile_id?: string | null;
+}
+
+// `expired` is also derived client-side once `expires_at` has passed
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'expired';
+
+/**
+ * An invitation to join a group. Email invitations are addressed to one
+ * person; link invitations have no email and can be used by anyone with
+ * the code until they expire or are revoked.
+ */
+export interface GroupInvitation {
+  id: string;
+  group_id: string;
+  group_name: string;
+  email: string | null;
+  code: string;
+  role: GroupRole;
+  status: InvitationStatus;
+  invited_by: string;
+  created_at: string;
+  expires_at: string | null; // null = never expires
+  accepted_by?: string[]; // Who joined through a link invitation
+}
+
+export interface InvitationCreateInput {
+  email?: string; // Omit for a shareable link
+  role: GroupRole;
+  expires_in_days?: number | null;
+}